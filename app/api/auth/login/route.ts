@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { createSession, setSessionCookie, verifyPassword } from '@/lib/auth';
+
+const loginSchema = z.object({
+  email: z.string().email('Invalid email address').trim().toLowerCase(),
+  password: z.string().min(1, 'Password is required'),
+});
+
+/**
+ * POST /api/auth/login
+ * Signs a user in with email and password and starts a session.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = loginSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const { email, password } = validation.data;
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user || !verifyPassword(password, user.passwordHash)) {
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+
+    const { token, expiresAt } = await createSession(user.id);
+
+    const response = NextResponse.json({
+      data: { id: user.id, email: user.email, name: user.name },
+    });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Failed to sign in:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
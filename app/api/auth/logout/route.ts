@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { destroySession } from '@/lib/auth';
+import { SESSION_COOKIE } from '@/lib/session';
+
+/**
+ * POST /api/auth/logout
+ * Ends the current session and clears the session cookie.
+ */
+export async function POST() {
+  try {
+    const token = cookies().get(SESSION_COOKIE)?.value;
+    if (token) {
+      await destroySession(token);
+    }
+
+    const response = new NextResponse(null, { status: 204 });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Failed to sign out:', error);
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getCurrentRestaurant } from '@/lib/restaurant';
+
+/**
+ * GET /api/auth/me
+ * Returns the signed-in user and their role in the current restaurant.
+ */
+export async function GET() {
+  try {
+    const [user, restaurant] = await Promise.all([getCurrentUser(), getCurrentRestaurant()]);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      data: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        restaurant: restaurant ? { id: restaurant.id, name: restaurant.name } : null,
+        role: restaurant?.role ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch current user:', error);
+    return NextResponse.json({ error: 'Failed to fetch current user' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { createSession, hashPassword, setSessionCookie } from '@/lib/auth';
+
+const setupSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name cannot exceed 100 characters').trim(),
+  email: z.string().email('Invalid email address').trim().toLowerCase(),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  restaurantName: z.string().max(100, 'Restaurant name cannot exceed 100 characters').trim().optional(),
+});
+
+/**
+ * GET /api/auth/setup
+ * Reports whether the first owner account still needs to be created.
+ */
+export async function GET() {
+  try {
+    const userCount = await prisma.user.count();
+    return NextResponse.json({ data: { needsSetup: userCount === 0 } });
+  } catch (error) {
+    console.error('Failed to check setup status:', error);
+    return NextResponse.json({ error: 'Failed to check setup status' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/auth/setup
+ * Creates the first owner account. The owner is given access to every
+ * existing restaurant, or to a new one when the database is empty.
+ * Only available while no users exist.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = setupSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const { name, email, password, restaurantName } = validation.data;
+
+    const user = await prisma.$transaction(async (tx) => {
+      if ((await tx.user.count()) > 0) return null;
+
+      let restaurants = await tx.restaurant.findMany({ select: { id: true } });
+      if (restaurants.length === 0) {
+        restaurants = [
+          await tx.restaurant.create({
+            data: { name: restaurantName || 'My Restaurant' },
+            select: { id: true },
+          }),
+        ];
+      }
+
+      return tx.user.create({
+        data: {
+          name,
+          email,
+          passwordHash: hashPassword(password),
+          memberships: {
+            create: restaurants.map((restaurant) => ({ role: 'OWNER', restaurantId: restaurant.id })),
+          },
+        },
+      });
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'Setup has already been completed' }, { status: 409 });
+    }
+
+    const { token, expiresAt } = await createSession(user.id);
+
+    const response = NextResponse.json(
+      { data: { id: user.id, email: user.email, name: user.name } },
+      { status: 201 }
+    );
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Failed to complete setup:', error);
+    return NextResponse.json({ error: 'Failed to complete setup' }, { status: 500 });
+  }
+}
@@ -1,28 +1,31 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAiInsights } from '@/lib/ai';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { loadRecipeGraph } from '@/lib/recipes';
+import { getWasteReport } from '@/lib/waste';
+import { getExpiringLots } from '@/lib/purchases';
+import { getLaborCompliance } from '@/lib/labor';
+import { calculatePlateCost, countedSaleEntries, needsReorder } from '@/utils/calculations';
 
-interface RecipeWithIngredients {
-  id: string;
-  name: string;
-  fixedPrice: number | null;
-  ingredients: {
-    quantityUsed: number;
-    inventoryItem: {
-      unitPrice: number;
-    };
-  }[];
+// Net sales of a range of entries, with each day counted once
+function sumNetSales(entries: { date: Date; hourStartsAt: Date | null; netSales: number }[]) {
+  return countedSaleEntries(entries).reduce((total, entry) => total + entry.netSales, 0);
 }
 
 export async function GET() {
   try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
     // Fetch necessary data from the database
-    const [totalRevenue, totalExpenses, recipes] = await Promise.all([
-      prisma.saleEntry.aggregate({
-        _sum: {
-          netSales: true,
-        },
+    const [monthSales, totalExpenses, recipes, itemSales] = await Promise.all([
+      prisma.saleEntry.findMany({
+        select: { date: true, hourStartsAt: true, netSales: true },
         where: {
+          restaurantId,
           date: {
             gte: new Date(new Date().setDate(1)), // Current month
           },
@@ -33,32 +36,31 @@ export async function GET() {
           amount: true,
         },
         where: {
+          restaurantId,
           createdAt: {
             gte: new Date(new Date().setDate(1)), // Current month
           },
         },
       }),
-      prisma.recipe.findMany({
-        include: {
-          ingredients: {
-            include: {
-              inventoryItem: true,
-            },
+      loadRecipeGraph(restaurantId).then((graph) => Array.from(graph.values())),
+      prisma.menuItemSale.groupBy({
+        by: ['recipeId'],
+        _sum: {
+          quantity: true,
+        },
+        where: {
+          restaurantId,
+          date: {
+            gte: new Date(new Date().setDate(1)), // Current month
           },
         },
-      }) as unknown as RecipeWithIngredients[],
+      }),
     ]);
 
-    // Calculate COGS (Cost of Goods Sold)
-    // Note: This is a simplified calculation - you might want to track actual recipe usage
-    const cogs = (recipes as unknown as RecipeWithIngredients[]).reduce((total: number, recipe: RecipeWithIngredients) => {
-      const itemCost = recipe.ingredients.reduce((sum: number, { quantityUsed, inventoryItem }) => {
-        return sum + (inventoryItem.unitPrice * quantityUsed);
-      }, 0);
-      // Using a default of 10 sales per recipe for demo purposes
-      // In a real app, you'd track actual sales
-      const salesThisMonth = 10; // This should come from your sales data
-      return total + (itemCost * salesThisMonth);
+    // Calculate COGS (Cost of Goods Sold) from the menu items actually sold this month
+    const soldThisMonth = new Map(itemSales.map((sale) => [sale.recipeId, sale._sum.quantity || 0]));
+    const cogs = recipes.reduce((total, recipe) => {
+      return total + (calculatePlateCost(recipe) * (soldThisMonth.get(recipe.id) || 0));
     }, 0);
 
     // Calculate labor cost
@@ -67,6 +69,7 @@ export async function GET() {
         totalWages: true,
       },
       where: {
+        restaurantId,
         date: {
           gte: new Date(new Date().setDate(1)), // Current month
         },
@@ -74,7 +77,7 @@ export async function GET() {
     });
 
     // Calculate metrics
-    const revenue = totalRevenue._sum.netSales || 0;
+    const revenue = sumNetSales(monthSales);
     const expenses = totalExpenses._sum.amount || 0;
     const laborCostTotal = laborCost._sum.totalWages || 0;
     const netProfit = revenue - expenses - cogs - laborCostTotal;
@@ -90,11 +93,10 @@ export async function GET() {
     prevMonthEnd.setMonth(prevMonthEnd.getMonth() - 1);
     prevMonthEnd.setDate(0);
 
-    const prevMonthRevenue = await prisma.saleEntry.aggregate({
-      _sum: {
-        netSales: true,
-      },
+    const prevMonthSales = await prisma.saleEntry.findMany({
+      select: { date: true, hourStartsAt: true, netSales: true },
       where: {
+        restaurantId,
         date: {
           gte: prevMonthStart,
           lte: prevMonthEnd,
@@ -102,16 +104,14 @@ export async function GET() {
       },
     });
 
-    const prevRevenue = prevMonthRevenue._sum.netSales || 0;
+    const prevRevenue = sumNetSales(prevMonthSales);
     const revenueChange = prevRevenue > 0 ? ((revenue - prevRevenue) / prevRevenue) * 100 : 0;
 
     // Get high food cost recipes for AI insights
-    const highCostRecipes = (recipes as unknown as RecipeWithIngredients[])
+    const highCostRecipes = recipes
       .filter(recipe => recipe.fixedPrice !== null)
       .map(recipe => {
-        const itemCost = recipe.ingredients.reduce((sum, { quantityUsed, inventoryItem }) => {
-          return sum + (inventoryItem.unitPrice * quantityUsed);
-        }, 0);
+        const itemCost = calculatePlateCost(recipe);
         const price = recipe.fixedPrice || 1; // Avoid division by zero
         const costPercentage = (itemCost / price) * 100;
         return { name: recipe.name, costPercentage };
@@ -119,13 +119,24 @@ export async function GET() {
       .filter(recipe => recipe.costPercentage > 35); // Flag recipes with >35% food cost
 
     // Get low inventory items for AI insights
-    const lowInventory = await prisma.inventoryItem.findMany({
-      where: {
-        quantity: {
-          lte: 10, // Assuming 10 is the par level - adjust as needed
+    const lowInventory = (
+      await prisma.inventoryItem.findMany({
+        where: {
+          restaurantId,
+          OR: [{ reorderPoint: { not: null } }, { parLevel: { not: null } }],
         },
-      },
-    });
+      })
+    ).filter(needsReorder);
+
+    // Flag lots past their use-by date
+    const expiredLots = (await getExpiringLots(restaurantId, 0)).filter((lot) => lot.status === 'EXPIRED');
+
+    // Get the last 30 days of logged waste for AI insights
+    const waste = await getWasteReport(restaurantId, new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), new Date());
+
+    // Check this week's shifts against the labor rules while overtime can still be avoided
+    const labor = await getLaborCompliance(restaurantId, new Date());
+    const projectedOvertime = labor.employees.filter((employee) => employee.projectedOvertimeHours > 0);
 
     // Generate AI insights using the new AI service
     const aiInsights = await getAiInsights({
@@ -139,17 +150,41 @@ export async function GET() {
       lowInventoryItems: lowInventory.map(item => ({
         name: item.name,
         quantity: item.quantity
-      }))
+      })),
+      waste: {
+        totalCost: waste.totalCost,
+        byReason: waste.byReason,
+        topItems: waste.byItem.slice(0, 3),
+      },
+      laborCompliance: {
+        violations: labor.violations.length,
+        overtimeHours: labor.summary.overtimeHours,
+        premiumPay: labor.summary.premiumPay,
+        projectedOvertime: projectedOvertime.map((employee) => ({
+          name: employee.employeeName,
+          hours: employee.projectedOvertimeHours,
+        })),
+      },
     });
 
-    // Combine AI insights with system alerts
+    // Combine AI insights with system alerts; labor alerts come first as they
+    // only help before the week closes
     const insights = [
+      ...(labor.violations.length > 0 ? [
+        `Labor law: ${labor.violations.length} ${labor.violations.length === 1 ? 'violation' : 'violations'} this week (${Array.from(new Set(labor.violations.map(v => v.employeeName))).join(', ')}).`
+      ] : []),
+      ...(projectedOvertime.length > 0 ? [
+        `Projected overtime: ${projectedOvertime.map(e => `${e.employeeName} (${e.projectedOvertimeHours.toFixed(1)} hours)`).join(', ')}.`
+      ] : []),
       ...aiInsights,
       ...(highCostRecipes.length > 0 ? [
         `High food cost recipes: ${highCostRecipes.map(r => `"${r.name}" (${r.costPercentage.toFixed(1)}%)`).join(', ')}.`
       ] : []),
       ...(lowInventory.length > 0 ? [
         `Low inventory: ${lowInventory.map(i => i.name).join(', ')}.`
+      ] : []),
+      ...(expiredLots.length > 0 ? [
+        `Expired stock: ${expiredLots.length} ${expiredLots.length === 1 ? 'lot' : 'lots'} worth $${expiredLots.reduce((total, lot) => total + lot.value, 0).toFixed(2)} past its use-by date.`
       ] : [])
     ].slice(0, 5); // Limit to 5 insights total
 
@@ -0,0 +1,105 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+// Blank optional fields are stored as null
+const optionalText = (max: number, message: string) =>
+  z.string().max(max, message).trim().transform((value) => value || null).nullable();
+
+const updateEmployeeSchema = z.object({
+  name: z.string()
+    .min(1, 'Employee name is required')
+    .max(255, 'Employee name cannot exceed 255 characters')
+    .trim(),
+  email: z.string()
+    .trim()
+    .email('Invalid email address')
+    .or(z.literal('').transform(() => null))
+    .nullable(),
+  phone: optionalText(50, 'Phone number cannot exceed 50 characters'),
+  hourlyRate: z.number()
+    .min(0, 'Hourly rate cannot be negative')
+    .max(10000, 'Hourly rate is too high'),
+  positionId: z.string().cuid('Invalid position ID').nullable(),
+  active: z.boolean(),
+}).partial();
+
+/**
+ * PATCH /api/employees/[id]
+ * Updates an employee's details, or marks them inactive when they leave.
+ * A new hourly rate applies to shifts logged from then on.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updateEmployeeSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const existingEmployee = restaurantId
+      ? await prisma.employee.findFirst({ where: { id: params.id, restaurantId }, select: { id: true } })
+      : null;
+    if (!restaurantId || !existingEmployee) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+    }
+
+    const { positionId } = validation.data;
+    if (positionId) {
+      const position = await prisma.position.findFirst({ where: { id: positionId, restaurantId }, select: { id: true } });
+      if (!position) {
+        return NextResponse.json({ error: 'Position not found' }, { status: 404 });
+      }
+    }
+
+    const employee = await prisma.employee.update({
+      where: { id: existingEmployee.id },
+      data: validation.data,
+      include: { position: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json({ data: employee });
+  } catch (error) {
+    console.error('Failed to update employee:', error);
+    return NextResponse.json({ error: 'Failed to update employee' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/employees/[id]
+ * Removes an employee who has never worked a shift. Employees with shifts
+ * are kept for their labor history and should be marked inactive instead.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const existingEmployee = restaurantId
+      ? await prisma.employee.findFirst({ where: { id: params.id, restaurantId }, select: { id: true } })
+      : null;
+    if (!existingEmployee) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+    }
+
+    await prisma.employee.delete({ where: { id: existingEmployee.id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete employee:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2003') {
+      return NextResponse.json(
+        { error: 'Employee has worked shifts and cannot be deleted; mark them inactive instead' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ error: 'Failed to delete employee' }, { status: 500 });
+  }
+}
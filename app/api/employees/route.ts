@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+// Blank optional fields are stored as null
+const optionalText = (max: number, message: string) =>
+  z.string().max(max, message).trim().transform((value) => value || null).nullable().optional();
+
+const createEmployeeSchema = z.object({
+  name: z.string()
+    .min(1, 'Employee name is required')
+    .max(255, 'Employee name cannot exceed 255 characters')
+    .trim(),
+  email: z.string()
+    .trim()
+    .email('Invalid email address')
+    .or(z.literal('').transform(() => null))
+    .nullable()
+    .optional(),
+  phone: optionalText(50, 'Phone number cannot exceed 50 characters'),
+  hourlyRate: z.number()
+    .min(0, 'Hourly rate cannot be negative')
+    .max(10000, 'Hourly rate is too high'),
+  positionId: z.string().cuid('Invalid position ID').nullable().optional(),
+});
+
+const getEmployeesQuerySchema = z.object({
+  active: z.enum(['true', 'false', 'all']).optional(),
+  positionId: z.string().optional(),
+});
+
+/**
+ * GET /api/employees
+ * Lists the current restaurant's employees by name.
+ * Query Parameters:
+ * - active?: 'true' | 'false' | 'all' (default: 'true')
+ * - positionId?: string
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getEmployeesQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { active = 'true', positionId } = validation.data;
+    const employees = await prisma.employee.findMany({
+      where: {
+        restaurantId,
+        ...(active !== 'all' && { active: active === 'true' }),
+        ...(positionId && { positionId }),
+      },
+      include: { position: { select: { id: true, name: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ data: employees });
+  } catch (error) {
+    console.error('Failed to fetch employees:', error);
+    return NextResponse.json({ error: 'Failed to fetch employees' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/employees
+ * Adds an employee to the current restaurant's roster.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = createEmployeeSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { positionId } = validation.data;
+    if (positionId) {
+      const position = await prisma.position.findFirst({ where: { id: positionId, restaurantId }, select: { id: true } });
+      if (!position) {
+        return NextResponse.json({ error: 'Position not found' }, { status: 404 });
+      }
+    }
+
+    const employee = await prisma.employee.create({
+      data: { ...validation.data, restaurantId },
+      include: { position: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json({ data: employee }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create employee:', error);
+    return NextResponse.json({ error: 'Failed to create employee' }, { status: 500 });
+  }
+}
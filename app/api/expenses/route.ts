@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
 
 // Enhanced validation schema
 const createExpenseSchema = z.object({
@@ -15,34 +16,34 @@ const createExpenseSchema = z.object({
     errorMap: () => ({ message: 'Invalid frequency' })
   }),
   category: z.string().min(1, 'Category is required'),
+  vendorId: z.string().cuid('Invalid vendor ID').nullable().optional(),
   date: z.string().datetime('Invalid date format'),
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
 });
 
 // Query parameters schema
 const getExpensesQuerySchema = z.object({
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   category: z.string().optional(),
   minAmount: z.string().optional(),
   maxAmount: z.string().optional(),
   frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY', 'ONE_TIME']).optional(),
+  vendorId: z.string().optional(),
   limit: z.string().optional(),
   offset: z.string().optional(),
 });
 
 /**
  * GET /api/expenses
- * Fetches expenses with filtering and pagination.
+ * Fetches expenses for the current restaurant with filtering and pagination.
  * Query Parameters:
- * - restaurantId: string (required)
  * - startDate?: ISO date string
  * - endDate?: ISO date string
  * - category?: string
  * - minAmount?: number
  * - maxAmount?: number
  * - frequency?: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY' | 'ONE_TIME'
+ * - vendorId?: string
  * - limit?: number (for pagination)
  * - offset?: number (for pagination)
  */
@@ -61,14 +62,19 @@ export async function GET(request: Request) {
       );
     }
 
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
     const {
-      restaurantId,
       startDate,
       endDate,
       category,
       minAmount,
       maxAmount,
       frequency,
+      vendorId,
       limit,
       offset,
     } = validation.data;
@@ -84,6 +90,7 @@ export async function GET(request: Request) {
     
     if (category) where.category = category;
     if (frequency) where.frequency = frequency;
+    if (vendorId) where.vendorId = vendorId;
     
     if (minAmount || maxAmount) {
       where.amount = {};
@@ -101,6 +108,7 @@ export async function GET(request: Request) {
     // Fetch paginated results
     const expenses = await prisma.expense.findMany({
       where,
+      include: { vendor: { select: { id: true, name: true } } },
       orderBy: { createdAt: 'desc' }, // Using createdAt instead of date to match schema
       take,
       skip,
@@ -145,7 +153,7 @@ export async function GET(request: Request) {
 
 /**
  * POST /api/expenses
- * Creates a new expense with validation and error handling.
+ * Creates a new expense for the current restaurant with validation and error handling.
  */
 export async function POST(request: Request) {
   try {
@@ -186,25 +194,28 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check if restaurant exists
-    const restaurantExists = await prisma.restaurant.findUnique({
-      where: { id: expenseData.restaurantId },
-      select: { id: true }
-    });
-
-    if (!restaurantExists) {
-      console.error('Restaurant not found:', expenseData.restaurantId);
+    // Expenses always belong to the current restaurant
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
       return NextResponse.json(
         { error: 'Restaurant not found' },
         { status: 404 }
       );
     }
 
+    if (expenseData.vendorId) {
+      const vendor = await prisma.vendor.findFirst({ where: { id: expenseData.vendorId, restaurantId }, select: { id: true } });
+      if (!vendor) {
+        return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+      }
+    }
+
     // Create the expense with transaction for data consistency
     const newExpense = await prisma.$transaction(async (tx) => {
       // Map the data to match the Prisma schema
       const expenseInput = {
         ...expenseData,
+        restaurantId,
         date: expenseDate,
         // Ensure all required fields are included
         category: expenseData.category || 'UNCATEGORIZED',
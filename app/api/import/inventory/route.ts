@@ -1,8 +1,14 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { recordPurchase } from '@/lib/purchases';
+import { updateInventoryValue } from '@/lib/costing';
+import { getCurrentUser } from '@/lib/auth';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+import { findOrCreateVendor } from '@/lib/vendors';
+import { normalizeUnit } from '@/utils/units';
 import { z } from 'zod';
 import { parse } from 'csv-parse/sync';
-import { InventoryItem } from '@prisma/client';
 
 const inventoryItemSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -10,16 +16,24 @@ const inventoryItemSchema = z.object({
   category: z.string().min(1, 'Category is required'),
   quantity: z.preprocess((a) => parseInt(z.string().parse(a), 10), z.number().min(0, 'Quantity must be non-negative')),
   unitPrice: z.preprocess((a) => parseFloat(z.string().parse(a)), z.number().min(0, 'Unit price must be non-negative')),
-  totalCost: z.preprocess((a) => parseFloat(z.string().parse(a)), z.number().min(0, 'Total cost must be non-negative')),
-  vendor: z.string().optional(),
+  vendor: z.string().trim().optional(),
+  storageLocation: z.string().optional(),
+  // Optional columns may be present but left blank
+  parLevel: z.preprocess((a) => (a ? parseFloat(z.string().parse(a)) : undefined), z.number().min(0, 'Par level must be non-negative').optional()),
+  reorderPoint: z.preprocess((a) => (a ? parseFloat(z.string().parse(a)) : undefined), z.number().min(0, 'Reorder point must be non-negative').optional()),
+  inventoryUnit: z.string().min(1).transform(normalizeUnit).optional(),
+  purchaseUnit: z.string().min(1).transform(normalizeUnit).optional(),
+  recipeUnit: z.string().min(1).transform(normalizeUnit).optional(),
   purchasedAt: z.preprocess((a) => new Date(z.string().parse(a)), z.date()),
+  lotNumber: z.preprocess((a) => a || undefined, z.string().optional()),
+  expiresAt: z.preprocess((a) => (a ? new Date(z.string().parse(a)) : undefined), z.date().optional()),
 });
 
 export async function POST(request: Request) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
-    const restaurantId = formData.get('restaurantId') as string;
+    const restaurantId = await getCurrentRestaurantId();
 
     if (!file) {
       return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
@@ -35,23 +49,87 @@ export async function POST(request: Request) {
       skip_empty_lines: true,
     });
 
-        const validationPromises = records.map(async (record: Record<string, string>) => {
+    const userId = (await getCurrentUser())?.id;
+
+    // Vendors are matched by name and added to the directory when new
+    const vendorIds = new Map<string, string>();
+    for (const record of records as Record<string, string>[]) {
+      const name = record.vendor?.trim();
+      if (name && !vendorIds.has(name)) {
+        vendorIds.set(name, await findOrCreateVendor(prisma, restaurantId, name));
+      }
+    }
+
+    // Rows are imported one at a time so a SKU listed more than once sees the rows before it
+    let successfulImports = 0;
+    for (const record of records as Record<string, string>[]) {
       const validation = inventoryItemSchema.safeParse(record);
-      if (validation.success) {
-        return prisma.inventoryItem.create({
+      if (!validation.success) {
+        console.error('Invalid record:', validation.error.flatten());
+        continue;
+      }
+
+      const { vendor, lotNumber, expiresAt, ...itemData } = validation.data;
+      const { quantity, unitPrice, purchasedAt } = itemData;
+      const vendorId = vendor ? vendorIds.get(vendor) ?? null : null;
+
+      await prisma.$transaction(async (tx) => {
+        // A SKU that already exists is a new delivery of that item
+        const existingItem = await tx.inventoryItem.findUnique({
+          where: { restaurantId_sku: { restaurantId, sku: itemData.sku } },
+        });
+        if (existingItem) {
+          const lot = await recordPurchase(tx, existingItem, { quantity, unitPrice, vendorId, lotNumber, purchasedAt, expiresAt });
+          await recordInventoryTransaction(tx, {
+            inventoryItemId: existingItem.id,
+            restaurantId,
+            type: 'PURCHASE',
+            quantity,
+            cost: lot.totalCost,
+            occurredAt: purchasedAt,
+            userId,
+            sourceType: 'PurchaseLot',
+            sourceId: lot.id,
+            notes: 'Inventory import',
+          });
+          return;
+        }
+
+        const item = await tx.inventoryItem.create({
           data: {
-            ...validation.data,
+            ...itemData,
+            vendorId,
             restaurantId,
+            totalCost: 0, // Valued from its cost layer below
+            purchaseLots: {
+              create: [{
+                source: 'OPENING',
+                quantity,
+                remainingQuantity: quantity,
+                unitPrice,
+                totalCost: quantity * unitPrice,
+                vendorId,
+                lotNumber,
+                purchasedAt,
+                expiresAt,
+              }],
+            },
           },
         });
-      } else {
-        console.error('Invalid record:', validation.error.flatten());
-        return Promise.resolve(null);
-      }
-    });
-
-    const results = await Promise.all(validationPromises);
-        const successfulImports = results.filter((r: InventoryItem | null): r is InventoryItem => r !== null).length;
+        const totalCost = await updateInventoryValue(tx, item.id);
+        await recordInventoryTransaction(tx, {
+          inventoryItemId: item.id,
+          restaurantId,
+          type: 'OPENING',
+          quantity,
+          cost: totalCost,
+          occurredAt: purchasedAt,
+          userId,
+          notes: 'Inventory import',
+        });
+      });
+      successfulImports += 1;
+    }
 
     return NextResponse.json(
       {
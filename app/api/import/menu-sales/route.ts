@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { startOfUtcDay } from '@/lib/utils';
+import { loadRecipeGraph } from '@/lib/recipes';
+import { recordSalesDepletion } from '@/lib/depletion';
+import { z } from 'zod';
+import { parse } from 'csv-parse/sync';
+
+// Rows name the menu item either by recipe name or by recipeId
+const menuItemSaleSchema = z.object({
+  date: z.preprocess((a) => new Date(z.string().parse(a)), z.date()),
+  recipe: z.string().optional(),
+  recipeId: z.string().optional(),
+  quantity: z.preprocess((a) => parseInt(z.string().parse(a), 10), z.number().int().min(0, 'Quantity must be non-negative')),
+}).refine((row) => row.recipe || row.recipeId, { message: 'Recipe or recipeId is required' });
+
+/**
+ * POST /api/import/menu-sales
+ * Imports daily quantities sold per menu item from a CSV file.
+ * Expected columns: date, recipe (or recipeId), quantity.
+ * Rows for the same item and day are added together, and re-importing a day
+ * replaces the quantities recorded for it earlier. The ingredients sold are
+ * taken out of stock as one sales depletion, which rolls back the import if
+ * reversed.
+ */
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const restaurantId = await getCurrentRestaurantId();
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+    }
+
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const fileContent = await file.text();
+    const records: Record<string, string>[] = parse(fileContent, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+    });
+
+    const recipes = await prisma.recipe.findMany({
+      where: { restaurantId },
+      select: { id: true, name: true },
+    });
+    const recipeIds = new Set(recipes.map((r) => r.id));
+    const recipesByName = new Map(recipes.map((r) => [r.name.toLowerCase(), r.id]));
+
+    const totals = new Map<string, { recipeId: string; date: Date; quantity: number }>();
+    const unmatchedRecipes = new Set<string>();
+    let validRecords = 0;
+
+    for (const record of records) {
+      const validation = menuItemSaleSchema.safeParse(record);
+      if (!validation.success || isNaN(validation.data.date.getTime())) {
+        console.error('Invalid record:', validation.success ? 'Invalid date' : validation.error.flatten());
+        continue;
+      }
+
+      const { recipe, quantity } = validation.data;
+      const recipeId = validation.data.recipeId
+        ? (recipeIds.has(validation.data.recipeId) ? validation.data.recipeId : undefined)
+        : recipesByName.get(recipe!.toLowerCase());
+
+      if (!recipeId) {
+        unmatchedRecipes.add(validation.data.recipeId || recipe!);
+        continue;
+      }
+
+      const date = startOfUtcDay(validation.data.date);
+      const key = `${recipeId}:${date.toISOString()}`;
+      const existing = totals.get(key);
+      totals.set(key, { recipeId, date, quantity: (existing?.quantity ?? 0) + quantity });
+      validRecords++;
+    }
+
+    const recipeGraph = await loadRecipeGraph(restaurantId);
+    const userId = (await getCurrentUser())?.id ?? null;
+    const depletion = totals.size > 0
+      ? await prisma.$transaction(
+          (tx) => recordSalesDepletion(tx, restaurantId, Array.from(totals.values()), recipeGraph, 'IMPORT', userId),
+          { timeout: 60000 }
+        )
+      : null;
+
+    return NextResponse.json(
+      {
+        message: `Successfully imported ${validRecords} of ${records.length} records.`,
+        success: true,
+        unmatchedRecipes: Array.from(unmatchedRecipes),
+        depletion,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Failed to import menu item sales:', error);
+    return NextResponse.json({ error: 'Failed to import menu item sales' }, { status: 500 });
+  }
+}
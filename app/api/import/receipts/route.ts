@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { findOrCreateVendor } from '@/lib/vendors';
 import { parse } from 'papaparse';
 import { Readable } from 'stream';
 
@@ -7,12 +9,13 @@ export async function POST(request: Request) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
-    const type = formData.get('type') as 'receipts' | 'inventory' | 'sales';
-    const restaurantId = formData.get('restaurantId') as string;
+    // Inventory is imported through /api/import/inventory, which keeps cost layers and the ledger
+    const type = formData.get('type') as 'receipts' | 'sales';
+    const restaurantId = await getCurrentRestaurantId();
 
     if (!file || !type || !restaurantId) {
       return NextResponse.json(
-        { error: 'File, type, and restaurantId are required' },
+        { error: 'File, type, and a current restaurant are required' },
         { status: 400 }
       );
     }
@@ -35,9 +38,6 @@ export async function POST(request: Request) {
       case 'receipts':
         await processReceipts(results, restaurantId);
         break;
-      case 'inventory':
-        await processInventory(results, restaurantId);
-        break;
       case 'sales':
         await processSales(results, restaurantId);
         break;
@@ -63,18 +63,21 @@ export async function POST(request: Request) {
 }
 
 async function processReceipts(rows: any[], restaurantId: string) {
+  // Vendors are matched by name and added to the directory when new
+  const vendorIds = new Map<string, string>();
+  for (const row of rows) {
+    const name = row.vendor?.trim();
+    if (name && !vendorIds.has(name)) {
+      vendorIds.set(name, await findOrCreateVendor(prisma, restaurantId, name));
+    }
+  }
+
   const expenses = rows.map(row => ({
-    vendor: row.vendor || 'Unknown',
+    vendorId: vendorIds.get(row.vendor?.trim()) ?? null,
     amount: parseFloat(row.amount || '0'),
-    date: new Date(row.date || Date.now()),
-    category: row.category || 'Uncategorized',
     description: row.description || `Expense from ${row.vendor || 'unknown vendor'}`,
-    frequency: 'ONE_TIME', // Assuming 'ONE_TIME' is a valid enum value
-    paymentMethod: row.paymentMethod || 'OTHER',
-    referenceNumber: row.referenceNumber || `EXP-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-    notes: row.notes || 'Imported from CSV',
+    frequency: 'ONE_TIME',
     restaurantId,
-    userId: 'system-import' // Default user ID for imports
   }));
 
   await prisma.expense.createMany({
@@ -83,28 +86,6 @@ async function processReceipts(rows: any[], restaurantId: string) {
   });
 }
 
-async function processInventory(rows: any[], restaurantId: string) {
-  const items = rows.map(row => ({
-    name: row.name || 'Unnamed Item',
-    category: row.category || 'Uncategorized',
-    quantity: parseFloat(row.quantity || '0'),
-    unit: row.unit || 'each',
-    unitPrice: parseFloat(row.unitPrice || '0'),
-    sku: row.sku || `ITEM-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-    totalCost: parseFloat(row.totalCost) || (parseFloat(row.unitPrice || '0') * parseFloat(row.quantity || '0')),
-    purchasedAt: new Date(row.date || Date.now()),
-    restaurantId,
-    supplier: row.supplier || 'Unknown',
-    reorderPoint: parseFloat(row.reorderPoint || '0') || null,
-    notes: row.notes || ''
-  }));
-
-  await prisma.inventoryItem.createMany({
-    data: items,
-    skipDuplicates: true
-  });
-}
-
 async function processSales(rows: any[], restaurantId: string) {
   const sales = rows.map(row => ({
     date: new Date(row.date || Date.now()),
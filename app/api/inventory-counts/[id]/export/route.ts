@@ -0,0 +1,62 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { unparse } from 'papaparse';
+import { findInventoryCount } from '@/lib/inventory-counts';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+/**
+ * GET /api/inventory-counts/[id]/export
+ * Downloads the count sheet as CSV, grouped by category.
+ * Query Parameters:
+ * - groupBy?: 'category' | 'location' (default: 'category')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const count = restaurantId ? await findInventoryCount(params.id, restaurantId) : null;
+    if (!count) {
+      return NextResponse.json({ error: 'Inventory count not found' }, { status: 404 });
+    }
+
+    const groupBy = request.nextUrl.searchParams.get('groupBy') === 'location' ? 'location' : 'category';
+    const groupOf = (line: (typeof count.lines)[number]) =>
+      groupBy === 'location'
+        ? line.inventoryItem.storageLocation || 'Unassigned'
+        : line.inventoryItem.category;
+
+    const rows = [...count.lines]
+      .sort((a, b) =>
+        groupOf(a).localeCompare(groupOf(b)) ||
+        a.inventoryItem.name.localeCompare(b.inventoryItem.name)
+      )
+      .map((line) => {
+        const variance = line.countedQuantity === null
+          ? null
+          : line.countedQuantity - line.onHandQuantity;
+        return {
+          [groupBy === 'location' ? 'Storage Location' : 'Category']: groupOf(line),
+          Item: line.inventoryItem.name,
+          SKU: line.inventoryItem.sku,
+          Unit: line.inventoryItem.inventoryUnit,
+          'On Hand': line.onHandQuantity,
+          Counted: line.countedQuantity ?? '',
+          Variance: variance ?? '',
+          'Variance Cost': variance === null ? '' : (variance * line.unitPrice).toFixed(2),
+        };
+      });
+
+    const filename = `${count.name.replace(/[^a-z0-9-_]+/gi, '-')}-${groupBy}.csv`;
+
+    return new NextResponse(unparse(rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export inventory count:', error);
+    return NextResponse.json({ error: 'Failed to export inventory count' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { adjustInventoryQuantity } from '@/lib/costing';
+import { findInventoryCount } from '@/lib/inventory-counts';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+
+/**
+ * POST /api/inventory-counts/[id]/post
+ * Posts a count: sets each counted item's quantity to what was counted and
+ * locks the count as history. Lines left blank do not adjust their item.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const count = restaurantId ? await findInventoryCount(params.id, restaurantId) : null;
+    if (!count) {
+      return NextResponse.json({ error: 'Inventory count not found' }, { status: 404 });
+    }
+
+    if (count.status !== 'OPEN') {
+      return NextResponse.json({ error: 'Inventory count has already been posted' }, { status: 409 });
+    }
+
+    const countedLines = count.lines.filter((line) => line.countedQuantity !== null);
+    if (countedLines.length === 0) {
+      return NextResponse.json({ error: 'Record at least one counted quantity before posting' }, { status: 400 });
+    }
+
+    const user = await getCurrentUser();
+    const posted = await prisma.$transaction(async (tx) => {
+      // Claim the count first so two concurrent posts cannot both apply it
+      const { count: claimed } = await tx.inventoryCount.updateMany({
+        where: { id: count.id, status: 'OPEN' },
+        data: { status: 'POSTED', postedAt: new Date() },
+      });
+      if (claimed === 0) return false;
+
+      for (const line of countedLines) {
+        const item = await tx.inventoryItem.findUnique({
+          where: { id: line.inventoryItemId },
+        });
+        if (!item) continue;
+
+        const countedQuantity = line.countedQuantity as number;
+
+        // Keep the book quantity the count was posted against for the history
+        await tx.inventoryCountLine.update({
+          where: { id: line.id },
+          data: { onHandQuantity: item.quantity, unitPrice: item.unitPrice },
+        });
+
+        // Shrinkage is costed out of the item's cost layers
+        const cost = await adjustInventoryQuantity(tx, item, countedQuantity);
+        await recordInventoryTransaction(tx, {
+          inventoryItemId: item.id,
+          restaurantId: count.restaurantId,
+          type: 'COUNT',
+          quantity: countedQuantity - item.quantity,
+          cost,
+          userId: user?.id,
+          sourceType: 'InventoryCount',
+          sourceId: count.id,
+        });
+      }
+
+      return true;
+    }, { timeout: 60000 }); // Large counts revalue many items
+
+    if (!posted) {
+      return NextResponse.json({ error: 'Inventory count has already been posted' }, { status: 409 });
+    }
+
+    return NextResponse.json({ data: await findInventoryCount(count.id, count.restaurantId) });
+  } catch (error) {
+    console.error('Failed to post inventory count:', error);
+    return NextResponse.json({ error: 'Failed to post inventory count' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { findInventoryCount } from '@/lib/inventory-counts';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+const updateCountSchema = z.object({
+  lines: z.array(z.object({
+    id: z.string().min(1, 'Line ID is required'),
+    countedQuantity: z.number()
+      .min(0, 'Counted quantity cannot be negative')
+      .max(1000000, 'Counted quantity is too large')
+      .nullable(),
+  })).min(1, 'At least one line is required'),
+});
+
+/**
+ * GET /api/inventory-counts/[id]
+ * Returns a count with its count sheet lines.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const count = restaurantId ? await findInventoryCount(params.id, restaurantId) : null;
+    if (!count) {
+      return NextResponse.json({ error: 'Inventory count not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: count });
+  } catch (error) {
+    console.error('Failed to fetch inventory count:', error);
+    return NextResponse.json({ error: 'Failed to fetch inventory count' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/inventory-counts/[id]
+ * Records counted quantities on an open count.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updateCountSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const count = restaurantId ? await findInventoryCount(params.id, restaurantId) : null;
+    if (!count) {
+      return NextResponse.json({ error: 'Inventory count not found' }, { status: 404 });
+    }
+
+    if (count.status !== 'OPEN') {
+      return NextResponse.json({ error: 'Posted counts cannot be changed' }, { status: 409 });
+    }
+
+    const lineIds = new Set(count.lines.map((line) => line.id));
+    if (validation.data.lines.some((line) => !lineIds.has(line.id))) {
+      return NextResponse.json({ error: 'Count line not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction(
+      validation.data.lines.map((line) =>
+        prisma.inventoryCountLine.update({
+          where: { id: line.id },
+          data: { countedQuantity: line.countedQuantity },
+        })
+      )
+    );
+
+    return NextResponse.json({ data: await findInventoryCount(count.id, count.restaurantId) });
+  } catch (error) {
+    console.error('Failed to update inventory count:', error);
+    return NextResponse.json({ error: 'Failed to update inventory count' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/inventory-counts/[id]
+ * Discards an open count. Posted counts are kept as history.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const count = restaurantId ? await findInventoryCount(params.id, restaurantId) : null;
+    if (!count) {
+      return NextResponse.json({ error: 'Inventory count not found' }, { status: 404 });
+    }
+
+    if (count.status !== 'OPEN') {
+      return NextResponse.json({ error: 'Posted counts cannot be deleted' }, { status: 409 });
+    }
+
+    await prisma.inventoryCount.delete({ where: { id: count.id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete inventory count:', error);
+    return NextResponse.json({ error: 'Failed to delete inventory count' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+const startCountSchema = z.object({
+  name: z.string()
+    .min(1, 'Name is required')
+    .max(100, 'Name cannot exceed 100 characters')
+    .trim(),
+  categories: z.array(z.string().max(100)).max(100).optional(),
+  storageLocation: z.string().max(100, 'Storage location cannot exceed 100 characters').optional(),
+});
+
+const getCountsQuerySchema = z.object({
+  status: z.enum(['OPEN', 'POSTED']).optional(),
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+});
+
+/**
+ * GET /api/inventory-counts
+ * Lists inventory counts for the current restaurant, newest first.
+ * Query Parameters:
+ * - status?: 'OPEN' | 'POSTED'
+ * - limit?: number (default: 20, max: 100)
+ * - offset?: number (default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getCountsQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { status, limit, offset } = validation.data;
+    const where: any = { restaurantId };
+    if (status) where.status = status;
+
+    const take = limit ? Math.min(Number(limit), 100) : 20;
+    const skip = offset ? Number(offset) : 0;
+
+    const [total, counts] = await Promise.all([
+      prisma.inventoryCount.count({ where }),
+      prisma.inventoryCount.findMany({
+        where,
+        include: { _count: { select: { lines: true } } },
+        orderBy: { startedAt: 'desc' },
+        take,
+        skip,
+      }),
+    ]);
+
+    return NextResponse.json({
+      data: counts,
+      pagination: {
+        total,
+        limit: take,
+        offset: skip,
+        hasMore: skip + counts.length < total,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch inventory counts:', error);
+    return NextResponse.json({ error: 'Failed to fetch inventory counts' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/inventory-counts
+ * Starts a count session and generates its count sheet from the current
+ * inventory, optionally limited to some categories or a storage location.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = startCountSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { name, categories, storageLocation } = validation.data;
+
+    const where: any = { restaurantId };
+    if (categories && categories.length > 0) where.category = { in: categories };
+    if (storageLocation) where.storageLocation = storageLocation;
+
+    const items = await prisma.inventoryItem.findMany({
+      where,
+      select: { id: true, quantity: true, unitPrice: true },
+    });
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'No inventory items match this count' }, { status: 400 });
+    }
+
+    const count = await prisma.inventoryCount.create({
+      data: {
+        name,
+        storageLocation,
+        restaurantId,
+        lines: {
+          create: items.map((item) => ({
+            inventoryItemId: item.id,
+            onHandQuantity: item.quantity,
+            unitPrice: item.unitPrice,
+          })),
+        },
+      },
+      include: { _count: { select: { lines: true } } },
+    });
+
+    return NextResponse.json({ data: count }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to start inventory count:', error);
+    return NextResponse.json({ error: 'Failed to start inventory count' }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { INVENTORY_TRANSACTION_TYPES } from '@/lib/inventory-ledger';
+
+const getTransactionsQuerySchema = z.object({
+  inventoryItemId: z.string().optional(),
+  type: z.enum(INVENTORY_TRANSACTION_TYPES).optional(),
+  startDate: z.string().datetime('Invalid date format').optional(),
+  endDate: z.string().datetime('Invalid date format').optional(),
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+});
+
+/**
+ * GET /api/inventory-transactions
+ * Lists the inventory ledger for the current restaurant, most recent first.
+ * Every change to an item's on-hand quantity is recorded with its cost, the
+ * user who made it and the record it came from.
+ * Query Parameters:
+ * - inventoryItemId?: string
+ * - type?: 'OPENING' | 'PURCHASE' | 'RECEIPT' | 'ADJUSTMENT' | 'COUNT' | 'WASTE' | 'SALE' | 'SALE_REVERSAL' | 'TRANSFER_OUT' | 'TRANSFER_IN'
+ * - startDate?, endDate?: ISO date strings
+ * - limit?: number (default: 50, max: 200)
+ * - offset?: number (default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getTransactionsQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { inventoryItemId, type, startDate, endDate } = validation.data;
+    const take = Math.min(Number(validation.data.limit) || 50, 200);
+    const skip = Number(validation.data.offset) || 0;
+    const where = {
+      restaurantId,
+      ...(inventoryItemId && { inventoryItemId }),
+      ...(type && { type }),
+      ...((startDate || endDate) && {
+        occurredAt: {
+          ...(startDate && { gte: new Date(startDate) }),
+          ...(endDate && { lte: new Date(endDate) }),
+        },
+      }),
+    };
+
+    const [total, transactions, stats] = await Promise.all([
+      prisma.inventoryTransaction.count({ where }),
+      prisma.inventoryTransaction.findMany({
+        where,
+        include: {
+          inventoryItem: { select: { id: true, name: true, sku: true, inventoryUnit: true } },
+          user: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: [{ occurredAt: 'desc' }, { createdAt: 'desc' }],
+        take,
+        skip,
+      }),
+      prisma.inventoryTransaction.aggregate({ where, _sum: { quantity: true, cost: true } }),
+    ]);
+
+    return NextResponse.json({
+      data: transactions,
+      pagination: {
+        total,
+        limit: take,
+        offset: skip,
+        hasMore: skip + transactions.length < total,
+      },
+      summary: {
+        totalQuantity: stats._sum.quantity || 0,
+        totalCost: stats._sum.cost || 0,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch inventory transactions:', error);
+    return NextResponse.json({ error: 'Failed to fetch inventory transactions' }, { status: 500 });
+  }
+}
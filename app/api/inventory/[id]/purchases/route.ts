@@ -0,0 +1,201 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { recordPurchase } from '@/lib/purchases';
+import { getCurrentUser } from '@/lib/auth';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+import { calculatePriceChanges } from '@/utils/calculations';
+import { getConversionFactor, normalizeUnit } from '@/utils/units';
+
+const DEFAULT_PRICE_JUMP_THRESHOLD = 10;
+
+const getPurchasesQuerySchema = z.object({
+  vendorId: z.string().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  threshold: z.string()
+    .regex(/^\d+(\.\d+)?$/, 'Threshold must be a non-negative number')
+    .transform(Number)
+    .optional(),
+});
+
+const createPurchaseSchema = z.object({
+  quantity: z.number()
+    .positive('Quantity must be positive')
+    .max(1000000, 'Quantity is too large'),
+  unitPrice: z.number()
+    .min(0, 'Unit price cannot be negative')
+    .max(1000000, 'Unit price is too large'),
+  unit: z.string()
+    .min(1, 'Unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit)
+    .optional(),
+  vendorId: z.string()
+    .cuid('Invalid vendor ID')
+    .optional(),
+  purchasedAt: z.string()
+    .datetime('Invalid date format')
+    .optional(),
+  lotNumber: z.string()
+    .max(100, 'Lot number cannot exceed 100 characters')
+    .optional(),
+  expiresAt: z.string()
+    .datetime('Invalid date format')
+    .optional(),
+});
+
+/**
+ * GET /api/inventory/[id]/purchases
+ * Returns an item's price history: the stock it was set up with and every
+ * purchase lot since, oldest first, with the change from the previous
+ * purchase from the same vendor.
+ * Query Parameters:
+ * - vendorId?: string
+ * - startDate?: ISO date string
+ * - endDate?: ISO date string
+ * - threshold?: number (price change % flagged as a jump, default: 10)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getPurchasesQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const item = restaurantId
+      ? await prisma.inventoryItem.findFirst({
+          where: { id: params.id, restaurantId },
+          select: { id: true, name: true, inventoryUnit: true, unitPrice: true },
+        })
+      : null;
+    if (!item) {
+      return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
+    }
+
+    const { vendorId, startDate, endDate, threshold = DEFAULT_PRICE_JUMP_THRESHOLD } = validation.data;
+
+    const lots = await prisma.purchaseLot.findMany({
+      where: { inventoryItemId: item.id, source: { in: ['OPENING', 'PURCHASE'] } },
+      include: { vendor: { select: { id: true, name: true } } },
+      orderBy: [{ purchasedAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    // Changes are worked out over the full history so the first purchase in
+    // a date range is still compared with the one before it
+    const from = startDate ? new Date(startDate) : null;
+    const to = endDate ? new Date(endDate) : null;
+    const purchases = calculatePriceChanges(lots, threshold).filter(
+      (lot) =>
+        (!vendorId || lot.vendorId === vendorId) &&
+        (!from || lot.purchasedAt >= from) &&
+        (!to || lot.purchasedAt <= to)
+    );
+
+    const totalQuantity = purchases.reduce((total, lot) => total + lot.quantity, 0);
+    const totalCost = purchases.reduce((total, lot) => total + lot.totalCost, 0);
+    const prices = purchases.map((lot) => lot.unitPrice);
+
+    return NextResponse.json({
+      data: purchases,
+      vendors: Array.from(
+        new Map(lots.flatMap((lot) => (lot.vendor ? [[lot.vendor.id, lot.vendor] as const] : []))).values()
+      ).sort((a, b) => a.name.localeCompare(b.name)),
+      summary: {
+        item,
+        threshold,
+        purchaseCount: purchases.length,
+        priceJumps: purchases.filter((lot) => lot.isPriceJump).length,
+        minUnitPrice: prices.length > 0 ? Math.min(...prices) : 0,
+        maxUnitPrice: prices.length > 0 ? Math.max(...prices) : 0,
+        averageUnitPrice: totalQuantity > 0 ? totalCost / totalQuantity : 0,
+        changePercentage: prices.length > 1 && prices[0] > 0
+          ? ((prices[prices.length - 1] - prices[0]) / prices[0]) * 100
+          : 0,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch purchase history:', error);
+    return NextResponse.json({ error: 'Failed to fetch purchase history' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/inventory/[id]/purchases
+ * Records a delivery of an item. The quantity and price may be given in any
+ * unit that converts to the item's inventory unit, e.g. per case.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = createPurchaseSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const item = restaurantId
+      ? await prisma.inventoryItem.findFirst({
+          where: { id: params.id, restaurantId },
+          include: { unitConversions: true },
+        })
+      : null;
+    if (!item) {
+      return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
+    }
+
+    const { quantity, unitPrice, unit = item.inventoryUnit, vendorId, purchasedAt, lotNumber, expiresAt } = validation.data;
+    if (vendorId) {
+      const vendor = await prisma.vendor.findFirst({ where: { id: vendorId, restaurantId: item.restaurantId }, select: { id: true } });
+      if (!vendor) {
+        return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+      }
+    }
+
+    const factor = getConversionFactor(unit, item.inventoryUnit, item.unitConversions);
+    if (factor === null) {
+      return NextResponse.json({ error: `No conversion from ${unit} to ${item.inventoryUnit}` }, { status: 400 });
+    }
+
+    const user = await getCurrentUser();
+    const lot = await prisma.$transaction(async (tx) => {
+      const lot = await recordPurchase(tx, item, {
+        quantity: quantity * factor,
+        unitPrice: unitPrice / factor,
+        vendorId,
+        lotNumber,
+        purchasedAt: purchasedAt ? new Date(purchasedAt) : new Date(),
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+      });
+      await recordInventoryTransaction(tx, {
+        inventoryItemId: item.id,
+        restaurantId: item.restaurantId,
+        type: 'PURCHASE',
+        quantity: lot.quantity,
+        cost: lot.totalCost,
+        occurredAt: lot.purchasedAt,
+        userId: user?.id,
+        sourceType: 'PurchaseLot',
+        sourceId: lot.id,
+      });
+      return lot;
+    });
+
+    return NextResponse.json({ data: lot }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to record purchase:', error);
+    return NextResponse.json({ error: 'Failed to record purchase' }, { status: 500 });
+  }
+}
@@ -1,6 +1,25 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { adjustInventoryQuantity } from '@/lib/costing';
+import { getCurrentUser } from '@/lib/auth';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+import { findUnconvertibleUnit, normalizeUnit } from '@/utils/units';
+
+const unitConversionSchema = z.object({
+  fromUnit: z.string()
+    .min(1, 'Unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit),
+  toUnit: z.string()
+    .min(1, 'Unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit),
+  factor: z.number()
+    .positive('Conversion factor must be positive')
+    .max(1000000, 'Conversion factor is too large'),
+});
 
 const inventoryItemBaseSchema = {
   name: z.string()
@@ -23,18 +42,48 @@ const inventoryItemBaseSchema = {
   category: z.string()
     .min(1, 'Category is required')
     .max(100, 'Category cannot exceed 100 characters'),
-  vendor: z.string()
-    .max(255, 'Vendor name cannot exceed 255 characters')
+  vendorId: z.string()
+    .cuid('Invalid vendor ID')
+    .nullable()
+    .optional(),
+  storageLocation: z.string()
+    .max(100, 'Storage location cannot exceed 100 characters')
+    .optional(),
+  parLevel: z.number()
+    .min(0, 'Par level cannot be negative')
+    .max(1000000, 'Par level is too large')
+    .nullable()
+    .optional(),
+  reorderPoint: z.number()
+    .min(0, 'Reorder point cannot be negative')
+    .max(1000000, 'Reorder point is too large')
+    .nullable()
+    .optional(),
+  inventoryUnit: z.string()
+    .min(1, 'Inventory unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit)
+    .default('each'),
+  purchaseUnit: z.string()
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform((unit) => normalizeUnit(unit) || null)
+    .optional(),
+  recipeUnit: z.string()
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform((unit) => normalizeUnit(unit) || null)
+    .optional(),
+  unitConversions: z.array(unitConversionSchema)
+    .max(20, 'Cannot have more than 20 unit conversions')
     .optional(),
   purchasedAt: z.string()
     .datetime('Invalid date format')
     .refine(date => new Date(date).toString() !== 'Invalid Date', {
       message: 'Invalid purchase date',
     }),
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
 };
 
-const createInventoryItemSchema = z.object(inventoryItemBaseSchema);
+// Inventory value follows the cost layers, so it cannot be edited directly
+const createInventoryItemSchema = z.object(inventoryItemBaseSchema).omit({ totalCost: true });
 
 /**
  * PATCH /api/inventory/[id]
@@ -48,6 +97,22 @@ export async function PATCH(
     const itemId = params.id;
     const body = await request.json();
 
+    // Items belonging to another restaurant are reported as missing
+    const restaurantId = await getCurrentRestaurantId();
+    const existingItem = restaurantId
+      ? await prisma.inventoryItem.findFirst({
+          where: { id: itemId, restaurantId },
+          include: {
+            unitConversions: true,
+            recipeIngredients: { select: { unit: true } },
+          },
+        })
+      : null;
+
+    if (!existingItem) {
+      return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
+    }
+
     const updateSchema = createInventoryItemSchema.partial();
     const validation = updateSchema.safeParse(body);
 
@@ -55,16 +120,64 @@ export async function PATCH(
       return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
     }
 
-    const { purchasedAt, ...data } = validation.data;
+    const { purchasedAt, unitConversions, quantity, ...data } = validation.data;
     const updateData: any = { ...data };
 
     if (purchasedAt) {
       updateData.purchasedAt = new Date(purchasedAt);
     }
 
-    const updatedItem = await prisma.inventoryItem.update({
-      where: { id: itemId },
-      data: updateData,
+    if (data.vendorId) {
+      const vendor = await prisma.vendor.findFirst({ where: { id: data.vendorId, restaurantId: existingItem.restaurantId }, select: { id: true } });
+      if (!vendor) {
+        return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+      }
+    }
+
+    // Purchase, recipe and ingredient units must all still convert to the inventory unit
+    const inventoryUnit = data.inventoryUnit ?? existingItem.inventoryUnit;
+    const unconvertible = findUnconvertibleUnit(
+      [
+        data.purchaseUnit === undefined ? existingItem.purchaseUnit : data.purchaseUnit,
+        data.recipeUnit === undefined ? existingItem.recipeUnit : data.recipeUnit,
+        ...existingItem.recipeIngredients.map((ingredient) => ingredient.unit),
+      ],
+      inventoryUnit,
+      unitConversions ?? existingItem.unitConversions
+    );
+    if (unconvertible) {
+      return NextResponse.json(
+        { error: `No conversion from ${unconvertible} to ${inventoryUnit}` },
+        { status: 400 }
+      );
+    }
+
+    if (unitConversions) {
+      updateData.unitConversions = { deleteMany: {}, create: unitConversions };
+    }
+
+    const user = await getCurrentUser();
+    const updatedItem = await prisma.$transaction(async (tx) => {
+      const item = await tx.inventoryItem.update({
+        where: { id: itemId },
+        data: updateData,
+      });
+      if (quantity !== undefined && quantity !== item.quantity) {
+        const cost = await adjustInventoryQuantity(tx, item, quantity);
+        await recordInventoryTransaction(tx, {
+          inventoryItemId: item.id,
+          restaurantId: item.restaurantId,
+          type: 'ADJUSTMENT',
+          quantity: quantity - item.quantity,
+          cost,
+          userId: user?.id,
+          notes: 'Manual edit',
+        });
+      }
+      return tx.inventoryItem.findUniqueOrThrow({
+        where: { id: itemId },
+        include: { unitConversions: true },
+      });
     });
 
     return NextResponse.json(updatedItem);
@@ -84,7 +197,8 @@ export async function PATCH(
 
 /**
  * DELETE /api/inventory/[id]
- * Deletes an inventory item.
+ * Deletes an inventory item. Its ledger and waste entries are kept under the
+ * item's name.
  */
 export async function DELETE(
   request: NextRequest,
@@ -93,6 +207,16 @@ export async function DELETE(
   try {
     const itemId = params.id;
 
+    // Items belonging to another restaurant are reported as missing
+    const restaurantId = await getCurrentRestaurantId();
+    const existingItem = restaurantId
+      ? await prisma.inventoryItem.findFirst({ where: { id: itemId, restaurantId }, select: { id: true } })
+      : null;
+
+    if (!existingItem) {
+      return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
+    }
+
     await prisma.inventoryItem.delete({
       where: { id: itemId },
     });
@@ -103,6 +227,9 @@ export async function DELETE(
     if (error instanceof Error && 'code' in error && (error as any).code === 'P2025') {
       return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
     }
+    if (error instanceof Error && 'code' in error && (error as any).code === 'P2003') {
+      return NextResponse.json({ error: 'Inventory item is used in a recipe, purchase order or transfer and cannot be deleted' }, { status: 409 });
+    }
     return NextResponse.json({ error: 'Failed to delete inventory item' }, { status: 500 });
   }
 }
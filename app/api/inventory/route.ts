@@ -1,9 +1,27 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+import { findUnconvertibleUnit, normalizeUnit } from '@/utils/units';
 import { NextRequest } from 'next/server';
 
 // Enhanced validation schemas
+const unitConversionSchema = z.object({
+  fromUnit: z.string()
+    .min(1, 'Unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit),
+  toUnit: z.string()
+    .min(1, 'Unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit),
+  factor: z.number()
+    .positive('Conversion factor must be positive')
+    .max(1000000, 'Conversion factor is too large'),
+});
+
 const inventoryItemBaseSchema = {
   name: z.string()
     .min(1, 'Name is required')
@@ -25,22 +43,58 @@ const inventoryItemBaseSchema = {
   category: z.string()
     .min(1, 'Category is required')
     .max(100, 'Category cannot exceed 100 characters'),
-  vendor: z.string()
-    .max(255, 'Vendor name cannot exceed 255 characters')
+  vendorId: z.string()
+    .cuid('Invalid vendor ID')
+    .nullable()
+    .optional(),
+  storageLocation: z.string()
+    .max(100, 'Storage location cannot exceed 100 characters')
+    .optional(),
+  parLevel: z.number()
+    .min(0, 'Par level cannot be negative')
+    .max(1000000, 'Par level is too large')
+    .nullable()
+    .optional(),
+  reorderPoint: z.number()
+    .min(0, 'Reorder point cannot be negative')
+    .max(1000000, 'Reorder point is too large')
+    .nullable()
+    .optional(),
+  inventoryUnit: z.string()
+    .min(1, 'Inventory unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit)
+    .default('each'),
+  purchaseUnit: z.string()
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform((unit) => normalizeUnit(unit) || null)
+    .optional(),
+  recipeUnit: z.string()
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform((unit) => normalizeUnit(unit) || null)
+    .optional(),
+  unitConversions: z.array(unitConversionSchema)
+    .max(20, 'Cannot have more than 20 unit conversions')
     .optional(),
   purchasedAt: z.string()
     .datetime('Invalid date format')
     .refine(date => new Date(date).toString() !== 'Invalid Date', {
       message: 'Invalid purchase date',
     }),
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
 };
 
-const createInventoryItemSchema = z.object(inventoryItemBaseSchema).omit({ totalCost: true });
+const createInventoryItemSchema = z.object(inventoryItemBaseSchema).omit({ totalCost: true }).extend({
+  // Lot details of the opening stock
+  lotNumber: z.string()
+    .max(100, 'Lot number cannot exceed 100 characters')
+    .optional(),
+  expiresAt: z.string()
+    .datetime('Invalid date format')
+    .optional(),
+});
 
 // Query parameters schema
 const getInventoryQuerySchema = z.object({
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
   category: z.string().optional(),
   supplier: z.string().optional(),
   minQuantity: z.string().optional(),
@@ -60,9 +114,8 @@ const getInventoryQuerySchema = z.object({
 
 /**
  * GET /api/inventory
- * Fetches inventory items with filtering, sorting, and pagination.
+ * Fetches inventory items for the current restaurant with filtering, sorting, and pagination.
  * Query Parameters:
- * - restaurantId: string (required)
  * - category?: string
  * - vendor?: string
  * - minQuantity?: number
@@ -71,6 +124,7 @@ const getInventoryQuerySchema = z.object({
  * - maxUnitPrice?: number
  * - minTotalCost?: number
  * - maxTotalCost?: number
+ * - expiresBefore?: ISO date string (items with stock in a lot expiring by then)
  * - purchasedAfter?: ISO date string
  * - search?: string (searches in name and SKU)
  * - sortBy?: 'name' | 'quantity' | 'unitPrice' | 'totalCost' | 'purchasedAt'
@@ -93,8 +147,12 @@ export async function GET(request: Request) {
       );
     }
 
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
     // Extract and map query parameters to internal variable names
-    const restaurantId = validation.data.restaurantId;
     const category = validation.data.category;
     const vendor = validation.data.supplier; // Map supplier to vendor
     const minQuantity = validation.data.minQuantity;
@@ -107,6 +165,7 @@ export async function GET(request: Request) {
     const minTotalCost = validation.data.minTotalCost;
     const maxTotalCost = validation.data.maxTotalCost;
     
+    const expiresBefore = validation.data.expiresBefore;
     const purchasedAfter = validation.data.purchasedAfter;
     const search = validation.data.search;
     const sortBy = validation.data.sortBy || 'purchasedAt';
@@ -118,7 +177,7 @@ export async function GET(request: Request) {
     const where: any = { restaurantId };
     
     if (category) where.category = category;
-    if (vendor) where.vendor = vendor;
+    if (vendor) where.vendor = { name: vendor };
     
     if (minQuantity || maxQuantity) {
       where.quantity = {};
@@ -141,6 +200,12 @@ export async function GET(request: Request) {
     if (purchasedAfter) {
       where.purchasedAt = { gte: new Date(purchasedAfter) };
     }
+
+    if (expiresBefore) {
+      where.purchaseLots = {
+        some: { remainingQuantity: { gt: 0 }, expiresAt: { lte: new Date(expiresBefore) } },
+      };
+    }
     
     // Text search across name and SKU
     if (search) {
@@ -165,6 +230,7 @@ export async function GET(request: Request) {
     // Fetch paginated results
     const inventoryItems = await prisma.inventoryItem.findMany({
       where,
+      include: { unitConversions: true },
       orderBy: { [sortField]: order },
       take,
       skip,
@@ -217,7 +283,7 @@ export async function GET(request: Request) {
 
 /**
  * POST /api/inventory
- * Creates a new inventory item.
+ * Creates a new inventory item in the current restaurant.
  */
 export async function POST(request: Request) {
   try {
@@ -228,17 +294,71 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
     }
 
-    const { purchasedAt, quantity, unitPrice, ...data } = validation.data;
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { purchasedAt, quantity, unitPrice, unitConversions = [], lotNumber, expiresAt, ...data } = validation.data;
     const totalCost = quantity * unitPrice;
 
-    const newItem = await prisma.inventoryItem.create({
-      data: {
-        ...data,
+    if (data.vendorId) {
+      const vendor = await prisma.vendor.findFirst({ where: { id: data.vendorId, restaurantId }, select: { id: true } });
+      if (!vendor) {
+        return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+      }
+    }
+
+    const unconvertible = findUnconvertibleUnit(
+      [data.purchaseUnit, data.recipeUnit],
+      data.inventoryUnit,
+      unitConversions
+    );
+    if (unconvertible) {
+      return NextResponse.json(
+        { error: `No conversion from ${unconvertible} to ${data.inventoryUnit}` },
+        { status: 400 }
+      );
+    }
+
+    // The opening stock is the first purchase in the item's price history
+    const user = await getCurrentUser();
+    const newItem = await prisma.$transaction(async (tx) => {
+      const item = await tx.inventoryItem.create({
+        data: {
+          ...data,
+          restaurantId,
+          quantity,
+          unitPrice,
+          purchasedAt: new Date(purchasedAt),
+          totalCost,
+          unitConversions: { create: unitConversions },
+          purchaseLots: {
+            create: [{
+              source: 'OPENING',
+              quantity,
+              remainingQuantity: quantity,
+              unitPrice,
+              totalCost,
+              vendorId: data.vendorId ?? null,
+              lotNumber,
+              purchasedAt: new Date(purchasedAt),
+              expiresAt: expiresAt ? new Date(expiresAt) : null,
+            }],
+          },
+        },
+        include: { unitConversions: true },
+      });
+      await recordInventoryTransaction(tx, {
+        inventoryItemId: item.id,
+        restaurantId,
+        type: 'OPENING',
         quantity,
-        unitPrice,
-        purchasedAt: new Date(purchasedAt),
-        totalCost,
-      },
+        cost: totalCost,
+        occurredAt: item.purchasedAt,
+        userId: user?.id,
+      });
+      return item;
     });
 
     return NextResponse.json({ data: newItem }, { status: 201 });
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getLaborCompliance } from '@/lib/labor';
+
+const getComplianceQuerySchema = z.object({
+  weekOf: z.string().datetime('Invalid date format').optional(),
+});
+
+/**
+ * GET /api/labor/compliance
+ * Checks a workweek of shifts against the current restaurant's labor rules:
+ * overtime and premium pay by employee, overtime they are on pace for before
+ * the week closes, and minimum wage and meal break violations.
+ * Query Parameters:
+ * - weekOf?: ISO date string of any day in the week (default: today)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getComplianceQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { weekOf } = validation.data;
+    const compliance = await getLaborCompliance(restaurantId, weekOf ? new Date(weekOf) : new Date());
+
+    return NextResponse.json({ data: compliance });
+  } catch (error) {
+    console.error('Failed to check labor compliance:', error);
+    return NextResponse.json({ error: 'Failed to check labor compliance' }, { status: 500 });
+  }
+}
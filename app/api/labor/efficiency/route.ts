@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getLaborEfficiency } from '@/lib/labor';
+import { isValidTimeZone } from '@/lib/utils';
+
+const getEfficiencyQuerySchema = z.object({
+  startDate: z.string().datetime('Invalid date format').optional(),
+  endDate: z.string().datetime('Invalid date format').optional(),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional(),
+});
+
+// Days measured when no start date is given, counting back from the end date
+const DEFAULT_RANGE_DAYS = 28;
+
+/**
+ * GET /api/labor/efficiency
+ * Measures how well labor matched sales for the current restaurant: sales
+ * per labor hour, labor % and average hourly wage by day, daypart and
+ * position, and a weekday-by-hour heatmap of understaffed and overstaffed
+ * hours against the restaurant's targets.
+ * Query Parameters:
+ * - startDate?: ISO date string (default: 27 days before endDate)
+ * - endDate?: ISO date string (default: today)
+ * - timeZone?: IANA time zone name dayparts and hours are read in (default: the server's)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getEfficiencyQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { startDate, endDate, timeZone } = validation.data;
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate
+      ? new Date(startDate)
+      : new Date(end.getTime() - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000);
+    if (start > end) {
+      return NextResponse.json({ error: 'Start date must be before end date' }, { status: 400 });
+    }
+
+    const efficiency = await getLaborEfficiency(restaurantId, start, end, timeZone);
+
+    return NextResponse.json({ data: { startDate: start, endDate: end, ...efficiency } });
+  } catch (error) {
+    console.error('Failed to measure labor efficiency:', error);
+    return NextResponse.json({ error: 'Failed to measure labor efficiency' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { startOfUtcDay } from '@/lib/utils';
 
 // Enhanced validation schemas
 const laborEntryBaseSchema = {
@@ -19,45 +21,110 @@ const laborEntryBaseSchema = {
     .int('Number of employees must be an integer')
     .min(0, 'Number of employees cannot be negative')
     .max(1000, 'Number of employees is too high'),
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
 };
 
 const createLaborEntrySchema = z.object(laborEntryBaseSchema);
 
 // Query parameters schema
+const numberParam = (message: string) =>
+  z.string()
+    .regex(/^\d+(\.\d+)?$/, message)
+    .transform(Number)
+    .optional();
+
 const getLaborQuerySchema = z.object({
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   employeeName: z.string().optional(),
   position: z.string().optional(),
-  minHours: z.string().optional(),
-  maxHours: z.string().optional(),
-  minRate: z.string().optional(),
-  maxRate: z.string().optional(),
+  minHours: numberParam('Minimum hours must be a non-negative number'),
+  maxHours: numberParam('Maximum hours must be a non-negative number'),
+  minRate: numberParam('Minimum rate must be a non-negative number'),
+  maxRate: numberParam('Maximum rate must be a non-negative number'),
   limit: z.string().optional(),
   offset: z.string().optional(),
 });
 
 /**
  * GET /api/labor
- * Fetches all labor entries for a specific restaurant.
+ * Fetches daily labor entries for the current restaurant, latest first.
+ * Days built from shifts can be narrowed to those worked by a matching
+ * employee, position or pay rate.
+ * Query Parameters:
+ * - startDate?, endDate?: ISO date strings
+ * - employeeName?: string (partial, case-insensitive)
+ * - position?: string (position name)
+ * - minHours?, maxHours?: number, on the day's total hours
+ * - minRate?, maxRate?: number, on a shift's hourly rate
+ * - limit?: number (default: all)
+ * - offset?: number (default: 0)
  */
 export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url);
-  const restaurantId = searchParams.get('restaurantId');
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getLaborQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
 
-  if (!restaurantId) {
-    return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
-  }
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { startDate, endDate, employeeName, position, minHours, maxHours, minRate, maxRate } = validation.data;
+    const take = validation.data.limit ? Math.min(Number(validation.data.limit) || 100, 1000) : undefined;
+    const skip = Number(validation.data.offset) || 0;
+
+    // Employee, position and rate filters keep the days a matching shift was worked
+    let shiftDates: Date[] | undefined;
+    if (employeeName || position || minRate !== undefined || maxRate !== undefined) {
+      const shifts = await prisma.shift.findMany({
+        where: {
+          restaurantId,
+          ...(employeeName && { employee: { name: { contains: employeeName, mode: 'insensitive' } } }),
+          ...(position && { position: { name: { equals: position, mode: 'insensitive' } } }),
+          ...((minRate !== undefined || maxRate !== undefined) && {
+            hourlyRate: {
+              ...(minRate !== undefined && { gte: minRate }),
+              ...(maxRate !== undefined && { lte: maxRate }),
+            },
+          }),
+        },
+        select: { date: true },
+        distinct: ['date'],
+      });
+      shiftDates = shifts.map((shift) => shift.date);
+    }
 
-  try {
     const laborEntries = await prisma.laborEntry.findMany({
-      where: { restaurantId },
+      where: {
+        restaurantId,
+        ...(shiftDates && { source: 'SHIFTS' }),
+        ...((shiftDates || startDate || endDate) && {
+          date: {
+            ...(shiftDates && { in: shiftDates }),
+            ...(startDate && { gte: new Date(startDate) }),
+            ...(endDate && { lte: new Date(endDate) }),
+          },
+        }),
+        ...((minHours !== undefined || maxHours !== undefined) && {
+          totalHours: {
+            ...(minHours !== undefined && { gte: minHours }),
+            ...(maxHours !== undefined && { lte: maxHours }),
+          },
+        }),
+      },
       orderBy: { date: 'desc' },
+      take,
+      skip,
     });
-        return NextResponse.json({ data: laborEntries });
+
+    return NextResponse.json({ data: laborEntries });
   } catch (error) {
     console.error('Failed to fetch labor entries:', error);
     return NextResponse.json({ error: 'Failed to fetch labor entries' }, { status: 500 });
@@ -66,7 +133,7 @@ export async function GET(request: Request) {
 
 /**
  * POST /api/labor
- * Creates a new labor entry.
+ * Creates a new labor entry for the current restaurant.
  */
 export async function POST(request: Request) {
   try {
@@ -83,6 +150,11 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
     const { date, ...data } = validation.data;
     
     // Convert date string to Date object
@@ -95,11 +167,24 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
+    // Days with shifts take their totals from the shifts
+    const dayStart = startOfUtcDay(entryDate);
+    const shiftCount = await prisma.shift.count({
+      where: { restaurantId, date: { gte: dayStart, lt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000) } },
+    });
+    if (shiftCount > 0) {
+      return NextResponse.json(
+        { error: 'Labor for this day comes from its shifts; edit the shifts instead' },
+        { status: 409 }
+      );
+    }
+
     console.log('Creating labor entry with data:', { ...data, date: entryDate });
     
     const newLaborEntry = await prisma.laborEntry.create({
       data: {
         ...data,
+        restaurantId,
         date: entryDate,
       },
     });
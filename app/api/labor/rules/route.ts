@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getLaborRules } from '@/lib/labor';
+import { LABOR_RULE_PRESETS, WEEKDAYS } from '@/utils/calculations';
+
+// Hour thresholds are cleared with null when a rule does not apply
+const optionalHours = (max: number, message: string) =>
+  z.number().positive(message).max(max, message).nullable();
+
+const laborRulesSchema = z.object({
+  preset: z.enum(LABOR_RULE_PRESETS),
+  weekStartsOn: z.enum(WEEKDAYS),
+  weeklyOvertimeHours: optionalHours(168, 'Weekly overtime must be between 0 and 168 hours'),
+  dailyOvertimeHours: optionalHours(24, 'Daily overtime must be between 0 and 24 hours'),
+  dailyDoubleTimeHours: optionalHours(24, 'Daily double time must be between 0 and 24 hours'),
+  overtimeMultiplier: z.number()
+    .min(1, 'Overtime multiplier must be at least 1')
+    .max(5, 'Overtime multiplier is too high'),
+  doubleTimeMultiplier: z.number()
+    .min(1, 'Double time multiplier must be at least 1')
+    .max(5, 'Double time multiplier is too high'),
+  minimumWage: z.number()
+    .min(0, 'Minimum wage cannot be negative')
+    .max(1000, 'Minimum wage is too high'),
+  tippedMinimumWage: z.number()
+    .min(0, 'Tipped minimum wage cannot be negative')
+    .max(1000, 'Tipped minimum wage is too high')
+    .nullable(),
+  splitShiftGapHours: optionalHours(24, 'Split shift gap must be between 0 and 24 hours'),
+  spreadOfHoursLimit: optionalHours(24, 'Spread of hours must be between 0 and 24 hours'),
+  mealBreakAfterHours: optionalHours(24, 'Meal break threshold must be between 0 and 24 hours'),
+  mealBreakMinutes: z.number()
+    .int('Meal break must be whole minutes')
+    .min(0, 'Meal break cannot be negative')
+    .max(240, 'Meal break is too long'),
+}).refine(
+  (data) =>
+    data.dailyOvertimeHours === null ||
+    data.dailyDoubleTimeHours === null ||
+    data.dailyDoubleTimeHours > data.dailyOvertimeHours,
+  { message: 'Double time must start after daily overtime', path: ['dailyDoubleTimeHours'] }
+);
+
+/**
+ * GET /api/labor/rules
+ * Returns the overtime and labor law rules the current restaurant's shifts
+ * are checked against. Restaurants that have not chosen any use the federal
+ * preset.
+ */
+export async function GET() {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ data: await getLaborRules(restaurantId) });
+  } catch (error) {
+    console.error('Failed to fetch labor rules:', error);
+    return NextResponse.json({ error: 'Failed to fetch labor rules' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/labor/rules
+ * Replaces the current restaurant's labor rules. The preset records which
+ * rule set the values started from; compliance is worked out from the
+ * values themselves.
+ */
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = laborRulesSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const rules = await prisma.laborRuleSet.upsert({
+      where: { restaurantId },
+      create: { ...validation.data, restaurantId },
+      update: validation.data,
+    });
+
+    return NextResponse.json({ data: rules });
+  } catch (error) {
+    console.error('Failed to update labor rules:', error);
+    return NextResponse.json({ error: 'Failed to update labor rules' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getLaborTargets } from '@/lib/labor';
+
+const laborTargetsSchema = z.object({
+  salesPerLaborHour: z.number()
+    .positive('Sales per labor hour target must be positive')
+    .max(10000, 'Sales per labor hour target is too high'),
+  laborPercentage: z.number()
+    .positive('Labor % target must be positive')
+    .max(100, 'Labor % target cannot exceed 100'),
+  tolerance: z.number()
+    .min(0, 'Tolerance cannot be negative')
+    .max(100, 'Tolerance cannot exceed 100%'),
+});
+
+/**
+ * GET /api/labor/targets
+ * Returns the sales per labor hour and labor % targets the current
+ * restaurant's staffing is measured against.
+ */
+export async function GET() {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ data: await getLaborTargets(restaurantId) });
+  } catch (error) {
+    console.error('Failed to fetch labor targets:', error);
+    return NextResponse.json({ error: 'Failed to fetch labor targets' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/labor/targets
+ * Replaces the current restaurant's labor efficiency targets.
+ */
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = laborTargetsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const targets = await prisma.laborTarget.upsert({
+      where: { restaurantId },
+      create: { ...validation.data, restaurantId },
+      update: validation.data,
+    });
+
+    return NextResponse.json({ data: targets });
+  } catch (error) {
+    console.error('Failed to update labor targets:', error);
+    return NextResponse.json({ error: 'Failed to update labor targets' }, { status: 500 });
+  }
+}
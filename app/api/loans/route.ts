@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
 
 const createLoanSchema = z.object({
   description: z.string().min(1, 'Description is required'),
@@ -8,22 +9,19 @@ const createLoanSchema = z.object({
   interestRate: z.number().min(0, 'Interest rate cannot be negative'),
   paymentAmount: z.number().positive('Payment amount must be positive'),
   paymentCycle: z.string().min(1, 'Payment cycle is required'),
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
 });
 
 /**
  * GET /api/loans
- * Fetches all loans for a specific restaurant.
+ * Fetches all loans for the current restaurant.
  */
-export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url);
-  const restaurantId = searchParams.get('restaurantId');
-
-  if (!restaurantId) {
-    return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
-  }
-
+export async function GET() {
   try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
     const loans = await prisma.loan.findMany({
       where: { restaurantId },
       orderBy: { createdAt: 'desc' },
@@ -37,7 +35,7 @@ export async function GET(request: Request) {
 
 /**
  * POST /api/loans
- * Creates a new loan.
+ * Creates a new loan for the current restaurant.
  */
 export async function POST(request: Request) {
   try {
@@ -48,8 +46,13 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
     }
 
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
     const newLoan = await prisma.loan.create({
-      data: validation.data,
+      data: { ...validation.data, restaurantId },
     });
 
     return NextResponse.json(newLoan, { status: 201 });
@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { startOfUtcDay } from '@/lib/utils';
+import { loadRecipeGraph } from '@/lib/recipes';
+import { recordSalesDepletion } from '@/lib/depletion';
+
+const recordMenuItemSaleSchema = z.object({
+  date: z.string().datetime('Invalid date format'),
+  recipeId: z.string().cuid('Invalid recipe ID'),
+  quantity: z.number()
+    .int('Quantity must be a whole number')
+    .min(0, 'Quantity cannot be negative')
+    .max(100000, 'Quantity is too large'),
+});
+
+// Query parameters schema
+const getMenuItemSalesQuerySchema = z.object({
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  recipeId: z.string().cuid('Invalid recipe ID').optional(),
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+});
+
+/**
+ * GET /api/menu-sales
+ * Fetches daily menu item sales for the current restaurant.
+ * Query Parameters:
+ * - startDate?: ISO date string
+ * - endDate?: ISO date string
+ * - recipeId?: string
+ * - limit?: number (default: 50, max: 500)
+ * - offset?: number (default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = Object.fromEntries(searchParams.entries());
+
+    const validation = getMenuItemSalesQuerySchema.safeParse(query);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { startDate, endDate, recipeId, limit, offset } = validation.data;
+
+    const where: any = { restaurantId };
+
+    if (startDate || endDate) {
+      where.date = {};
+      if (startDate) where.date.gte = new Date(startDate);
+      if (endDate) where.date.lte = new Date(endDate);
+    }
+
+    if (recipeId) where.recipeId = recipeId;
+
+    // Set up pagination
+    const take = limit ? Math.min(Number(limit), 500) : 50;
+    const skip = offset ? Number(offset) : 0;
+
+    const [total, sales, stats] = await Promise.all([
+      prisma.menuItemSale.count({ where }),
+      prisma.menuItemSale.findMany({
+        where,
+        include: { recipe: { select: { id: true, name: true, fixedPrice: true } } },
+        orderBy: [{ date: 'desc' }, { quantity: 'desc' }],
+        take,
+        skip,
+      }),
+      prisma.menuItemSale.aggregate({
+        where,
+        _sum: { quantity: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      data: sales,
+      pagination: {
+        total,
+        limit: take,
+        offset: skip,
+        hasMore: skip + sales.length < total,
+      },
+      summary: {
+        totalQuantity: stats._sum.quantity || 0,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch menu item sales:', error);
+    return NextResponse.json({ error: 'Failed to fetch menu item sales' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/menu-sales
+ * Records how many of a menu item were sold on a day and takes its
+ * ingredients out of stock. Recording the same item and day again replaces
+ * the earlier quantity and only depletes the difference.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = recordMenuItemSaleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { recipeId, quantity } = validation.data;
+    const date = startOfUtcDay(new Date(validation.data.date));
+
+    // Recipes belonging to another restaurant are reported as missing
+    const recipe = await prisma.recipe.findFirst({
+      where: { id: recipeId, restaurantId },
+      select: { id: true },
+    });
+
+    if (!recipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    const recipeGraph = await loadRecipeGraph(restaurantId);
+    const userId = (await getCurrentUser())?.id ?? null;
+    const sale = await prisma.$transaction(async (tx) => {
+      const depletion = await recordSalesDepletion(tx, restaurantId, [{ recipeId, date, quantity }], recipeGraph, 'MANUAL', userId);
+      const updated = await tx.menuItemSale.findUniqueOrThrow({ where: { recipeId_date: { recipeId, date } } });
+      return { ...updated, depletion };
+    }, { timeout: 60000 });
+
+    return NextResponse.json({ data: sale }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to record menu item sale:', error);
+    return NextResponse.json({ error: 'Failed to record menu item sale' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
 import { generateRecipeBuild, IngredientInput } from '@/lib/ai';
 
 const ingredientSchema = z.object({
@@ -16,13 +17,15 @@ export async function POST(request: Request) {
       salesPrice: z.number().positive(),
       targetFoodCostPct: z.number().min(1).max(100),
       ingredients: z.array(ingredientSchema),
-      restaurantId: z.string().cuid().optional(),
       strategy: z.string().optional(),
     });
 
-    const { salesPrice, targetFoodCostPct, ingredients, restaurantId, strategy } =
+    const { salesPrice, targetFoodCostPct, ingredients, strategy } =
       schema.parse(body);
 
+    // Average prices only over the current restaurant's inventory
+    const restaurantId = await getCurrentRestaurantId();
+
     const items: IngredientInput[] = [];
     for (const ing of ingredients) {
       const avg = await prisma.inventoryItem.aggregate({
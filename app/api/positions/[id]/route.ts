@@ -0,0 +1,78 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+const updatePositionSchema = z.object({
+  name: z.string()
+    .min(1, 'Position name is required')
+    .max(100, 'Position name cannot exceed 100 characters')
+    .trim(),
+  tipped: z.boolean(),
+}).partial();
+
+/**
+ * PATCH /api/positions/[id]
+ * Renames a position or changes whether it is tipped.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updatePositionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const existingPosition = restaurantId
+      ? await prisma.position.findFirst({ where: { id: params.id, restaurantId }, select: { id: true } })
+      : null;
+    if (!existingPosition) {
+      return NextResponse.json({ error: 'Position not found' }, { status: 404 });
+    }
+
+    const position = await prisma.position.update({
+      where: { id: existingPosition.id },
+      data: validation.data,
+    });
+
+    return NextResponse.json({ data: position });
+  } catch (error) {
+    console.error('Failed to update position:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A position with this name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to update position' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/positions/[id]
+ * Removes a position. Employees and shifts that had it are kept without one,
+ * and tip pools stop sharing with it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const existingPosition = restaurantId
+      ? await prisma.position.findFirst({ where: { id: params.id, restaurantId }, select: { id: true } })
+      : null;
+    if (!existingPosition) {
+      return NextResponse.json({ error: 'Position not found' }, { status: 404 });
+    }
+
+    await prisma.position.delete({ where: { id: existingPosition.id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete position:', error);
+    return NextResponse.json({ error: 'Failed to delete position' }, { status: 500 });
+  }
+}
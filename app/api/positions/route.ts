@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+const positionSchema = z.object({
+  name: z.string()
+    .min(1, 'Position name is required')
+    .max(100, 'Position name cannot exceed 100 characters')
+    .trim(),
+  tipped: z.boolean().optional(),
+});
+
+/**
+ * GET /api/positions
+ * Lists the current restaurant's positions with how many active employees
+ * usually work each one.
+ */
+export async function GET() {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const positions = await prisma.position.findMany({
+      where: { restaurantId },
+      include: { _count: { select: { employees: { where: { active: true } } } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      data: positions.map(({ _count, ...position }) => ({ ...position, employeeCount: _count.employees })),
+    });
+  } catch (error) {
+    console.error('Failed to fetch positions:', error);
+    return NextResponse.json({ error: 'Failed to fetch positions' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/positions
+ * Adds a position to the current restaurant.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = positionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const position = await prisma.position.create({
+      data: { ...validation.data, restaurantId },
+    });
+
+    return NextResponse.json({ data: position }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create position:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A position with this name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to create position' }, { status: 500 });
+  }
+}
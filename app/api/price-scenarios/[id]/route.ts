@@ -0,0 +1,28 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+/**
+ * DELETE /api/price-scenarios/[id]
+ * Deletes a saved price scenario.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const { count } = restaurantId
+      ? await prisma.priceScenario.deleteMany({ where: { id: params.id, restaurantId } })
+      : { count: 0 };
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Price scenario not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete price scenario:', error);
+    return NextResponse.json({ error: 'Failed to delete price scenario' }, { status: 500 });
+  }
+}
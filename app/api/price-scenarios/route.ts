@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { runPriceSimulation } from '@/lib/price-simulation';
+import type { PriceAdjustmentType } from '@/utils/calculations';
+
+const createScenarioSchema = z.object({
+  name: z.string()
+    .min(1, 'Name is required')
+    .max(100, 'Name cannot exceed 100 characters')
+    .trim(),
+  recipeIds: z.array(z.string().cuid('Invalid recipe ID'))
+    .min(1, 'Select at least one menu item')
+    .max(200, 'Too many menu items'),
+  adjustmentType: z.enum(['ABSOLUTE', 'PERCENT', 'TARGET_FOOD_COST']),
+  adjustmentValue: z.number().min(-1000, 'Adjustment is too large').max(1000, 'Adjustment is too large'),
+  elasticity: z.number().min(-20).max(20).nullable().optional(),
+  volumeChange: z.number().min(-100, 'Volume cannot drop by more than 100%').max(1000).nullable().optional(),
+}).refine(
+  (data) => data.adjustmentType !== 'TARGET_FOOD_COST' || (data.adjustmentValue > 0 && data.adjustmentValue < 100),
+  { message: 'Target food cost percentage must be between 0 and 100', path: ['adjustmentValue'] }
+);
+
+/**
+ * GET /api/price-scenarios
+ * Lists saved price scenarios, each re-projected against current plate costs
+ * and recent sales so they can be compared side by side.
+ */
+export async function GET() {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const scenarios = await prisma.priceScenario.findMany({
+      where: { restaurantId },
+      include: { recipes: { select: { recipeId: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const data = await Promise.all(
+      scenarios.map(async ({ recipes, ...scenario }) => {
+        const recipeIds = recipes.map((recipe) => recipe.recipeId);
+        const simulation = await runPriceSimulation(restaurantId, recipeIds, {
+          ...scenario,
+          adjustmentType: scenario.adjustmentType as PriceAdjustmentType,
+        });
+        return { ...scenario, recipeIds, simulation };
+      })
+    );
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Failed to fetch price scenarios:', error);
+    return NextResponse.json({ error: 'Failed to fetch price scenarios' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/price-scenarios
+ * Saves a price scenario for later comparison.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = createScenarioSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { recipeIds, ...scenario } = validation.data;
+    const uniqueRecipeIds = Array.from(new Set(recipeIds));
+
+    const ownedRecipes = await prisma.recipe.count({
+      where: { id: { in: uniqueRecipeIds }, restaurantId, fixedPrice: { not: null } },
+    });
+    if (ownedRecipes !== uniqueRecipeIds.length) {
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 });
+    }
+
+    const newScenario = await prisma.priceScenario.create({
+      data: {
+        ...scenario,
+        restaurantId,
+        recipes: { create: uniqueRecipeIds.map((recipeId) => ({ recipeId })) },
+      },
+    });
+
+    return NextResponse.json({ data: newScenario }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to save price scenario:', error);
+    return NextResponse.json({ error: 'Failed to save price scenario' }, { status: 500 });
+  }
+}
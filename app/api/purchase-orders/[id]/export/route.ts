@@ -0,0 +1,96 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { unparse } from 'papaparse';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { prisma } from '@/lib/prisma';
+import { findPurchaseOrder } from '@/lib/purchase-orders';
+import { formatPdfRow, renderTextPdf, PDF_LINE_WIDTH } from '@/lib/pdf';
+
+/**
+ * GET /api/purchase-orders/[id]/export
+ * Downloads a purchase order to send to the vendor.
+ * Query Parameters:
+ * - format?: 'pdf' | 'csv' (default: 'pdf')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const order = restaurantId ? await findPurchaseOrder(params.id, restaurantId) : null;
+    if (!restaurantId || !order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const format = request.nextUrl.searchParams.get('format') === 'csv' ? 'csv' : 'pdf';
+    const filename = `${order.number}-${order.vendor.name.replace(/[^a-z0-9-_]+/gi, '-')}.${format}`;
+
+    if (format === 'csv') {
+      const rows = order.lines.map((line) => ({
+        'PO Number': order.number,
+        Vendor: order.vendor.name,
+        Item: line.inventoryItem.name,
+        SKU: line.inventoryItem.sku,
+        Quantity: line.quantityOrdered,
+        Unit: line.unit,
+        'Unit Price': line.unitPrice.toFixed(2),
+        'Line Total': (line.quantityOrdered * line.unitPrice).toFixed(2),
+      }));
+
+      return new NextResponse(unparse(rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const restaurant = await prisma.restaurant.findUnique({ where: { id: restaurantId }, select: { name: true } });
+    const columns = (item: string, sku: string, quantity: string, unit: string, price: string, total: string) =>
+      formatPdfRow([
+        { text: item, width: 30 },
+        { text: sku, width: 14 },
+        { text: quantity, width: 9, align: 'right' },
+        { text: unit, width: 8 },
+        { text: price, width: 11, align: 'right' },
+        { text: total, width: 12, align: 'right' },
+      ]);
+
+    const lines = [
+      `PURCHASE ORDER ${order.number}`,
+      '',
+      `From:     ${restaurant?.name ?? ''}`,
+      `To:       ${order.vendor.name}`,
+      ...(order.vendor.accountNumber ? [`Account:  ${order.vendor.accountNumber}`] : []),
+      ...(order.vendor.paymentTerms ? [`Terms:    ${order.vendor.paymentTerms}`] : []),
+      `Date:     ${(order.sentAt ?? order.createdAt).toLocaleDateString('en-US')}`,
+      ...(order.expectedAt ? [`Deliver:  ${order.expectedAt.toLocaleDateString('en-US')}`] : []),
+      '',
+      columns('Item', 'SKU', 'Qty', 'Unit', 'Unit Price', 'Total'),
+      '-'.repeat(PDF_LINE_WIDTH),
+      ...order.lines.map((line) =>
+        columns(
+          line.inventoryItem.name,
+          line.inventoryItem.sku,
+          String(line.quantityOrdered),
+          line.unit,
+          `$${line.unitPrice.toFixed(2)}`,
+          `$${(line.quantityOrdered * line.unitPrice).toFixed(2)}`
+        )
+      ),
+      '-'.repeat(PDF_LINE_WIDTH),
+      columns('Order total', '', '', '', '', `$${order.summary.orderedTotal.toFixed(2)}`),
+      ...(order.notes ? ['', 'Notes:', ...order.notes.split('\n')] : []),
+    ];
+
+    return new NextResponse(renderTextPdf(lines), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export purchase order:', error);
+    return NextResponse.json({ error: 'Failed to export purchase order' }, { status: 500 });
+  }
+}
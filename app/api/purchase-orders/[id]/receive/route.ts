@@ -0,0 +1,185 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { findPurchaseOrder } from '@/lib/purchase-orders';
+import { recordPurchase } from '@/lib/purchases';
+import { getCurrentUser } from '@/lib/auth';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+import { getConversionFactor } from '@/utils/units';
+
+const receiveSchema = z.object({
+  receivedAt: z.string().datetime('Invalid date format').optional(),
+  notes: z.string().max(1000, 'Notes cannot exceed 1000 characters').optional(),
+  lines: z.array(
+    z.object({
+      orderLineId: z.string().cuid('Invalid order line ID'),
+      quantity: z.number()
+        .min(0, 'Quantity cannot be negative')
+        .max(1000000, 'Quantity is too large'),
+      unitPrice: z.number()
+        .min(0, 'Unit price cannot be negative')
+        .max(1000000, 'Unit price is too large'),
+      lotNumber: z.string()
+        .max(100, 'Lot number cannot exceed 100 characters')
+        .optional(),
+      expiresAt: z.string()
+        .datetime('Invalid date format')
+        .optional(),
+    })
+  ).max(200, 'Too many lines'),
+  // Close the order after this delivery; anything still outstanding is short-shipped
+  closeOrder: z.boolean().optional(),
+});
+
+/**
+ * POST /api/purchase-orders/[id]/receive
+ * Receives a delivery against a sent purchase order. Each received line
+ * becomes a purchase lot at the invoiced price, which adds to the item's
+ * stock and updates its unit price. Quantities and prices are per order unit;
+ * perishable lines can carry the lot number and use-by date of the delivery.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = receiveSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const order = restaurantId
+      ? await prisma.purchaseOrder.findFirst({
+          where: { id: params.id, restaurantId },
+          include: { lines: { include: { inventoryItem: { include: { unitConversions: true } } } } },
+        })
+      : null;
+    if (!restaurantId || !order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    if (order.status === 'DRAFT') {
+      return NextResponse.json({ error: 'Send the purchase order before receiving against it' }, { status: 409 });
+    }
+    if (order.status === 'RECEIVED' || order.status === 'CANCELLED') {
+      return NextResponse.json({ error: 'Purchase order is closed' }, { status: 409 });
+    }
+
+    const { notes, closeOrder = false } = validation.data;
+    const receivedAt = validation.data.receivedAt ? new Date(validation.data.receivedAt) : new Date();
+    const receivedLines = validation.data.lines.filter((line) => line.quantity > 0);
+    if (receivedLines.length === 0 && !closeOrder) {
+      return NextResponse.json({ error: 'Enter a received quantity for at least one line' }, { status: 400 });
+    }
+
+    // Received quantities go into stock in each item's inventory unit
+    const orderLines = new Map(order.lines.map((line) => [line.id, line]));
+    const conversions: {
+      received: (typeof receivedLines)[number];
+      orderLine: (typeof order.lines)[number];
+      factor: number;
+    }[] = [];
+    for (const received of receivedLines) {
+      const orderLine = orderLines.get(received.orderLineId);
+      if (!orderLine) {
+        return NextResponse.json({ error: 'Order line not found' }, { status: 404 });
+      }
+      const item = orderLine.inventoryItem;
+      const factor = getConversionFactor(orderLine.unit, item.inventoryUnit, item.unitConversions);
+      if (factor === null) {
+        return NextResponse.json(
+          { error: `No conversion from ${orderLine.unit} to ${item.inventoryUnit} for ${item.name}` },
+          { status: 400 }
+        );
+      }
+      conversions.push({ received, orderLine, factor });
+    }
+
+    const user = await getCurrentUser();
+    const applied = await prisma.$transaction(async (tx) => {
+      // Claim the order first so a repeated submit waits for this one, then finds the order changed
+      const { count: claimed } = await tx.purchaseOrder.updateMany({
+        where: { id: order.id, status: order.status },
+        data: { status: order.status },
+      });
+      if (claimed === 0) return false;
+      const current = await tx.purchaseOrderLine.findMany({
+        where: { purchaseOrderId: order.id },
+        select: { id: true, quantityReceived: true },
+      });
+      if (current.some((line) => line.quantityReceived !== orderLines.get(line.id)?.quantityReceived)) return false;
+
+      if (conversions.length > 0) {
+        const receipt = await tx.purchaseOrderReceipt.create({
+          data: { purchaseOrderId: order.id, receivedAt, notes },
+        });
+
+        for (const { received, orderLine, factor } of conversions) {
+          // Re-read the item so repeated lines for one item stack correctly
+          const item = await tx.inventoryItem.findUniqueOrThrow({ where: { id: orderLine.inventoryItemId } });
+          const lot = await recordPurchase(tx, item, {
+            quantity: received.quantity * factor,
+            unitPrice: received.unitPrice / factor,
+            vendorId: order.vendorId,
+            lotNumber: received.lotNumber,
+            purchasedAt: receivedAt,
+            expiresAt: received.expiresAt ? new Date(received.expiresAt) : null,
+          });
+          await recordInventoryTransaction(tx, {
+            inventoryItemId: item.id,
+            restaurantId: order.restaurantId,
+            type: 'RECEIPT',
+            quantity: lot.quantity,
+            cost: lot.totalCost,
+            occurredAt: receivedAt,
+            userId: user?.id,
+            sourceType: 'PurchaseOrder',
+            sourceId: order.id,
+            notes: order.number,
+          });
+
+          await tx.purchaseOrderReceiptLine.create({
+            data: {
+              receiptId: receipt.id,
+              orderLineId: orderLine.id,
+              quantity: received.quantity,
+              unitPrice: received.unitPrice,
+              purchaseLotId: lot.id,
+            },
+          });
+          await tx.purchaseOrderLine.update({
+            where: { id: orderLine.id },
+            data: { quantityReceived: { increment: received.quantity } },
+          });
+        }
+      }
+
+      const lines = await tx.purchaseOrderLine.findMany({ where: { purchaseOrderId: order.id } });
+      const isComplete = closeOrder || lines.every((line) => line.quantityReceived >= line.quantityOrdered);
+      await tx.purchaseOrder.update({
+        where: { id: order.id },
+        data: {
+          status: isComplete ? 'RECEIVED' : 'PARTIALLY_RECEIVED',
+          closedAt: isComplete ? receivedAt : null,
+        },
+      });
+      return true;
+    }, { timeout: 60000 });
+
+    if (!applied) {
+      return NextResponse.json(
+        { error: 'Purchase order was received by another request, reload it and try again' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ data: await findPurchaseOrder(order.id, restaurantId) }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to receive purchase order:', error);
+    return NextResponse.json({ error: 'Failed to receive purchase order' }, { status: 500 });
+  }
+}
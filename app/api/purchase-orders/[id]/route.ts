@@ -0,0 +1,170 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { findPurchaseOrder, resolvePurchaseOrderLines } from '@/lib/purchase-orders';
+import { normalizeUnit } from '@/utils/units';
+
+const purchaseOrderLineSchema = z.object({
+  inventoryItemId: z.string().cuid('Invalid inventory item ID'),
+  quantityOrdered: z.number()
+    .positive('Quantity must be positive')
+    .max(1000000, 'Quantity is too large'),
+  unit: z.string()
+    .min(1, 'Unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit)
+    .optional(),
+  unitPrice: z.number()
+    .min(0, 'Unit price cannot be negative')
+    .max(1000000, 'Unit price is too large')
+    .optional(),
+});
+
+const updatePurchaseOrderSchema = z.object({
+  vendorId: z.string().cuid('Invalid vendor ID').optional(),
+  expectedAt: z.string().datetime('Invalid date format').nullable().optional(),
+  notes: z.string().max(1000, 'Notes cannot exceed 1000 characters').nullable().optional(),
+  lines: z.array(purchaseOrderLineSchema)
+    .min(1, 'Add at least one item')
+    .max(200, 'Cannot order more than 200 items at once')
+    .optional(),
+  status: z.enum(['SENT', 'CANCELLED']).optional(),
+});
+
+/**
+ * GET /api/purchase-orders/[id]
+ * Returns a purchase order with its lines, receipts, and what has been
+ * received, short-shipped or invoiced at a different price on each line.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const order = restaurantId ? await findPurchaseOrder(params.id, restaurantId) : null;
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: order });
+  } catch (error) {
+    console.error('Failed to fetch purchase order:', error);
+    return NextResponse.json({ error: 'Failed to fetch purchase order' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/purchase-orders/[id]
+ * Edits a purchase order or moves it along: a draft can be edited and then
+ * sent, and an order with nothing received yet can be cancelled.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updatePurchaseOrderSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const existingOrder = restaurantId
+      ? await prisma.purchaseOrder.findFirst({ where: { id: params.id, restaurantId } })
+      : null;
+    if (!restaurantId || !existingOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const { lines, status, expectedAt, ...data } = validation.data;
+    const isDraft = existingOrder.status === 'DRAFT';
+
+    if ((lines || data.vendorId) && !isDraft) {
+      return NextResponse.json({ error: 'Only draft purchase orders can be changed' }, { status: 409 });
+    }
+    if (existingOrder.status === 'RECEIVED' || existingOrder.status === 'CANCELLED') {
+      return NextResponse.json({ error: 'Purchase order is closed' }, { status: 409 });
+    }
+    if (status === 'SENT' && !isDraft) {
+      return NextResponse.json({ error: 'Purchase order has already been sent' }, { status: 409 });
+    }
+    if (status === 'CANCELLED' && existingOrder.status === 'PARTIALLY_RECEIVED') {
+      return NextResponse.json(
+        { error: 'Purchase order has receipts; close it as short-shipped instead' },
+        { status: 409 }
+      );
+    }
+
+    if (data.vendorId) {
+      const vendor = await prisma.vendor.findFirst({ where: { id: data.vendorId, restaurantId }, select: { id: true } });
+      if (!vendor) {
+        return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+      }
+    }
+
+    const updateData: any = { ...data };
+    if (expectedAt !== undefined) {
+      updateData.expectedAt = expectedAt ? new Date(expectedAt) : null;
+    }
+    if (status === 'SENT') {
+      updateData.status = 'SENT';
+      updateData.sentAt = new Date();
+    }
+    if (status === 'CANCELLED') {
+      updateData.status = 'CANCELLED';
+      updateData.closedAt = new Date();
+    }
+    if (lines) {
+      const resolved = await resolvePurchaseOrderLines(lines, restaurantId);
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+      }
+      updateData.lines = { deleteMany: {}, create: resolved.lines };
+    }
+
+    await prisma.purchaseOrder.update({
+      where: { id: existingOrder.id },
+      data: updateData,
+    });
+
+    return NextResponse.json({ data: await findPurchaseOrder(existingOrder.id, restaurantId) });
+  } catch (error) {
+    console.error('Failed to update purchase order:', error);
+    return NextResponse.json({ error: 'Failed to update purchase order' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/purchase-orders/[id]
+ * Deletes a draft purchase order. Sent orders are cancelled instead so the
+ * vendor history is kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const existingOrder = restaurantId
+      ? await prisma.purchaseOrder.findFirst({ where: { id: params.id, restaurantId }, select: { id: true, status: true } })
+      : null;
+    if (!existingOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    if (existingOrder.status !== 'DRAFT') {
+      return NextResponse.json({ error: 'Only draft purchase orders can be deleted' }, { status: 409 });
+    }
+
+    await prisma.purchaseOrder.delete({ where: { id: existingOrder.id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete purchase order:', error);
+    return NextResponse.json({ error: 'Failed to delete purchase order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getReorderSuggestions } from '@/lib/reorder';
+import { nextPurchaseOrderNumber } from '@/lib/purchase-orders';
+import { nextDeliveryDate } from '@/utils/calculations';
+
+const fromSuggestionsSchema = z.object({
+  vendorIds: z.array(z.string().cuid('Invalid vendor ID')).optional(),
+  usageDays: z.number().int().min(0).max(365).optional(),
+  leadTimeDays: z.number().int().min(0).max(90).optional(),
+});
+
+/**
+ * POST /api/purchase-orders/from-suggestions
+ * Creates one draft purchase order per vendor from today's reorder
+ * suggestions, due on the vendor's first delivery day after the lead time.
+ * Items without a vendor are left out.
+ *
+ * Body:
+ * - vendorIds?: only create orders for these vendors
+ * - usageDays?, leadTimeDays?: as for GET /api/reports/reorder-suggestions
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = fromSuggestionsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { vendorIds, ...options } = validation.data;
+    const suggestions = (await getReorderSuggestions(restaurantId, options)).flatMap(({ vendorId, ...group }) =>
+      vendorId !== null && (!vendorIds || vendorIds.includes(vendorId)) ? [{ ...group, vendorId }] : []
+    );
+    const earliestDelivery = new Date(Date.now() + (options.leadTimeDays ?? 0) * 24 * 60 * 60 * 1000);
+
+    if (suggestions.length === 0) {
+      return NextResponse.json({ error: 'Nothing to order from a vendor today' }, { status: 400 });
+    }
+
+    const orders = await prisma.$transaction(async (tx) => {
+      const created = [];
+      for (const group of suggestions) {
+        created.push(
+          await tx.purchaseOrder.create({
+            data: {
+              number: await nextPurchaseOrderNumber(tx, restaurantId),
+              vendorId: group.vendorId,
+              expectedAt: nextDeliveryDate(group.deliveryDays, earliestDelivery),
+              restaurantId,
+              lines: {
+                create: group.items.map((item) => ({
+                  inventoryItemId: item.id,
+                  // Whole purchase units when the item is bought by the case
+                  quantityOrdered: item.purchaseQuantity ?? item.orderQuantity,
+                  unit: item.purchaseUnit ?? item.inventoryUnit,
+                  unitPrice: item.purchaseQuantity
+                    ? item.estimatedCost / item.purchaseQuantity
+                    : item.unitPrice,
+                })),
+              },
+            },
+          })
+        );
+      }
+      return created;
+    });
+
+    return NextResponse.json({ data: orders }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create purchase orders from suggestions:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Purchase order number already taken, please try again' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to create purchase orders' }, { status: 500 });
+  }
+}
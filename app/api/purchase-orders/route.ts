@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { nextPurchaseOrderNumber, resolvePurchaseOrderLines } from '@/lib/purchase-orders';
+import { normalizeUnit } from '@/utils/units';
+
+const purchaseOrderLineSchema = z.object({
+  inventoryItemId: z.string().cuid('Invalid inventory item ID'),
+  quantityOrdered: z.number()
+    .positive('Quantity must be positive')
+    .max(1000000, 'Quantity is too large'),
+  unit: z.string()
+    .min(1, 'Unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit)
+    .optional(),
+  unitPrice: z.number()
+    .min(0, 'Unit price cannot be negative')
+    .max(1000000, 'Unit price is too large')
+    .optional(),
+});
+
+const createPurchaseOrderSchema = z.object({
+  vendorId: z.string().cuid('Invalid vendor ID'),
+  expectedAt: z.string().datetime('Invalid date format').optional(),
+  notes: z.string().max(1000, 'Notes cannot exceed 1000 characters').optional(),
+  lines: z.array(purchaseOrderLineSchema)
+    .min(1, 'Add at least one item')
+    .max(200, 'Cannot order more than 200 items at once'),
+});
+
+const getPurchaseOrdersQuerySchema = z.object({
+  status: z.enum(['DRAFT', 'SENT', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CANCELLED']).optional(),
+  vendorId: z.string().optional(),
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+});
+
+/**
+ * GET /api/purchase-orders
+ * Lists purchase orders for the current restaurant, newest first.
+ * Query Parameters:
+ * - status?: 'DRAFT' | 'SENT' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED'
+ * - vendorId?: string
+ * - limit?: number (default: 20, max: 100)
+ * - offset?: number (default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getPurchaseOrdersQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { status, vendorId } = validation.data;
+    const take = Math.min(Number(validation.data.limit) || 20, 100);
+    const skip = Number(validation.data.offset) || 0;
+    const where = { restaurantId, ...(status && { status }), ...(vendorId && { vendorId }) };
+
+    const [total, orders] = await Promise.all([
+      prisma.purchaseOrder.count({ where }),
+      prisma.purchaseOrder.findMany({
+        where,
+        include: {
+          vendor: { select: { id: true, name: true } },
+          lines: { select: { quantityOrdered: true, unitPrice: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take,
+        skip,
+      }),
+    ]);
+
+    return NextResponse.json({
+      data: orders.map(({ lines, ...order }) => ({
+        ...order,
+        lineCount: lines.length,
+        orderedTotal: lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitPrice, 0),
+      })),
+      pagination: {
+        total,
+        limit: take,
+        offset: skip,
+        hasMore: skip + orders.length < total,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch purchase orders:', error);
+    return NextResponse.json({ error: 'Failed to fetch purchase orders' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/purchase-orders
+ * Creates a draft purchase order. Lines default to the item's purchase unit
+ * and latest price.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = createPurchaseOrderSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { lines, expectedAt, ...order } = validation.data;
+    const vendor = await prisma.vendor.findFirst({ where: { id: order.vendorId, restaurantId }, select: { id: true } });
+    if (!vendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    const resolved = await resolvePurchaseOrderLines(lines, restaurantId);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const newOrder = await prisma.$transaction(async (tx) =>
+      tx.purchaseOrder.create({
+        data: {
+          ...order,
+          number: await nextPurchaseOrderNumber(tx, restaurantId),
+          expectedAt: expectedAt ? new Date(expectedAt) : null,
+          restaurantId,
+          lines: { create: resolved.lines },
+        },
+      })
+    );
+
+    return NextResponse.json({ data: newOrder }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create purchase order:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Purchase order number already taken, please try again' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to create purchase order' }, { status: 500 });
+  }
+}
@@ -0,0 +1,141 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { validateRecipeIngredients } from '@/lib/recipes';
+import { findUnconvertibleUnit, normalizeUnit } from '@/utils/units';
+
+const ingredientSchema = z.object({
+  inventoryItemId: z.string().cuid('Invalid inventory item ID').optional(),
+  subRecipeId: z.string().cuid('Invalid sub-recipe ID').optional(),
+  quantityUsed: z.number()
+    .positive('Quantity used must be positive')
+    .max(1000, 'Quantity is too high'),
+  unit: z.string()
+    .min(1, 'Unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit),
+  yieldPercentage: z.number()
+    .positive('Yield must be positive')
+    .max(100, 'Yield cannot exceed 100%')
+    .optional(),
+}).refine((ing) => !ing.inventoryItemId !== !ing.subRecipeId, {
+  message: 'Each ingredient needs either an inventory item or a sub-recipe',
+});
+
+const updateRecipeSchema = z.object({
+  name: z.string()
+    .min(1, 'Recipe name is required')
+    .max(100, 'Recipe name cannot exceed 100 characters')
+    .trim(),
+  category: z.string()
+    .max(50, 'Category cannot exceed 50 characters')
+    .nullable(),
+  fixedPrice: z.number()
+    .min(0, 'Price cannot be negative')
+    .max(1000, 'Price is too high')
+    .nullable(),
+  batchYield: z.number()
+    .positive('Batch yield must be positive')
+    .max(100000, 'Batch yield is too large'),
+  yieldUnit: z.string()
+    .min(1, 'Yield unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit),
+  servingSize: z.number()
+    .int('Serving size must be an integer')
+    .min(1, 'Serving size must be at least 1'),
+  preparationTime: z.number()
+    .int('Preparation time must be an integer')
+    .min(0, 'Preparation time cannot be negative')
+    .max(1440, 'Preparation time is too long')
+    .nullable(),
+  ingredients: z.array(ingredientSchema)
+    .min(1, 'A recipe must have at least one ingredient')
+    .max(50, 'A recipe cannot have more than 50 ingredients'),
+}).partial();
+
+/**
+ * PATCH /api/recipes/[id]
+ * Updates a recipe. When ingredients are given they replace the existing ones.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updateRecipeSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    // Recipes belonging to another restaurant are reported as missing
+    const restaurantId = await getCurrentRestaurantId();
+    const existingRecipe = restaurantId
+      ? await prisma.recipe.findFirst({
+          where: { id: params.id, restaurantId },
+          include: { usedIn: { select: { unit: true } } },
+        })
+      : null;
+
+    if (!restaurantId || !existingRecipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    const { ingredients, ...data } = validation.data;
+
+    // Recipes using this one as a sub-recipe must still be able to cost it
+    if (data.yieldUnit) {
+      const unconvertible = findUnconvertibleUnit(
+        existingRecipe.usedIn.map((ingredient) => ingredient.unit),
+        data.yieldUnit
+      );
+      if (unconvertible) {
+        return NextResponse.json(
+          { error: `Other recipes use this one in ${unconvertible}, which does not convert to ${data.yieldUnit}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (ingredients) {
+      const ingredientError = await validateRecipeIngredients(ingredients, restaurantId, existingRecipe.id);
+      if (ingredientError) {
+        return NextResponse.json({ error: ingredientError.error }, { status: ingredientError.status });
+      }
+    }
+
+    const updatedRecipe = await prisma.$transaction(async (prisma) => {
+      await prisma.recipe.update({
+        where: { id: existingRecipe.id },
+        data,
+      });
+
+      if (ingredients) {
+        await prisma.recipeIngredient.deleteMany({ where: { recipeId: existingRecipe.id } });
+        await prisma.recipeIngredient.createMany({
+          data: ingredients.map((ing) => ({
+            inventoryItemId: ing.inventoryItemId,
+            subRecipeId: ing.subRecipeId,
+            quantityUsed: ing.quantityUsed,
+            unit: ing.unit,
+            yieldPercentage: ing.yieldPercentage,
+            recipeId: existingRecipe.id,
+          })),
+        });
+      }
+
+      return prisma.recipe.findUnique({
+        where: { id: existingRecipe.id },
+        include: { ingredients: true },
+      });
+    });
+
+    return NextResponse.json(updatedRecipe);
+  } catch (error) {
+    console.error('Failed to update recipe:', error);
+    return NextResponse.json({ error: 'Failed to update recipe' }, { status: 500 });
+  }
+}
@@ -1,18 +1,30 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { loadRecipeGraph, validateRecipeIngredients } from '@/lib/recipes';
+import { calculatePlateCost, calculateRecipeCost, calculateRecipeCostBreakdown } from '@/utils/calculations';
+import { normalizeUnit } from '@/utils/units';
 import { Prisma } from '@prisma/client';
 
 // Validation schemas
 const ingredientSchema = z.object({
-  inventoryItemId: z.string().cuid('Invalid inventory item ID'),
+  inventoryItemId: z.string().cuid('Invalid inventory item ID').optional(),
+  subRecipeId: z.string().cuid('Invalid sub-recipe ID').optional(),
   quantityUsed: z.number()
     .positive('Quantity used must be positive')
     .max(1000, 'Quantity is too high'),
   unit: z.string()
     .min(1, 'Unit is required')
-    .max(20, 'Unit cannot exceed 20 characters'),
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit),
+  yieldPercentage: z.number()
+    .positive('Yield must be positive')
+    .max(100, 'Yield cannot exceed 100%')
+    .optional(),
   notes: z.string().max(200, 'Notes cannot exceed 200 characters').optional(),
+}).refine((ing) => !ing.inventoryItemId !== !ing.subRecipeId, {
+  message: 'Each ingredient needs either an inventory item or a sub-recipe',
 });
 
 const createRecipeSchema = z.object({
@@ -39,8 +51,16 @@ const createRecipeSchema = z.object({
     .min(0, 'Price cannot be negative')
     .max(1000, 'Price is too high')
     .optional(),
+  batchYield: z.number()
+    .positive('Batch yield must be positive')
+    .max(100000, 'Batch yield is too large')
+    .optional(),
+  yieldUnit: z.string()
+    .min(1, 'Yield unit is required')
+    .max(20, 'Unit cannot exceed 20 characters')
+    .transform(normalizeUnit)
+    .optional(),
   isActive: z.boolean().default(true),
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
   ingredients: z.array(ingredientSchema)
     .min(1, 'A recipe must have at least one ingredient')
     .max(50, 'A recipe cannot have more than 50 ingredients'),
@@ -54,7 +74,6 @@ const createRecipeSchema = z.object({
 
 // Query parameters schema
 const getRecipesQuerySchema = z.object({
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
   search: z.string().optional(),
   category: z.string().optional(),
   minPrice: z.string().optional(),
@@ -69,7 +88,7 @@ const getRecipesQuerySchema = z.object({
 
 /**
  * GET /api/recipes
- * Fetches recipes with filtering, sorting, and pagination.
+ * Fetches recipes for the current restaurant with filtering, sorting, and pagination.
  */
 export async function GET(request: Request) {
   try {
@@ -85,8 +104,12 @@ export async function GET(request: Request) {
       );
     }
 
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
     const {
-      restaurantId,
       search,
       category,
       minPrice,
@@ -164,6 +187,16 @@ export async function GET(request: Request) {
                 sku: true,
                 quantity: true,
                 unitPrice: true,
+                inventoryUnit: true,
+                unitConversions: true,
+              },
+            },
+            subRecipe: {
+              select: {
+                id: true,
+                name: true,
+                batchYield: true,
+                yieldUnit: true,
               },
             },
           },
@@ -192,8 +225,20 @@ export async function GET(request: Request) {
       },
     });
 
+    // Costs are rolled up through sub-recipes, which may sit outside this page
+    const graph = await loadRecipeGraph(restaurantId);
+    const costedRecipes = recipes.map((recipe) => {
+      const ingredients = graph.get(recipe.id)?.ingredients ?? [];
+      return {
+        ...recipe,
+        cost: calculateRecipeCost(ingredients),
+        plateCost: calculatePlateCost({ servingSize: recipe.servingSize, ingredients }),
+        costBreakdown: calculateRecipeCostBreakdown(ingredients),
+      };
+    });
+
     return NextResponse.json({
-      data: recipes,
+      data: costedRecipes,
       pagination: {
         total,
         limit: take,
@@ -222,7 +267,7 @@ export async function GET(request: Request) {
 
 /**
  * POST /api/recipes
- * Creates a new recipe with its ingredients.
+ * Creates a new recipe with its ingredients in the current restaurant.
  */
 export async function POST(request: Request) {
   try {
@@ -233,17 +278,50 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
     }
 
-    const { ingredients, ...recipeData } = validation.data;
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const {
+      ingredients,
+      name,
+      category,
+      fixedPrice,
+      batchYield,
+      yieldUnit,
+      servingSize,
+      preparationTime,
+    } = validation.data;
+
+    // Ingredients must come from this restaurant's inventory or recipes
+    const ingredientError = await validateRecipeIngredients(ingredients, restaurantId);
+    if (ingredientError) {
+      return NextResponse.json({ error: ingredientError.error }, { status: ingredientError.status });
+    }
 
     // Use a transaction to ensure the recipe and its ingredients are created together
     const newRecipe = await prisma.$transaction(async (prisma) => {
       const recipe = await prisma.recipe.create({
-        data: recipeData,
+        data: {
+          name,
+          category,
+          fixedPrice,
+          batchYield,
+          yieldUnit,
+          servingSize,
+          preparationTime,
+          restaurantId,
+        },
       });
 
       await prisma.recipeIngredient.createMany({
         data: ingredients.map((ing) => ({
-          ...ing,
+          inventoryItemId: ing.inventoryItemId,
+          subRecipeId: ing.subRecipeId,
+          quantityUsed: ing.quantityUsed,
+          unit: ing.unit,
+          yieldPercentage: ing.yieldPercentage,
           recipeId: recipe.id,
         })),
       });
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getExpiringLots } from '@/lib/purchases';
+
+const DEFAULT_WARNING_DAYS = 3;
+
+const expiringLotsQuerySchema = z.object({
+  days: z.string()
+    .regex(/^\d+$/, 'Days must be a whole number')
+    .transform(Number)
+    .refine((days) => days <= 365, 'Days cannot exceed 365')
+    .optional(),
+});
+
+/**
+ * GET /api/reports/expiring-lots
+ * Lists lots with stock left that have expired or expire soon, soonest
+ * first, as a use-first list. Each lot is flagged EXPIRED or EXPIRING.
+ * Query Parameters:
+ * - days?: number (warning window in days, default: 3)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = expiringLotsQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { days = DEFAULT_WARNING_DAYS } = validation.data;
+    const lots = await getExpiringLots(restaurantId, days);
+    const expired = lots.filter((lot) => lot.status === 'EXPIRED');
+
+    return NextResponse.json({
+      data: lots,
+      summary: {
+        days,
+        expiredLots: expired.length,
+        expiredValue: expired.reduce((total, lot) => total + lot.value, 0),
+        expiringLots: lots.length - expired.length,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch expiring lots:', error);
+    return NextResponse.json({ error: 'Failed to fetch expiring lots' }, { status: 500 });
+  }
+}
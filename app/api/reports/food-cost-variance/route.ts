@@ -0,0 +1,180 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { loadRecipeGraph } from '@/lib/recipes';
+import {
+  calculateActualUsage,
+  calculateTheoreticalUsage,
+  calculateUsageVariance,
+} from '@/utils/calculations';
+
+const varianceReportSchema = z.object({
+  startDate: z.string().datetime('Invalid date format'),
+  endDate: z.string().datetime('Invalid date format'),
+  counts: z.array(z.object({
+    inventoryItemId: z.string().cuid('Invalid inventory item ID'),
+    beginningQuantity: z.number().min(0, 'Quantity cannot be negative'),
+    endingQuantity: z.number().min(0, 'Quantity cannot be negative').optional(),
+  }))
+    .max(5000, 'Too many counts')
+    .default([]),
+}).refine((data) => new Date(data.startDate) <= new Date(data.endDate), {
+  message: 'Start date must be before end date',
+  path: ['endDate'],
+});
+
+interface VarianceTotals {
+  theoreticalCost: number;
+  actualCost: number;
+  varianceCost: number;
+  variancePercentage: number;
+}
+
+function summarize(rows: { theoreticalUsage: number; actualUsage: number | null; unitPrice: number }[]): VarianceTotals {
+  // Only items with a beginning count have a known actual usage
+  const counted = rows.filter((row) => row.actualUsage !== null);
+  const theoreticalCost = counted.reduce((sum, row) => sum + row.theoreticalUsage * row.unitPrice, 0);
+  const actualCost = counted.reduce((sum, row) => sum + (row.actualUsage as number) * row.unitPrice, 0);
+  const varianceCost = actualCost - theoreticalCost;
+  return {
+    theoreticalCost,
+    actualCost,
+    varianceCost,
+    variancePercentage: theoreticalCost === 0 ? 0 : (varianceCost / theoreticalCost) * 100,
+  };
+}
+
+/**
+ * POST /api/reports/food-cost-variance
+ * Compares theoretical ingredient usage (recipe quantities x menu items sold)
+ * with actual usage (beginning inventory + purchases + net transfers in -
+ * ending inventory) per inventory item and per category over a period.
+ *
+ * Body:
+ * - startDate, endDate: ISO date strings
+ * - counts: beginning (and optionally ending) counted quantities per item.
+ *   Ending quantities default to the current on-hand quantity. Items without
+ *   a beginning count are listed without actual usage.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = varianceReportSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const startDate = new Date(validation.data.startDate);
+    const endDate = new Date(validation.data.endDate);
+    const counts = new Map(validation.data.counts.map((count) => [count.inventoryItemId, count]));
+
+    const [items, itemSales, purchases, transfers] = await Promise.all([
+      prisma.inventoryItem.findMany({
+        where: { restaurantId },
+        orderBy: [{ category: 'asc' }, { name: 'asc' }],
+      }),
+      prisma.menuItemSale.groupBy({
+        by: ['recipeId'],
+        _sum: { quantity: true },
+        where: { restaurantId, date: { gte: startDate, lte: endDate } },
+      }),
+      prisma.purchaseLot.groupBy({
+        by: ['inventoryItemId'],
+        _sum: { quantity: true },
+        where: {
+          source: 'PURCHASE',
+          purchasedAt: { gte: startDate, lte: endDate },
+          inventoryItem: { restaurantId },
+        },
+      }),
+      prisma.inventoryTransaction.groupBy({
+        by: ['inventoryItemId'],
+        _sum: { quantity: true },
+        where: {
+          restaurantId,
+          type: { in: ['TRANSFER_IN', 'TRANSFER_OUT'] },
+          occurredAt: { gte: startDate, lte: endDate },
+        },
+      }),
+    ]);
+
+    // Sub-recipes are expanded into the inventory items they are made from
+    const recipeGraph = await loadRecipeGraph(restaurantId);
+
+    // Every delivery is its own cost layer; adjustments and transfers are not purchases
+    const purchased = new Map(purchases.map((purchase) => [purchase.inventoryItemId, purchase._sum.quantity || 0]));
+    // Stock moved to or from other locations is neither bought nor used here
+    const transferred = new Map(transfers.map((transfer) => [transfer.inventoryItemId, transfer._sum.quantity || 0]));
+    const quantitySold = new Map(itemSales.map((sale) => [sale.recipeId, sale._sum.quantity || 0]));
+    const theoreticalUsage = calculateTheoreticalUsage(
+      itemSales.map((sale) => ({
+        quantitySold: quantitySold.get(sale.recipeId) || 0,
+        servingSize: recipeGraph.get(sale.recipeId)?.servingSize,
+        ingredients: recipeGraph.get(sale.recipeId)?.ingredients ?? [],
+      }))
+    );
+
+    const rows = items
+      .map((item) => {
+        const count = counts.get(item.id);
+        const purchasedQuantity = purchased.get(item.id) || 0;
+        const transferredQuantity = transferred.get(item.id) || 0;
+        const endingQuantity = count?.endingQuantity ?? item.quantity;
+        const theoretical = theoreticalUsage.get(item.id) || 0;
+        const actualUsage = count
+          ? calculateActualUsage(count.beginningQuantity, purchasedQuantity + transferredQuantity, endingQuantity)
+          : null;
+        const variance = actualUsage === null
+          ? null
+          : calculateUsageVariance(actualUsage, theoretical, item.unitPrice);
+
+        return {
+          inventoryItemId: item.id,
+          name: item.name,
+          sku: item.sku,
+          category: item.category,
+          unitPrice: item.unitPrice,
+          beginningQuantity: count?.beginningQuantity ?? null,
+          purchasedQuantity,
+          transferredQuantity,
+          endingQuantity,
+          theoreticalUsage: theoretical,
+          actualUsage,
+          varianceQuantity: variance?.quantity ?? null,
+          varianceCost: variance?.cost ?? null,
+          variancePercentage: variance?.percentage ?? null,
+        };
+      })
+      .filter((row) =>
+        row.beginningQuantity !== null ||
+        row.theoreticalUsage > 0 ||
+        row.purchasedQuantity > 0 ||
+        row.transferredQuantity !== 0
+      );
+
+    const categories = Array.from(new Set(rows.map((row) => row.category))).map((category) => ({
+      category,
+      ...summarize(rows.filter((row) => row.category === category)),
+    }));
+
+    return NextResponse.json({
+      data: {
+        startDate,
+        endDate,
+        items: rows,
+        categories,
+        totals: summarize(rows),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to build food cost variance report:', error);
+    return NextResponse.json({ error: 'Failed to build food cost variance report' }, { status: 500 });
+  }
+}
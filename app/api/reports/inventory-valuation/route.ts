@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { unparse } from 'papaparse';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getInventoryValuation } from '@/lib/costing';
+
+const inventoryValuationQuerySchema = z.object({
+  asOf: z.string().datetime('Invalid date format').optional(),
+  category: z.string().optional(),
+  format: z.enum(['json', 'csv']).optional(),
+});
+
+/**
+ * GET /api/reports/inventory-valuation
+ * Values on-hand inventory at cost as of a date, from the cost layers
+ * received and consumed up to then under the restaurant's costing method.
+ * Query Parameters:
+ * - asOf?: ISO date string (default: now)
+ * - category?: string
+ * - format?: 'json' | 'csv' (default: 'json')
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = inventoryValuationQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const asOf = validation.data.asOf ? new Date(validation.data.asOf) : new Date();
+    const { category, format } = validation.data;
+
+    const [restaurant, items] = await Promise.all([
+      prisma.restaurant.findUnique({ where: { id: restaurantId }, select: { costingMethod: true } }),
+      getInventoryValuation(restaurantId, asOf, category),
+    ]);
+
+    if (format === 'csv') {
+      const rows = items.map((item) => ({
+        Category: item.category,
+        Item: item.name,
+        SKU: item.sku,
+        Unit: item.inventoryUnit,
+        Quantity: item.quantity.toFixed(2),
+        'Average Unit Cost': item.averageUnitCost.toFixed(4),
+        Value: item.value.toFixed(2),
+      }));
+      const filename = `inventory-valuation-${asOf.toISOString().slice(0, 10)}.csv`;
+
+      return new NextResponse(unparse(rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    const categoryTotals = new Map<string, number>();
+    items.forEach((item) => {
+      categoryTotals.set(item.category, (categoryTotals.get(item.category) ?? 0) + item.value);
+    });
+
+    return NextResponse.json({
+      data: {
+        asOf: asOf.toISOString(),
+        costingMethod: restaurant?.costingMethod ?? 'FIFO',
+        items,
+        categories: Array.from(categoryTotals, ([name, value]) => ({ name, value })),
+        totalValue: items.reduce((total, item) => total + item.value, 0),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to generate inventory valuation:', error);
+    return NextResponse.json({ error: 'Failed to generate inventory valuation' }, { status: 500 });
+  }
+}
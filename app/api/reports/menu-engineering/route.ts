@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { loadRecipeGraph } from '@/lib/recipes';
+import { calculatePlateCost, classifyMenuItems, type MenuEngineeringClass } from '@/utils/calculations';
+
+const menuEngineeringQuerySchema = z.object({
+  startDate: z.string().datetime('Invalid date format').optional(),
+  endDate: z.string().datetime('Invalid date format').optional(),
+  category: z.string().optional(),
+});
+
+const RECOMMENDATIONS: Record<MenuEngineeringClass, string> = {
+  STAR: 'Keep it prominent and protect its quality and portioning. Test small price increases.',
+  PLOWHORSE: 'Popular but low margin: re-engineer the recipe or portion to lower plate cost, raise the price gradually, or pair it with high-margin sides.',
+  PUZZLE: 'Profitable but slow: move it to a better menu position, rename or describe it better, and have servers recommend it.',
+  DOG: 'Low margin and slow: remove or replace it, unless it serves a purpose such as a kids or dietary option.',
+};
+
+/**
+ * GET /api/reports/menu-engineering
+ * Classifies every menu item (recipes with a menu price) into stars,
+ * plowhorses, puzzles and dogs from its sales and contribution margin.
+ * Query Parameters:
+ * - startDate?, endDate?: ISO date strings (default: the last 30 days)
+ * - category?: only compare items in this menu category
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = menuEngineeringQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const endDate = validation.data.endDate ? new Date(validation.data.endDate) : new Date();
+    const startDate = validation.data.startDate
+      ? new Date(validation.data.startDate)
+      : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const { category } = validation.data;
+
+    const [graph, itemSales] = await Promise.all([
+      loadRecipeGraph(restaurantId),
+      prisma.menuItemSale.groupBy({
+        by: ['recipeId'],
+        _sum: { quantity: true },
+        where: { restaurantId, date: { gte: startDate, lte: endDate } },
+      }),
+    ]);
+
+    const quantitySold = new Map(itemSales.map((sale) => [sale.recipeId, sale._sum.quantity || 0]));
+
+    // Prep items without a menu price are only used as sub-recipes
+    const menuItems = Array.from(graph.values()).filter((recipe) => recipe.fixedPrice !== null);
+    const categories = Array.from(
+      new Set(menuItems.flatMap((recipe) => (recipe.category ? [recipe.category] : [])))
+    ).sort();
+
+    const { popularityThreshold, marginThreshold, items } = classifyMenuItems(
+      menuItems
+        .filter((recipe) => !category || recipe.category === category)
+        .map((recipe) => {
+          const price = recipe.fixedPrice as number;
+          const plateCost = calculatePlateCost(recipe);
+          const sold = quantitySold.get(recipe.id) || 0;
+          return {
+            recipeId: recipe.id,
+            name: recipe.name,
+            category: recipe.category,
+            price,
+            plateCost,
+            contributionMargin: price - plateCost,
+            foodCostPercentage: price > 0 ? (plateCost / price) * 100 : 0,
+            quantitySold: sold,
+            totalMargin: (price - plateCost) * sold,
+          };
+        })
+    );
+
+    const quadrants = (Object.keys(RECOMMENDATIONS) as MenuEngineeringClass[]).map((classification) => {
+      const quadrantItems = items.filter((item) => item.classification === classification);
+      return {
+        classification,
+        count: quadrantItems.length,
+        quantitySold: quadrantItems.reduce((total, item) => total + item.quantitySold, 0),
+        totalMargin: quadrantItems.reduce((total, item) => total + item.totalMargin, 0),
+        recommendation: RECOMMENDATIONS[classification],
+      };
+    });
+
+    return NextResponse.json({
+      data: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        thresholds: { popularity: popularityThreshold, contributionMargin: marginThreshold },
+        items: items.map((item) => ({ ...item, recommendation: RECOMMENDATIONS[item.classification] })),
+        quadrants,
+        categories,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to build menu engineering report:', error);
+    return NextResponse.json({ error: 'Failed to build menu engineering report' }, { status: 500 });
+  }
+}
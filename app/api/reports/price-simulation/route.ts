@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { runPriceSimulation } from '@/lib/price-simulation';
+
+const priceSimulationSchema = z.object({
+  recipeIds: z.array(z.string().cuid('Invalid recipe ID'))
+    .min(1, 'Select at least one menu item')
+    .max(200, 'Too many menu items'),
+  adjustmentType: z.enum(['ABSOLUTE', 'PERCENT', 'TARGET_FOOD_COST']),
+  adjustmentValue: z.number().min(-1000, 'Adjustment is too large').max(1000, 'Adjustment is too large'),
+  elasticity: z.number().min(-20).max(20).nullable().optional(),
+  volumeChange: z.number().min(-100, 'Volume cannot drop by more than 100%').max(1000).nullable().optional(),
+}).refine(
+  (data) => data.adjustmentType !== 'TARGET_FOOD_COST' || (data.adjustmentValue > 0 && data.adjustmentValue < 100),
+  { message: 'Target food cost percentage must be between 0 and 100', path: ['adjustmentValue'] }
+);
+
+/**
+ * POST /api/reports/price-simulation
+ * Projects revenue, food cost % and contribution margin for a what-if price
+ * change on a set of menu items, against their sales over the last 30 days.
+ *
+ * Body:
+ * - recipeIds: menu items to reprice
+ * - adjustmentType: 'ABSOLUTE' (dollars), 'PERCENT', or 'TARGET_FOOD_COST' (price to hit a food cost %)
+ * - adjustmentValue: the dollar amount, percentage or target food cost %
+ * - elasticity?: % change in units sold per 1% change in price
+ * - volumeChange?: assumed % change in units sold when no elasticity is given
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = priceSimulationSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { recipeIds, ...adjustment } = validation.data;
+    const simulation = await runPriceSimulation(restaurantId, Array.from(new Set(recipeIds)), adjustment);
+    if (!simulation) {
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: simulation });
+  } catch (error) {
+    console.error('Failed to run price simulation:', error);
+    return NextResponse.json({ error: 'Failed to run price simulation' }, { status: 500 });
+  }
+}
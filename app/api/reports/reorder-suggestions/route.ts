@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getReorderSuggestions } from '@/lib/reorder';
+
+const reorderQuerySchema = z.object({
+  usageDays: z.string()
+    .regex(/^\d+$/, 'Usage days must be a whole number')
+    .transform(Number)
+    .refine((days) => days <= 365, 'Usage days cannot exceed 365')
+    .optional(),
+  leadTimeDays: z.string()
+    .regex(/^\d+$/, 'Lead time must be a whole number of days')
+    .transform(Number)
+    .refine((days) => days <= 90, 'Lead time cannot exceed 90 days')
+    .optional(),
+});
+
+/**
+ * GET /api/reports/reorder-suggestions
+ * Lists what to order today: items at or below their reorder point (or below
+ * par) with a suggested quantity to bring them back to par, grouped by vendor.
+ * Query Parameters:
+ * - usageDays?: number (average usage over this many days to cover the lead time, default: 0)
+ * - leadTimeDays?: number (days until an order arrives, default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = reorderQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const vendors = await getReorderSuggestions(restaurantId, validation.data);
+
+    return NextResponse.json({
+      data: vendors,
+      summary: {
+        itemCount: vendors.reduce((total, vendor) => total + vendor.items.length, 0),
+        estimatedCost: vendors.reduce((total, vendor) => total + vendor.estimatedCost, 0),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to generate reorder suggestions:', error);
+    return NextResponse.json({ error: 'Failed to generate reorder suggestions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { unparse } from 'papaparse';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getLaborRules } from '@/lib/labor';
+import { findTipPool, getTipDistribution } from '@/lib/tips';
+import { startOfWorkweek } from '@/utils/calculations';
+
+const tipDistributionQuerySchema = z.object({
+  tipPoolId: z.string().cuid('Invalid tip pool ID'),
+  startDate: z.string().datetime('Invalid date format').optional(),
+  endDate: z.string().datetime('Invalid date format').optional(),
+  format: z.enum(['json', 'csv']).optional(),
+});
+
+/**
+ * GET /api/reports/tip-distribution
+ * Shares the tips collected over a pay period among the staff under a tip
+ * pool, for payroll. Tips paid out plus any left undistributed add up to
+ * the tips recorded with sales.
+ * Query Parameters:
+ * - tipPoolId: string
+ * - startDate?, endDate?: ISO date strings (default: the current workweek)
+ * - format?: 'json' | 'csv' (default: 'json')
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = tipDistributionQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { tipPoolId, format } = validation.data;
+    const tipPool = await findTipPool(tipPoolId, restaurantId);
+    if (!tipPool) {
+      return NextResponse.json({ error: 'Tip pool not found' }, { status: 404 });
+    }
+
+    const { weekStartsOn } = await getLaborRules(restaurantId);
+    const weekStart = startOfWorkweek(new Date(), weekStartsOn);
+    const startDate = validation.data.startDate ? new Date(validation.data.startDate) : weekStart;
+    const endDate = validation.data.endDate
+      ? new Date(validation.data.endDate)
+      : new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+    if (startDate > endDate) {
+      return NextResponse.json({ error: 'Start date must be before end date' }, { status: 400 });
+    }
+
+    const distribution = await getTipDistribution(tipPool, restaurantId, startDate, endDate);
+
+    if (format === 'csv') {
+      const rows = [
+        ...distribution.employees.map((employee) => ({
+          Employee: employee.employeeName,
+          'Days Worked': employee.days,
+          Hours: employee.hours.toFixed(2),
+          Tips: employee.tips.toFixed(2),
+        })),
+        { Employee: 'Undistributed', 'Days Worked': '', Hours: '', Tips: distribution.summary.undistributedTips.toFixed(2) },
+        { Employee: 'Total Tips Collected', 'Days Worked': '', Hours: '', Tips: distribution.summary.totalTips.toFixed(2) },
+      ];
+      const period = `${distribution.startDate.toISOString().slice(0, 10)}-to-${distribution.endDate.toISOString().slice(0, 10)}`;
+      const filename = `tips-${tipPool.name.replace(/[^a-z0-9-_]+/gi, '-')}-${period}.csv`;
+
+      return new NextResponse(unparse(rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ data: { tipPool, ...distribution } });
+  } catch (error) {
+    console.error('Failed to generate tip distribution report:', error);
+    return NextResponse.json({ error: 'Failed to generate tip distribution report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getVendorScorecards } from '@/lib/vendors';
+
+const vendorScorecardsQuerySchema = z.object({
+  startDate: z.string().datetime('Invalid date format').optional(),
+  endDate: z.string().datetime('Invalid date format').optional(),
+});
+
+/**
+ * GET /api/reports/vendor-scorecards
+ * Scores every vendor on spend, price trend, fill rate and on-time delivery
+ * from purchases, expenses and the receiving history of purchase orders.
+ * Query Parameters:
+ * - startDate?, endDate?: ISO date strings (default: the last 90 days)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = vendorScorecardsQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const endDate = validation.data.endDate ? new Date(validation.data.endDate) : new Date();
+    const startDate = validation.data.startDate
+      ? new Date(validation.data.startDate)
+      : new Date(endDate.getTime() - 90 * 24 * 60 * 60 * 1000);
+
+    const scorecards = await getVendorScorecards(restaurantId, startDate, endDate);
+
+    return NextResponse.json({
+      data: scorecards,
+      summary: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        totalSpend: scorecards.reduce((total, vendor) => total + vendor.totalSpend, 0),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to build vendor scorecards:', error);
+    return NextResponse.json({ error: 'Failed to build vendor scorecards' }, { status: 500 });
+  }
+}
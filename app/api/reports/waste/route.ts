@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getWasteReport } from '@/lib/waste';
+
+const wasteReportQuerySchema = z.object({
+  startDate: z.string().datetime('Invalid date format').optional(),
+  endDate: z.string().datetime('Invalid date format').optional(),
+});
+
+/**
+ * GET /api/reports/waste
+ * Totals the cost of logged waste by reason, by item or recipe, and by day.
+ * Query Parameters:
+ * - startDate?, endDate?: ISO date strings (default: the last 30 days)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = wasteReportQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const endDate = validation.data.endDate ? new Date(validation.data.endDate) : new Date();
+    const startDate = validation.data.startDate
+      ? new Date(validation.data.startDate)
+      : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const { totalCost, ...report } = await getWasteReport(restaurantId, startDate, endDate);
+
+    return NextResponse.json({
+      data: report,
+      summary: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        totalCost,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to build waste report:', error);
+    return NextResponse.json({ error: 'Failed to build waste report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { cookies } from 'next/headers';
+import { getCurrentUser, refreshSession, setSessionCookie } from '@/lib/auth';
+import { RESTAURANT_COOKIE, SESSION_COOKIE } from '@/lib/session';
+
+const selectRestaurantSchema = z.object({
+  restaurantId: z.string().cuid('Invalid restaurant ID'),
+});
+
+/**
+ * POST /api/restaurants/current
+ * Switches the session to another restaurant the user belongs to. The
+ * session token is re-issued so it carries restaurants and roles granted
+ * since sign-in.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = selectRestaurantSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Restaurants the user is not a member of are reported as missing
+    const restaurant = user.memberships.find(
+      (m) => m.restaurant.id === validation.data.restaurantId
+    )?.restaurant;
+
+    if (!restaurant) {
+      return NextResponse.json({ error: 'Restaurant not found' }, { status: 404 });
+    }
+
+    const session = await refreshSession(cookies().get(SESSION_COOKIE)?.value ?? '');
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ data: restaurant });
+    setSessionCookie(response, session.token, session.expiresAt);
+    response.cookies.set(RESTAURANT_COOKIE, restaurant.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return response;
+  } catch (error) {
+    console.error('Failed to switch restaurant:', error);
+    return NextResponse.json({ error: 'Failed to switch restaurant' }, { status: 500 });
+  }
+}
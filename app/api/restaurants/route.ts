@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+/**
+ * GET /api/restaurants
+ * Lists the restaurants the signed-in user belongs to, along with the current one.
+ */
+export async function GET() {
+  try {
+    const [user, currentRestaurantId] = await Promise.all([
+      getCurrentUser(),
+      getCurrentRestaurantId(),
+    ]);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      data: user.memberships.map((m) => m.restaurant),
+      currentRestaurantId,
+    });
+  } catch (error) {
+    console.error('Failed to fetch restaurants:', error);
+    return NextResponse.json({ error: 'Failed to fetch restaurants' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+const updateSettingsSchema = z.object({
+  costingMethod: z.enum(['FIFO', 'WEIGHTED_AVERAGE']),
+});
+
+/**
+ * GET /api/restaurants/settings
+ * Returns the current restaurant's settings.
+ */
+export async function GET() {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const restaurant = restaurantId
+      ? await prisma.restaurant.findUnique({
+          where: { id: restaurantId },
+          select: { id: true, name: true, costingMethod: true },
+        })
+      : null;
+
+    if (!restaurant) {
+      return NextResponse.json({ error: 'Restaurant not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: restaurant });
+  } catch (error) {
+    console.error('Failed to fetch restaurant settings:', error);
+    return NextResponse.json({ error: 'Failed to fetch restaurant settings' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/restaurants/settings
+ * Updates the current restaurant's settings. A new costing method applies to
+ * stock used from now on; usage already costed is not restated.
+ */
+export async function PATCH(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = updateSettingsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const restaurant = await prisma.restaurant.update({
+      where: { id: restaurantId },
+      data: validation.data,
+      select: { id: true, name: true, costingMethod: true },
+    });
+
+    return NextResponse.json({ data: restaurant });
+  } catch (error) {
+    console.error('Failed to update restaurant settings:', error);
+    return NextResponse.json({ error: 'Failed to update restaurant settings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { reverseSalesDepletion } from '@/lib/depletion';
+
+/**
+ * POST /api/sales-depletions/[id]/reverse
+ * Rolls back a sales import or entry: restores the quantities sold it
+ * replaced and puts the stock it used back into inventory.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Sales depletion not found' }, { status: 404 });
+    }
+
+    const userId = (await getCurrentUser())?.id ?? null;
+    const result = await prisma.$transaction(
+      (tx) => reverseSalesDepletion(tx, params.id, restaurantId, userId),
+      { timeout: 60000 }
+    );
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ data: result.depletion });
+  } catch (error) {
+    console.error('Failed to reverse sales depletion:', error);
+    return NextResponse.json({ error: 'Failed to reverse sales depletion' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+const getSalesDepletionsQuerySchema = z.object({
+  status: z.enum(['POSTED', 'REVERSED']).optional(),
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+});
+
+/**
+ * GET /api/sales-depletions
+ * Lists the stock taken out of inventory by menu item sales, newest first,
+ * with the days and items each depletion covered.
+ * Query Parameters:
+ * - status?: 'POSTED' | 'REVERSED'
+ * - limit?: number (default: 20, max: 100)
+ * - offset?: number (default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getSalesDepletionsQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { status } = validation.data;
+    const take = Math.min(Number(validation.data.limit) || 20, 100);
+    const skip = Number(validation.data.offset) || 0;
+    const where = { restaurantId, ...(status && { status }) };
+
+    const [total, depletions] = await Promise.all([
+      prisma.salesDepletion.count({ where }),
+      prisma.salesDepletion.findMany({
+        where,
+        include: {
+          sales: { select: { date: true, quantity: true, previousQuantity: true } },
+          lines: {
+            include: { inventoryItem: { select: { id: true, name: true, inventoryUnit: true } } },
+            orderBy: { cost: 'desc' },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        take,
+        skip,
+      }),
+    ]);
+
+    return NextResponse.json({
+      data: depletions.map(({ sales, ...depletion }) => {
+        const days = sales.map((sale) => sale.date.getTime());
+        return {
+          ...depletion,
+          saleCount: sales.length,
+          portionsSold: sales.reduce((sum, sale) => sum + sale.quantity - sale.previousQuantity, 0),
+          startDate: days.length > 0 ? new Date(Math.min(...days)) : null,
+          endDate: days.length > 0 ? new Date(Math.max(...days)) : null,
+        };
+      }),
+      pagination: {
+        total,
+        limit: take,
+        offset: skip,
+        hasMore: skip + depletions.length < total,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch sales depletions:', error);
+    return NextResponse.json({ error: 'Failed to fetch sales depletions' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
 import { calculateNetSales } from '@/utils/calculations';
 
 const createSaleEntrySchema = z.object({
@@ -10,22 +11,27 @@ const createSaleEntrySchema = z.object({
   refunds: z.number().min(0, 'Refunds cannot be negative'),
   deliveryFees: z.number().min(0, 'Delivery fees cannot be negative'),
   tips: z.number().min(0, 'Tips cannot be negative'),
-  restaurantId: z.string().cuid('Invalid restaurant ID'),
-});
+  hourStartsAt: z.string().datetime().optional(), // For sales recorded by the hour
+}).refine(
+  (data) => {
+    if (!data.hourStartsAt) return true;
+    const offset = new Date(data.hourStartsAt).getTime() - new Date(data.date).getTime();
+    return offset >= 0 && offset < 24 * 60 * 60 * 1000;
+  },
+  { message: 'Hour must fall on the sales date', path: ['hourStartsAt'] }
+);
 
 /**
  * GET /api/sales
- * Fetches all sales entries for a specific restaurant.
+ * Fetches all sales entries for the current restaurant.
  */
-export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url);
-  const restaurantId = searchParams.get('restaurantId');
-
-  if (!restaurantId) {
-    return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
-  }
-
+export async function GET() {
   try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
     const salesEntries = await prisma.saleEntry.findMany({
       where: { restaurantId },
       orderBy: { date: 'desc' },
@@ -39,7 +45,8 @@ export async function GET(request: Request) {
 
 /**
  * POST /api/sales
- * Creates a new sales entry and calculates the net sales.
+ * Creates a new sales entry for the current restaurant and calculates the net sales.
+ * Sales can be a day's total or one hour's, given by the hour they started.
  */
 export async function POST(request: Request) {
   try {
@@ -50,7 +57,12 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
     }
 
-        const { restaurantId, date, ...saleData } = validation.data;
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { date, hourStartsAt, ...saleData } = validation.data;
 
     // Calculate net sales before saving
     const netSales = calculateNetSales(validation.data);
@@ -59,6 +71,7 @@ export async function POST(request: Request) {
       data: {
         ...saleData,
         date: new Date(date),
+        hourStartsAt: hourStartsAt ? new Date(hourStartsAt) : null,
         netSales,
         restaurantId: restaurantId,
       },
@@ -0,0 +1,128 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { openScheduleForDay, resolveScheduledShift } from '@/lib/schedules';
+
+const updateScheduledShiftSchema = z.object({
+  employeeId: z.string().cuid('Invalid employee ID'),
+  positionId: z.string().cuid('Invalid position ID').nullable(),
+  date: z.string().datetime('Invalid date format'),
+  startsAt: z.string().datetime('Invalid date format'),
+  endsAt: z.string().datetime('Invalid date format'),
+  breakMinutes: z.number()
+    .int('Break must be whole minutes')
+    .min(0, 'Break cannot be negative')
+    .max(1440, 'Break is too long'),
+  hourlyRate: z.number()
+    .min(0, 'Hourly rate cannot be negative')
+    .max(10000, 'Hourly rate is too high'),
+  notes: z.string().max(500, 'Notes cannot exceed 500 characters').nullable(),
+}).partial();
+
+/**
+ * PATCH /api/scheduled-shifts/[id]
+ * Moves or edits a scheduled shift. A shift given to another employee takes
+ * that employee's rate unless one is given. The schedules the shift was and
+ * now is on go back to draft.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updateScheduledShiftSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const existingShift = restaurantId
+      ? await prisma.scheduledShift.findFirst({ where: { id: params.id, schedule: { restaurantId } } })
+      : null;
+    if (!restaurantId || !existingShift) {
+      return NextResponse.json({ error: 'Scheduled shift not found' }, { status: 404 });
+    }
+
+    const updates = validation.data;
+    const employeeId = updates.employeeId ?? existingShift.employeeId;
+    const date = updates.date ? new Date(updates.date) : existingShift.date;
+    const startsAt = updates.startsAt ? new Date(updates.startsAt) : existingShift.startsAt;
+    const endsAt = updates.endsAt ? new Date(updates.endsAt) : existingShift.endsAt;
+    if (endsAt <= startsAt) {
+      return NextResponse.json({ error: 'Shift must end after it starts' }, { status: 400 });
+    }
+
+    const resolved = await resolveScheduledShift(
+      {
+        employeeId,
+        positionId: updates.positionId === undefined && employeeId === existingShift.employeeId
+          ? existingShift.positionId
+          : updates.positionId,
+        date,
+        startsAt,
+        endsAt,
+        breakMinutes: updates.breakMinutes ?? existingShift.breakMinutes,
+        hourlyRate: updates.hourlyRate ?? (employeeId === existingShift.employeeId ? existingShift.hourlyRate : undefined),
+        notes: updates.notes === undefined ? existingShift.notes : updates.notes,
+      },
+      restaurantId,
+      existingShift.id
+    );
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const shift = await prisma.$transaction(async (tx) => {
+      await tx.schedule.update({ where: { id: existingShift.scheduleId }, data: { status: 'DRAFT' } });
+      const schedule = await openScheduleForDay(tx, restaurantId, date);
+      return tx.scheduledShift.update({
+        where: { id: existingShift.id },
+        data: { ...resolved.shift, scheduleId: schedule.id },
+        include: {
+          employee: { select: { id: true, name: true } },
+          position: { select: { id: true, name: true } },
+        },
+      });
+    });
+
+    return NextResponse.json({ data: shift });
+  } catch (error) {
+    console.error('Failed to update scheduled shift:', error);
+    return NextResponse.json({ error: 'Failed to update scheduled shift' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/scheduled-shifts/[id]
+ * Takes a shift off the schedule, which goes back to draft.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const existingShift = restaurantId
+      ? await prisma.scheduledShift.findFirst({
+          where: { id: params.id, schedule: { restaurantId } },
+          select: { id: true, scheduleId: true },
+        })
+      : null;
+    if (!restaurantId || !existingShift) {
+      return NextResponse.json({ error: 'Scheduled shift not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.scheduledShift.delete({ where: { id: existingShift.id } });
+      await tx.schedule.update({ where: { id: existingShift.scheduleId }, data: { status: 'DRAFT' } });
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete scheduled shift:', error);
+    return NextResponse.json({ error: 'Failed to delete scheduled shift' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { openScheduleForDay, resolveScheduledShift } from '@/lib/schedules';
+
+const createScheduledShiftSchema = z.object({
+  employeeId: z.string().cuid('Invalid employee ID'),
+  positionId: z.string().cuid('Invalid position ID').nullable().optional(),
+  date: z.string().datetime('Invalid date format'),
+  startsAt: z.string().datetime('Invalid date format'),
+  endsAt: z.string().datetime('Invalid date format'),
+  breakMinutes: z.number()
+    .int('Break must be whole minutes')
+    .min(0, 'Break cannot be negative')
+    .max(1440, 'Break is too long')
+    .default(0),
+  hourlyRate: z.number()
+    .min(0, 'Hourly rate cannot be negative')
+    .max(10000, 'Hourly rate is too high')
+    .optional(),
+  notes: z.string().max(500, 'Notes cannot exceed 500 characters').nullable().optional(),
+}).refine((data) => new Date(data.endsAt) > new Date(data.startsAt), {
+  message: 'Shift must end after it starts',
+  path: ['endsAt'],
+});
+
+/**
+ * POST /api/scheduled-shifts
+ * Schedules an employee for a shift, adding it to the schedule for the
+ * shift's workweek. The position and pay rate default to the employee's.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = createScheduledShiftSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { date, startsAt, endsAt, ...input } = validation.data;
+    const resolved = await resolveScheduledShift(
+      { ...input, date: new Date(date), startsAt: new Date(startsAt), endsAt: new Date(endsAt) },
+      restaurantId
+    );
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const shift = await prisma.$transaction(async (tx) => {
+      const schedule = await openScheduleForDay(tx, restaurantId, new Date(date));
+      return tx.scheduledShift.create({
+        data: { ...resolved.shift, scheduleId: schedule.id },
+        include: {
+          employee: { select: { id: true, name: true } },
+          position: { select: { id: true, name: true } },
+        },
+      });
+    });
+
+    return NextResponse.json({ data: shift }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to schedule shift:', error);
+    return NextResponse.json({ error: 'Failed to schedule shift' }, { status: 500 });
+  }
+}
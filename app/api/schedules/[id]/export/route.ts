@@ -0,0 +1,158 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { formatPdfRow, renderTextPdf, PDF_LINE_WIDTH } from '@/lib/pdf';
+import { renderICalendar } from '@/lib/ical';
+import { isValidTimeZone } from '@/lib/utils';
+
+const exportScheduleQuerySchema = z.object({
+  format: z.enum(['pdf', 'ics']).default('pdf'),
+  employeeId: z.string().optional(),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional(),
+});
+
+/**
+ * GET /api/schedules/[id]/export
+ * Downloads a schedule to hand out: the whole week, or one employee's
+ * shifts. Calendar files give times in UTC; the PDF prints them in the
+ * given time zone.
+ * Query Parameters:
+ * - format?: 'pdf' | 'ics' (default: 'pdf')
+ * - employeeId?: string
+ * - timeZone?: IANA time zone name, e.g. 'America/Chicago' (default: the server's)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const validation = exportScheduleQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { format, employeeId, timeZone } = validation.data;
+    const restaurantId = await getCurrentRestaurantId();
+    const schedule = restaurantId
+      ? await prisma.schedule.findFirst({
+          where: { id: params.id, restaurantId },
+          include: {
+            restaurant: { select: { name: true } },
+            shifts: {
+              where: employeeId ? { employeeId } : undefined,
+              include: {
+                employee: { select: { name: true } },
+                position: { select: { name: true } },
+              },
+              orderBy: [{ startsAt: 'asc' }],
+            },
+          },
+        })
+      : null;
+    if (!restaurantId || !schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    const employee = employeeId
+      ? await prisma.employee.findFirst({ where: { id: employeeId, restaurantId }, select: { name: true } })
+      : null;
+    if (employeeId && !employee) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+    }
+
+    const week = schedule.weekStart.toISOString().slice(0, 10);
+    const who = employee ? employee.name : schedule.restaurant.name;
+    const filename = `schedule-${week}-${who.replace(/[^a-z0-9-_]+/gi, '-')}.${format}`;
+
+    if (format === 'ics') {
+      const calendar = renderICalendar(
+        `${schedule.restaurant.name} schedule${employee ? ` for ${employee.name}` : ''}`,
+        schedule.shifts.map((shift) => ({
+          uid: `${shift.id}@schedules`,
+          start: shift.startsAt,
+          end: shift.endsAt,
+          summary: [
+            employee ? null : shift.employee.name,
+            shift.position?.name ?? 'Shift',
+            `at ${schedule.restaurant.name}`,
+          ].filter(Boolean).join(' '),
+          description: [
+            shift.breakMinutes > 0 ? `${shift.breakMinutes} minute break` : null,
+            shift.notes,
+          ].filter(Boolean).join('\n'),
+          updatedAt: schedule.publishedAt ?? shift.createdAt,
+        }))
+      );
+
+      return new NextResponse(calendar, {
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    // Business days are stored at midnight UTC
+    const dayFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone: 'UTC',
+      weekday: 'long',
+      month: 'short',
+      day: 'numeric',
+    });
+    const timeFormat = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+    const columns = (name: string, position: string, time: string, hours: string) =>
+      formatPdfRow([
+        { text: name, width: 28 },
+        { text: position, width: 20 },
+        { text: time, width: 22 },
+        { text: hours, width: 8, align: 'right' },
+      ]);
+
+    // Shifts are printed under their business day, in the order they start
+    const days = Array.from(new Set(schedule.shifts.map((shift) => shift.date.getTime())))
+      .sort((a, b) => a - b)
+      .map((day) => ({ day: new Date(day), shifts: schedule.shifts.filter((shift) => shift.date.getTime() === day) }));
+
+    const lines = [
+      `SCHEDULE - WEEK OF ${dayFormat.format(schedule.weekStart).toUpperCase()}`,
+      '',
+      `Restaurant: ${schedule.restaurant.name}`,
+      ...(employee ? [`Employee:   ${employee.name}`] : []),
+      schedule.status === 'PUBLISHED' && schedule.publishedAt
+        ? `Published:  ${schedule.publishedAt.toLocaleDateString('en-US', { timeZone })}`
+        : 'DRAFT - subject to change',
+      '',
+      columns('Employee', 'Position', 'Time', 'Hours'),
+      '-'.repeat(PDF_LINE_WIDTH),
+      ...days.flatMap(({ day, shifts }) => [
+        dayFormat.format(day),
+        ...shifts.map((shift) =>
+          columns(
+            `  ${shift.employee.name}`,
+            shift.position?.name ?? '',
+            `${timeFormat.format(shift.startsAt)} - ${timeFormat.format(shift.endsAt)}`,
+            shift.hours.toFixed(2)
+          )
+        ),
+        '',
+      ]),
+      ...(days.length === 0 ? ['No shifts scheduled.'] : []),
+      '-'.repeat(PDF_LINE_WIDTH),
+      columns('Total', '', '', schedule.shifts.reduce((total, shift) => total + shift.hours, 0).toFixed(2)),
+    ];
+
+    return new NextResponse(renderTextPdf(lines), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export schedule:', error);
+    return NextResponse.json({ error: 'Failed to export schedule' }, { status: 500 });
+  }
+}
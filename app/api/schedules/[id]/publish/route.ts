@@ -0,0 +1,39 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getScheduleWeek } from '@/lib/schedules';
+
+/**
+ * POST /api/schedules/[id]/publish
+ * Publishes a schedule so it can be handed out to staff.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const existingSchedule = restaurantId
+      ? await prisma.schedule.findFirst({
+          where: { id: params.id, restaurantId },
+          include: { _count: { select: { shifts: true } } },
+        })
+      : null;
+    if (!restaurantId || !existingSchedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+    if (existingSchedule._count.shifts === 0) {
+      return NextResponse.json({ error: 'Add at least one shift before publishing' }, { status: 400 });
+    }
+
+    await prisma.schedule.update({
+      where: { id: existingSchedule.id },
+      data: { status: 'PUBLISHED', publishedAt: new Date() },
+    });
+
+    return NextResponse.json({ data: await getScheduleWeek(restaurantId, existingSchedule.weekStart) });
+  } catch (error) {
+    console.error('Failed to publish schedule:', error);
+    return NextResponse.json({ error: 'Failed to publish schedule' }, { status: 500 });
+  }
+}
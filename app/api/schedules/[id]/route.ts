@@ -0,0 +1,49 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getScheduleWeek } from '@/lib/schedules';
+
+const updateScheduleSchema = z.object({
+  forecastSales: z.number()
+    .min(0, 'Forecast sales cannot be negative')
+    .max(100000000, 'Forecast sales are too high')
+    .nullable(),
+});
+
+/**
+ * PATCH /api/schedules/[id]
+ * Sets the week's sales forecast by hand, or clears it to forecast from
+ * recent sales again.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updateScheduleSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const existingSchedule = restaurantId
+      ? await prisma.schedule.findFirst({ where: { id: params.id, restaurantId }, select: { id: true } })
+      : null;
+    if (!restaurantId || !existingSchedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    const schedule = await prisma.schedule.update({
+      where: { id: existingSchedule.id },
+      data: validation.data,
+    });
+
+    return NextResponse.json({ data: await getScheduleWeek(restaurantId, schedule.weekStart) });
+  } catch (error) {
+    console.error('Failed to update schedule:', error);
+    return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 });
+  }
+}
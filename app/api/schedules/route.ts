@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getScheduleWeek } from '@/lib/schedules';
+
+const getScheduleQuerySchema = z.object({
+  weekOf: z.string().datetime('Invalid date format').optional(),
+});
+
+/**
+ * GET /api/schedules
+ * Returns the schedule for a workweek with its sales forecast, projected
+ * labor cost and labor percentage, and how it compares with the hours
+ * actually worked.
+ * Query Parameters:
+ * - weekOf?: ISO date string of any day in the week (default: today)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getScheduleQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { weekOf } = validation.data;
+    return NextResponse.json({ data: await getScheduleWeek(restaurantId, weekOf ? new Date(weekOf) : new Date()) });
+  } catch (error) {
+    console.error('Failed to fetch schedule:', error);
+    return NextResponse.json({ error: 'Failed to fetch schedule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { resolveShift, syncLaborEntry } from '@/lib/labor';
+
+const updateShiftSchema = z.object({
+  employeeId: z.string().cuid('Invalid employee ID'),
+  positionId: z.string().cuid('Invalid position ID').nullable(),
+  date: z.string().datetime('Invalid date format'),
+  clockIn: z.string().datetime('Invalid date format'),
+  clockOut: z.string().datetime('Invalid date format').nullable(),
+  breakMinutes: z.number()
+    .int('Break must be whole minutes')
+    .min(0, 'Break cannot be negative')
+    .max(1440, 'Break is too long'),
+  hourlyRate: z.number()
+    .min(0, 'Hourly rate cannot be negative')
+    .max(10000, 'Hourly rate is too high'),
+  notes: z.string().max(500, 'Notes cannot exceed 500 characters').nullable(),
+}).partial();
+
+/**
+ * PATCH /api/shifts/[id]
+ * Edits a shift or clocks it out. A shift moved to another employee takes
+ * that employee's rate unless one is given. The labor totals of the days
+ * the shift was and now is on are rebuilt.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updateShiftSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const existingShift = restaurantId
+      ? await prisma.shift.findFirst({ where: { id: params.id, restaurantId } })
+      : null;
+    if (!restaurantId || !existingShift) {
+      return NextResponse.json({ error: 'Shift not found' }, { status: 404 });
+    }
+
+    const updates = validation.data;
+    const employeeId = updates.employeeId ?? existingShift.employeeId;
+    const clockIn = updates.clockIn ? new Date(updates.clockIn) : existingShift.clockIn;
+    const clockOut = updates.clockOut === undefined
+      ? existingShift.clockOut
+      : updates.clockOut ? new Date(updates.clockOut) : null;
+    if (clockOut && clockOut <= clockIn) {
+      return NextResponse.json({ error: 'Clock-out must be after clock-in' }, { status: 400 });
+    }
+
+    const resolved = await resolveShift(
+      {
+        employeeId,
+        positionId: updates.positionId === undefined && employeeId === existingShift.employeeId
+          ? existingShift.positionId
+          : updates.positionId,
+        date: updates.date ? new Date(updates.date) : existingShift.date,
+        clockIn,
+        clockOut,
+        breakMinutes: updates.breakMinutes ?? existingShift.breakMinutes,
+        hourlyRate: updates.hourlyRate ?? (employeeId === existingShift.employeeId ? existingShift.hourlyRate : undefined),
+        notes: updates.notes === undefined ? existingShift.notes : updates.notes,
+      },
+      restaurantId,
+      existingShift.id
+    );
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const shift = await prisma.$transaction(async (tx) => {
+      const updated = await tx.shift.update({
+        where: { id: existingShift.id },
+        data: resolved.shift,
+        include: {
+          employee: { select: { id: true, name: true } },
+          position: { select: { id: true, name: true } },
+        },
+      });
+      await syncLaborEntry(tx, restaurantId, existingShift.date);
+      if (updated.date.getTime() !== existingShift.date.getTime()) {
+        await syncLaborEntry(tx, restaurantId, updated.date);
+      }
+      return updated;
+    });
+
+    return NextResponse.json({ data: shift });
+  } catch (error) {
+    console.error('Failed to update shift:', error);
+    return NextResponse.json({ error: 'Failed to update shift' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/shifts/[id]
+ * Deletes a shift and rebuilds its day's labor totals.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const existingShift = restaurantId
+      ? await prisma.shift.findFirst({ where: { id: params.id, restaurantId }, select: { id: true, date: true } })
+      : null;
+    if (!restaurantId || !existingShift) {
+      return NextResponse.json({ error: 'Shift not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.shift.delete({ where: { id: existingShift.id } });
+      await syncLaborEntry(tx, restaurantId, existingShift.date);
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete shift:', error);
+    return NextResponse.json({ error: 'Failed to delete shift' }, { status: 500 });
+  }
+}
@@ -0,0 +1,167 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { resolveShift, syncLaborEntry } from '@/lib/labor';
+import { startOfUtcDay } from '@/lib/utils';
+
+const createShiftSchema = z.object({
+  employeeId: z.string().cuid('Invalid employee ID'),
+  positionId: z.string().cuid('Invalid position ID').nullable().optional(),
+  date: z.string().datetime('Invalid date format').optional(),
+  clockIn: z.string().datetime('Invalid date format'),
+  clockOut: z.string().datetime('Invalid date format').nullable().optional(),
+  breakMinutes: z.number()
+    .int('Break must be whole minutes')
+    .min(0, 'Break cannot be negative')
+    .max(1440, 'Break is too long')
+    .default(0),
+  hourlyRate: z.number()
+    .min(0, 'Hourly rate cannot be negative')
+    .max(10000, 'Hourly rate is too high')
+    .optional(),
+  notes: z.string().max(500, 'Notes cannot exceed 500 characters').nullable().optional(),
+}).refine((data) => !data.clockOut || new Date(data.clockOut) > new Date(data.clockIn), {
+  message: 'Clock-out must be after clock-in',
+  path: ['clockOut'],
+});
+
+const getShiftsQuerySchema = z.object({
+  startDate: z.string().datetime('Invalid date format').optional(),
+  endDate: z.string().datetime('Invalid date format').optional(),
+  employeeId: z.string().optional(),
+  positionId: z.string().optional(),
+  open: z.enum(['true', 'false']).optional(),
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+});
+
+/**
+ * GET /api/shifts
+ * Lists shifts for the current restaurant by business day, latest first.
+ * Query Parameters:
+ * - startDate?, endDate?: ISO date strings, matched against the business day
+ * - employeeId?: string
+ * - positionId?: string
+ * - open?: 'true' for shifts still clocked in, 'false' for finished ones
+ * - limit?: number (default: 100, max: 500)
+ * - offset?: number (default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getShiftsQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { startDate, endDate, employeeId, positionId, open } = validation.data;
+    const take = Math.min(Number(validation.data.limit) || 100, 500);
+    const skip = Number(validation.data.offset) || 0;
+    const where = {
+      restaurantId,
+      ...(employeeId && { employeeId }),
+      ...(positionId && { positionId }),
+      ...(open && { clockOut: open === 'true' ? null : { not: null } }),
+      ...((startDate || endDate) && {
+        date: {
+          ...(startDate && { gte: startOfUtcDay(new Date(startDate)) }),
+          ...(endDate && { lte: new Date(endDate) }),
+        },
+      }),
+    };
+
+    const [total, shifts, stats] = await Promise.all([
+      prisma.shift.count({ where }),
+      prisma.shift.findMany({
+        where,
+        include: {
+          employee: { select: { id: true, name: true } },
+          position: { select: { id: true, name: true } },
+        },
+        orderBy: [{ date: 'desc' }, { clockIn: 'asc' }],
+        take,
+        skip,
+      }),
+      prisma.shift.aggregate({ where, _sum: { hours: true, wages: true } }),
+    ]);
+
+    return NextResponse.json({
+      data: shifts,
+      pagination: {
+        total,
+        limit: take,
+        offset: skip,
+        hasMore: skip + shifts.length < total,
+      },
+      summary: {
+        totalHours: stats._sum.hours || 0,
+        totalWages: stats._sum.wages || 0,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch shifts:', error);
+    return NextResponse.json({ error: 'Failed to fetch shifts' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/shifts
+ * Logs a shift, or clocks an employee in when no clock-out is given. The
+ * position and pay rate default to the employee's, and the day's labor
+ * totals are rebuilt from its shifts.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = createShiftSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { date, clockIn, clockOut, ...input } = validation.data;
+    const resolved = await resolveShift(
+      {
+        ...input,
+        date: date ? new Date(date) : undefined,
+        clockIn: new Date(clockIn),
+        clockOut: clockOut ? new Date(clockOut) : null,
+      },
+      restaurantId
+    );
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const shift = await prisma.$transaction(async (tx) => {
+      const created = await tx.shift.create({
+        data: resolved.shift,
+        include: {
+          employee: { select: { id: true, name: true } },
+          position: { select: { id: true, name: true } },
+        },
+      });
+      await syncLaborEntry(tx, restaurantId, created.date);
+      return created;
+    });
+
+    return NextResponse.json({ data: shift }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to log shift:', error);
+    return NextResponse.json({ error: 'Failed to log shift' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { findTipPool, validateTipPoolPositions } from '@/lib/tips';
+import { SERVICE_AREAS, TIP_POOL_METHODS } from '@/utils/calculations';
+
+const tipPoolPositionSchema = z.object({
+  positionId: z.string().cuid('Invalid position ID'),
+  points: z.number()
+    .min(0, 'Points cannot be negative')
+    .max(100, 'Points cannot exceed 100'),
+  area: z.enum(SERVICE_AREAS),
+});
+
+const updateTipPoolSchema = z.object({
+  name: z.string()
+    .min(1, 'Tip pool name is required')
+    .max(100, 'Tip pool name cannot exceed 100 characters')
+    .trim(),
+  method: z.enum(TIP_POOL_METHODS),
+  backOfHouseShare: z.number()
+    .min(0, 'Back-of-house share cannot be negative')
+    .max(100, 'Back-of-house share cannot exceed 100%')
+    .nullable(),
+  positions: z.array(tipPoolPositionSchema)
+    .min(1, 'A tip pool needs at least one position')
+    .refine(
+      (positions) => new Set(positions.map((position) => position.positionId)).size === positions.length,
+      'Each position can only be in a tip pool once'
+    ),
+}).partial();
+
+/**
+ * PATCH /api/tip-pools/[id]
+ * Updates a tip pool. When positions are given they replace the existing
+ * ones.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updateTipPoolSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const existingPool = restaurantId ? await findTipPool(params.id, restaurantId) : null;
+    if (!restaurantId || !existingPool) {
+      return NextResponse.json({ error: 'Tip pool not found' }, { status: 404 });
+    }
+
+    const { positions, ...data } = validation.data;
+    if (positions) {
+      const positionError = await validateTipPoolPositions(positions, restaurantId);
+      if (positionError) {
+        return NextResponse.json({ error: positionError.error }, { status: positionError.status });
+      }
+    }
+
+    const tipPool = await prisma.$transaction(async (tx) => {
+      await tx.tipPool.update({ where: { id: existingPool.id }, data });
+
+      if (positions) {
+        await tx.tipPoolPosition.deleteMany({ where: { tipPoolId: existingPool.id } });
+        await tx.tipPoolPosition.createMany({
+          data: positions.map((position) => ({ ...position, tipPoolId: existingPool.id })),
+        });
+      }
+
+      return tx.tipPool.findUnique({ where: { id: existingPool.id }, include: { positions: true } });
+    });
+
+    return NextResponse.json({ data: tipPool });
+  } catch (error) {
+    console.error('Failed to update tip pool:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A tip pool with this name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to update tip pool' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/tip-pools/[id]
+ * Removes a tip pool. Tips are worked out when reported, so nothing already
+ * paid out changes.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const existingPool = restaurantId ? await findTipPool(params.id, restaurantId) : null;
+    if (!existingPool) {
+      return NextResponse.json({ error: 'Tip pool not found' }, { status: 404 });
+    }
+
+    await prisma.tipPool.delete({ where: { id: existingPool.id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete tip pool:', error);
+    return NextResponse.json({ error: 'Failed to delete tip pool' }, { status: 500 });
+  }
+}
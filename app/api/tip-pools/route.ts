@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { validateTipPoolPositions } from '@/lib/tips';
+import { SERVICE_AREAS, TIP_POOL_METHODS } from '@/utils/calculations';
+
+const tipPoolPositionSchema = z.object({
+  positionId: z.string().cuid('Invalid position ID'),
+  points: z.number()
+    .min(0, 'Points cannot be negative')
+    .max(100, 'Points cannot exceed 100'),
+  area: z.enum(SERVICE_AREAS),
+});
+
+const tipPoolSchema = z.object({
+  name: z.string()
+    .min(1, 'Tip pool name is required')
+    .max(100, 'Tip pool name cannot exceed 100 characters')
+    .trim(),
+  method: z.enum(TIP_POOL_METHODS),
+  backOfHouseShare: z.number()
+    .min(0, 'Back-of-house share cannot be negative')
+    .max(100, 'Back-of-house share cannot exceed 100%')
+    .nullable(),
+  positions: z.array(tipPoolPositionSchema)
+    .min(1, 'A tip pool needs at least one position')
+    .refine(
+      (positions) => new Set(positions.map((position) => position.positionId)).size === positions.length,
+      'Each position can only be in a tip pool once'
+    ),
+});
+
+/**
+ * GET /api/tip-pools
+ * Lists the current restaurant's tip pools with the positions that share in
+ * each.
+ */
+export async function GET() {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const tipPools = await prisma.tipPool.findMany({
+      where: { restaurantId },
+      include: {
+        positions: {
+          include: { position: { select: { id: true, name: true } } },
+          orderBy: { position: { name: 'asc' } },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ data: tipPools });
+  } catch (error) {
+    console.error('Failed to fetch tip pools:', error);
+    return NextResponse.json({ error: 'Failed to fetch tip pools' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/tip-pools
+ * Sets up a way of sharing tips: by hours worked or by points per position,
+ * optionally splitting a share off for the back of house.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = tipPoolSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { positions, ...data } = validation.data;
+    const positionError = await validateTipPoolPositions(positions, restaurantId);
+    if (positionError) {
+      return NextResponse.json({ error: positionError.error }, { status: positionError.status });
+    }
+
+    const tipPool = await prisma.tipPool.create({
+      data: { ...data, restaurantId, positions: { create: positions } },
+      include: { positions: true },
+    });
+
+    return NextResponse.json({ data: tipPool }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create tip pool:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A tip pool with this name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to create tip pool' }, { status: 500 });
+  }
+}
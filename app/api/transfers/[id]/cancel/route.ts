@@ -0,0 +1,42 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { cancelTransfer, findTransfer } from '@/lib/transfers';
+
+/**
+ * POST /api/transfers/[id]/cancel
+ * Cancels a transfer that has not been received yet and puts the stock back
+ * into the sender's inventory. Only the sending restaurant can cancel.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const transfer = restaurantId
+      ? await prisma.inventoryTransfer.findFirst({
+          where: { id: params.id, fromRestaurantId: restaurantId },
+          include: { lines: true },
+        })
+      : null;
+    if (!restaurantId || !transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+    if (transfer.status !== 'SENT') {
+      return NextResponse.json({ error: 'Only transfers that have not been received can be cancelled' }, { status: 409 });
+    }
+
+    const userId = (await getCurrentUser())?.id ?? null;
+    const cancelled = await prisma.$transaction((tx) => cancelTransfer(tx, transfer, userId), { timeout: 60000 });
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Only transfers that have not been received can be cancelled' }, { status: 409 });
+    }
+
+    return NextResponse.json({ data: await findTransfer(transfer.id, restaurantId) });
+  } catch (error) {
+    console.error('Failed to cancel transfer:', error);
+    return NextResponse.json({ error: 'Failed to cancel transfer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { findTransfer, receiveTransfer, resolveTransferReceipt } from '@/lib/transfers';
+
+const receiveTransferSchema = z.object({
+  receivedAt: z.string().datetime('Invalid date format').optional(),
+  lines: z.array(
+    z.object({
+      lineId: z.string().cuid('Invalid transfer line ID'),
+      quantityReceived: z.number()
+        .min(0, 'Quantity cannot be negative')
+        .max(1000000, 'Quantity is too large'),
+      // The receiver's item to add the stock to, when it is not matched by SKU
+      toItemId: z.string().cuid('Invalid inventory item ID').optional(),
+      discrepancyNote: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+    })
+  ).max(200, 'Too many lines').default([]),
+});
+
+/**
+ * POST /api/transfers/[id]/receive
+ * Receives a transfer sent to the current restaurant. What arrived is added
+ * to inventory at the cost it was sent at, in each receiving item's
+ * inventory unit. Quantities received are in the sending item's unit; lines
+ * left out are taken as received in full, and any difference from what was
+ * sent is recorded as a discrepancy.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = receiveTransferSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const transfer = restaurantId
+      ? await prisma.inventoryTransfer.findFirst({
+          where: { id: params.id, toRestaurantId: restaurantId },
+          include: {
+            fromRestaurant: { select: { name: true } },
+            lines: { include: { fromItem: { include: { unitConversions: true } } } },
+          },
+        })
+      : null;
+    if (!restaurantId || !transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+    if (transfer.status !== 'SENT') {
+      return NextResponse.json({ error: 'Transfer has already been received or was cancelled' }, { status: 409 });
+    }
+
+    const resolved = await resolveTransferReceipt(transfer, validation.data.lines);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const receivedAt = validation.data.receivedAt ? new Date(validation.data.receivedAt) : new Date();
+    const userId = (await getCurrentUser())?.id ?? null;
+    const received = await prisma.$transaction(
+      (tx) => receiveTransfer(tx, transfer, resolved.receipts, receivedAt, userId),
+      { timeout: 60000 }
+    );
+    if (!received) {
+      return NextResponse.json({ error: 'Transfer has already been received or was cancelled' }, { status: 409 });
+    }
+
+    return NextResponse.json({ data: await findTransfer(transfer.id, restaurantId) }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to receive transfer:', error);
+    return NextResponse.json({ error: 'Failed to receive transfer' }, { status: 500 });
+  }
+}
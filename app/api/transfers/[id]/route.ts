@@ -0,0 +1,26 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { findTransfer } from '@/lib/transfers';
+
+/**
+ * GET /api/transfers/[id]
+ * Returns a transfer sent or received by the current restaurant, with its
+ * lines and any discrepancies between what was sent and what arrived.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const transfer = restaurantId ? await findTransfer(params.id, restaurantId) : null;
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: transfer });
+  } catch (error) {
+    console.error('Failed to fetch transfer:', error);
+    return NextResponse.json({ error: 'Failed to fetch transfer' }, { status: 500 });
+  }
+}
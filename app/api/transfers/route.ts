@@ -0,0 +1,171 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { findTransfer, sendTransfer } from '@/lib/transfers';
+
+const createTransferSchema = z.object({
+  toRestaurantId: z.string().cuid('Invalid restaurant ID'),
+  sentAt: z.string().datetime('Invalid date format').optional(),
+  notes: z.string().max(1000, 'Notes cannot exceed 1000 characters').optional(),
+  lines: z.array(
+    z.object({
+      inventoryItemId: z.string().cuid('Invalid inventory item ID'),
+      quantity: z.number()
+        .positive('Quantity must be positive')
+        .max(1000000, 'Quantity is too large'),
+    })
+  )
+    .min(1, 'Add at least one item')
+    .max(200, 'Cannot transfer more than 200 items at once'),
+});
+
+const getTransfersQuerySchema = z.object({
+  direction: z.enum(['IN', 'OUT']).optional(),
+  status: z.enum(['SENT', 'RECEIVED', 'CANCELLED']).optional(),
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+});
+
+/**
+ * GET /api/transfers
+ * Lists transfers the current restaurant sent or received, newest first.
+ * Query Parameters:
+ * - direction?: 'IN' | 'OUT'
+ * - status?: 'SENT' | 'RECEIVED' | 'CANCELLED'
+ * - limit?: number (default: 20, max: 100)
+ * - offset?: number (default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getTransfersQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { direction, status } = validation.data;
+    const take = Math.min(Number(validation.data.limit) || 20, 100);
+    const skip = Number(validation.data.offset) || 0;
+    const where = {
+      ...(direction === 'IN' && { toRestaurantId: restaurantId }),
+      ...(direction === 'OUT' && { fromRestaurantId: restaurantId }),
+      ...(!direction && { OR: [{ fromRestaurantId: restaurantId }, { toRestaurantId: restaurantId }] }),
+      ...(status && { status }),
+    };
+
+    const [total, transfers] = await Promise.all([
+      prisma.inventoryTransfer.count({ where }),
+      prisma.inventoryTransfer.findMany({
+        where,
+        include: {
+          fromRestaurant: { select: { id: true, name: true } },
+          toRestaurant: { select: { id: true, name: true } },
+          lines: { select: { quantitySent: true, quantityReceived: true, unitCost: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take,
+        skip,
+      }),
+    ]);
+
+    return NextResponse.json({
+      data: transfers.map(({ lines, ...transfer }) => ({
+        ...transfer,
+        direction: transfer.fromRestaurantId === restaurantId ? 'OUT' : 'IN',
+        lineCount: lines.length,
+        sentValue: lines.reduce((sum, line) => sum + line.quantitySent * line.unitCost, 0),
+        discrepancies: lines.filter(
+          (line) => line.quantityReceived !== null && Math.abs(line.quantityReceived - line.quantitySent) > 1e-9
+        ).length,
+      })),
+      pagination: {
+        total,
+        limit: take,
+        offset: skip,
+        hasMore: skip + transfers.length < total,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch transfers:', error);
+    return NextResponse.json({ error: 'Failed to fetch transfers' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/transfers
+ * Sends stock from the current restaurant to another restaurant the user
+ * belongs to. The stock leaves the sender's inventory at cost right away and
+ * is added to the receiver's when they receive the transfer. Quantities are
+ * in each item's inventory unit.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = createTransferSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const [restaurantId, user] = await Promise.all([getCurrentRestaurantId(), getCurrentUser()]);
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { toRestaurantId, sentAt, notes, lines } = validation.data;
+    if (toRestaurantId === restaurantId) {
+      return NextResponse.json({ error: 'Choose another restaurant to transfer to' }, { status: 400 });
+    }
+    if (!user?.memberships.some((membership) => membership.restaurant.id === toRestaurantId)) {
+      return NextResponse.json({ error: 'Restaurant not found' }, { status: 404 });
+    }
+
+    const itemIds = Array.from(new Set(lines.map((line) => line.inventoryItemId)));
+    const items = await prisma.inventoryItem.findMany({ where: { id: { in: itemIds }, restaurantId } });
+    if (items.length !== itemIds.length) {
+      return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
+    }
+
+    // Only stock on hand can be sent
+    for (const item of items) {
+      const quantity = lines
+        .filter((line) => line.inventoryItemId === item.id)
+        .reduce((total, line) => total + line.quantity, 0);
+      if (quantity > item.quantity) {
+        return NextResponse.json(
+          { error: `Only ${item.quantity} ${item.inventoryUnit} of ${item.name} on hand` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const transfer = await prisma.$transaction(
+      (tx) =>
+        sendTransfer(
+          tx,
+          { fromRestaurantId: restaurantId, toRestaurantId, notes, sentAt: sentAt ? new Date(sentAt) : new Date() },
+          lines,
+          user.id
+        ),
+      { timeout: 60000 }
+    );
+
+    return NextResponse.json({ data: await findTransfer(transfer.id, restaurantId) }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to send transfer:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Transfer number already taken, please try again' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to send transfer' }, { status: 500 });
+  }
+}
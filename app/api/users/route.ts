@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { hashPassword } from '@/lib/auth';
+import { ROLES } from '@/lib/permissions';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+
+const addMemberSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name cannot exceed 100 characters').trim(),
+  email: z.string().email('Invalid email address').trim().toLowerCase(),
+  password: z.string().min(8, 'Password must be at least 8 characters').optional(),
+  role: z.enum(ROLES, {
+    errorMap: () => ({ message: 'Invalid role' })
+  }),
+});
+
+/**
+ * GET /api/users
+ * Lists the members of the current restaurant and their roles.
+ */
+export async function GET() {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const memberships = await prisma.membership.findMany({
+      where: { restaurantId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        role: true,
+        createdAt: true,
+        user: { select: { id: true, email: true, name: true } },
+      },
+    });
+
+    return NextResponse.json({ data: memberships });
+  } catch (error) {
+    console.error('Failed to fetch users:', error);
+    return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/users
+ * Adds a user to the current restaurant, creating the account if the email
+ * is not registered yet. A password is required for new accounts.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = addMemberSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { name, email, password, role } = validation.data;
+
+    let user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (!user) {
+      if (!password) {
+        return NextResponse.json({ error: 'A password is required for new users' }, { status: 400 });
+      }
+      user = await prisma.user.create({
+        data: { name, email, passwordHash: hashPassword(password) },
+        select: { id: true },
+      });
+    }
+
+    const membership = await prisma.membership.create({
+      data: { role, userId: user.id, restaurantId },
+      select: {
+        id: true,
+        role: true,
+        createdAt: true,
+        user: { select: { id: true, email: true, name: true } },
+      },
+    });
+
+    return NextResponse.json({ data: membership }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to add user:', error);
+
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This user is already a member of the restaurant' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to add user' }, { status: 500 });
+  }
+}
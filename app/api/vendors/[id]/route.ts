@@ -0,0 +1,105 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { WEEKDAYS } from '@/utils/calculations';
+
+// Blank optional fields are stored as null
+const optionalText = (max: number, message: string) =>
+  z.string().max(max, message).trim().transform((value) => value || null).nullable();
+
+const updateVendorSchema = z.object({
+  name: z.string()
+    .min(1, 'Vendor name is required')
+    .max(255, 'Vendor name cannot exceed 255 characters')
+    .trim(),
+  contactName: optionalText(255, 'Contact name cannot exceed 255 characters'),
+  email: z.string()
+    .trim()
+    .email('Invalid email address')
+    .or(z.literal('').transform(() => null))
+    .nullable(),
+  phone: optionalText(50, 'Phone number cannot exceed 50 characters'),
+  address: optionalText(500, 'Address cannot exceed 500 characters'),
+  accountNumber: optionalText(100, 'Account number cannot exceed 100 characters'),
+  paymentTerms: optionalText(100, 'Payment terms cannot exceed 100 characters'),
+  deliveryDays: z.array(z.enum(WEEKDAYS, { errorMap: () => ({ message: 'Invalid delivery day' }) }))
+    .max(7, 'A week only has 7 days'),
+  orderMinimum: z.number()
+    .min(0, 'Order minimum cannot be negative')
+    .max(1000000, 'Order minimum is too large')
+    .nullable(),
+  notes: optionalText(1000, 'Notes cannot exceed 1000 characters'),
+}).partial();
+
+/**
+ * PATCH /api/vendors/[id]
+ * Updates a vendor's details.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const validation = updateVendorSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    const existingVendor = restaurantId
+      ? await prisma.vendor.findFirst({ where: { id: params.id, restaurantId }, select: { id: true } })
+      : null;
+    if (!existingVendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    const vendor = await prisma.vendor.update({
+      where: { id: existingVendor.id },
+      data: validation.data,
+    });
+
+    return NextResponse.json({ data: vendor });
+  } catch (error) {
+    console.error('Failed to update vendor:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A vendor with this name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to update vendor' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/vendors/[id]
+ * Removes a vendor from the directory. Its items, purchases and expenses are
+ * kept without a vendor; vendors with purchase orders cannot be removed.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    const existingVendor = restaurantId
+      ? await prisma.vendor.findFirst({ where: { id: params.id, restaurantId }, select: { id: true } })
+      : null;
+    if (!existingVendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    await prisma.vendor.delete({ where: { id: existingVendor.id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete vendor:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2003') {
+      return NextResponse.json(
+        { error: 'Vendor has purchase orders and cannot be deleted' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ error: 'Failed to delete vendor' }, { status: 500 });
+  }
+}
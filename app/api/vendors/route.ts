@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { WEEKDAYS } from '@/utils/calculations';
+
+// Blank optional fields are stored as null
+const optionalText = (max: number, message: string) =>
+  z.string().max(max, message).trim().transform((value) => value || null).nullable().optional();
+
+const createVendorSchema = z.object({
+  name: z.string()
+    .min(1, 'Vendor name is required')
+    .max(255, 'Vendor name cannot exceed 255 characters')
+    .trim(),
+  contactName: optionalText(255, 'Contact name cannot exceed 255 characters'),
+  email: z.string()
+    .trim()
+    .email('Invalid email address')
+    .or(z.literal('').transform(() => null))
+    .nullable()
+    .optional(),
+  phone: optionalText(50, 'Phone number cannot exceed 50 characters'),
+  address: optionalText(500, 'Address cannot exceed 500 characters'),
+  accountNumber: optionalText(100, 'Account number cannot exceed 100 characters'),
+  paymentTerms: optionalText(100, 'Payment terms cannot exceed 100 characters'),
+  deliveryDays: z.array(z.enum(WEEKDAYS, { errorMap: () => ({ message: 'Invalid delivery day' }) }))
+    .max(7, 'A week only has 7 days')
+    .optional(),
+  orderMinimum: z.number()
+    .min(0, 'Order minimum cannot be negative')
+    .max(1000000, 'Order minimum is too large')
+    .nullable()
+    .optional(),
+  notes: optionalText(1000, 'Notes cannot exceed 1000 characters'),
+});
+
+/**
+ * GET /api/vendors
+ * Lists the current restaurant's vendor directory with how many inventory
+ * items each vendor supplies.
+ */
+export async function GET() {
+  try {
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const vendors = await prisma.vendor.findMany({
+      where: { restaurantId },
+      include: { _count: { select: { inventoryItems: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      data: vendors.map(({ _count, ...vendor }) => ({ ...vendor, itemCount: _count.inventoryItems })),
+    });
+  } catch (error) {
+    console.error('Failed to fetch vendors:', error);
+    return NextResponse.json({ error: 'Failed to fetch vendors' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/vendors
+ * Adds a vendor to the current restaurant's directory.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = createVendorSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const vendor = await prisma.vendor.create({
+      data: { ...validation.data, restaurantId },
+    });
+
+    return NextResponse.json({ data: vendor }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create vendor:', error);
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A vendor with this name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to create vendor' }, { status: 500 });
+  }
+}
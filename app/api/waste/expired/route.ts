@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { wasteExpiredLots } from '@/lib/waste';
+
+const wasteExpiredSchema = z.object({
+  purchaseLotIds: z.array(z.string().cuid('Invalid lot ID'))
+    .min(1, 'Select at least one lot')
+    .max(500, 'Too many lots')
+    .optional(),
+});
+
+/**
+ * POST /api/waste/expired
+ * Moves the remaining stock of expired lots into the waste log as spoiled.
+ * Without lot IDs, every expired lot of the restaurant is written off.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = wasteExpiredSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const userId = (await getCurrentUser())?.id ?? null;
+    const entries = await prisma.$transaction(
+      (tx) => wasteExpiredLots(tx, restaurantId, userId, validation.data.purchaseLotIds),
+      { timeout: 60000 }
+    );
+    if (entries.length === 0) {
+      return NextResponse.json({ error: 'No expired lots to write off' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      data: entries,
+      summary: {
+        lots: entries.length,
+        totalCost: entries.reduce((total, entry) => total + entry.cost, 0),
+      },
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to write off expired lots:', error);
+    return NextResponse.json({ error: 'Failed to write off expired lots' }, { status: 500 });
+  }
+}
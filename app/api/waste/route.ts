@@ -0,0 +1,163 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentRestaurantId } from '@/lib/restaurant';
+import { getCurrentUser } from '@/lib/auth';
+import { loadRecipeGraph } from '@/lib/recipes';
+import { recordItemWaste, recordRecipeWaste } from '@/lib/waste';
+import { WASTE_REASONS } from '@/utils/calculations';
+
+const createWasteSchema = z.object({
+  inventoryItemId: z.string().cuid('Invalid inventory item ID').optional(),
+  recipeId: z.string().cuid('Invalid recipe ID').optional(),
+  reason: z.enum(WASTE_REASONS, {
+    errorMap: () => ({ message: 'Invalid reason' })
+  }),
+  quantity: z.number()
+    .positive('Quantity must be positive')
+    .max(1000000, 'Quantity is too large'),
+  notes: z.string().max(1000, 'Notes cannot exceed 1000 characters').optional(),
+  wastedAt: z.string().datetime('Invalid date format').optional(),
+}).refine((data) => Boolean(data.inventoryItemId) !== Boolean(data.recipeId), {
+  message: 'Choose either an inventory item or a recipe',
+  path: ['inventoryItemId'],
+});
+
+const getWasteQuerySchema = z.object({
+  startDate: z.string().datetime('Invalid date format').optional(),
+  endDate: z.string().datetime('Invalid date format').optional(),
+  reason: z.enum(WASTE_REASONS).optional(),
+  inventoryItemId: z.string().optional(),
+  recipeId: z.string().optional(),
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+});
+
+/**
+ * GET /api/waste
+ * Lists waste entries for the current restaurant, most recent first.
+ * Query Parameters:
+ * - startDate?, endDate?: ISO date strings
+ * - reason?: 'SPOILED' | 'OVERPRODUCED' | 'DROPPED' | 'COMPED'
+ * - inventoryItemId?: string
+ * - recipeId?: string
+ * - limit?: number (default: 50, max: 200)
+ * - offset?: number (default: 0)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validation = getWasteQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { startDate, endDate, reason, inventoryItemId, recipeId } = validation.data;
+    const take = Math.min(Number(validation.data.limit) || 50, 200);
+    const skip = Number(validation.data.offset) || 0;
+    const where = {
+      restaurantId,
+      ...(reason && { reason }),
+      ...(inventoryItemId && { inventoryItemId }),
+      ...(recipeId && { recipeId }),
+      ...((startDate || endDate) && {
+        wastedAt: {
+          ...(startDate && { gte: new Date(startDate) }),
+          ...(endDate && { lte: new Date(endDate) }),
+        },
+      }),
+    };
+
+    const [total, entries, stats] = await Promise.all([
+      prisma.wasteEntry.count({ where }),
+      prisma.wasteEntry.findMany({
+        where,
+        include: {
+          inventoryItem: { select: { id: true, name: true, inventoryUnit: true } },
+          recipe: { select: { id: true, name: true } },
+        },
+        orderBy: { wastedAt: 'desc' },
+        take,
+        skip,
+      }),
+      prisma.wasteEntry.aggregate({ where, _sum: { cost: true } }),
+    ]);
+
+    return NextResponse.json({
+      data: entries,
+      pagination: {
+        total,
+        limit: take,
+        offset: skip,
+        hasMore: skip + entries.length < total,
+      },
+      summary: {
+        totalCost: stats._sum.cost || 0,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch waste entries:', error);
+    return NextResponse.json({ error: 'Failed to fetch waste entries' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/waste
+ * Logs waste of an inventory item (in its inventory unit) or of a recipe (in
+ * portions). The stock is taken out of inventory and costed from its cost
+ * layers.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = createWasteSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+
+    const restaurantId = await getCurrentRestaurantId();
+    if (!restaurantId) {
+      return NextResponse.json({ error: 'Restaurant ID is required' }, { status: 400 });
+    }
+
+    const { inventoryItemId, recipeId, wastedAt, ...waste } = validation.data;
+    const input = { ...waste, wastedAt: wastedAt ? new Date(wastedAt) : new Date() };
+    const userId = (await getCurrentUser())?.id ?? null;
+
+    if (inventoryItemId) {
+      const item = await prisma.inventoryItem.findFirst({ where: { id: inventoryItemId, restaurantId } });
+      if (!item) {
+        return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
+      }
+      if (waste.quantity > item.quantity) {
+        return NextResponse.json(
+          { error: `Only ${item.quantity} ${item.inventoryUnit} of ${item.name} on hand` },
+          { status: 400 }
+        );
+      }
+
+      const entry = await prisma.$transaction(async (tx) => recordItemWaste(tx, item, input, userId), { timeout: 60000 });
+      return NextResponse.json({ data: entry }, { status: 201 });
+    }
+
+    const recipe = (await loadRecipeGraph(restaurantId)).get(recipeId as string);
+    if (!recipe) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    const entry = await prisma.$transaction(async (tx) => recordRecipeWaste(tx, recipe, input, userId), { timeout: 60000 });
+    return NextResponse.json({ data: entry }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to log waste:', error);
+    return NextResponse.json({ error: 'Failed to log waste' }, { status: 500 });
+  }
+}
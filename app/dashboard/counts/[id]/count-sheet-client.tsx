@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface CountLine {
+  id: string;
+  inventoryItemId: string;
+  onHandQuantity: number;
+  countedQuantity: number | null;
+  unitPrice: number;
+  inventoryItem: {
+    name: string;
+    sku: string;
+    category: string;
+    storageLocation: string | null;
+    quantity: number;
+    inventoryUnit: string;
+  };
+}
+
+interface InventoryCount {
+  id: string;
+  name: string;
+  status: 'OPEN' | 'POSTED';
+  storageLocation: string | null;
+  startedAt: string;
+  postedAt: string | null;
+  lines: CountLine[];
+}
+
+type GroupBy = 'category' | 'location';
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+function groupLines(lines: CountLine[], groupBy: GroupBy) {
+  const groups = new Map<string, CountLine[]>();
+  lines.forEach((line) => {
+    const key = groupBy === 'location'
+      ? line.inventoryItem.storageLocation || 'Unassigned'
+      : line.inventoryItem.category;
+    groups.set(key, [...(groups.get(key) ?? []), line]);
+  });
+  return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+}
+
+function toCountedValues(lines: CountLine[]): Record<string, string> {
+  return Object.fromEntries(
+    lines.map((line) => [line.id, line.countedQuantity === null ? '' : String(line.countedQuantity)])
+  );
+}
+
+export function CountSheetClient({ countId }: { countId: string }) {
+  const router = useRouter();
+  const [count, setCount] = useState<InventoryCount | null>(null);
+  const [counted, setCounted] = useState<Record<string, string>>({});
+  const [groupBy, setGroupBy] = useState<GroupBy>('category');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function applyCount(data: InventoryCount) {
+    setCount(data);
+    setCounted(toCountedValues(data.lines));
+  }
+
+  useEffect(() => {
+    async function fetchCount() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/inventory-counts/${countId}`);
+        if (!response.ok) throw new Error('Failed to fetch inventory count');
+        const { data } = await response.json();
+        setCount(data);
+        setCounted(toCountedValues(data.lines));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchCount();
+  }, [countId]);
+
+  async function saveCount() {
+    if (!count) return;
+    const response = await fetch(`/api/inventory-counts/${countId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        lines: count.lines.map((line) => ({
+          id: line.id,
+          countedQuantity: counted[line.id] === '' ? null : parseFloat(counted[line.id]),
+        })),
+      }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save count');
+    }
+    const { data } = await response.json();
+    applyCount(data);
+  }
+
+  async function handleSave() {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await saveCount();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handlePost() {
+    if (!confirm('Posting sets each counted item to its counted quantity and cannot be undone. Continue?')) return;
+    setError(null);
+    setIsSaving(true);
+    try {
+      await saveCount();
+      const response = await fetch(`/api/inventory-counts/${countId}/post`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to post count');
+      }
+      const { data } = await response.json();
+      applyCount(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDiscard() {
+    if (!confirm('Discard this count? Counted quantities will be lost.')) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/inventory-counts/${countId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to discard count');
+      }
+      router.push('/dashboard/counts');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  if (isLoading) return <p>Loading...</p>;
+  if (!count) return <p className="text-red-500">{error ?? 'Inventory count not found'}</p>;
+
+  const isOpen = count.status === 'OPEN';
+  const lineVariance = (line: CountLine) =>
+    counted[line.id] === '' ? null : parseFloat(counted[line.id]) - line.onHandQuantity;
+  const totalVarianceCost = count.lines.reduce(
+    (sum, line) => sum + (lineVariance(line) ?? 0) * line.unitPrice,
+    0
+  );
+  const countedLines = count.lines.filter((line) => counted[line.id] !== '').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">
+            {count.name}{' '}
+            <Badge variant={isOpen ? 'default' : 'secondary'} className="print:hidden">
+              {isOpen ? 'Open' : 'Posted'}
+            </Badge>
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {count.storageLocation || 'All locations'} · Started {new Date(count.startedAt).toLocaleString()}
+            {count.postedAt && ` · Posted ${new Date(count.postedAt).toLocaleString()}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 print:hidden">
+          <Button
+            variant="outline"
+            onClick={() => setGroupBy(groupBy === 'category' ? 'location' : 'category')}
+          >
+            Group by {groupBy === 'category' ? 'Location' : 'Category'}
+          </Button>
+          <Button variant="outline" onClick={() => window.print()}>Print</Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/inventory-counts/${countId}/export?groupBy=${groupBy}`}>Export CSV</a>
+          </Button>
+          {isOpen && (
+            <>
+              <Button variant="outline" onClick={handleDiscard} disabled={isSaving}>Discard</Button>
+              <Button variant="outline" onClick={handleSave} disabled={isSaving}>Save</Button>
+              <Button onClick={handlePost} disabled={isSaving || countedLines === 0}>Post Count</Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      <div className="grid gap-6 md:grid-cols-3 print:hidden">
+        <Card>
+          <CardHeader><CardTitle className="text-sm font-medium">Items Counted</CardTitle></CardHeader>
+          <CardContent><div className="text-2xl font-bold">{countedLines} / {count.lines.length}</div></CardContent>
+        </Card>
+        <Card>
+          <CardHeader><CardTitle className="text-sm font-medium">Variance Value</CardTitle></CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${totalVarianceCost < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatCurrency(totalVarianceCost)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {groupLines(count.lines, groupBy).map(([group, lines]) => (
+        <Card key={group} className="break-inside-avoid">
+          <CardHeader>
+            <CardTitle>{group}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>{groupBy === 'category' ? 'Location' : 'Category'}</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Variance Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => {
+                  const variance = lineVariance(line);
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.inventoryItem.name}</TableCell>
+                      <TableCell>{line.inventoryItem.sku}</TableCell>
+                      <TableCell>
+                        {groupBy === 'category'
+                          ? line.inventoryItem.storageLocation || '—'
+                          : line.inventoryItem.category}
+                      </TableCell>
+                      <TableCell>{line.inventoryItem.inventoryUnit}</TableCell>
+                      <TableCell className="text-right">{line.onHandQuantity}</TableCell>
+                      <TableCell className="text-right">
+                        {isOpen ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="ml-auto w-28 text-right"
+                            value={counted[line.id] ?? ''}
+                            onChange={(e) => setCounted((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                          />
+                        ) : (
+                          line.countedQuantity ?? '—'
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right ${variance !== null && variance < 0 ? 'text-red-600' : ''}`}>
+                        {variance === null ? '—' : variance.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {variance === null ? '—' : formatCurrency(variance * line.unitPrice)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { CountSheetClient } from './count-sheet-client';
+
+export default function CountSheetPage({ params }: { params: { id: string } }) {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6 print:hidden">Count Sheet</h1>
+      <CountSheetClient countId={params.id} />
+    </div>
+  );
+}
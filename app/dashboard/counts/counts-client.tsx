@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { InventoryItem } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface InventoryCountSummary {
+  id: string;
+  name: string;
+  status: 'OPEN' | 'POSTED';
+  storageLocation: string | null;
+  startedAt: string;
+  postedAt: string | null;
+  _count: { lines: number };
+}
+
+const ALL_LOCATIONS = 'all';
+
+export function CountsClient() {
+  const router = useRouter();
+  const [counts, setCounts] = useState<InventoryCountSummary[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [location, setLocation] = useState(ALL_LOCATIONS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function fetchCounts() {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/inventory-counts?limit=100');
+      if (!response.ok) throw new Error('Failed to fetch inventory counts');
+      const { data } = await response.json();
+      setCounts(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function fetchInventoryGroups() {
+    try {
+      const response = await fetch('/api/inventory?limit=100');
+      if (!response.ok) throw new Error('Failed to fetch inventory');
+      const { data } = await response.json();
+      const items = data as InventoryItem[];
+      setCategories(Array.from(new Set(items.map((item) => item.category))).sort());
+      setLocations(
+        Array.from(new Set(items.map((item) => item.storageLocation).filter((l): l is string => !!l))).sort()
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  useEffect(() => {
+    fetchCounts();
+    fetchInventoryGroups();
+  }, []);
+
+  function toggleCategory(category: string) {
+    setSelectedCategories((prev) =>
+      prev.includes(category) ? prev.filter((c) => c !== category) : [...prev, category]
+    );
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    const formData = new FormData(event.currentTarget);
+    const newCount = {
+      name: formData.get('name') as string,
+      categories: selectedCategories.length > 0 ? selectedCategories : undefined,
+      storageLocation: location === ALL_LOCATIONS ? undefined : location,
+    };
+
+    try {
+      const response = await fetch('/api/inventory-counts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newCount),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to start count');
+      }
+      const { data } = await response.json();
+      router.push(`/dashboard/counts/${data.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-3">
+      <div className="md:col-span-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Count History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-right">Items</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Posted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {counts.map((count) => (
+                    <TableRow key={count.id}>
+                      <TableCell>
+                        <Link href={`/dashboard/counts/${count.id}`} className="font-medium hover:underline">
+                          {count.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={count.status === 'OPEN' ? 'default' : 'secondary'}>
+                          {count.status === 'OPEN' ? 'Open' : 'Posted'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{count.storageLocation || 'All'}</TableCell>
+                      <TableCell className="text-right">{count._count.lines}</TableCell>
+                      <TableCell>{new Date(count.startedAt).toLocaleDateString()}</TableCell>
+                      <TableCell>{count.postedAt ? new Date(count.postedAt).toLocaleDateString() : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div>
+        <Card>
+          <CardHeader>
+            <CardTitle>Start a Count</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div><Label htmlFor="name">Name</Label><Input id="name" name="name" placeholder="e.g., Month-end count" required /></div>
+              <div>
+                <Label htmlFor="location">Storage Location</Label>
+                <Select value={location} onValueChange={setLocation}>
+                  <SelectTrigger id="location">
+                    <SelectValue placeholder="All locations" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                    {locations.map((value) => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Categories</Label>
+                <div className="mt-2 space-y-1">
+                  {categories.map((category) => (
+                    <label key={category} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selectedCategories.includes(category)}
+                        onChange={() => toggleCategory(category)}
+                      />
+                      {category}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Leave all unchecked to count every category.</p>
+              </div>
+              <Button type="submit" className="w-full">Start Count</Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
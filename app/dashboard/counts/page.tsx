@@ -0,0 +1,10 @@
+import { CountsClient } from './counts-client';
+
+export default function CountsPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Inventory Counts</h1>
+      <CountsClient />
+    </div>
+  );
+}
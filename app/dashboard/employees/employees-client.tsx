@@ -0,0 +1,302 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Employee } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type EmployeeWithPosition = Employee & { position: { id: string; name: string } | null };
+
+interface Position {
+  id: string;
+  name: string;
+  tipped: boolean;
+  employeeCount: number;
+}
+
+// Lets an employee be added without a usual position
+const NO_POSITION = 'none';
+
+export function EmployeesClient() {
+  const [employees, setEmployees] = useState<EmployeeWithPosition[]>([]);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [positionId, setPositionId] = useState(NO_POSITION);
+  const [showInactive, setShowInactive] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchEmployees() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/employees?active=${showInactive ? 'all' : 'true'}`);
+        if (!response.ok) throw new Error('Failed to fetch employees');
+        const { data } = await response.json();
+        setEmployees(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    async function fetchPositions() {
+      try {
+        const response = await fetch('/api/positions');
+        if (!response.ok) throw new Error('Failed to fetch positions');
+        const { data } = await response.json();
+        setPositions(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchEmployees();
+    fetchPositions();
+  }, [showInactive, reloadCount]);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const newEmployee = {
+      name: formData.get('name') as string,
+      email: formData.get('email') as string,
+      phone: formData.get('phone') as string,
+      hourlyRate: parseFloat(formData.get('hourlyRate') as string),
+      positionId: positionId === NO_POSITION ? null : positionId,
+    };
+
+    try {
+      const response = await fetch('/api/employees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newEmployee),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add employee');
+      }
+      form.reset();
+      setPositionId(NO_POSITION);
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleAddPosition(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+
+    try {
+      const response = await fetch('/api/positions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.get('positionName') as string,
+          tipped: formData.get('tipped') === 'on',
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add position');
+      }
+      form.reset();
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function toggleTipped(position: Position) {
+    setError(null);
+    try {
+      const response = await fetch(`/api/positions/${position.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tipped: !position.tipped }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update position');
+      }
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleDeletePosition(position: Position) {
+    if (!window.confirm(`Delete the ${position.name} position?`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/positions/${position.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete position');
+      }
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function toggleActive(employee: EmployeeWithPosition) {
+    setError(null);
+    try {
+      const response = await fetch(`/api/employees/${employee.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !employee.active }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update employee');
+      }
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-3">
+      <div className="md:col-span-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Roster</CardTitle>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+              />
+              Show inactive
+            </label>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Position</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead className="text-right">Hourly Rate</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {employees.map((employee) => (
+                    <TableRow key={employee.id}>
+                      <TableCell>
+                        <span className="font-medium">{employee.name}</span>{' '}
+                        {!employee.active && <Badge variant="secondary">Inactive</Badge>}
+                      </TableCell>
+                      <TableCell>{employee.position?.name ?? '—'}</TableCell>
+                      <TableCell>
+                        <div>{employee.email ?? ''}</div>
+                        <div className="text-xs text-muted-foreground">{employee.phone ?? ''}</div>
+                      </TableCell>
+                      <TableCell className="text-right">${employee.hourlyRate.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => toggleActive(employee)}>
+                          {employee.active ? 'Deactivate' : 'Reactivate'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Employee</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div><Label htmlFor="name">Name</Label><Input id="name" name="name" required /></div>
+              <div>
+                <Label htmlFor="position">Position</Label>
+                <Select value={positionId} onValueChange={setPositionId}>
+                  <SelectTrigger id="position">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_POSITION}>No position</SelectItem>
+                    {positions.map((position) => (
+                      <SelectItem key={position.id} value={position.id}>{position.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div><Label htmlFor="hourlyRate">Hourly Rate</Label><Input id="hourlyRate" name="hourlyRate" type="number" min="0" step="0.01" required /></div>
+              <div><Label htmlFor="email">Email</Label><Input id="email" name="email" type="email" /></div>
+              <div><Label htmlFor="phone">Phone</Label><Input id="phone" name="phone" /></div>
+              <Button type="submit" className="w-full">Add Employee</Button>
+            </form>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Positions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul className="space-y-1">
+              {positions.map((position) => (
+                <li key={position.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {position.name}{' '}
+                    <span className="text-muted-foreground">({position.employeeCount})</span>{' '}
+                    {position.tipped && <Badge variant="secondary">Tipped</Badge>}
+                  </span>
+                  <span className="flex">
+                    <Button variant="ghost" size="sm" onClick={() => toggleTipped(position)}>
+                      {position.tipped ? 'Not Tipped' : 'Tipped'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeletePosition(position)}>
+                      Delete
+                    </Button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <form onSubmit={handleAddPosition} className="space-y-2">
+              <div className="flex gap-2">
+                <Input aria-label="Position name" name="positionName" placeholder="e.g. Line Cook" required />
+                <Button type="submit" variant="outline">Add</Button>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="tipped" />
+                Tipped (paid the tipped minimum wage where allowed)
+              </label>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { EmployeesClient } from './employees-client';
+
+export default function EmployeesPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Employees</h1>
+      <EmployeesClient />
+    </div>
+  );
+}
@@ -16,12 +16,14 @@ import {
 } from '@/components/ui/table';
 import { TrendChart } from '@/components/charts/TrendChart';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VendorSelect, type VendorOption } from '@/components/purchasing/VendorSelect';
 
 export function ExpensesClient() {
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [expenses, setExpenses] = useState<(Expense & { vendor: VendorOption | null })[]>([]);
   const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
   const [frequency, setFrequency] = useState('ONE_TIME');
+  const [vendorId, setVendorId] = useState<string | null>(null);
 
   const chartData = (expenses || [])
     .slice()
@@ -31,12 +33,10 @@ export function ExpensesClient() {
       value: expense.amount,
     }));
 
-  const restaurantId = 'clxne1o4w00007867z1f896l9';
-
   async function fetchExpenses() {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/expenses?restaurantId=${restaurantId}`);
+      const response = await fetch('/api/expenses');
       if (!response.ok) throw new Error('Failed to fetch expenses');
             const responseData = await response.json();
       setExpenses(responseData.data);
@@ -59,8 +59,8 @@ export function ExpensesClient() {
       amount: parseFloat(formData.get('amount') as string),
       frequency: frequency,
       category: formData.get('category') as string,
+      vendorId,
       date: new Date().toISOString(),
-      restaurantId,
     };
 
     try {
@@ -75,6 +75,7 @@ export function ExpensesClient() {
       }
       fetchExpenses();
       event.currentTarget.reset();
+      setVendorId(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
     }
@@ -98,6 +99,7 @@ export function ExpensesClient() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Description</TableHead>
+                    <TableHead>Vendor</TableHead>
                     <TableHead>Frequency</TableHead>
                     <TableHead className="text-right">Amount</TableHead>
                   </TableRow>
@@ -106,6 +108,7 @@ export function ExpensesClient() {
                   {expenses.map((expense) => (
                     <TableRow key={expense.id}>
                       <TableCell>{expense.description}</TableCell>
+                      <TableCell>{expense.vendor?.name || '—'}</TableCell>
                       <TableCell>{expense.frequency}</TableCell>
                       <TableCell className="text-right">${expense.amount.toFixed(2)}</TableCell>
                     </TableRow>
@@ -129,6 +132,10 @@ export function ExpensesClient() {
                 <Label htmlFor="category">Category</Label>
                 <Input id="category" name="category" required />
               </div>
+              <div>
+                <Label htmlFor="vendor">Vendor</Label>
+                <VendorSelect id="vendor" value={vendorId} onChange={setVendorId} />
+              </div>
               <div>
                 <Label htmlFor="frequency">Frequency</Label>
                 <Select value={frequency} onValueChange={(value) => setFrequency(value)}>
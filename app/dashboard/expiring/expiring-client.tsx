@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface ExpiringLot {
+  id: string;
+  lotNumber: string | null;
+  remainingQuantity: number;
+  purchasedAt: string;
+  expiresAt: string;
+  daysUntilExpiry: number;
+  status: 'EXPIRED' | 'EXPIRING';
+  value: number;
+  inventoryItem: { id: string; name: string; sku: string; inventoryUnit: string; storageLocation: string | null };
+  vendor: { id: string; name: string } | null;
+}
+
+interface ExpirySummary {
+  expiredLots: number;
+  expiredValue: number;
+  expiringLots: number;
+}
+
+function describeExpiry(days: number): string {
+  if (days < 0) return `Expired ${-days} ${days === -1 ? 'day' : 'days'} ago`;
+  if (days === 0) return 'Use today';
+  return `${days} ${days === 1 ? 'day' : 'days'} left`;
+}
+
+export function ExpiringClient() {
+  const [days, setDays] = useState('3');
+  const [lots, setLots] = useState<ExpiringLot[]>([]);
+  const [summary, setSummary] = useState<ExpirySummary | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchLots() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/reports/expiring-lots?days=${days}`);
+        if (!response.ok) throw new Error('Failed to fetch expiring stock');
+        const result = await response.json();
+        setLots(result.data);
+        setSummary(result.summary);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchLots();
+  }, [days, reloadCount]);
+
+  async function writeOff(purchaseLotIds?: string[]) {
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/waste/expired', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ purchaseLotIds }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to move expired stock to the waste log');
+      }
+      const result = await response.json();
+      setMessage(
+        `Moved ${result.summary.lots} expired ${result.summary.lots === 1 ? 'lot' : 'lots'} ($${result.summary.totalCost.toFixed(2)}) to the waste log.`
+      );
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="w-48">
+          <Label htmlFor="days">Expiring within</Label>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger id="days">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">1 day</SelectItem>
+              <SelectItem value="3">3 days</SelectItem>
+              <SelectItem value="7">7 days</SelectItem>
+              <SelectItem value="14">14 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {summary && summary.expiredLots > 0 && (
+          <Button variant="destructive" onClick={() => writeOff()}>
+            Move All Expired to Waste Log
+          </Button>
+        )}
+      </div>
+
+      {summary && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader><CardTitle>Expired Lots</CardTitle></CardHeader>
+            <CardContent>
+              <p className={`text-2xl font-bold ${summary.expiredLots > 0 ? 'text-red-600' : ''}`}>{summary.expiredLots}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader><CardTitle>Expired Value</CardTitle></CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">${summary.expiredValue.toFixed(2)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader><CardTitle>Expiring Soon</CardTitle></CardHeader>
+            <CardContent>
+              <p className={`text-2xl font-bold ${summary.expiringLots > 0 ? 'text-yellow-600' : ''}`}>{summary.expiringLots}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {message && <p className="text-green-600">{message}</p>}
+      {isLoading && <p>Loading...</p>}
+      {error && <p className="text-red-500">{error}</p>}
+
+      {!isLoading && !error && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Use First</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {lots.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing expires in this window.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Use By</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lots.map((lot) => (
+                    <TableRow key={lot.id}>
+                      <TableCell>
+                        <div className="font-medium">{lot.inventoryItem.name}</div>
+                        <div className="text-xs text-muted-foreground">{lot.inventoryItem.sku}</div>
+                      </TableCell>
+                      <TableCell>
+                        {lot.lotNumber || '—'}
+                        <div className="text-xs text-muted-foreground">
+                          Received {new Date(lot.purchasedAt).toLocaleDateString()}{lot.vendor && ` from ${lot.vendor.name}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{lot.inventoryItem.storageLocation || '—'}</TableCell>
+                      <TableCell>
+                        <div>{new Date(lot.expiresAt).toLocaleDateString()}</div>
+                        <Badge variant={lot.status === 'EXPIRED' ? 'destructive' : 'secondary'}>
+                          {describeExpiry(lot.daysUntilExpiry)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{lot.remainingQuantity} {lot.inventoryItem.inventoryUnit}</TableCell>
+                      <TableCell className="text-right">${lot.value.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {lot.status === 'EXPIRED' && (
+                          <Button size="sm" variant="outline" onClick={() => writeOff([lot.id])}>
+                            Move to Waste
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
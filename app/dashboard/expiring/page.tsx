@@ -0,0 +1,10 @@
+import { ExpiringClient } from './expiring-client';
+
+export default function ExpiringPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Use First</h1>
+      <ExpiringClient />
+    </div>
+  );
+}
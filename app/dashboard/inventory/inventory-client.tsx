@@ -15,11 +15,15 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { TrendChart } from '@/components/charts/TrendChart';
+import { PriceHistory } from '@/components/inventory/PriceHistory';
+import { VendorSelect } from '@/components/purchasing/VendorSelect';
+import { STANDARD_UNIT_NAMES } from '@/utils/units';
 
 export function InventoryClient() {
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [vendorId, setVendorId] = useState<string | null>(null);
 
   const chartData = (items || [])
     .slice()
@@ -29,13 +33,10 @@ export function InventoryClient() {
       value: item.totalCost,
     }));
 
-  // Dummy restaurantId. In a real multi-tenant app, this would come from auth/context.
-  const restaurantId = 'clxne1o4w00007867z1f896l9'; // Replace with a real ID from your DB
-
   async function fetchInventory() {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/inventory?restaurantId=${restaurantId}`);
+      const response = await fetch('/api/inventory');
       if (!response.ok) {
         throw new Error('Failed to fetch inventory');
       }
@@ -55,6 +56,9 @@ export function InventoryClient() {
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     const formData = new FormData(event.currentTarget);
+    const inventoryUnit = (formData.get('inventoryUnit') as string) || 'each';
+    const purchaseUnit = formData.get('purchaseUnit') as string;
+    const unitsPerPurchase = parseFloat(formData.get('unitsPerPurchase') as string);
     const newItem = {
       sku: formData.get('sku') as string,
       name: formData.get('name') as string,
@@ -62,9 +66,21 @@ export function InventoryClient() {
       quantity: parseFloat(formData.get('quantity') as string),
       unitPrice: parseFloat(formData.get('unitPrice') as string),
 
-      vendor: formData.get('vendor') as string,
+      vendorId,
+      storageLocation: (formData.get('storageLocation') as string) || undefined,
+      parLevel: formData.get('parLevel') ? parseFloat(formData.get('parLevel') as string) : undefined,
+      reorderPoint: formData.get('reorderPoint') ? parseFloat(formData.get('reorderPoint') as string) : undefined,
+      inventoryUnit,
+      purchaseUnit: purchaseUnit || undefined,
+      recipeUnit: (formData.get('recipeUnit') as string) || undefined,
+      unitConversions: purchaseUnit && unitsPerPurchase
+        ? [{ fromUnit: purchaseUnit, toUnit: inventoryUnit, factor: unitsPerPurchase }]
+        : undefined,
       purchasedAt: new Date().toISOString(),
-      restaurantId,
+      lotNumber: (formData.get('lotNumber') as string) || undefined,
+      expiresAt: formData.get('expiresAt')
+        ? new Date(`${formData.get('expiresAt')}T00:00:00`).toISOString()
+        : undefined,
     };
 
     try {
@@ -83,6 +99,7 @@ export function InventoryClient() {
       fetchInventory();
       // Reset form
       event.currentTarget.reset();
+      setVendorId(null);
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
@@ -120,7 +137,7 @@ export function InventoryClient() {
                       <TableCell>{item.sku}</TableCell>
                       <TableCell>{item.name}</TableCell>
                       <TableCell>{item.category}</TableCell>
-                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{item.quantity} {item.inventoryUnit}</TableCell>
                       <TableCell className="text-right">${item.unitPrice.toFixed(2)}</TableCell>
                       <TableCell className="text-right">${item.totalCost.toFixed(2)}</TableCell>
                     </TableRow>
@@ -154,6 +171,27 @@ export function InventoryClient() {
                 <Label htmlFor="quantity">Quantity</Label>
                 <Input id="quantity" name="quantity" type="number" step="0.01" required />
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="inventoryUnit">Inventory Unit</Label>
+                  <Input id="inventoryUnit" name="inventoryUnit" list="unit-options" placeholder="e.g., lb" />
+                </div>
+                <div>
+                  <Label htmlFor="recipeUnit">Recipe Unit</Label>
+                  <Input id="recipeUnit" name="recipeUnit" list="unit-options" placeholder="e.g., oz" />
+                </div>
+                <div>
+                  <Label htmlFor="purchaseUnit">Purchase Unit</Label>
+                  <Input id="purchaseUnit" name="purchaseUnit" list="unit-options" placeholder="e.g., case" />
+                </div>
+                <div>
+                  <Label htmlFor="unitsPerPurchase">Inventory Units per Purchase Unit</Label>
+                  <Input id="unitsPerPurchase" name="unitsPerPurchase" type="number" step="0.01" placeholder="e.g., 40" />
+                </div>
+              </div>
+              <datalist id="unit-options">
+                {STANDARD_UNIT_NAMES.map((unit) => <option key={unit} value={unit} />)}
+              </datalist>
               <div>
                 <Label htmlFor="unitPrice">Unit Price</Label>
                 <Input id="unitPrice" name="unitPrice" type="number" step="0.01" required />
@@ -164,13 +202,41 @@ export function InventoryClient() {
               </div>
               <div>
                 <Label htmlFor="vendor">Vendor</Label>
-                <Input id="vendor" name="vendor" />
+                <VendorSelect id="vendor" value={vendorId} onChange={setVendorId} />
+              </div>
+              <div>
+                <Label htmlFor="storageLocation">Storage Location</Label>
+                <Input id="storageLocation" name="storageLocation" placeholder="e.g., Walk-in" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="parLevel">Par Level</Label>
+                  <Input id="parLevel" name="parLevel" type="number" step="0.01" min="0" />
+                </div>
+                <div>
+                  <Label htmlFor="reorderPoint">Reorder Point</Label>
+                  <Input id="reorderPoint" name="reorderPoint" type="number" step="0.01" min="0" />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="lotNumber">Lot Number</Label>
+                  <Input id="lotNumber" name="lotNumber" />
+                </div>
+                <div>
+                  <Label htmlFor="expiresAt">Use By</Label>
+                  <Input id="expiresAt" name="expiresAt" type="date" />
+                </div>
               </div>
               <Button type="submit" className="w-full">Add Item</Button>
             </form>
           </CardContent>
         </Card>
       </div>
+      <div className="md:col-span-3">
+        <h2 className="text-2xl font-semibold mb-4">Price History</h2>
+        <PriceHistory items={items} onPurchaseRecorded={fetchInventory} />
+      </div>
     </div>
   );
 }
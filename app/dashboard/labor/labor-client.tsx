@@ -5,6 +5,7 @@ import { LaborEntry } from '@prisma/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Table,
@@ -15,9 +16,15 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { TrendChart } from '@/components/charts/TrendChart';
+import { DayShifts } from '@/components/labor/DayShifts';
+import { LaborCompliance } from '@/components/labor/LaborCompliance';
+import { LaborEfficiency } from '@/components/labor/LaborEfficiency';
+import { ShiftForm } from '@/components/labor/ShiftForm';
 
 export function LaborClient() {
   const [entries, setEntries] = useState<LaborEntry[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [shiftsRefreshKey, setShiftsRefreshKey] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -29,13 +36,10 @@ export function LaborClient() {
       value: entry.totalWages,
     }));
 
-  // Dummy restaurantId
-  const restaurantId = 'clxne1o4w00007867z1f896l9';
-
   async function fetchLabor() {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/labor?restaurantId=${restaurantId}`);
+      const response = await fetch('/api/labor');
       if (!response.ok) throw new Error('Failed to fetch labor data');
       const { data } = await response.json();
       setEntries(data);
@@ -50,6 +54,12 @@ export function LaborClient() {
     fetchLabor();
   }, []);
 
+  function handleShiftsChanged(date?: string) {
+    if (date) setSelectedDate(date);
+    setShiftsRefreshKey((key) => key + 1);
+    fetchLabor();
+  }
+
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setError(null);
@@ -77,7 +87,6 @@ export function LaborClient() {
         totalWages: parseFloat(formData.get('totalWages') as string),
         totalHours: parseFloat(formData.get('totalHours') as string),
         employees: parseInt(formData.get('employees') as string, 10),
-        restaurantId,
       };
 
       console.log('Submitting labor entry:', newEntry);
@@ -111,6 +120,12 @@ export function LaborClient() {
       <div className="md:col-span-3">
         <TrendChart data={chartData} title="Labor Cost Over Time" />
       </div>
+      <div className="md:col-span-3">
+        <LaborCompliance refreshKey={shiftsRefreshKey} />
+      </div>
+      <div className="md:col-span-3">
+        <LaborEfficiency refreshKey={shiftsRefreshKey} />
+      </div>
       <div className="md:col-span-2">
         <Card>
           <CardHeader>
@@ -127,24 +142,49 @@ export function LaborClient() {
                     <TableHead className="text-right">Total Wages</TableHead>
                     <TableHead className="text-right">Total Hours</TableHead>
                     <TableHead className="text-right">Employees</TableHead>
+                    <TableHead>Source</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {entries.map((entry) => (
-                    <TableRow key={entry.id}>
+                    <TableRow
+                      key={entry.id}
+                      className="cursor-pointer"
+                      data-state={selectedDate === new Date(entry.date).toISOString() ? 'selected' : undefined}
+                      onClick={() => setSelectedDate(new Date(entry.date).toISOString())}
+                    >
                       <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
                       <TableCell className="text-right">${entry.totalWages.toFixed(2)}</TableCell>
                       <TableCell className="text-right">{entry.totalHours}</TableCell>
                       <TableCell className="text-right">{entry.employees}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.source === 'SHIFTS' ? 'default' : 'secondary'}>
+                          {entry.source === 'SHIFTS' ? 'Shifts' : 'Manual'}
+                        </Badge>
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             )}
+            {!isLoading && !error && entries.length > 0 && (
+              <p className="mt-4 text-xs text-muted-foreground">Select a day to see who worked.</p>
+            )}
           </CardContent>
         </Card>
+        {selectedDate && (
+          <div className="mt-8">
+            <DayShifts
+              date={selectedDate}
+              refreshKey={shiftsRefreshKey}
+              onChange={() => handleShiftsChanged()}
+              onClose={() => setSelectedDate(null)}
+            />
+          </div>
+        )}
       </div>
-      <div>
+      <div className="space-y-8">
+        <ShiftForm onLogged={handleShiftsChanged} />
         <Card>
           <CardHeader>
             <CardTitle>Add Labor Entry</CardTitle>
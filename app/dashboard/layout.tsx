@@ -7,10 +7,10 @@ export default function DashboardLayout({
 }) {
   return (
     <div className="flex min-h-screen">
-      <aside className="w-64 border-r bg-background">
+      <aside className="w-64 border-r bg-background print:hidden">
         <Sidebar />
       </aside>
-      <main className="flex-1 p-6 lg:p-8">{children}</main>
+      <main className="flex-1 p-6 lg:p-8 print:p-0">{children}</main>
     </div>
   );
 }
@@ -29,12 +29,10 @@ export function LoansClient() {
       value: loan.balance,
     }));
 
-  const restaurantId = 'clxne1o4w00007867z1f896l9';
-
   async function fetchLoans() {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/loans?restaurantId=${restaurantId}`);
+      const response = await fetch('/api/loans');
       if (!response.ok) throw new Error('Failed to fetch loans');
             const data = await response.json();
       setLoans(data.data);
@@ -58,7 +56,6 @@ export function LoansClient() {
       interestRate: parseFloat(formData.get('interestRate') as string),
       paymentAmount: parseFloat(formData.get('paymentAmount') as string),
       paymentCycle: formData.get('paymentCycle') as string,
-      restaurantId,
     };
 
     try {
@@ -111,9 +111,6 @@ export default function DashboardPage() {
   const { metrics, insights } = data;
   const isRevenueIncrease = metrics.revenueChange >= 0;
 
-  // In a real app, you'd get this from your auth context or API
-  const restaurantId = '1';
-
   const handleImportComplete = () => {
     // Refresh dashboard data after import
     window.location.reload();
@@ -140,10 +137,7 @@ export default function DashboardPage() {
             Last updated: {new Date().toLocaleDateString()}
           </p>
         </div>
-        <ImportDialog 
-          restaurantId={restaurantId} 
-          onImportComplete={handleImportComplete} 
-        />
+        <ImportDialog onImportComplete={handleImportComplete} />
       </div>
       
       {/* AI-Powered Insights Section */}
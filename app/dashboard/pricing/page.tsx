@@ -0,0 +1,10 @@
+import { PricingClient } from './pricing-client';
+
+export default function PricingPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Price Simulator</h1>
+      <PricingClient />
+    </div>
+  );
+}
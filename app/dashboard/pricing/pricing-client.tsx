@@ -0,0 +1,387 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { MenuItemProjection, PriceAdjustmentType } from '@/utils/calculations';
+
+interface MenuItemOption {
+  id: string;
+  name: string;
+  category: string | null;
+  fixedPrice: number | null;
+}
+
+type Totals = Omit<MenuItemProjection, 'price'>;
+
+interface Simulation {
+  startDate: string;
+  endDate: string;
+  items: {
+    recipeId: string;
+    name: string;
+    category: string | null;
+    plateCost: number;
+    current: MenuItemProjection;
+    projected: MenuItemProjection;
+  }[];
+  totals: { current: Totals; projected: Totals };
+}
+
+interface PriceScenario {
+  id: string;
+  name: string;
+  adjustmentType: PriceAdjustmentType;
+  adjustmentValue: number;
+  elasticity: number | null;
+  volumeChange: number | null;
+  recipeIds: string[];
+  simulation: Simulation | null;
+  createdAt: string;
+}
+
+const ADJUSTMENT_LABELS: Record<PriceAdjustmentType, string> = {
+  ABSOLUTE: 'Change by amount ($)',
+  PERCENT: 'Change by percent (%)',
+  TARGET_FOOD_COST: 'Hit food cost target (%)',
+};
+
+function describeAdjustment(type: PriceAdjustmentType, value: number): string {
+  if (type === 'ABSOLUTE') return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+  if (type === 'PERCENT') return `${value >= 0 ? '+' : ''}${value}%`;
+  return `${value}% food cost`;
+}
+
+function parseOptionalNumber(value: FormDataEntryValue | null): number | null {
+  return value === null || value === '' ? null : parseFloat(value as string);
+}
+
+function formatChange(current: number, projected: number, prefix = '$'): string {
+  const change = projected - current;
+  return `${change >= 0 ? '+' : '-'}${prefix}${Math.abs(change).toFixed(2)}`;
+}
+
+export function PricingClient() {
+  const [menuItems, setMenuItems] = useState<MenuItemOption[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [adjustmentType, setAdjustmentType] = useState<PriceAdjustmentType>('PERCENT');
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [lastAdjustment, setLastAdjustment] = useState<Record<string, unknown> | null>(null);
+  const [scenarioName, setScenarioName] = useState('');
+  const [scenarios, setScenarios] = useState<PriceScenario[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function fetchMenuItems() {
+    try {
+      const response = await fetch('/api/recipes?limit=100');
+      if (!response.ok) throw new Error('Failed to fetch menu items');
+      const { data } = await response.json();
+      setMenuItems((data as MenuItemOption[]).filter((recipe) => recipe.fixedPrice !== null));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function fetchScenarios() {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/price-scenarios');
+      if (!response.ok) throw new Error('Failed to fetch price scenarios');
+      const { data } = await response.json();
+      setScenarios(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchMenuItems();
+    fetchScenarios();
+  }, []);
+
+  function toggleMenuItem(id: string) {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]));
+  }
+
+  async function handleSimulate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    const formData = new FormData(event.currentTarget);
+    const adjustment = {
+      recipeIds: selectedIds,
+      adjustmentType,
+      adjustmentValue: parseFloat(formData.get('adjustmentValue') as string),
+      elasticity: parseOptionalNumber(formData.get('elasticity')),
+      volumeChange: parseOptionalNumber(formData.get('volumeChange')),
+    };
+
+    try {
+      const response = await fetch('/api/reports/price-simulation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(adjustment),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to run simulation');
+      }
+      const { data } = await response.json();
+      setSimulation(data);
+      setLastAdjustment(adjustment);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleSaveScenario() {
+    if (!lastAdjustment || !scenarioName.trim()) return;
+    setError(null);
+    try {
+      const response = await fetch('/api/price-scenarios', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...lastAdjustment, name: scenarioName }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save scenario');
+      }
+      setScenarioName('');
+      fetchScenarios();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleDeleteScenario(id: string) {
+    setError(null);
+    try {
+      const response = await fetch(`/api/price-scenarios/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete scenario');
+      setScenarios((prev) => prev.filter((scenario) => scenario.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-8 md:grid-cols-3">
+        <div className="md:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Projection</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {error && <p className="text-red-500">{error}</p>}
+              {!simulation && <p className="text-sm text-muted-foreground">Select menu items and run a simulation.</p>}
+              {simulation && (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Volumes are based on sales from {new Date(simulation.startDate).toLocaleDateString()} to{' '}
+                    {new Date(simulation.endDate).toLocaleDateString()}.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead className="text-right">Plate Cost</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Sold</TableHead>
+                        <TableHead className="text-right">Food Cost %</TableHead>
+                        <TableHead className="text-right">Margin / Plate</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {simulation.items.map((item) => (
+                        <TableRow key={item.recipeId}>
+                          <TableCell className="font-medium">{item.name}</TableCell>
+                          <TableCell className="text-right">${item.plateCost.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">
+                            ${item.current.price.toFixed(2)} → ${item.projected.price.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.current.quantitySold} → {item.projected.quantitySold.toFixed(0)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.current.foodCostPercentage.toFixed(1)}% → {item.projected.foodCostPercentage.toFixed(1)}%
+                          </TableCell>
+                          <TableCell className="text-right">
+                            ${(item.current.price - item.plateCost).toFixed(2)} → $
+                            {(item.projected.price - item.plateCost).toFixed(2)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Revenue</p>
+                      <p className="text-lg font-semibold">${simulation.totals.projected.revenue.toFixed(2)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatChange(simulation.totals.current.revenue, simulation.totals.projected.revenue)} vs current
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Food Cost %</p>
+                      <p className="text-lg font-semibold">{simulation.totals.projected.foodCostPercentage.toFixed(1)}%</p>
+                      <p className="text-xs text-muted-foreground">
+                        {simulation.totals.current.foodCostPercentage.toFixed(1)}% currently
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Contribution Margin</p>
+                      <p className="text-lg font-semibold">${simulation.totals.projected.contributionMargin.toFixed(2)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatChange(simulation.totals.current.contributionMargin, simulation.totals.projected.contributionMargin)} vs current
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 print:hidden">
+                    <Input
+                      value={scenarioName}
+                      onChange={(e) => setScenarioName(e.target.value)}
+                      placeholder="Scenario name, e.g., Spring menu +5%"
+                    />
+                    <Button type="button" onClick={handleSaveScenario} disabled={!scenarioName.trim()}>
+                      Save Scenario
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+        <div className="print:hidden">
+          <Card>
+            <CardHeader>
+              <CardTitle>Simulate a Price Change</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSimulate} className="space-y-4">
+                <div>
+                  <Label>Menu Items</Label>
+                  <div className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+                    {menuItems.map((item) => (
+                      <label key={item.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(item.id)}
+                          onChange={() => toggleMenuItem(item.id)}
+                        />
+                        {item.name} (${(item.fixedPrice as number).toFixed(2)})
+                      </label>
+                    ))}
+                  </div>
+                  {menuItems.length === 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">No recipes have a sale price yet.</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="adjustmentType">Adjustment</Label>
+                  <Select value={adjustmentType} onValueChange={(value) => setAdjustmentType(value as PriceAdjustmentType)}>
+                    <SelectTrigger id="adjustmentType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ADJUSTMENT_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div><Label htmlFor="adjustmentValue">Value</Label><Input id="adjustmentValue" name="adjustmentValue" type="number" step="0.01" required /></div>
+                <div>
+                  <Label htmlFor="elasticity">Price Elasticity (optional)</Label>
+                  <Input id="elasticity" name="elasticity" type="number" step="0.1" placeholder="e.g., -1.2" />
+                  <p className="text-xs text-muted-foreground mt-1">% change in units sold for each 1% change in price.</p>
+                </div>
+                <div>
+                  <Label htmlFor="volumeChange">Volume Change % (optional)</Label>
+                  <Input id="volumeChange" name="volumeChange" type="number" step="0.1" placeholder="e.g., -5" />
+                  <p className="text-xs text-muted-foreground mt-1">Used when no elasticity is given.</p>
+                </div>
+                <Button type="submit" className="w-full" disabled={selectedIds.length === 0}>Simulate</Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Saved Scenarios</CardTitle>
+          <Button variant="outline" onClick={() => window.print()} className="print:hidden">Print</Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading && <p>Loading...</p>}
+          {!isLoading && scenarios.length === 0 && (
+            <p className="text-sm text-muted-foreground">No saved scenarios yet.</p>
+          )}
+          {!isLoading && scenarios.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scenario</TableHead>
+                  <TableHead>Adjustment</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Food Cost %</TableHead>
+                  <TableHead className="text-right">Contribution Margin</TableHead>
+                  <TableHead className="text-right">Margin Change</TableHead>
+                  <TableHead className="print:hidden"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scenarios.map((scenario) => (
+                  <TableRow key={scenario.id}>
+                    <TableCell className="font-medium">{scenario.name}</TableCell>
+                    <TableCell>{describeAdjustment(scenario.adjustmentType, scenario.adjustmentValue)}</TableCell>
+                    <TableCell className="text-right">{scenario.recipeIds.length}</TableCell>
+                    {scenario.simulation ? (
+                      <>
+                        <TableCell className="text-right">${scenario.simulation.totals.projected.revenue.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          {scenario.simulation.totals.projected.foodCostPercentage.toFixed(1)}%
+                        </TableCell>
+                        <TableCell className="text-right">
+                          ${scenario.simulation.totals.projected.contributionMargin.toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatChange(
+                            scenario.simulation.totals.current.contributionMargin,
+                            scenario.simulation.totals.projected.contributionMargin
+                          )}
+                        </TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={4} className="text-muted-foreground">
+                        A menu item in this scenario no longer has a sale price
+                      </TableCell>
+                    )}
+                    <TableCell className="text-right print:hidden">
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteScenario(scenario.id)}>Delete</Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
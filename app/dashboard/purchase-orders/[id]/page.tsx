@@ -0,0 +1,10 @@
+import { PurchaseOrderClient } from './purchase-order-client';
+
+export default function PurchaseOrderPage({ params }: { params: { id: string } }) {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Purchase Order</h1>
+      <PurchaseOrderClient orderId={params.id} />
+    </div>
+  );
+}
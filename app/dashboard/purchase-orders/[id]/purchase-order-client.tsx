@@ -0,0 +1,399 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { PurchaseOrderStatusBadge, type PurchaseOrderStatus } from '@/components/purchasing/PurchaseOrderStatusBadge';
+import type { OrderLineStatus } from '@/utils/calculations';
+
+interface PurchaseOrderLine {
+  id: string;
+  quantityOrdered: number;
+  unit: string;
+  unitPrice: number;
+  inventoryItem: { name: string; sku: string; inventoryUnit: string };
+  quantityReceived: number;
+  quantityRemaining: number;
+  status: OrderLineStatus;
+  averageReceivedPrice: number | null;
+  priceVariance: number;
+  hasPriceDiscrepancy: boolean;
+}
+
+interface PurchaseOrder {
+  id: string;
+  number: string;
+  vendor: { id: string; name: string; phone: string | null; email: string | null; orderMinimum: number | null };
+  status: PurchaseOrderStatus;
+  expectedAt: string | null;
+  notes: string | null;
+  sentAt: string | null;
+  closedAt: string | null;
+  createdAt: string;
+  lines: PurchaseOrderLine[];
+  receipts: {
+    id: string;
+    receivedAt: string;
+    notes: string | null;
+    lines: { id: string; orderLineId: string; quantity: number; unitPrice: number }[];
+  }[];
+  summary: {
+    orderedTotal: number;
+    receivedTotal: number;
+    shortLines: number;
+    priceDiscrepancies: number;
+  };
+}
+
+interface ReceiveValues {
+  quantity: string;
+  unitPrice: string;
+  lotNumber: string;
+  expiresAt: string;
+}
+
+const LINE_STATUS_LABELS: Record<OrderLineStatus, string> = {
+  PENDING: 'Pending',
+  PARTIAL: 'Partial',
+  RECEIVED: 'Received',
+  SHORT: 'Short',
+  OVER: 'Over',
+};
+
+function toReceiveValues(order: PurchaseOrder): Record<string, ReceiveValues> {
+  return Object.fromEntries(
+    order.lines.map((line) => [
+      line.id,
+      { quantity: String(line.quantityRemaining), unitPrice: line.unitPrice.toFixed(2), lotNumber: '', expiresAt: '' },
+    ])
+  );
+}
+
+export function PurchaseOrderClient({ orderId }: { orderId: string }) {
+  const router = useRouter();
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [receiving, setReceiving] = useState<Record<string, ReceiveValues>>({});
+  const [receiptNotes, setReceiptNotes] = useState('');
+  const [closeOrder, setCloseOrder] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function applyOrder(data: PurchaseOrder) {
+    setOrder(data);
+    setReceiving(toReceiveValues(data));
+  }
+
+  useEffect(() => {
+    async function fetchOrder() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/purchase-orders/${orderId}`);
+        if (!response.ok) throw new Error('Failed to fetch purchase order');
+        const { data } = await response.json();
+        setOrder(data);
+        setReceiving(toReceiveValues(data));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchOrder();
+  }, [orderId]);
+
+  async function updateStatus(status: 'SENT' | 'CANCELLED') {
+    setError(null);
+    try {
+      const response = await fetch(`/api/purchase-orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update purchase order');
+      }
+      const { data } = await response.json();
+      applyOrder(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleDelete() {
+    if (!window.confirm('Delete this draft purchase order?')) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/purchase-orders/${orderId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete purchase order');
+      }
+      router.push('/dashboard/purchase-orders');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleReceive() {
+    if (!order) return;
+    setError(null);
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${orderId}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notes: receiptNotes || undefined,
+          closeOrder,
+          lines: order.lines.map((line) => ({
+            orderLineId: line.id,
+            quantity: parseFloat(receiving[line.id]?.quantity) || 0,
+            unitPrice: parseFloat(receiving[line.id]?.unitPrice) || 0,
+            lotNumber: receiving[line.id]?.lotNumber || undefined,
+            expiresAt: receiving[line.id]?.expiresAt
+              ? new Date(`${receiving[line.id].expiresAt}T00:00:00`).toISOString()
+              : undefined,
+          })),
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to receive delivery');
+      }
+      const { data } = await response.json();
+      applyOrder(data);
+      setReceiptNotes('');
+      setCloseOrder(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function updateReceiving(lineId: string, field: keyof ReceiveValues, value: string) {
+    setReceiving((prev) => ({ ...prev, [lineId]: { ...prev[lineId], [field]: value } }));
+  }
+
+  if (isLoading) return <p>Loading...</p>;
+  if (!order) return <p className="text-red-500">{error || 'Purchase order not found'}</p>;
+
+  const canReceive = order.status === 'SENT' || order.status === 'PARTIALLY_RECEIVED';
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            {order.number} — {order.vendor.name} <PurchaseOrderStatusBadge status={order.status} />
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Created {new Date(order.createdAt).toLocaleDateString()}
+            {order.sentAt && ` · Sent ${new Date(order.sentAt).toLocaleDateString()}`}
+            {order.expectedAt && ` · Expected ${new Date(order.expectedAt).toLocaleDateString()}`}
+            {order.closedAt && ` · Closed ${new Date(order.closedAt).toLocaleDateString()}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/purchase-orders/${order.id}/export?format=pdf`}>Download PDF</a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/purchase-orders/${order.id}/export?format=csv`}>Export CSV</a>
+          </Button>
+          {order.status === 'DRAFT' && (
+            <>
+              <Button onClick={() => updateStatus('SENT')}>Mark as Sent</Button>
+              <Button variant="ghost" onClick={handleDelete}>Delete</Button>
+            </>
+          )}
+          {order.status === 'SENT' && (
+            <Button variant="ghost" onClick={() => updateStatus('CANCELLED')}>Cancel Order</Button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+      {order.status === 'DRAFT' &&
+        order.vendor.orderMinimum !== null &&
+        order.summary.orderedTotal < order.vendor.orderMinimum && (
+          <p className="text-sm text-yellow-600">
+            This order is below {order.vendor.name}&apos;s ${order.vendor.orderMinimum.toFixed(2)} order minimum.
+          </p>
+        )}
+      {(order.summary.shortLines > 0 || order.summary.priceDiscrepancies > 0) && (
+        <div className="flex gap-2">
+          {order.summary.shortLines > 0 && (
+            <Badge variant="destructive">{order.summary.shortLines} short-shipped</Badge>
+          )}
+          {order.summary.priceDiscrepancies > 0 && (
+            <Badge variant="destructive">{order.summary.priceDiscrepancies} price discrepancies</Badge>
+          )}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Lines — ordered ${order.summary.orderedTotal.toFixed(2)}, received ${order.summary.receivedTotal.toFixed(2)}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Invoiced Price</TableHead>
+                <TableHead>Status</TableHead>
+                {canReceive && <TableHead className="text-right">Receive Qty</TableHead>}
+                {canReceive && <TableHead className="text-right">Invoice Price</TableHead>}
+                {canReceive && <TableHead>Lot / Use By</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.lines.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    <div className="font-medium">{line.inventoryItem.name}</div>
+                    <div className="text-xs text-muted-foreground">{line.inventoryItem.sku}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{line.quantityOrdered} {line.unit}</TableCell>
+                  <TableCell className="text-right">${line.unitPrice.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{line.quantityReceived} {line.unit}</TableCell>
+                  <TableCell className={`text-right ${line.hasPriceDiscrepancy ? 'text-red-600 font-semibold' : ''}`}>
+                    {line.averageReceivedPrice === null ? '—' : `$${line.averageReceivedPrice.toFixed(2)}`}
+                    {line.hasPriceDiscrepancy && ` (${line.priceVariance >= 0 ? '+' : '-'}$${Math.abs(line.priceVariance).toFixed(2)})`}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={line.status === 'SHORT' || line.status === 'OVER' ? 'destructive' : 'secondary'}>
+                      {LINE_STATUS_LABELS[line.status]}
+                    </Badge>
+                  </TableCell>
+                  {canReceive && (
+                    <TableCell className="text-right">
+                      <Input
+                        aria-label={`Quantity received of ${line.inventoryItem.name}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24 ml-auto text-right"
+                        value={receiving[line.id]?.quantity ?? ''}
+                        onChange={(e) => updateReceiving(line.id, 'quantity', e.target.value)}
+                      />
+                    </TableCell>
+                  )}
+                  {canReceive && (
+                    <TableCell className="text-right">
+                      <Input
+                        aria-label={`Invoiced price of ${line.inventoryItem.name}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24 ml-auto text-right"
+                        value={receiving[line.id]?.unitPrice ?? ''}
+                        onChange={(e) => updateReceiving(line.id, 'unitPrice', e.target.value)}
+                      />
+                    </TableCell>
+                  )}
+                  {canReceive && (
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Input
+                          aria-label={`Lot number of ${line.inventoryItem.name}`}
+                          placeholder="Lot"
+                          className="w-24"
+                          value={receiving[line.id]?.lotNumber ?? ''}
+                          onChange={(e) => updateReceiving(line.id, 'lotNumber', e.target.value)}
+                        />
+                        <Input
+                          aria-label={`Use-by date of ${line.inventoryItem.name}`}
+                          type="date"
+                          className="w-40"
+                          value={receiving[line.id]?.expiresAt ?? ''}
+                          onChange={(e) => updateReceiving(line.id, 'expiresAt', e.target.value)}
+                        />
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {canReceive && (
+            <div className="mt-6 grid gap-4 md:grid-cols-3 items-end">
+              <div className="md:col-span-2">
+                <Label htmlFor="receiptNotes">Delivery Notes</Label>
+                <Input
+                  id="receiptNotes"
+                  placeholder="e.g., Invoice #1234, 2 cases damaged"
+                  value={receiptNotes}
+                  onChange={(e) => setReceiptNotes(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={closeOrder} onChange={(e) => setCloseOrder(e.target.checked)} />
+                  Close order — nothing more is coming
+                </label>
+                <Button className="w-full" onClick={handleReceive} disabled={isSaving}>
+                  {isSaving ? 'Receiving...' : 'Receive Delivery'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {order.receipts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Deliveries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Invoiced</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.receipts.map((receipt) => (
+                  <TableRow key={receipt.id}>
+                    <TableCell>{new Date(receipt.receivedAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{receipt.lines.length}</TableCell>
+                    <TableCell className="text-right">
+                      ${receipt.lines.reduce((total, line) => total + line.quantity * line.unitPrice, 0).toFixed(2)}
+                    </TableCell>
+                    <TableCell>{receipt.notes || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
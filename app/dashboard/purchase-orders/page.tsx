@@ -0,0 +1,10 @@
+import { PurchaseOrdersClient } from './purchase-orders-client';
+
+export default function PurchaseOrdersPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Purchase Orders</h1>
+      <PurchaseOrdersClient />
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { InventoryItem } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PurchaseOrderStatusBadge, type PurchaseOrderStatus } from '@/components/purchasing/PurchaseOrderStatusBadge';
+import { VendorSelect, type VendorOption } from '@/components/purchasing/VendorSelect';
+
+interface PurchaseOrderSummary {
+  id: string;
+  number: string;
+  vendor: VendorOption;
+  status: PurchaseOrderStatus;
+  expectedAt: string | null;
+  createdAt: string;
+  lineCount: number;
+  orderedTotal: number;
+}
+
+interface DraftLine {
+  inventoryItemId: string;
+  quantityOrdered: string;
+}
+
+export function PurchaseOrdersClient() {
+  const router = useRouter();
+  const [orders, setOrders] = useState<PurchaseOrderSummary[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [vendorId, setVendorId] = useState<string | null>(null);
+  const [lines, setLines] = useState<DraftLine[]>([{ inventoryItemId: '', quantityOrdered: '' }]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function fetchOrders() {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/purchase-orders?limit=100');
+      if (!response.ok) throw new Error('Failed to fetch purchase orders');
+      const { data } = await response.json();
+      setOrders(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function fetchItems() {
+    try {
+      const response = await fetch('/api/inventory?limit=100&sortBy=name&sortOrder=asc');
+      if (!response.ok) throw new Error('Failed to fetch inventory');
+      const { data } = await response.json();
+      setItems(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  useEffect(() => {
+    fetchOrders();
+    fetchItems();
+  }, []);
+
+  function updateLine(index: number, field: keyof DraftLine, value: string) {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  }
+
+  async function handleCreateFromSuggestions() {
+    setError(null);
+    try {
+      const response = await fetch('/api/purchase-orders/from-suggestions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create purchase orders');
+      }
+      fetchOrders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    if (!vendorId) {
+      setError('Select a vendor');
+      return;
+    }
+    const formData = new FormData(event.currentTarget);
+    const newOrder = {
+      vendorId,
+      expectedAt: formData.get('expectedAt')
+        ? new Date(formData.get('expectedAt') as string).toISOString()
+        : undefined,
+      lines: lines
+        .filter((line) => line.inventoryItemId && line.quantityOrdered)
+        .map((line) => ({
+          inventoryItemId: line.inventoryItemId,
+          quantityOrdered: parseFloat(line.quantityOrdered),
+        })),
+    };
+
+    try {
+      const response = await fetch('/api/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newOrder),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create purchase order');
+      }
+      const { data } = await response.json();
+      router.push(`/dashboard/purchase-orders/${data.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-3">
+      <div className="md:col-span-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Orders</CardTitle>
+            <Button variant="outline" onClick={handleCreateFromSuggestions}>Create from Order Guide</Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>PO</TableHead>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Items</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Expected</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.map((order) => (
+                    <TableRow key={order.id}>
+                      <TableCell>
+                        <Link href={`/dashboard/purchase-orders/${order.id}`} className="font-medium hover:underline">
+                          {order.number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{order.vendor.name}</TableCell>
+                      <TableCell><PurchaseOrderStatusBadge status={order.status} /></TableCell>
+                      <TableCell className="text-right">{order.lineCount}</TableCell>
+                      <TableCell className="text-right">${order.orderedTotal.toFixed(2)}</TableCell>
+                      <TableCell>{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell>{order.expectedAt ? new Date(order.expectedAt).toLocaleDateString() : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div>
+        <Card>
+          <CardHeader>
+            <CardTitle>New Purchase Order</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="vendor">Vendor</Label>
+                <VendorSelect id="vendor" value={vendorId} onChange={setVendorId} />
+              </div>
+              <div><Label htmlFor="expectedAt">Expected Delivery</Label><Input id="expectedAt" name="expectedAt" type="date" /></div>
+              <div className="space-y-2">
+                <Label>Items</Label>
+                {lines.map((line, index) => {
+                  const item = items.find((i) => i.id === line.inventoryItemId);
+                  return (
+                    <div key={index} className="flex gap-2">
+                      <Select value={line.inventoryItemId} onValueChange={(value) => updateLine(index, 'inventoryItemId', value)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {items.map((i) => (
+                            <SelectItem key={i.id} value={i.id}>{i.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        aria-label="Quantity"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24"
+                        placeholder={item ? item.purchaseUnit || item.inventoryUnit : 'Qty'}
+                        value={line.quantityOrdered}
+                        onChange={(e) => updateLine(index, 'quantityOrdered', e.target.value)}
+                      />
+                    </div>
+                  );
+                })}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLines((prev) => [...prev, { inventoryItemId: '', quantityOrdered: '' }])}
+                >
+                  Add Item
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Items are ordered in their purchase unit at their latest price.
+                </p>
+              </div>
+              <Button type="submit" className="w-full">Create Draft</Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import { RecipesClient } from './recipes-client';
+import { MenuEngineering } from '@/components/recipes/MenuEngineering';
 
 export default function RecipesPage() {
   return (
     <div>
       <h1 className="text-3xl font-bold mb-6">Recipe Management & Costing</h1>
       <RecipesClient />
+      <div className="mt-8">
+        <MenuEngineering />
+      </div>
     </div>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, FormEvent } from 'react';
+import { Fragment, useState, useEffect, FormEvent } from 'react';
 import { Recipe, InventoryItem } from '@prisma/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,15 +14,21 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { calculateRecipeCost } from '@/utils/calculations';
+import { calculateIdealSalePrice, type RecipeCostNode } from '@/utils/calculations';
 import { RecipeOptimizer } from '@/components/recipes/RecipeOptimizer';
+import { RecipeCostTree } from '@/components/recipes/RecipeCostTree';
 
-// Define a type for Recipe with its relations
+// Define a type for Recipe with its relations and rolled-up cost
 type RecipeWithRelations = Recipe & {
   ingredients: { 
     quantityUsed: number;
-    inventoryItem: InventoryItem;
+    unit: string | null;
+    inventoryItem: InventoryItem | null;
+    subRecipe: Pick<Recipe, 'id' | 'name' | 'batchYield' | 'yieldUnit'> | null;
   }[];
+  cost: number;
+  plateCost: number;
+  costBreakdown: RecipeCostNode[];
 };
 
 export function RecipesClient() {
@@ -30,15 +36,15 @@ export function RecipesClient() {
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  const restaurantId = 'clxne1o4w00007867z1f896l9';
+  const [expandedRecipeId, setExpandedRecipeId] = useState<string | null>(null);
+  const [targetFoodCost, setTargetFoodCost] = useState(30);
 
   async function fetchData() {
     setIsLoading(true);
     try {
       const [recipesRes, inventoryRes] = await Promise.all([
-        fetch(`/api/recipes?restaurantId=${restaurantId}`),
-        fetch(`/api/inventory?restaurantId=${restaurantId}`),
+        fetch('/api/recipes'),
+        fetch('/api/inventory'),
       ]);
       if (!recipesRes.ok) throw new Error('Failed to fetch recipes');
       if (!inventoryRes.ok) throw new Error('Failed to fetch inventory');
@@ -73,6 +79,18 @@ export function RecipesClient() {
             <CardTitle>Recipe List</CardTitle>
           </CardHeader>
           <CardContent>
+            <div className="mb-4 flex items-center gap-2">
+              <Label htmlFor="targetFoodCost">Target Food Cost %</Label>
+              <Input
+                id="targetFoodCost"
+                type="number"
+                min="1"
+                max="99"
+                className="w-24"
+                value={targetFoodCost}
+                onChange={(e) => setTargetFoodCost(Number(e.target.value))}
+              />
+            </div>
             {isLoading && <p>Loading...</p>}
             {error && <p className="text-red-500">{error}</p>}
             {!isLoading && !error && (
@@ -80,22 +98,51 @@ export function RecipesClient() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Name</TableHead>
-                    <TableHead className="text-right">Calculated Cost</TableHead>
+                    <TableHead className="text-right">Batch Cost</TableHead>
+                    <TableHead className="text-right">Plate Cost</TableHead>
                     <TableHead className="text-right">Sale Price</TableHead>
                     <TableHead className="text-right">Food Cost %</TableHead>
+                    <TableHead className="text-right">Ideal Price</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {(recipes || []).map((recipe) => {
-                    const cost = calculateRecipeCost(recipe.ingredients || []);
+                    const cost = recipe.plateCost;
                     const foodCostPercentage = recipe.fixedPrice && recipe.fixedPrice > 0 ? (cost / recipe.fixedPrice) * 100 : 0;
+                    const idealPrice = targetFoodCost > 0 && targetFoodCost < 100
+                      ? calculateIdealSalePrice(cost, targetFoodCost)
+                      : null;
+                    const isExpanded = expandedRecipeId === recipe.id;
                     return (
-                      <TableRow key={recipe.id}>
-                        <TableCell>{recipe.name}</TableCell>
-                        <TableCell className="text-right">${cost.toFixed(2)}</TableCell>
-                        <TableCell className="text-right">${(recipe.fixedPrice || 0).toFixed(2)}</TableCell>
-                        <TableCell className="text-right">{foodCostPercentage.toFixed(2)}%</TableCell>
-                      </TableRow>
+                      <Fragment key={recipe.id}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedRecipeId(isExpanded ? null : recipe.id)}
+                        >
+                          <TableCell>
+                            {isExpanded ? '▾' : '▸'} {recipe.name}
+                            {recipe.ingredients.some((ingredient) => ingredient.subRecipe) && (
+                              <span className="ml-2 text-xs text-muted-foreground">uses prep items</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">${recipe.cost.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">${cost.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">${(recipe.fixedPrice || 0).toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{foodCostPercentage.toFixed(2)}%</TableCell>
+                          <TableCell className="text-right">{idealPrice === null ? '—' : `$${idealPrice.toFixed(2)}`}</TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow>
+                            <TableCell colSpan={6} className="bg-muted/50">
+                              <p className="mb-2 text-xs text-muted-foreground">
+                                Cost per batch of {recipe.batchYield} {recipe.yieldUnit}, serving {recipe.servingSize}
+                                {recipe.servingSize === 1 ? ' portion' : ' portions'}
+                              </p>
+                              <RecipeCostTree nodes={recipe.costBreakdown} />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
                     );
                   })}
                 </TableBody>
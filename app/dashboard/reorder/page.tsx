@@ -0,0 +1,10 @@
+import { ReorderClient } from './reorder-client';
+
+export default function ReorderPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">What to Order Today</h1>
+      <ReorderClient />
+    </div>
+  );
+}
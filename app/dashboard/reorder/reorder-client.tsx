@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface ReorderSuggestion {
+  id: string;
+  sku: string;
+  name: string;
+  inventoryUnit: string;
+  purchaseUnit: string | null;
+  quantity: number;
+  parLevel: number | null;
+  reorderPoint: number | null;
+  averageDailyUsage: number;
+  purchaseQuantity: number | null;
+  orderQuantity: number;
+  estimatedCost: number;
+}
+
+interface VendorOrder {
+  vendorId: string | null;
+  vendor: string;
+  orderMinimum: number | null;
+  items: ReorderSuggestion[];
+  estimatedCost: number;
+}
+
+function formatQuantity(quantity: number): string {
+  return Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(2);
+}
+
+export function ReorderClient() {
+  const router = useRouter();
+  const [usageDays, setUsageDays] = useState('14');
+  const [leadTimeDays, setLeadTimeDays] = useState('0');
+  const [vendors, setVendors] = useState<VendorOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSuggestions() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (usageDays) params.set('usageDays', usageDays);
+        if (leadTimeDays) params.set('leadTimeDays', leadTimeDays);
+
+        const response = await fetch(`/api/reports/reorder-suggestions?${params.toString()}`);
+        if (!response.ok) throw new Error('Failed to fetch reorder suggestions');
+        const { data } = await response.json();
+        setVendors(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchSuggestions();
+  }, [usageDays, leadTimeDays]);
+
+  const totalCost = vendors.reduce((total, vendor) => total + vendor.estimatedCost, 0);
+
+  async function handleCreatePurchaseOrders() {
+    setError(null);
+    try {
+      const response = await fetch('/api/purchase-orders/from-suggestions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          usageDays: parseInt(usageDays, 10) || 0,
+          leadTimeDays: parseInt(leadTimeDays, 10) || 0,
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create purchase orders');
+      }
+      router.push('/dashboard/purchase-orders');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card className="print:hidden">
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-3 items-end">
+            <div>
+              <Label htmlFor="leadTimeDays">Days Until Delivery</Label>
+              <Input
+                id="leadTimeDays"
+                type="number"
+                min="0"
+                step="1"
+                value={leadTimeDays}
+                onChange={(e) => setLeadTimeDays(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="usageDays">Average Usage Over Last (days)</Label>
+              <Input
+                id="usageDays"
+                type="number"
+                min="0"
+                step="1"
+                value={usageDays}
+                onChange={(e) => setUsageDays(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleCreatePurchaseOrders} disabled={vendors.length === 0}>Create Purchase Orders</Button>
+              <Button variant="outline" onClick={() => window.print()}>Print Order Sheets</Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Orders bring each item back up to par, plus its average daily usage for every day until delivery.
+            Set usage days to 0 to order to par only.
+          </p>
+        </CardContent>
+      </Card>
+
+      {isLoading && <p>Loading...</p>}
+      {error && <p className="text-red-500">{error}</p>}
+      {!isLoading && !error && vendors.length === 0 && (
+        <p className="text-muted-foreground">
+          Nothing needs ordering today. Items are only suggested once they have a par level or reorder point.
+        </p>
+      )}
+      {!isLoading && vendors.length > 0 && (
+        <p className="font-semibold">Estimated total: ${totalCost.toFixed(2)}</p>
+      )}
+
+      {vendors.map((vendor) => (
+        <Card key={vendor.vendorId ?? 'none'} className="break-inside-avoid">
+          <CardHeader>
+            <CardTitle>{vendor.vendor} — ${vendor.estimatedCost.toFixed(2)}</CardTitle>
+            {vendor.orderMinimum !== null && vendor.estimatedCost < vendor.orderMinimum && (
+              <p className="text-sm text-yellow-600">Below the ${vendor.orderMinimum.toFixed(2)} order minimum</p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Reorder Point</TableHead>
+                  <TableHead className="text-right">Par</TableHead>
+                  <TableHead className="text-right">Daily Usage</TableHead>
+                  <TableHead className="text-right">Order</TableHead>
+                  <TableHead className="text-right">Est. Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vendor.items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.name}</TableCell>
+                    <TableCell>{item.sku}</TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.quantity)} {item.inventoryUnit}</TableCell>
+                    <TableCell className="text-right">{item.reorderPoint ?? '—'}</TableCell>
+                    <TableCell className="text-right">{item.parLevel ?? '—'}</TableCell>
+                    <TableCell className="text-right">{formatQuantity(item.averageDailyUsage)}</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {item.purchaseQuantity !== null
+                        ? `${item.purchaseQuantity} ${item.purchaseUnit}`
+                        : `${formatQuantity(item.orderQuantity)} ${item.inventoryUnit}`}
+                    </TableCell>
+                    <TableCell className="text-right">${item.estimatedCost.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -15,27 +15,29 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { TrendChart } from '@/components/charts/TrendChart';
+import { MenuItemSales } from '@/components/sales/MenuItemSales';
+import { countedSaleEntries } from '@/utils/calculations';
 
 export function SalesClient() {
   const [entries, setEntries] = useState<SaleEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const chartData = entries
-    .slice()
-    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-    .map((entry) => ({
-      date: new Date(entry.date).toLocaleDateString(),
-      value: entry.netSales,
-    }));
-
-  // Dummy restaurantId
-  const restaurantId = 'clxne1o4w00007867z1f896l9';
+  // Sales recorded by the hour are charted as their day's total, in place of any daily total
+  const chartData = Array.from(
+    countedSaleEntries(entries)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .reduce((days, entry) => {
+        const date = new Date(entry.date).toLocaleDateString();
+        return days.set(date, (days.get(date) ?? 0) + entry.netSales);
+      }, new Map<string, number>()),
+    ([date, value]) => ({ date, value })
+  );
 
   async function fetchSales() {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/sales?restaurantId=${restaurantId}`);
+      const response = await fetch('/api/sales');
       if (!response.ok) throw new Error('Failed to fetch sales');
             const data = await response.json();
       setEntries(data.data);
@@ -59,6 +61,7 @@ export function SalesClient() {
     const localDate = new Date(dateValue);
     const userTimezoneOffset = localDate.getTimezoneOffset() * 60000;
     const correctedDate = new Date(localDate.getTime() + userTimezoneOffset);
+    const hour = formData.get('hour') as string;
 
     const newEntry = {
       date: correctedDate.toISOString(),
@@ -67,7 +70,7 @@ export function SalesClient() {
       refunds: parseFloat(formData.get('refunds') as string),
       deliveryFees: parseFloat(formData.get('deliveryFees') as string),
       tips: parseFloat(formData.get('tips') as string),
-      restaurantId,
+      hourStartsAt: hour ? new Date(`${dateValue}T${hour}`).toISOString() : undefined,
     };
 
     try {
@@ -114,7 +117,14 @@ export function SalesClient() {
                 <TableBody>
                   {entries.map((entry) => (
                     <TableRow key={entry.id}>
-                      <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {new Date(entry.date).toLocaleDateString()}
+                        {entry.hourStartsAt && (
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            {new Date(entry.hourStartsAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                          </span>
+                        )}
+                      </TableCell>
                       <TableCell className="text-right">${entry.grossSales.toFixed(2)}</TableCell>
                       <TableCell className="text-right">${entry.netSales.toFixed(2)}</TableCell>
                       <TableCell className="text-right">${entry.discounts.toFixed(2)}</TableCell>
@@ -135,6 +145,11 @@ export function SalesClient() {
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div><Label htmlFor="date">Date</Label><Input id="date" name="date" type="date" required /></div>
+              <div>
+                <Label htmlFor="hour">Hour (optional)</Label>
+                <Input id="hour" name="hour" type="time" step="3600" />
+                <p className="mt-1 text-xs text-muted-foreground">Set for one hour&apos;s sales; leave blank for the day&apos;s total.</p>
+              </div>
               <div><Label htmlFor="grossSales">Gross Sales</Label><Input id="grossSales" name="grossSales" type="number" step="0.01" required /></div>
               <div><Label htmlFor="discounts">Discounts</Label><Input id="discounts" name="discounts" type="number" step="0.01" required /></div>
               <div><Label htmlFor="refunds">Refunds</Label><Input id="refunds" name="refunds" type="number" step="0.01" required /></div>
@@ -145,6 +160,9 @@ export function SalesClient() {
           </CardContent>
         </Card>
       </div>
+      <div className="md:col-span-3">
+        <MenuItemSales />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,10 @@
+import { ScheduleClient } from './schedule-client';
+
+export default function SchedulePage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Schedule</h1>
+      <ScheduleClient />
+    </div>
+  );
+}
@@ -0,0 +1,539 @@
+'use client';
+
+import { useState, useEffect, DragEvent, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScheduleComparison, type ScheduleComparisonRow } from '@/components/labor/ScheduleComparison';
+import { cn } from '@/lib/utils';
+
+interface ScheduledShiftRow {
+  id: string;
+  date: string;
+  startsAt: string;
+  endsAt: string;
+  breakMinutes: number;
+  hourlyRate: number;
+  hours: number;
+  wages: number;
+  notes: string | null;
+  employee: { id: string; name: string };
+  position: { id: string; name: string } | null;
+}
+
+interface ScheduleWeek {
+  id: string | null;
+  status: 'DRAFT' | 'PUBLISHED';
+  publishedAt: string | null;
+  forecastOverride: number | null;
+  weekStart: string;
+  shifts: ScheduledShiftRow[];
+  days: { date: string; forecastSales: number; hours: number; wages: number; laborPercentage: number }[];
+  comparison: ScheduleComparisonRow[];
+  summary: {
+    scheduledHours: number;
+    scheduledWages: number;
+    premiumPay: number;
+    laborCost: number;
+    forecastSales: number;
+    laborPercentage: number;
+    actualHours: number;
+    actualWages: number;
+  };
+}
+
+interface EmployeeOption {
+  id: string;
+  name: string;
+  position: { id: string; name: string } | null;
+}
+
+interface PositionOption {
+  id: string;
+  name: string;
+}
+
+type DragItem = { kind: 'employee' | 'shift'; id: string };
+
+// Row for shifts without a position
+const NO_POSITION = 'none';
+
+// Labor above this share of forecast sales is flagged
+const LABOR_TARGET_PERCENTAGE = 30;
+
+// Steps the week shown a week at a time
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Business days are stored at midnight UTC, so their date part is the day
+function dayKey(date: string) {
+  return date.slice(0, 10);
+}
+
+// Shows a business day as a short column heading
+function formatDay(date: string) {
+  return new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC', weekday: 'short', month: 'numeric', day: 'numeric' });
+}
+
+// Shows a time as the time input expects it, in the viewer's timezone
+function toTimeInput(value: string) {
+  const date = new Date(value);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+// Shows a clock time in the viewer's own timezone
+function formatTime(value: string) {
+  return new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+// Works out when a shift starts and ends from a day and local times; an end
+// at or before the start is past midnight
+function shiftTimes(day: string, start: string, end: string) {
+  const startsAt = new Date(`${day}T${start}`);
+  const endsAt = new Date(`${day}T${end}`);
+  if (endsAt <= startsAt) endsAt.setDate(endsAt.getDate() + 1);
+  return { startsAt, endsAt };
+}
+
+export function ScheduleClient() {
+  const [weekOf, setWeekOf] = useState(() => new Date());
+  const [week, setWeek] = useState<ScheduleWeek | null>(null);
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [positions, setPositions] = useState<PositionOption[]>([]);
+  const [defaultStart, setDefaultStart] = useState('09:00');
+  const [defaultEnd, setDefaultEnd] = useState('17:00');
+  const [defaultBreak, setDefaultBreak] = useState('30');
+  const [selectedShift, setSelectedShift] = useState<ScheduledShiftRow | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchWeek() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/schedules?weekOf=${weekOf.toISOString()}`);
+        if (!response.ok) throw new Error('Failed to fetch schedule');
+        const { data } = await response.json();
+        setWeek(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchWeek();
+  }, [weekOf, reloadCount]);
+
+  useEffect(() => {
+    async function fetchOptions() {
+      try {
+        const [employeesRes, positionsRes] = await Promise.all([fetch('/api/employees'), fetch('/api/positions')]);
+        if (!employeesRes.ok) throw new Error('Failed to fetch employees');
+        if (!positionsRes.ok) throw new Error('Failed to fetch positions');
+
+        const employeesData = await employeesRes.json();
+        const positionsData = await positionsRes.json();
+
+        setEmployees(employeesData.data);
+        setPositions(positionsData.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchOptions();
+  }, []);
+
+  async function saveShift(url: string, method: 'POST' | 'PATCH', body: object) {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save shift');
+      }
+      setSelectedShift(null);
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  function handleDrop(event: DragEvent<HTMLDivElement>, day: string, positionId: string) {
+    event.preventDefault();
+    const item: DragItem = JSON.parse(event.dataTransfer.getData('text/plain') || '{}');
+    const position = positionId === NO_POSITION ? null : positionId;
+
+    if (item.kind === 'employee') {
+      const { startsAt, endsAt } = shiftTimes(day, defaultStart, defaultEnd);
+      saveShift('/api/scheduled-shifts', 'POST', {
+        employeeId: item.id,
+        positionId: position,
+        date: new Date(`${day}T00:00:00.000Z`).toISOString(),
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+        breakMinutes: parseInt(defaultBreak, 10) || 0,
+      });
+    }
+
+    const shift = item.kind === 'shift' ? week?.shifts.find((s) => s.id === item.id) : undefined;
+    if (shift) {
+      // Moving a shift keeps its times and length
+      const length = new Date(shift.endsAt).getTime() - new Date(shift.startsAt).getTime();
+      const startsAt = new Date(`${day}T${toTimeInput(shift.startsAt)}`);
+      saveShift(`/api/scheduled-shifts/${shift.id}`, 'PATCH', {
+        positionId: position,
+        date: new Date(`${day}T00:00:00.000Z`).toISOString(),
+        startsAt: startsAt.toISOString(),
+        endsAt: new Date(startsAt.getTime() + length).toISOString(),
+      });
+    }
+  }
+
+  function startDrag(event: DragEvent<HTMLElement>, item: DragItem) {
+    event.dataTransfer.setData('text/plain', JSON.stringify(item));
+    event.dataTransfer.effectAllowed = 'move';
+  }
+
+  function handleEditShift(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!selectedShift) return;
+    const formData = new FormData(event.currentTarget);
+    const { startsAt, endsAt } = shiftTimes(
+      dayKey(selectedShift.date),
+      formData.get('startsAt') as string,
+      formData.get('endsAt') as string
+    );
+    saveShift(`/api/scheduled-shifts/${selectedShift.id}`, 'PATCH', {
+      startsAt: startsAt.toISOString(),
+      endsAt: endsAt.toISOString(),
+      breakMinutes: parseInt(formData.get('breakMinutes') as string, 10) || 0,
+      notes: (formData.get('notes') as string) || null,
+    });
+  }
+
+  async function handleDeleteShift() {
+    if (!selectedShift) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/scheduled-shifts/${selectedShift.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete shift');
+      }
+      setSelectedShift(null);
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handlePublish() {
+    if (!week?.id) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/schedules/${week.id}/publish`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to publish schedule');
+      }
+      const { data } = await response.json();
+      setWeek(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleForecast(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!week?.id) return;
+    setError(null);
+    const value = new FormData(event.currentTarget).get('forecastSales') as string;
+    try {
+      const response = await fetch(`/api/schedules/${week.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ forecastSales: value ? parseFloat(value) : null }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update forecast');
+      }
+      const { data } = await response.json();
+      setWeek(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const exportUrl = (format: 'pdf' | 'ics', employeeId?: string) =>
+    `/api/schedules/${week?.id}/export?${new URLSearchParams({
+      format,
+      timeZone,
+      ...(employeeId && { employeeId }),
+    })}`;
+  const rows = [...positions, { id: NO_POSITION, name: 'No position' }];
+  const scheduledEmployees = Array.from(
+    new Map((week?.shifts ?? []).map((shift) => [shift.employee.id, shift.employee])).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setWeekOf(new Date(weekOf.getTime() - WEEK_MS))}>
+            Previous Week
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekOf(new Date())}>This Week</Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekOf(new Date(weekOf.getTime() + WEEK_MS))}>
+            Next Week
+          </Button>
+          {week && (
+            <span className="ml-2 font-semibold">
+              Week of {formatDay(week.weekStart)}{' '}
+              <Badge variant={week.status === 'PUBLISHED' ? 'default' : 'secondary'}>
+                {week.status === 'PUBLISHED' ? 'Published' : 'Draft'}
+              </Badge>
+            </span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {week?.id && (
+            <Button variant="outline" asChild>
+              <a href={exportUrl('pdf')}>Download PDF</a>
+            </Button>
+          )}
+          <Button onClick={handlePublish} disabled={!week?.id || week.status === 'PUBLISHED'}>
+            {week?.status === 'PUBLISHED' ? 'Published' : 'Publish Schedule'}
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+      {isLoading && !week && <p>Loading...</p>}
+
+      {week && (
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">{week.summary.scheduledHours.toFixed(1)} hours scheduled</Badge>
+          <Badge variant="secondary">
+            ${week.summary.laborCost.toFixed(2)} projected labor
+            {week.summary.premiumPay > 0 && ` (incl. $${week.summary.premiumPay.toFixed(2)} overtime and premiums)`}
+          </Badge>
+          <Badge variant="secondary">${week.summary.forecastSales.toFixed(2)} forecast sales</Badge>
+          <Badge variant={week.summary.laborPercentage > LABOR_TARGET_PERCENTAGE ? 'destructive' : 'default'}>
+            {week.summary.laborPercentage.toFixed(1)}% labor
+          </Badge>
+        </div>
+      )}
+
+      <div className="grid gap-8 lg:grid-cols-4">
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Staff</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-xs text-muted-foreground">
+                Drag someone onto a day to schedule them, or drag a shift to move it.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="defaultStart">Start</Label>
+                  <Input id="defaultStart" type="time" value={defaultStart} onChange={(e) => setDefaultStart(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="defaultEnd">End</Label>
+                  <Input id="defaultEnd" type="time" value={defaultEnd} onChange={(e) => setDefaultEnd(e.target.value)} />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="defaultBreak">Break (min)</Label>
+                <Input id="defaultBreak" type="number" min="0" value={defaultBreak} onChange={(e) => setDefaultBreak(e.target.value)} />
+              </div>
+              <ul className="space-y-1">
+                {employees.map((employee) => (
+                  <li
+                    key={employee.id}
+                    draggable
+                    onDragStart={(e) => startDrag(e, { kind: 'employee', id: employee.id })}
+                    className="cursor-grab rounded border px-2 py-1 text-sm"
+                  >
+                    {employee.name}
+                    {employee.position && (
+                      <span className="ml-1 text-xs text-muted-foreground">{employee.position.name}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          {selectedShift && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{selectedShift.employee.name}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form key={selectedShift.id} onSubmit={handleEditShift} className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {formatDay(selectedShift.date)} · {selectedShift.position?.name ?? 'No position'}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="startsAt">Start</Label>
+                      <Input id="startsAt" name="startsAt" type="time" defaultValue={toTimeInput(selectedShift.startsAt)} required />
+                    </div>
+                    <div>
+                      <Label htmlFor="endsAt">End</Label>
+                      <Input id="endsAt" name="endsAt" type="time" defaultValue={toTimeInput(selectedShift.endsAt)} required />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="breakMinutes">Break (min)</Label>
+                    <Input id="breakMinutes" name="breakMinutes" type="number" min="0" defaultValue={selectedShift.breakMinutes} />
+                  </div>
+                  <div>
+                    <Label htmlFor="notes">Notes</Label>
+                    <Input id="notes" name="notes" defaultValue={selectedShift.notes ?? ''} />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="submit" className="flex-1">Save</Button>
+                    <Button type="button" variant="ghost" onClick={handleDeleteShift}>Delete</Button>
+                    <Button type="button" variant="ghost" onClick={() => setSelectedShift(null)}>Close</Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {week?.id && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Forecast</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form key={`${week.id}-${week.forecastOverride}`} onSubmit={handleForecast} className="space-y-2">
+                  <Label htmlFor="forecastSales">Week&apos;s net sales</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="forecastSales"
+                      name="forecastSales"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={week.summary.forecastSales.toFixed(2)}
+                      defaultValue={week.forecastOverride ?? ''}
+                    />
+                    <Button type="submit" variant="outline">Set</Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Leave blank to forecast from the last four weeks of sales.
+                  </p>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="lg:col-span-3 overflow-x-auto">
+          {week && (
+            <div className="grid min-w-[56rem] grid-cols-[8rem_repeat(7,minmax(0,1fr))] border-l border-t text-sm">
+              <div className="border-b border-r p-2 font-semibold">Position</div>
+              {week.days.map((day) => (
+                <div key={day.date} className="border-b border-r p-2 font-semibold">{formatDay(day.date)}</div>
+              ))}
+
+              {rows.map((row) => (
+                <div key={row.id} className="contents">
+                  <div className="border-b border-r p-2 font-medium">{row.name}</div>
+                  {week.days.map((day) => (
+                    <div
+                      key={day.date}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => handleDrop(e, dayKey(day.date), row.id)}
+                      className="min-h-16 space-y-1 border-b border-r p-1"
+                    >
+                      {week.shifts
+                        .filter(
+                          (shift) =>
+                            dayKey(shift.date) === dayKey(day.date) && (shift.position?.id ?? NO_POSITION) === row.id
+                        )
+                        .map((shift) => (
+                          <button
+                            key={shift.id}
+                            type="button"
+                            draggable
+                            onDragStart={(e) => startDrag(e, { kind: 'shift', id: shift.id })}
+                            onClick={() => setSelectedShift(shift)}
+                            className={cn(
+                              'block w-full cursor-grab rounded bg-muted px-1 py-0.5 text-left text-xs',
+                              selectedShift?.id === shift.id && 'ring-2 ring-primary'
+                            )}
+                          >
+                            <div className="font-medium">{shift.employee.name}</div>
+                            <div>{formatTime(shift.startsAt)}–{formatTime(shift.endsAt)}</div>
+                          </button>
+                        ))}
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              <div className="border-b border-r p-2 text-xs font-semibold">Labor / Forecast</div>
+              {week.days.map((day) => (
+                <div key={day.date} className="border-b border-r p-2 text-xs">
+                  <div>{day.hours.toFixed(1)} h · ${day.wages.toFixed(0)}</div>
+                  <div className="text-muted-foreground">${day.forecastSales.toFixed(0)} sales</div>
+                  <div className={cn(day.laborPercentage > LABOR_TARGET_PERCENTAGE && 'text-red-500')}>
+                    {day.laborPercentage.toFixed(1)}%
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {week && scheduledEmployees.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Share With Staff</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+              {scheduledEmployees.map((employee) => (
+                <li key={employee.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>{employee.name}</span>
+                  <span className="flex gap-1">
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={exportUrl('pdf', employee.id)}>PDF</a>
+                    </Button>
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={exportUrl('ics', employee.id)}>Calendar</a>
+                    </Button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {week && (
+        <ScheduleComparison
+          rows={week.comparison}
+          scheduledHours={week.summary.scheduledHours}
+          actualHours={week.summary.actualHours}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { TeamClient } from './team-client';
+
+export default function TeamPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Team & Permissions</h1>
+      <TeamClient />
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Role } from '@/lib/permissions';
+
+interface Member {
+  id: string;
+  role: Role;
+  createdAt: string;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+const roleLabels: Record<Role, string> = {
+  OWNER: 'Owner',
+  MANAGER: 'Manager',
+  BOOKKEEPER: 'Bookkeeper',
+  STAFF: 'Staff (read-only)',
+};
+
+export function TeamClient() {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [role, setRole] = useState<Role>('STAFF');
+
+  async function fetchMembers() {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/users');
+      if (!response.ok) throw new Error('Failed to fetch team members');
+      const { data } = await response.json();
+      setMembers(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchMembers();
+  }, []);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const newMember = {
+      name: formData.get('name') as string,
+      email: formData.get('email') as string,
+      password: (formData.get('password') as string) || undefined,
+      role,
+    };
+
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newMember),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add team member');
+      }
+      fetchMembers();
+      form.reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-3">
+      <div className="md:col-span-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Team Members</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && !error && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>{member.user.name}</TableCell>
+                      <TableCell>{member.user.email}</TableCell>
+                      <TableCell>{roleLabels[member.role] ?? member.role}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div>
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Team Member</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div><Label htmlFor="name">Name</Label><Input id="name" name="name" required /></div>
+              <div><Label htmlFor="email">Email</Label><Input id="email" name="email" type="email" required /></div>
+              <div>
+                <Label htmlFor="password">Password</Label>
+                <Input id="password" name="password" type="password" minLength={8} />
+                <p className="text-xs text-muted-foreground mt-1">Only needed for people without an account yet.</p>
+              </div>
+              <div>
+                <Label htmlFor="role">Role</Label>
+                <Select value={role} onValueChange={(value: Role) => setRole(value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(roleLabels) as Role[]).map((value) => (
+                      <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" className="w-full">Add Member</Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
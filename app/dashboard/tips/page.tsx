@@ -0,0 +1,10 @@
+import { TipsClient } from './tips-client';
+
+export default function TipsPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Tips</h1>
+      <TipsClient />
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AREA_LABELS, METHOD_LABELS, TipPoolDialog, type TipPool } from '@/components/labor/TipPoolDialog';
+
+interface TipDistribution {
+  startDate: string;
+  endDate: string;
+  employees: { employeeId: string; employeeName: string; days: number; hours: number; tips: number }[];
+  days: { date: string; tips: number; distributed: number; undistributed: number; employees: number }[];
+  summary: { totalTips: number; distributedTips: number; undistributedTips: number; hours: number };
+}
+
+interface PositionOption {
+  id: string;
+  name: string;
+  tipped: boolean;
+}
+
+// Shows a business day, which is stored at midnight UTC
+function formatDay(value: string) {
+  return new Date(value).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function TipsClient() {
+  const [tipPools, setTipPools] = useState<TipPool[]>([]);
+  const [positions, setPositions] = useState<PositionOption[]>([]);
+  const [tipPoolId, setTipPoolId] = useState('');
+  const [startDay, setStartDay] = useState('');
+  const [endDay, setEndDay] = useState('');
+  const [distribution, setDistribution] = useState<TipDistribution | null>(null);
+  const [editingPool, setEditingPool] = useState<TipPool | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchPools() {
+      try {
+        const [poolsRes, positionsRes] = await Promise.all([fetch('/api/tip-pools'), fetch('/api/positions')]);
+        if (!poolsRes.ok) throw new Error('Failed to fetch tip pools');
+        if (!positionsRes.ok) throw new Error('Failed to fetch positions');
+
+        const poolsData = await poolsRes.json();
+        const positionsData = await positionsRes.json();
+
+        setTipPools(poolsData.data);
+        setPositions(positionsData.data);
+        setTipPoolId((current) =>
+          poolsData.data.some((pool: TipPool) => pool.id === current) ? current : poolsData.data[0]?.id ?? ''
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchPools();
+  }, [reloadCount]);
+
+  useEffect(() => {
+    if (!tipPoolId) {
+      setDistribution(null);
+      return;
+    }
+
+    async function fetchDistribution() {
+      try {
+        const params = new URLSearchParams({ tipPoolId });
+        if (startDay) params.set('startDate', new Date(`${startDay}T00:00:00.000Z`).toISOString());
+        if (endDay) params.set('endDate', new Date(`${endDay}T00:00:00.000Z`).toISOString());
+        const response = await fetch(`/api/reports/tip-distribution?${params}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to share out tips');
+        }
+        const { data } = await response.json();
+        setDistribution(data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchDistribution();
+  }, [tipPoolId, startDay, endDay, reloadCount]);
+
+  async function handleDeletePool(pool: TipPool) {
+    if (!window.confirm(`Delete the ${pool.name} tip pool?`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/tip-pools/${pool.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete tip pool');
+      }
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  function openDialog(pool: TipPool | null) {
+    setEditingPool(pool);
+    setIsDialogOpen(true);
+  }
+
+  // The period shown defaults to the current workweek until dates are picked
+  const periodStart = startDay || distribution?.startDate.slice(0, 10) || '';
+  const periodEnd = endDay || distribution?.endDate.slice(0, 10) || '';
+  const exportParams = new URLSearchParams({ tipPoolId, format: 'csv' });
+  if (periodStart) exportParams.set('startDate', new Date(`${periodStart}T00:00:00.000Z`).toISOString());
+  if (periodEnd) exportParams.set('endDate', new Date(`${periodEnd}T00:00:00.000Z`).toISOString());
+
+  return (
+    <div className="grid gap-8 md:grid-cols-3">
+      <div className="md:col-span-2">
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-4 space-y-0">
+            <CardTitle>Tip Distribution</CardTitle>
+            <div className="flex flex-wrap items-end gap-2">
+              <div>
+                <Label htmlFor="tipPool">Tip Pool</Label>
+                <Select value={tipPoolId} onValueChange={setTipPoolId}>
+                  <SelectTrigger id="tipPool" className="w-44">
+                    <SelectValue placeholder="No tip pools" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tipPools.map((pool) => (
+                      <SelectItem key={pool.id} value={pool.id}>{pool.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="periodStart">From</Label>
+                <Input id="periodStart" type="date" value={periodStart} onChange={(e) => setStartDay(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="periodEnd">To</Label>
+                <Input id="periodEnd" type="date" value={periodEnd} onChange={(e) => setEndDay(e.target.value)} />
+              </div>
+              {distribution && (
+                <Button variant="outline" asChild>
+                  <a href={`/api/reports/tip-distribution?${exportParams}`}>Export CSV</a>
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && tipPools.length === 0 && (
+              <p className="text-sm text-muted-foreground">Set up a tip pool to start sharing out tips.</p>
+            )}
+            {distribution && (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">${distribution.summary.totalTips.toFixed(2)} collected</Badge>
+                  <Badge variant="secondary">${distribution.summary.distributedTips.toFixed(2)} distributed</Badge>
+                  {distribution.summary.undistributedTips > 0 && (
+                    <Badge variant="destructive">
+                      ${distribution.summary.undistributedTips.toFixed(2)} undistributed
+                    </Badge>
+                  )}
+                  <Badge variant="secondary">{distribution.summary.hours.toFixed(1)} tipped hours</Badge>
+                </div>
+                {distribution.employees.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Nobody in this pool&apos;s positions worked a shift with tips in this period.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead className="text-right">Days</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">Tips</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {distribution.employees.map((employee) => (
+                        <TableRow key={employee.employeeId}>
+                          <TableCell className="font-medium">{employee.employeeName}</TableCell>
+                          <TableCell className="text-right">{employee.days}</TableCell>
+                          <TableCell className="text-right">{employee.hours.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">${employee.tips.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                {distribution.days.length > 0 && (
+                  <div>
+                    <h3 className="mb-2 font-semibold">By Day</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead className="text-right">Collected</TableHead>
+                          <TableHead className="text-right">Shared Among</TableHead>
+                          <TableHead className="text-right">Undistributed</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {distribution.days.map((day) => (
+                          <TableRow key={day.date}>
+                            <TableCell>{formatDay(day.date)}</TableCell>
+                            <TableCell className="text-right">${day.tips.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">{day.employees}</TableCell>
+                            <TableCell className={day.undistributed > 0 ? 'text-right text-red-500' : 'text-right'}>
+                              ${day.undistributed.toFixed(2)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Tips are undistributed on days nobody in the pool clocked a shift. Tips recorded by the hour are
+                  shared with the rest of that day&apos;s tips.
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Tip Pools</CardTitle>
+            <Button variant="outline" size="sm" onClick={() => openDialog(null)}>New Pool</Button>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-4">
+              {tipPools.map((pool) => (
+                <li key={pool.id} className="space-y-1 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{pool.name}</span>
+                    <span className="flex">
+                      <Button variant="ghost" size="sm" onClick={() => openDialog(pool)}>Edit</Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeletePool(pool)}>Delete</Button>
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {METHOD_LABELS[pool.method]}
+                    {pool.backOfHouseShare !== null && `, ${pool.backOfHouseShare}% to back of house`}
+                  </div>
+                  <ul className="text-xs text-muted-foreground">
+                    {pool.positions.map((member) => (
+                      <li key={member.positionId}>
+                        {member.position.name}
+                        {pool.method === 'POINTS' && ` · ${member.points} points`}
+                        {pool.backOfHouseShare !== null && ` · ${AREA_LABELS[member.area]}`}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      </div>
+      <TipPoolDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        tipPool={editingPool}
+        positions={positions}
+        onSaved={() => setReloadCount((count) => count + 1)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { TransferClient } from './transfer-client';
+
+export default function TransferPage({ params }: { params: { id: string } }) {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Transfer</h1>
+      <TransferClient transferId={params.id} />
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { InventoryItem } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TransferStatusBadge, type TransferStatus } from '@/components/inventory/TransferStatusBadge';
+
+interface TransferItem {
+  id: string;
+  name: string;
+  sku: string;
+  inventoryUnit: string;
+}
+
+interface TransferLine {
+  id: string;
+  quantitySent: number;
+  quantityReceived: number | null;
+  unitCost: number;
+  discrepancyNote: string | null;
+  fromItem: TransferItem;
+  toItem: TransferItem | null;
+  discrepancy: number;
+  discrepancyValue: number;
+  hasDiscrepancy: boolean;
+}
+
+interface Transfer {
+  id: string;
+  number: string;
+  status: TransferStatus;
+  direction: 'IN' | 'OUT';
+  notes: string | null;
+  sentAt: string;
+  receivedAt: string | null;
+  fromRestaurant: { id: string; name: string };
+  toRestaurant: { id: string; name: string };
+  lines: TransferLine[];
+  summary: {
+    sentValue: number;
+    receivedValue: number;
+    discrepancies: number;
+    discrepancyValue: number;
+  };
+}
+
+interface ReceiveValues {
+  quantityReceived: string;
+  toItemId: string;
+  discrepancyNote: string;
+}
+
+// Receives the line as a new item when the receiver does not stock it yet
+const NEW_ITEM = 'new';
+
+function toReceiveValues(transfer: Transfer): Record<string, ReceiveValues> {
+  return Object.fromEntries(
+    transfer.lines.map((line) => [
+      line.id,
+      { quantityReceived: String(line.quantitySent), toItemId: line.toItem?.id ?? NEW_ITEM, discrepancyNote: '' },
+    ])
+  );
+}
+
+export function TransferClient({ transferId }: { transferId: string }) {
+  const [transfer, setTransfer] = useState<Transfer | null>(null);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [receiving, setReceiving] = useState<Record<string, ReceiveValues>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function applyTransfer(data: Transfer) {
+    setTransfer(data);
+    setReceiving(toReceiveValues(data));
+  }
+
+  useEffect(() => {
+    async function fetchTransfer() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/transfers/${transferId}`);
+        if (!response.ok) throw new Error('Failed to fetch transfer');
+        const { data } = await response.json();
+        setTransfer(data);
+        setReceiving(toReceiveValues(data));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    async function fetchItems() {
+      try {
+        const response = await fetch('/api/inventory?limit=100&sortBy=name&sortOrder=asc');
+        if (!response.ok) throw new Error('Failed to fetch inventory');
+        const { data } = await response.json();
+        setItems(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchTransfer();
+    fetchItems();
+  }, [transferId]);
+
+  async function handleReceive() {
+    if (!transfer) return;
+    setError(null);
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/transfers/${transferId}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lines: transfer.lines.map((line) => ({
+            lineId: line.id,
+            quantityReceived: parseFloat(receiving[line.id]?.quantityReceived) || 0,
+            toItemId: receiving[line.id]?.toItemId === NEW_ITEM ? undefined : receiving[line.id]?.toItemId,
+            discrepancyNote: receiving[line.id]?.discrepancyNote || undefined,
+          })),
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to receive transfer');
+      }
+      const { data } = await response.json();
+      applyTransfer(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleCancel() {
+    if (!window.confirm('Cancel this transfer and put the stock back into inventory?')) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/transfers/${transferId}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to cancel transfer');
+      }
+      const { data } = await response.json();
+      applyTransfer(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  function updateReceiving(lineId: string, field: keyof ReceiveValues, value: string) {
+    setReceiving((prev) => ({ ...prev, [lineId]: { ...prev[lineId], [field]: value } }));
+  }
+
+  if (isLoading) return <p>Loading...</p>;
+  if (!transfer) return <p className="text-red-500">{error || 'Transfer not found'}</p>;
+
+  const canReceive = transfer.direction === 'IN' && transfer.status === 'SENT';
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            {transfer.number} — {transfer.fromRestaurant.name} to {transfer.toRestaurant.name}{' '}
+            <TransferStatusBadge status={transfer.status} />
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Sent {new Date(transfer.sentAt).toLocaleDateString()}
+            {transfer.receivedAt && ` · Received ${new Date(transfer.receivedAt).toLocaleDateString()}`}
+          </p>
+          {transfer.notes && <p className="text-sm">{transfer.notes}</p>}
+        </div>
+        <div className="flex gap-2">
+          {canReceive && (
+            <Button onClick={handleReceive} disabled={isSaving}>
+              {isSaving ? 'Receiving...' : 'Receive Transfer'}
+            </Button>
+          )}
+          {transfer.direction === 'OUT' && transfer.status === 'SENT' && (
+            <Button variant="ghost" onClick={handleCancel}>Cancel Transfer</Button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+      {transfer.summary.discrepancies > 0 && (
+        <div className="flex gap-2">
+          <Badge variant="destructive">
+            {transfer.summary.discrepancies} discrepancies ({transfer.summary.discrepancyValue >= 0 ? '+' : '-'}$
+            {Math.abs(transfer.summary.discrepancyValue).toFixed(2)})
+          </Badge>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Lines — sent ${transfer.summary.sentValue.toFixed(2)}
+            {transfer.status === 'RECEIVED' && `, received $${transfer.summary.receivedValue.toFixed(2)}`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Sent</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                {!canReceive && <TableHead className="text-right">Received</TableHead>}
+                {!canReceive && <TableHead>Received As</TableHead>}
+                {!canReceive && <TableHead>Discrepancy</TableHead>}
+                {canReceive && <TableHead className="text-right">Receive Qty</TableHead>}
+                {canReceive && <TableHead>Receive As</TableHead>}
+                {canReceive && <TableHead>Note</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transfer.lines.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    <div className="font-medium">{line.fromItem.name}</div>
+                    <div className="text-xs text-muted-foreground">{line.fromItem.sku}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{line.quantitySent} {line.fromItem.inventoryUnit}</TableCell>
+                  <TableCell className="text-right">${line.unitCost.toFixed(2)}</TableCell>
+                  {!canReceive && (
+                    <TableCell className="text-right">
+                      {line.quantityReceived === null ? '—' : `${line.quantityReceived} ${line.fromItem.inventoryUnit}`}
+                    </TableCell>
+                  )}
+                  {!canReceive && <TableCell>{line.toItem ? line.toItem.name : '—'}</TableCell>}
+                  {!canReceive && (
+                    <TableCell>
+                      {line.hasDiscrepancy ? (
+                        <>
+                          <Badge variant="destructive">
+                            {line.discrepancy > 0 ? '+' : ''}{line.discrepancy.toFixed(2)} {line.fromItem.inventoryUnit}
+                          </Badge>
+                          {line.discrepancyNote && (
+                            <div className="text-xs text-muted-foreground">{line.discrepancyNote}</div>
+                          )}
+                        </>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                  )}
+                  {canReceive && (
+                    <TableCell className="text-right">
+                      <Input
+                        aria-label={`Quantity received of ${line.fromItem.name}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24 ml-auto text-right"
+                        value={receiving[line.id]?.quantityReceived ?? ''}
+                        onChange={(e) => updateReceiving(line.id, 'quantityReceived', e.target.value)}
+                      />
+                    </TableCell>
+                  )}
+                  {canReceive && (
+                    <TableCell>
+                      <Select
+                        value={receiving[line.id]?.toItemId ?? NEW_ITEM}
+                        onValueChange={(value) => updateReceiving(line.id, 'toItemId', value)}
+                      >
+                        <SelectTrigger aria-label={`Item to receive ${line.fromItem.name} as`} className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NEW_ITEM}>New item ({line.fromItem.sku})</SelectItem>
+                          {items.map((item) => (
+                            <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  )}
+                  {canReceive && (
+                    <TableCell>
+                      <Input
+                        aria-label={`Discrepancy note for ${line.fromItem.name}`}
+                        placeholder="e.g. 2 broken"
+                        className="w-40"
+                        value={receiving[line.id]?.discrepancyNote ?? ''}
+                        onChange={(e) => updateReceiving(line.id, 'discrepancyNote', e.target.value)}
+                      />
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {canReceive && (
+            <p className="mt-4 text-xs text-muted-foreground">
+              Quantities are in the sending restaurant&apos;s units and are added to your inventory at the cost they were sent at.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
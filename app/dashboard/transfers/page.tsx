@@ -0,0 +1,10 @@
+import { TransfersClient } from './transfers-client';
+
+export default function TransfersPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Transfers</h1>
+      <TransfersClient />
+    </div>
+  );
+}
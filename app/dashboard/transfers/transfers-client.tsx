@@ -0,0 +1,271 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { InventoryItem } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TransferStatusBadge, type TransferStatus } from '@/components/inventory/TransferStatusBadge';
+
+interface TransferSummary {
+  id: string;
+  number: string;
+  status: TransferStatus;
+  direction: 'IN' | 'OUT';
+  fromRestaurant: { id: string; name: string };
+  toRestaurant: { id: string; name: string };
+  sentAt: string;
+  receivedAt: string | null;
+  lineCount: number;
+  sentValue: number;
+  discrepancies: number;
+}
+
+interface RestaurantOption {
+  id: string;
+  name: string;
+}
+
+interface DraftLine {
+  inventoryItemId: string;
+  quantity: string;
+}
+
+export function TransfersClient() {
+  const router = useRouter();
+  const [transfers, setTransfers] = useState<TransferSummary[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [restaurants, setRestaurants] = useState<RestaurantOption[]>([]);
+  const [toRestaurantId, setToRestaurantId] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([{ inventoryItemId: '', quantity: '' }]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchTransfers() {
+      setIsLoading(true);
+      try {
+        const response = await fetch('/api/transfers?limit=100');
+        if (!response.ok) throw new Error('Failed to fetch transfers');
+        const { data } = await response.json();
+        setTransfers(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    async function fetchItems() {
+      try {
+        const response = await fetch('/api/inventory?limit=100&sortBy=name&sortOrder=asc');
+        if (!response.ok) throw new Error('Failed to fetch inventory');
+        const { data } = await response.json();
+        setItems(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    async function fetchRestaurants() {
+      try {
+        const response = await fetch('/api/restaurants');
+        if (!response.ok) throw new Error('Failed to fetch restaurants');
+        const { data, currentRestaurantId } = await response.json();
+        setRestaurants(data.filter((restaurant: RestaurantOption) => restaurant.id !== currentRestaurantId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchTransfers();
+    fetchItems();
+    fetchRestaurants();
+  }, []);
+
+  function updateLine(index: number, field: keyof DraftLine, value: string) {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    if (!toRestaurantId) {
+      setError('Select a restaurant to send to');
+      return;
+    }
+    const formData = new FormData(event.currentTarget);
+    const newTransfer = {
+      toRestaurantId,
+      notes: (formData.get('notes') as string) || undefined,
+      lines: lines
+        .filter((line) => line.inventoryItemId && line.quantity)
+        .map((line) => ({
+          inventoryItemId: line.inventoryItemId,
+          quantity: parseFloat(line.quantity),
+        })),
+    };
+
+    try {
+      const response = await fetch('/api/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newTransfer),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to send transfer');
+      }
+      const { data } = await response.json();
+      router.push(`/dashboard/transfers/${data.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-3">
+      <div className="md:col-span-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Transfers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Transfer</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Items</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Sent</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfers.map((transfer) => (
+                    <TableRow key={transfer.id}>
+                      <TableCell>
+                        <Link href={`/dashboard/transfers/${transfer.id}`} className="font-medium hover:underline">
+                          {transfer.number}
+                        </Link>
+                        <div className="text-xs text-muted-foreground">
+                          {transfer.direction === 'IN' ? 'Incoming' : 'Outgoing'}
+                        </div>
+                      </TableCell>
+                      <TableCell>{transfer.fromRestaurant.name}</TableCell>
+                      <TableCell>{transfer.toRestaurant.name}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <TransferStatusBadge status={transfer.status} />
+                          {transfer.discrepancies > 0 && (
+                            <Badge variant="destructive">{transfer.discrepancies} discrepancies</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{transfer.lineCount}</TableCell>
+                      <TableCell className="text-right">${transfer.sentValue.toFixed(2)}</TableCell>
+                      <TableCell>{new Date(transfer.sentAt).toLocaleDateString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div>
+        <Card>
+          <CardHeader>
+            <CardTitle>Send Stock</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {restaurants.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                You need access to another restaurant to transfer stock to it.
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="toRestaurant">To</Label>
+                  <Select value={toRestaurantId} onValueChange={setToRestaurantId}>
+                    <SelectTrigger id="toRestaurant">
+                      <SelectValue placeholder="Select restaurant" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {restaurants.map((restaurant) => (
+                        <SelectItem key={restaurant.id} value={restaurant.id}>{restaurant.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Items</Label>
+                  {lines.map((line, index) => {
+                    const item = items.find((i) => i.id === line.inventoryItemId);
+                    return (
+                      <div key={index} className="flex gap-2">
+                        <Select value={line.inventoryItemId} onValueChange={(value) => updateLine(index, 'inventoryItemId', value)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select item" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {items.map((i) => (
+                              <SelectItem key={i.id} value={i.id}>{i.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          aria-label="Quantity"
+                          type="number"
+                          min="0"
+                          max={item?.quantity}
+                          step="0.01"
+                          className="w-24"
+                          placeholder={item ? item.inventoryUnit : 'Qty'}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                        />
+                      </div>
+                    );
+                  })}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLines((prev) => [...prev, { inventoryItemId: '', quantity: '' }])}
+                  >
+                    Add Item
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    Stock leaves inventory at cost when it is sent, and is matched to the other restaurant&apos;s items by SKU.
+                  </p>
+                </div>
+                <div><Label htmlFor="notes">Notes</Label><Textarea id="notes" name="notes" /></div>
+                <Button type="submit" className="w-full">Send Transfer</Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { ValuationClient } from './valuation-client';
+
+export default function ValuationPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Inventory Valuation</h1>
+      <ValuationClient />
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CostingMethod } from '@/utils/calculations';
+
+interface ValuationItem {
+  id: string;
+  sku: string;
+  name: string;
+  category: string;
+  inventoryUnit: string;
+  quantity: number;
+  value: number;
+  averageUnitCost: number;
+}
+
+interface Valuation {
+  asOf: string;
+  costingMethod: CostingMethod;
+  items: ValuationItem[];
+  categories: { name: string; value: number }[];
+  totalValue: number;
+}
+
+const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  FIFO: 'FIFO (first in, first out)',
+  WEIGHTED_AVERAGE: 'Weighted average',
+};
+
+function toDateInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+}
+
+export function ValuationClient() {
+  const [asOfDate, setAsOfDate] = useState(() => toDateInputValue(new Date()));
+  const [valuation, setValuation] = useState<Valuation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Values stock at the end of the selected day
+  const asOf = asOfDate ? new Date(`${asOfDate}T23:59:59.999`).toISOString() : '';
+
+  useEffect(() => {
+    if (!asOf) return;
+
+    async function fetchValuation() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/reports/inventory-valuation?asOf=${encodeURIComponent(asOf)}`);
+        if (!response.ok) throw new Error('Failed to fetch inventory valuation');
+        const { data } = await response.json();
+        setValuation(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchValuation();
+  }, [asOf]);
+
+  async function handleCostingMethodChange(costingMethod: string) {
+    setError(null);
+    try {
+      const response = await fetch('/api/restaurants/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ costingMethod }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to change costing method');
+      }
+      setValuation((prev) => prev && { ...prev, costingMethod: costingMethod as CostingMethod });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card className="print:hidden">
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-3 items-end">
+            <div>
+              <Label htmlFor="asOf">Value Inventory As Of</Label>
+              <Input id="asOf" type="date" value={asOfDate} onChange={(e) => setAsOfDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="costingMethod">Costing Method</Label>
+              <Select value={valuation?.costingMethod} onValueChange={handleCostingMethodChange}>
+                <SelectTrigger id="costingMethod">
+                  <SelectValue placeholder="Costing method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(COSTING_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <a href={`/api/reports/inventory-valuation?asOf=${encodeURIComponent(asOf)}&format=csv`}>Export CSV</a>
+              </Button>
+              <Button variant="outline" onClick={() => window.print()}>Print</Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Changing the costing method affects stock used from now on. Usage already costed is not restated.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {valuation
+              ? `Inventory at Cost on ${new Date(valuation.asOf).toLocaleDateString()}: $${valuation.totalValue.toFixed(2)}`
+              : 'Inventory at Cost'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading && <p>Loading...</p>}
+          {error && <p className="text-red-500">{error}</p>}
+          {!isLoading && valuation && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Average Unit Cost</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {valuation.categories.map((category) => (
+                  <Fragment key={category.name}>
+                    <TableRow className="bg-muted/50">
+                      <TableCell colSpan={4} className="font-semibold">{category.name}</TableCell>
+                      <TableCell className="text-right font-semibold">${category.value.toFixed(2)}</TableCell>
+                    </TableRow>
+                    {valuation.items
+                      .filter((item) => item.category === category.name)
+                      .map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{item.name}</TableCell>
+                          <TableCell>{item.sku}</TableCell>
+                          <TableCell className="text-right">
+                            {item.quantity.toFixed(2)} {item.inventoryUnit}
+                          </TableCell>
+                          <TableCell className="text-right">${item.averageUnitCost.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">${item.value.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                  </Fragment>
+                ))}
+                {valuation.items.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No stock on hand on this date.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
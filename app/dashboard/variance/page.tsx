@@ -0,0 +1,10 @@
+import { VarianceClient } from './variance-client';
+
+export default function VariancePage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Actual vs. Theoretical Food Cost</h1>
+      <VarianceClient />
+    </div>
+  );
+}
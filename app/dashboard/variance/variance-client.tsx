@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { InventoryItem } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface VarianceTotals {
+  theoreticalCost: number;
+  actualCost: number;
+  varianceCost: number;
+  variancePercentage: number;
+}
+
+interface VarianceItem {
+  inventoryItemId: string;
+  name: string;
+  category: string;
+  beginningQuantity: number | null;
+  purchasedQuantity: number;
+  transferredQuantity: number;
+  endingQuantity: number;
+  theoreticalUsage: number;
+  actualUsage: number | null;
+  varianceQuantity: number | null;
+  varianceCost: number | null;
+  variancePercentage: number | null;
+}
+
+interface VarianceReport {
+  items: VarianceItem[];
+  categories: (VarianceTotals & { category: string })[];
+  totals: VarianceTotals;
+}
+
+const formatNumber = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+const formatCurrency = (value: number | null) => (value === null ? '—' : `$${value.toFixed(2)}`);
+const formatPercentage = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+
+function toDateInput(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+export function VarianceClient() {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [counts, setCounts] = useState<Record<string, { beginning: string; ending: string }>>({});
+  const [report, setReport] = useState<VarianceReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = new Date();
+  const defaultStart = toDateInput(new Date(today.getFullYear(), today.getMonth(), 1));
+
+  async function fetchInventory() {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/inventory?limit=100&sortBy=name&sortOrder=asc');
+      if (!response.ok) throw new Error('Failed to fetch inventory');
+      const { data } = await response.json();
+      setItems(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchInventory();
+  }, []);
+
+  function updateCount(itemId: string, field: 'beginning' | 'ending', value: string) {
+    setCounts((prev) => ({
+      ...prev,
+      [itemId]: { ...(prev[itemId] ?? { beginning: '', ending: '' }), [field]: value },
+    }));
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setIsRunning(true);
+
+    const formData = new FormData(event.currentTarget);
+    const request = {
+      startDate: new Date(`${formData.get('startDate')}T00:00:00.000Z`).toISOString(),
+      endDate: new Date(`${formData.get('endDate')}T23:59:59.999Z`).toISOString(),
+      counts: Object.entries(counts)
+        .filter(([, count]) => count.beginning !== '')
+        .map(([inventoryItemId, count]) => ({
+          inventoryItemId,
+          beginningQuantity: parseFloat(count.beginning),
+          ...(count.ending !== '' && { endingQuantity: parseFloat(count.ending) }),
+        })),
+    };
+
+    try {
+      const response = await fetch('/api/reports/food-cost-variance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to run report');
+      }
+      const { data } = await response.json();
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Period & Counts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div><Label htmlFor="startDate">Start Date</Label><Input id="startDate" name="startDate" type="date" defaultValue={defaultStart} required /></div>
+              <div><Label htmlFor="endDate">End Date</Label><Input id="endDate" name="endDate" type="date" defaultValue={toDateInput(today)} required /></div>
+              <div className="flex items-end">
+                <Button type="submit" className="w-full" disabled={isRunning}>
+                  {isRunning ? 'Running...' : 'Run Report'}
+                </Button>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Enter the counted quantity at the start of the period for each item you want actual usage for.
+              Leave the ending count empty to use the current on-hand quantity.
+            </p>
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                    <TableHead className="text-right">Beginning Count</TableHead>
+                    <TableHead className="text-right">Ending Count</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.name}</TableCell>
+                      <TableCell>{item.category}</TableCell>
+                      <TableCell className="text-right">{item.quantity} {item.inventoryUnit}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="ml-auto w-28 text-right"
+                          value={counts[item.id]?.beginning ?? ''}
+                          onChange={(e) => updateCount(item.id, 'beginning', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="ml-auto w-28 text-right"
+                          placeholder={String(item.quantity)}
+                          value={counts[item.id]?.ending ?? ''}
+                          onChange={(e) => updateCount(item.id, 'ending', e.target.value)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <>
+          <div className="grid gap-6 md:grid-cols-4">
+            <Card>
+              <CardHeader><CardTitle className="text-sm font-medium">Theoretical Cost</CardTitle></CardHeader>
+              <CardContent><div className="text-2xl font-bold">{formatCurrency(report.totals.theoreticalCost)}</div></CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle className="text-sm font-medium">Actual Cost</CardTitle></CardHeader>
+              <CardContent><div className="text-2xl font-bold">{formatCurrency(report.totals.actualCost)}</div></CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle className="text-sm font-medium">Variance</CardTitle></CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${report.totals.varianceCost > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatCurrency(report.totals.varianceCost)}
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle className="text-sm font-medium">Variance %</CardTitle></CardHeader>
+              <CardContent><div className="text-2xl font-bold">{formatPercentage(report.totals.variancePercentage)}</div></CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Variance by Category</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Theoretical</TableHead>
+                    <TableHead className="text-right">Actual</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead className="text-right">Variance %</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.categories.map((row) => (
+                    <TableRow key={row.category}>
+                      <TableCell>{row.category}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.theoreticalCost)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.actualCost)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.varianceCost)}</TableCell>
+                      <TableCell className="text-right">{formatPercentage(row.variancePercentage)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Variance by Item</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Beginning</TableHead>
+                    <TableHead className="text-right">Purchases</TableHead>
+                    <TableHead className="text-right">Transfers</TableHead>
+                    <TableHead className="text-right">Ending</TableHead>
+                    <TableHead className="text-right">Actual Usage</TableHead>
+                    <TableHead className="text-right">Theoretical Usage</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead className="text-right">Variance %</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.items.map((row) => (
+                    <TableRow key={row.inventoryItemId}>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className="text-right">{formatNumber(row.beginningQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(row.purchasedQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(row.transferredQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(row.endingQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(row.actualUsage)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(row.theoreticalUsage)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.varianceCost)}</TableCell>
+                      <TableCell className="text-right">{formatPercentage(row.variancePercentage)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { VendorsClient } from './vendors-client';
+
+export default function VendorsPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Vendors</h1>
+      <VendorsClient />
+    </div>
+  );
+}
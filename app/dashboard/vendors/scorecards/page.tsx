@@ -0,0 +1,10 @@
+import { ScorecardsClient } from './scorecards-client';
+
+export default function VendorScorecardsPage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Vendor Scorecards</h1>
+      <ScorecardsClient />
+    </div>
+  );
+}
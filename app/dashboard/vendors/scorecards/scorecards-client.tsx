@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TrendChart } from '@/components/charts/TrendChart';
+
+interface VendorScorecard {
+  id: string;
+  name: string;
+  paymentTerms: string | null;
+  purchaseSpend: number;
+  expenseSpend: number;
+  totalSpend: number;
+  purchaseCount: number;
+  priceTrend: number | null;
+  monthlySpend: { month: string; amount: number }[];
+  closedOrders: number;
+  fillRate: number | null;
+  onTimeRate: number | null;
+  scheduledOrders: number;
+}
+
+function toDateInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${rate.toFixed(0)}%`;
+}
+
+export function ScorecardsClient() {
+  const [startDate, setStartDate] = useState(() => toDateInputValue(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(() => toDateInputValue(new Date()));
+  const [scorecards, setScorecards] = useState<VendorScorecard[]>([]);
+  const [chartVendorId, setChartVendorId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!startDate || !endDate) return;
+
+    async function fetchScorecards() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          startDate: new Date(`${startDate}T00:00:00`).toISOString(),
+          endDate: new Date(`${endDate}T23:59:59.999`).toISOString(),
+        });
+        const response = await fetch(`/api/reports/vendor-scorecards?${params.toString()}`);
+        if (!response.ok) throw new Error('Failed to fetch vendor scorecards');
+        const { data } = await response.json();
+        setScorecards(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchScorecards();
+  }, [startDate, endDate]);
+
+  // Chart the biggest vendor until another is picked
+  const chartVendor = scorecards.find((vendor) => vendor.id === chartVendorId) ?? scorecards[0];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <Label htmlFor="startDate">From</Label>
+          <Input id="startDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="endDate">To</Label>
+          <Input id="endDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading && <p>Loading...</p>}
+      {error && <p className="text-red-500">{error}</p>}
+
+      {!isLoading && !error && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Scorecards</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead className="text-right">Inventory Spend</TableHead>
+                  <TableHead className="text-right">Other Expenses</TableHead>
+                  <TableHead className="text-right">Total Spend</TableHead>
+                  <TableHead className="text-right">Price Trend</TableHead>
+                  <TableHead className="text-right">Fill Rate</TableHead>
+                  <TableHead className="text-right">On Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scorecards.map((vendor) => (
+                  <TableRow key={vendor.id}>
+                    <TableCell>
+                      <div className="font-medium">{vendor.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {vendor.purchaseCount} deliveries{vendor.paymentTerms && ` · ${vendor.paymentTerms}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">${vendor.purchaseSpend.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${vendor.expenseSpend.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-medium">${vendor.totalSpend.toFixed(2)}</TableCell>
+                    <TableCell className={`text-right ${vendor.priceTrend !== null && vendor.priceTrend > 0 ? 'text-red-600' : ''}`}>
+                      {vendor.priceTrend === null ? '—' : `${vendor.priceTrend >= 0 ? '+' : ''}${vendor.priceTrend.toFixed(1)}%`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatRate(vendor.fillRate)}
+                      {vendor.closedOrders > 0 && (
+                        <div className="text-xs text-muted-foreground">{vendor.closedOrders} orders</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatRate(vendor.onTimeRate)}
+                      {vendor.scheduledOrders > 0 && (
+                        <div className="text-xs text-muted-foreground">{vendor.scheduledOrders} scheduled</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground mt-4">
+              Price trend is the average change from the first to the last price paid for each item bought more
+              than once. Fill rate and on-time delivery come from purchase orders received in full or closed in the
+              period.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && chartVendor && (
+        <div className="space-y-4">
+          <div className="max-w-xs">
+            <Label htmlFor="chartVendor">Monthly Spend</Label>
+            <Select value={chartVendor.id} onValueChange={setChartVendorId}>
+              <SelectTrigger id="chartVendor">
+                <SelectValue placeholder="Select a vendor" />
+              </SelectTrigger>
+              <SelectContent>
+                {scorecards.map((vendor) => (
+                  <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <TrendChart
+            data={chartVendor.monthlySpend.map((month) => ({ date: month.month, value: month.amount }))}
+            title={`${chartVendor.name} Inventory Spend by Month`}
+            valueLabel="Spend"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
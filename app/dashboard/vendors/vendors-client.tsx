@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Vendor } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { WEEKDAYS, type Weekday } from '@/utils/calculations';
+
+type VendorWithCount = Vendor & { itemCount: number };
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MON: 'Mon',
+  TUE: 'Tue',
+  WED: 'Wed',
+  THU: 'Thu',
+  FRI: 'Fri',
+  SAT: 'Sat',
+  SUN: 'Sun',
+};
+
+export function VendorsClient() {
+  const [vendors, setVendors] = useState<VendorWithCount[]>([]);
+  const [editing, setEditing] = useState<VendorWithCount | null>(null);
+  const [deliveryDays, setDeliveryDays] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function fetchVendors() {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/vendors');
+      if (!response.ok) throw new Error('Failed to fetch vendors');
+      const { data } = await response.json();
+      setVendors(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchVendors();
+  }, []);
+
+  function startEditing(vendor: VendorWithCount | null) {
+    setEditing(vendor);
+    setDeliveryDays(vendor?.deliveryDays ?? []);
+  }
+
+  function toggleDeliveryDay(day: string) {
+    setDeliveryDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : WEEKDAYS.filter((d) => d === day || prev.includes(d))
+    );
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const vendor = {
+      name: formData.get('name') as string,
+      contactName: formData.get('contactName') as string,
+      email: formData.get('email') as string,
+      phone: formData.get('phone') as string,
+      address: formData.get('address') as string,
+      accountNumber: formData.get('accountNumber') as string,
+      paymentTerms: formData.get('paymentTerms') as string,
+      deliveryDays,
+      orderMinimum: formData.get('orderMinimum') ? parseFloat(formData.get('orderMinimum') as string) : null,
+      notes: formData.get('notes') as string,
+    };
+
+    try {
+      const response = await fetch(editing ? `/api/vendors/${editing.id}` : '/api/vendors', {
+        method: editing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(vendor),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save vendor');
+      }
+      form.reset();
+      startEditing(null);
+      fetchVendors();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleDelete(vendor: VendorWithCount) {
+    if (!window.confirm(`Remove ${vendor.name} from the vendor directory?`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/vendors/${vendor.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete vendor');
+      }
+      if (editing?.id === vendor.id) startEditing(null);
+      fetchVendors();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-3">
+      <div className="md:col-span-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Vendor Directory</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Terms</TableHead>
+                    <TableHead>Delivers</TableHead>
+                    <TableHead className="text-right">Minimum</TableHead>
+                    <TableHead className="text-right">Items</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {vendors.map((vendor) => (
+                    <TableRow key={vendor.id}>
+                      <TableCell>
+                        <div className="font-medium">{vendor.name}</div>
+                        {vendor.accountNumber && (
+                          <div className="text-xs text-muted-foreground">Account {vendor.accountNumber}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div>{vendor.contactName || '—'}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[vendor.phone, vendor.email].filter(Boolean).join(' · ')}
+                        </div>
+                      </TableCell>
+                      <TableCell>{vendor.paymentTerms || '—'}</TableCell>
+                      <TableCell>
+                        {vendor.deliveryDays.length > 0
+                          ? vendor.deliveryDays.map((day) => WEEKDAY_LABELS[day as Weekday] ?? day).join(', ')
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {vendor.orderMinimum !== null ? `$${vendor.orderMinimum.toFixed(2)}` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{vendor.itemCount}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(vendor)}>Edit</Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(vendor)}>Delete</Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div>
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing ? `Edit ${editing.name}` : 'Add Vendor'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {/* Re-mount the form when switching vendors so the fields pick up its values */}
+            <form key={editing?.id ?? 'new'} onSubmit={handleSubmit} className="space-y-4">
+              <div><Label htmlFor="name">Name</Label><Input id="name" name="name" defaultValue={editing?.name} required /></div>
+              <div><Label htmlFor="contactName">Contact</Label><Input id="contactName" name="contactName" defaultValue={editing?.contactName ?? ''} /></div>
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label htmlFor="phone">Phone</Label><Input id="phone" name="phone" type="tel" defaultValue={editing?.phone ?? ''} /></div>
+                <div><Label htmlFor="email">Email</Label><Input id="email" name="email" type="email" defaultValue={editing?.email ?? ''} /></div>
+              </div>
+              <div><Label htmlFor="address">Address</Label><Input id="address" name="address" defaultValue={editing?.address ?? ''} /></div>
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label htmlFor="accountNumber">Account Number</Label><Input id="accountNumber" name="accountNumber" defaultValue={editing?.accountNumber ?? ''} /></div>
+                <div>
+                  <Label htmlFor="paymentTerms">Payment Terms</Label>
+                  <Input id="paymentTerms" name="paymentTerms" placeholder="e.g., Net 30" defaultValue={editing?.paymentTerms ?? ''} />
+                </div>
+              </div>
+              <div>
+                <Label>Delivery Days</Label>
+                <div className="flex flex-wrap gap-3 mt-1">
+                  {WEEKDAYS.map((day) => (
+                    <label key={day} className="flex items-center gap-1 text-sm">
+                      <input type="checkbox" checked={deliveryDays.includes(day)} onChange={() => toggleDeliveryDay(day)} />
+                      {WEEKDAY_LABELS[day]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="orderMinimum">Order Minimum ($)</Label>
+                <Input
+                  id="orderMinimum"
+                  name="orderMinimum"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  defaultValue={editing?.orderMinimum ?? ''}
+                />
+              </div>
+              <div><Label htmlFor="notes">Notes</Label><Input id="notes" name="notes" defaultValue={editing?.notes ?? ''} /></div>
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1">{editing ? 'Save Changes' : 'Add Vendor'}</Button>
+                {editing && <Button type="button" variant="outline" onClick={() => startEditing(null)}>Cancel</Button>}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { WasteClient } from './waste-client';
+
+export default function WastePage() {
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Waste Log</h1>
+      <WasteClient />
+    </div>
+  );
+}
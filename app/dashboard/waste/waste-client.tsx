@@ -0,0 +1,347 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { InventoryItem, Recipe } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TrendChart } from '@/components/charts/TrendChart';
+
+const REASON_LABELS: Record<string, string> = {
+  SPOILED: 'Spoiled',
+  OVERPRODUCED: 'Overproduced',
+  DROPPED: 'Dropped',
+  COMPED: 'Comped',
+};
+
+interface WasteEntry {
+  id: string;
+  reason: string;
+  quantity: number;
+  cost: number;
+  notes: string | null;
+  wastedAt: string;
+  inventoryItem: { id: string; name: string; inventoryUnit: string } | null;
+  itemName: string | null; // Kept when the item is deleted
+  recipe: { id: string; name: string } | null;
+}
+
+interface WasteReport {
+  byReason: { reason: string; cost: number; count: number }[];
+  byItem: { key: string; name: string; cost: number; count: number }[];
+  byDay: { date: string; cost: number }[];
+}
+
+function toDateInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+}
+
+export function WasteClient() {
+  const [startDate, setStartDate] = useState(() => toDateInputValue(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(() => toDateInputValue(new Date()));
+  const [entries, setEntries] = useState<WasteEntry[]>([]);
+  const [report, setReport] = useState<WasteReport | null>(null);
+  const [totalCost, setTotalCost] = useState(0);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [source, setSource] = useState<'ITEM' | 'RECIPE'>('ITEM');
+  const [sourceId, setSourceId] = useState('');
+  const [reason, setReason] = useState('SPOILED');
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!startDate || !endDate) return;
+
+    async function fetchWaste() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          startDate: new Date(`${startDate}T00:00:00`).toISOString(),
+          endDate: new Date(`${endDate}T23:59:59.999`).toISOString(),
+        });
+        const [entriesRes, reportRes] = await Promise.all([
+          fetch(`/api/waste?${params.toString()}&limit=200`),
+          fetch(`/api/reports/waste?${params.toString()}`),
+        ]);
+        if (!entriesRes.ok) throw new Error('Failed to fetch waste entries');
+        if (!reportRes.ok) throw new Error('Failed to fetch waste report');
+        const entriesData = await entriesRes.json();
+        const reportData = await reportRes.json();
+        setEntries(entriesData.data);
+        setReport(reportData.data);
+        setTotalCost(reportData.summary.totalCost);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchWaste();
+  }, [startDate, endDate, reloadCount]);
+
+  useEffect(() => {
+    async function fetchOptions() {
+      try {
+        const [inventoryRes, recipesRes] = await Promise.all([
+          fetch('/api/inventory?limit=100&sortBy=name&sortOrder=asc'),
+          fetch('/api/recipes'),
+        ]);
+        if (!inventoryRes.ok) throw new Error('Failed to fetch inventory');
+        if (!recipesRes.ok) throw new Error('Failed to fetch recipes');
+        const inventoryData = await inventoryRes.json();
+        const recipesData = await recipesRes.json();
+        setItems(inventoryData.data);
+        setRecipes(recipesData.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchOptions();
+  }, []);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    if (!sourceId) {
+      setError(source === 'ITEM' ? 'Select an inventory item' : 'Select a recipe');
+      return;
+    }
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const newEntry = {
+      ...(source === 'ITEM' ? { inventoryItemId: sourceId } : { recipeId: sourceId }),
+      reason,
+      quantity: parseFloat(formData.get('quantity') as string),
+      notes: (formData.get('notes') as string) || undefined,
+      wastedAt: formData.get('wastedAt')
+        ? new Date(`${formData.get('wastedAt')}T12:00:00`).toISOString()
+        : undefined,
+    };
+
+    try {
+      const response = await fetch('/api/waste', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newEntry),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to log waste');
+      }
+      form.reset();
+      setSourceId('');
+      setReloadCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  const selectedItem = source === 'ITEM' ? items.find((item) => item.id === sourceId) : undefined;
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <Label htmlFor="startDate">From</Label>
+          <Input id="startDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="endDate">To</Label>
+          <Input id="endDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+        <div className="flex items-end">
+          <p className="text-2xl font-bold">${totalCost.toFixed(2)} <span className="text-sm font-normal text-muted-foreground">wasted</span></p>
+        </div>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      <div className="grid gap-8 md:grid-cols-3">
+        <div className="md:col-span-2 space-y-8">
+          <TrendChart
+            data={(report?.byDay ?? []).map((day) => ({ date: day.date, value: day.cost }))}
+            title="Waste by Day"
+            valueLabel="Waste"
+          />
+
+          {isLoading && <p>Loading...</p>}
+          {!isLoading && report && (
+            <div className="grid gap-8 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>By Reason</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">Entries</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.byReason.map((row) => (
+                        <TableRow key={row.reason}>
+                          <TableCell>{REASON_LABELS[row.reason] ?? row.reason}</TableCell>
+                          <TableCell className="text-right">{row.count}</TableCell>
+                          <TableCell className="text-right">${row.cost.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>By Item</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead className="text-right">Entries</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.byItem.map((row) => (
+                        <TableRow key={row.key}>
+                          <TableCell>{row.name}</TableCell>
+                          <TableCell className="text-right">{row.count}</TableCell>
+                          <TableCell className="text-right">${row.cost.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {!isLoading && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Entries</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{new Date(entry.wastedAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.inventoryItem?.name ?? entry.recipe?.name ?? entry.itemName}</div>
+                          {entry.notes && <div className="text-xs text-muted-foreground">{entry.notes}</div>}
+                        </TableCell>
+                        <TableCell>{REASON_LABELS[entry.reason] ?? entry.reason}</TableCell>
+                        <TableCell className="text-right">
+                          {entry.quantity} {entry.recipe ? 'portions' : entry.inventoryItem?.inventoryUnit}
+                        </TableCell>
+                        <TableCell className="text-right">${entry.cost.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+        <div>
+          <Card>
+            <CardHeader>
+              <CardTitle>Log Waste</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="source">What was wasted</Label>
+                  <Select
+                    value={source}
+                    onValueChange={(value) => {
+                      setSource(value as 'ITEM' | 'RECIPE');
+                      setSourceId('');
+                    }}
+                  >
+                    <SelectTrigger id="source">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ITEM">Inventory item</SelectItem>
+                      <SelectItem value="RECIPE">Recipe portions</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="sourceId">{source === 'ITEM' ? 'Item' : 'Recipe'}</Label>
+                  <Select value={sourceId} onValueChange={setSourceId}>
+                    <SelectTrigger id="sourceId">
+                      <SelectValue placeholder={source === 'ITEM' ? 'Select an item' : 'Select a recipe'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(source === 'ITEM' ? items : recipes).map((option) => (
+                        <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="quantity">
+                    Quantity{selectedItem ? ` (${selectedItem.inventoryUnit}, ${selectedItem.quantity} on hand)` : source === 'RECIPE' ? ' (portions)' : ''}
+                  </Label>
+                  <Input id="quantity" name="quantity" type="number" step="0.01" min="0" required />
+                </div>
+                <div>
+                  <Label htmlFor="reason">Reason</Label>
+                  <Select value={reason} onValueChange={setReason}>
+                    <SelectTrigger id="reason">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(REASON_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div><Label htmlFor="wastedAt">Date</Label><Input id="wastedAt" name="wastedAt" type="date" /></div>
+                <div><Label htmlFor="notes">Notes</Label><Input id="notes" name="notes" /></div>
+                <Button type="submit" className="w-full">Log Waste</Button>
+              </form>
+              <p className="text-xs text-muted-foreground mt-4">
+                Waste is taken out of stock and costed at current inventory value. Recipe portions deduct their
+                ingredients.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface LoginClientProps {
+  next?: string;
+  error?: string;
+}
+
+export function LoginClient({ next, error: initialError }: LoginClientProps) {
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(
+    initialError === 'no-restaurant' ? 'Your account does not have access to any restaurant.' : null
+  );
+
+  useEffect(() => {
+    const fetchSetupStatus = async () => {
+      try {
+        const response = await fetch('/api/auth/setup');
+        if (!response.ok) throw new Error('Failed to check setup status');
+        const { data } = await response.json();
+        setNeedsSetup(data.needsSetup);
+      } catch (err) {
+        console.error('Error checking setup status:', err);
+      }
+    };
+
+    fetchSetupStatus();
+  }, []);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setIsLoading(true);
+
+    const formData = new FormData(event.currentTarget);
+    const credentials = {
+      email: formData.get('email') as string,
+      password: formData.get('password') as string,
+      ...(needsSetup && {
+        name: formData.get('name') as string,
+        restaurantName: (formData.get('restaurantName') as string) || undefined,
+      }),
+    };
+
+    try {
+      const response = await fetch(needsSetup ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(credentials),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to sign in');
+      }
+      // Only follow relative redirects
+      window.location.href = next && next.startsWith('/') && !next.startsWith('//') ? next : '/dashboard';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{needsSetup ? 'Create Owner Account' : 'Sign In'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-red-500">{error}</p>}
+          {needsSetup && (
+            <>
+              <div><Label htmlFor="name">Your Name</Label><Input id="name" name="name" required /></div>
+              <div><Label htmlFor="restaurantName">Restaurant Name</Label><Input id="restaurantName" name="restaurantName" /></div>
+            </>
+          )}
+          <div><Label htmlFor="email">Email</Label><Input id="email" name="email" type="email" autoComplete="email" required /></div>
+          <div>
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete={needsSetup ? 'new-password' : 'current-password'}
+              minLength={needsSetup ? 8 : undefined}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? 'Signing in...' : needsSetup ? 'Create Account' : 'Sign In'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,16 @@
+import { LoginClient } from './login-client';
+
+export default function LoginPage({
+  searchParams,
+}: {
+  searchParams: { next?: string; error?: string };
+}) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-md">
+        <h1 className="text-3xl font-bold mb-6 text-center">Neon Nachos</h1>
+        <LoginClient next={searchParams.next} error={searchParams.error} />
+      </div>
+    </div>
+  );
+}
@@ -12,14 +12,22 @@ import {
 } from 'recharts';
 
 interface TrendChartProps {
-  data: { date: string; value: number }[];
+  // Highlighted points are marked with a red dot
+  data: { date: string; value: number; highlight?: boolean }[];
   title: string;
+  valueLabel?: string;
 }
 
-export function TrendChart({ data, title }: TrendChartProps) {
+function HighlightDot({ cx, cy, payload }: { cx?: number; cy?: number; payload?: { highlight?: boolean } }) {
+  if (!payload?.highlight || cx === undefined || cy === undefined) return <g />;
+  return <circle cx={cx} cy={cy} r={5} fill="#ef4444" stroke="#fff" strokeWidth={1} />;
+}
+
+export function TrendChart({ data, title, valueLabel = 'Amount' }: TrendChartProps) {
   const sorted = [...data].sort(
     (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
   );
+  const hasHighlights = data.some((point) => point.highlight);
 
   return (
     <Card>
@@ -33,8 +41,14 @@ export function TrendChart({ data, title }: TrendChartProps) {
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="date" />
               <YAxis />
-              <Tooltip formatter={(value) => [`$${Number(value).toFixed(2)}`, 'Amount']} />
-              <Line type="monotone" dataKey="value" stroke="#8884d8" strokeWidth={2} dot={false} />
+              <Tooltip formatter={(value) => [`$${Number(value).toFixed(2)}`, valueLabel]} />
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke="#8884d8"
+                strokeWidth={2}
+                dot={hasHighlights ? <HighlightDot /> : false}
+              />
             </LineChart>
           </ResponsiveContainer>
         </div>
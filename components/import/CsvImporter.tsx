@@ -10,14 +10,13 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Terminal, Loader2 } from 'lucide-react';
 import { analyzeCsvData, type CsvAnalysisResult } from '@/lib/ai';
 
-type ImportType = 'receipts' | 'inventory' | 'sales';
+type ImportType = 'receipts' | 'inventory' | 'sales' | 'menu-sales';
 
 interface CsvImporterProps {
-  restaurantId: string;
   onComplete?: () => void;
 }
 
-export function CsvImporter({ restaurantId, onComplete }: CsvImporterProps) {
+export function CsvImporter({ onComplete }: CsvImporterProps) {
   const [file, setFile] = useState<File | null>(null);
   const [importType, setImportType] = useState<ImportType>('receipts');
   const [isLoading, setIsLoading] = useState(false);
@@ -52,7 +51,6 @@ export function CsvImporter({ restaurantId, onComplete }: CsvImporterProps) {
       const formData = new FormData();
       formData.append('file', file);
       formData.append('type', importType);
-      formData.append('restaurantId', restaurantId);
 
             const response = await fetch(`/api/import/${importType}`, {
         method: 'POST',
@@ -78,7 +76,8 @@ export function CsvImporter({ restaurantId, onComplete }: CsvImporterProps) {
           },
           body: JSON.stringify({
             csvData: fileContent,
-            importType,
+            // Menu item counts are analyzed with the sales prompt
+            importType: importType === 'menu-sales' ? 'sales' : importType,
           }),
         });
 
@@ -161,6 +160,7 @@ export function CsvImporter({ restaurantId, onComplete }: CsvImporterProps) {
               <SelectItem value="receipts">Receipts</SelectItem>
               <SelectItem value="inventory">Inventory</SelectItem>
               <SelectItem value="sales">Sales</SelectItem>
+              <SelectItem value="menu-sales">Menu Item Sales</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -203,6 +203,13 @@ export function CsvImporter({ restaurantId, onComplete }: CsvImporterProps) {
                 2023-01-02,950.25,76.02,142.54,cash
               </pre>
             )}
+            {importType === 'menu-sales' && (
+              <pre className="text-xs">
+                date,recipe,quantity
+                2023-01-01,Carne Asada Nachos,42
+                2023-01-01,Chicken Quesadilla,18
+              </pre>
+            )}
           </div>
         </div>
 
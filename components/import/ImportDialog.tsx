@@ -14,11 +14,10 @@ import {
 import { CsvImporter } from './CsvImporter';
 
 interface ImportDialogProps {
-  restaurantId: string;
   onImportComplete?: () => void;
 }
 
-export function ImportDialog({ restaurantId, onImportComplete }: ImportDialogProps) {
+export function ImportDialog({ onImportComplete }: ImportDialogProps) {
   const [open, setOpen] = useState(false);
 
   const handleImportComplete = () => {
@@ -38,14 +37,11 @@ export function ImportDialog({ restaurantId, onImportComplete }: ImportDialogPro
         <DialogHeader>
           <DialogTitle>Import Data</DialogTitle>
           <DialogDescription>
-            Upload a CSV file to import receipts, inventory, or sales data.
+            Upload a CSV file to import receipts, inventory, sales, or menu item sales data.
           </DialogDescription>
         </DialogHeader>
         <div className="py-4">
-          <CsvImporter 
-            restaurantId={restaurantId} 
-            onComplete={handleImportComplete} 
-          />
+          <CsvImporter onComplete={handleImportComplete} />
         </div>
       </DialogContent>
     </Dialog>
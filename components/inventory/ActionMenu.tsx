@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { History, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -12,6 +12,7 @@ import {
 import { InventoryItem } from './EditForm';
 import { EditForm } from './EditForm';
 import { DeleteDialog } from './DeleteDialog';
+import { ItemHistory } from './ItemHistory';
 
 interface ActionMenuProps {
   item: InventoryItem;
@@ -21,6 +22,7 @@ interface ActionMenuProps {
 export function ActionMenu({ item, onSuccess }: ActionMenuProps) {
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   return (
     <>
@@ -39,6 +41,13 @@ export function ActionMenu({ item, onSuccess }: ActionMenuProps) {
             <Pencil className="mr-2 h-4 w-4" />
             Edit
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setIsHistoryOpen(true)}
+            className="cursor-pointer"
+          >
+            <History className="mr-2 h-4 w-4" />
+            History
+          </DropdownMenuItem>
           <DropdownMenuItem
             onClick={() => setIsDeleteOpen(true)}
             className="cursor-pointer text-red-600 focus:text-red-600"
@@ -55,6 +64,12 @@ export function ActionMenu({ item, onSuccess }: ActionMenuProps) {
         onOpenChange={setIsEditOpen}
         onSuccess={onSuccess}
       />
+
+      <ItemHistory
+        item={item}
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+      />
       
       <DeleteDialog
         itemId={item.id}
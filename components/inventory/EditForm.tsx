@@ -13,6 +13,8 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog';
+import { VendorSelect } from '@/components/purchasing/VendorSelect';
+import { STANDARD_UNIT_NAMES, type UnitConversion } from '@/utils/units';
 
 export interface InventoryItem {
   id: string;
@@ -22,7 +24,14 @@ export interface InventoryItem {
   quantity: number;
   unitPrice: number;
   totalCost: number;
-  vendor?: string | null;
+  vendorId?: string | null;
+  storageLocation?: string | null;
+  parLevel?: number | null;
+  reorderPoint?: number | null;
+  inventoryUnit: string;
+  purchaseUnit?: string | null;
+  recipeUnit?: string | null;
+  unitConversions?: UnitConversion[];
   purchasedAt: Date | string;
   restaurantId: string;
 }
@@ -45,7 +54,14 @@ export function EditForm({ item, open, onOpenChange, onSuccess }: EditFormProps)
     quantity: 0,
     unitPrice: 0,
     totalCost: 0,
-    vendor: '',
+    vendorId: null,
+    storageLocation: '',
+    parLevel: null,
+    reorderPoint: null,
+    inventoryUnit: 'each',
+    purchaseUnit: '',
+    recipeUnit: '',
+    unitConversions: [],
     purchasedAt: new Date().toISOString().split('T')[0],
   });
 
@@ -57,6 +73,11 @@ export function EditForm({ item, open, onOpenChange, onSuccess }: EditFormProps)
         
       setFormData({
         ...item,
+        vendorId: item.vendorId ?? null,
+        storageLocation: item.storageLocation || '',
+        purchaseUnit: item.purchaseUnit || '',
+        recipeUnit: item.recipeUnit || '',
+        unitConversions: (item.unitConversions || []).map(({ fromUnit, toUnit, factor }) => ({ fromUnit, toUnit, factor })),
         purchasedAt,
       });
     }
@@ -70,6 +91,40 @@ export function EditForm({ item, open, onOpenChange, onSuccess }: EditFormProps)
     }));
   };
 
+  const handleOptionalNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value === '' ? null : Number(value),
+    }));
+  };
+
+  const updateConversion = (index: number, field: keyof UnitConversion, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      unitConversions: (prev.unitConversions || []).map((conversion, i) =>
+        i === index ? { ...conversion, [field]: field === 'factor' ? Number(value) : value } : conversion
+      ),
+    }));
+  };
+
+  const addConversion = () => {
+    setFormData(prev => ({
+      ...prev,
+      unitConversions: [
+        ...(prev.unitConversions || []),
+        { fromUnit: prev.purchaseUnit || '', toUnit: prev.inventoryUnit || 'each', factor: 1 },
+      ],
+    }));
+  };
+
+  const removeConversion = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      unitConversions: (prev.unitConversions || []).filter((_, i) => i !== index),
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!item) return;
@@ -152,13 +207,129 @@ export function EditForm({ item, open, onOpenChange, onSuccess }: EditFormProps)
             </div>
             <div className="space-y-2">
               <Label htmlFor="vendor">Vendor</Label>
-              <Input
+              <VendorSelect
                 id="vendor"
-                name="vendor"
-                value={formData.vendor || ''}
+                value={formData.vendorId ?? null}
+                onChange={(vendorId) => setFormData(prev => ({ ...prev, vendorId }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="storageLocation">Storage Location</Label>
+            <Input
+              id="storageLocation"
+              name="storageLocation"
+              placeholder="e.g., Walk-in, Dry storage"
+              value={formData.storageLocation || ''}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="parLevel">Par Level ({formData.inventoryUnit || 'units'})</Label>
+              <Input
+                id="parLevel"
+                name="parLevel"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.parLevel ?? ''}
+                onChange={handleOptionalNumberChange}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reorderPoint">Reorder Point ({formData.inventoryUnit || 'units'})</Label>
+              <Input
+                id="reorderPoint"
+                name="reorderPoint"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.reorderPoint ?? ''}
+                onChange={handleOptionalNumberChange}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="inventoryUnit">Inventory Unit</Label>
+              <Input
+                id="inventoryUnit"
+                name="inventoryUnit"
+                list="edit-unit-options"
+                value={formData.inventoryUnit || ''}
                 onChange={handleChange}
+                required
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="purchaseUnit">Purchase Unit</Label>
+              <Input
+                id="purchaseUnit"
+                name="purchaseUnit"
+                list="edit-unit-options"
+                placeholder="e.g., case"
+                value={formData.purchaseUnit || ''}
+                onChange={handleChange}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recipeUnit">Recipe Unit</Label>
+              <Input
+                id="recipeUnit"
+                name="recipeUnit"
+                list="edit-unit-options"
+                placeholder="e.g., oz"
+                value={formData.recipeUnit || ''}
+                onChange={handleChange}
+              />
+            </div>
+            <datalist id="edit-unit-options">
+              {STANDARD_UNIT_NAMES.map((unit) => <option key={unit} value={unit} />)}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Unit Conversions</Label>
+            {(formData.unitConversions || []).map((conversion, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-sm">1</span>
+                <Input
+                  aria-label="From unit"
+                  value={conversion.fromUnit}
+                  onChange={(e) => updateConversion(index, 'fromUnit', e.target.value)}
+                  required
+                />
+                <span className="text-sm">=</span>
+                <Input
+                  aria-label="Factor"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={conversion.factor}
+                  onChange={(e) => updateConversion(index, 'factor', e.target.value)}
+                  required
+                />
+                <Input
+                  aria-label="To unit"
+                  value={conversion.toUnit}
+                  onChange={(e) => updateConversion(index, 'toUnit', e.target.value)}
+                  required
+                />
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeConversion(index)}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addConversion}>
+              Add Conversion
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Weight, volume and count units convert automatically. Add conversions for units like cases or cans.
+            </p>
           </div>
 
           <div className="grid grid-cols-3 gap-4">
@@ -176,7 +347,7 @@ export function EditForm({ item, open, onOpenChange, onSuccess }: EditFormProps)
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="unitPrice">Unit Price ($)</Label>
+              <Label htmlFor="unitPrice">Price per {formData.inventoryUnit || 'unit'} ($)</Label>
               <Input
                 id="unitPrice"
                 name="unitPrice"
@@ -189,16 +360,14 @@ export function EditForm({ item, open, onOpenChange, onSuccess }: EditFormProps)
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="totalCost">Total Cost ($)</Label>
+              <Label htmlFor="totalCost">Inventory Value ($)</Label>
               <Input
                 id="totalCost"
                 name="totalCost"
                 type="number"
-                min="0"
-                step="0.01"
                 value={formData.totalCost}
-                onChange={handleChange}
-                required
+                readOnly
+                disabled
               />
             </div>
           </div>
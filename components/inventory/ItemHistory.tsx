@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { INVENTORY_TRANSACTION_TYPES } from '@/lib/inventory-ledger';
+import { InventoryItem } from './EditForm';
+
+interface InventoryTransaction {
+  id: string;
+  type: string;
+  quantity: number;
+  cost: number;
+  quantityAfter: number;
+  sourceType: string | null;
+  notes: string | null;
+  occurredAt: string;
+  user: { id: string; name: string; email: string } | null;
+}
+
+interface ItemHistoryProps {
+  item: InventoryItem;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL_TYPES = 'all';
+
+const sourceLabels: Record<string, string> = {
+  PurchaseLot: 'Purchase',
+  PurchaseOrder: 'Purchase order',
+  InventoryCount: 'Count',
+  WasteEntry: 'Waste log',
+  SalesDepletion: 'Menu sales',
+  InventoryTransfer: 'Transfer',
+};
+
+export function ItemHistory({ item, open, onOpenChange }: ItemHistoryProps) {
+  const [type, setType] = useState(ALL_TYPES);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function fetchHistory() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ inventoryItemId: item.id, limit: '200' });
+        if (type !== ALL_TYPES) params.set('type', type);
+        if (startDate) params.set('startDate', new Date(`${startDate}T00:00:00`).toISOString());
+        if (endDate) params.set('endDate', new Date(`${endDate}T23:59:59.999`).toISOString());
+
+        const response = await fetch(`/api/inventory-transactions?${params.toString()}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch item history');
+        }
+        const result = await response.json();
+        setTransactions(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, [open, item.id, type, startDate, endDate]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History: {item.name}</DialogTitle>
+          <DialogDescription>
+            Every change to the quantity on hand, with the balance after it. {item.quantity} {item.inventoryUnit} on hand now.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <Label htmlFor="historyType">Type</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger id="historyType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All types</SelectItem>
+                {INVENTORY_TRANSACTION_TYPES.map((transactionType) => (
+                  <SelectItem key={transactionType} value={transactionType}>
+                    {transactionType.replace('_', ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="historyStartDate">From</Label>
+            <Input id="historyStartDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="historyEndDate">To</Label>
+            <Input id="historyEndDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading && <p>Loading...</p>}
+        {error && <p className="text-red-500">{error}</p>}
+
+        {!isLoading && !error && (
+          transactions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes recorded for this item.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>User</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((transaction) => (
+                  <TableRow key={transaction.id}>
+                    <TableCell>{new Date(transaction.occurredAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={transaction.quantity < 0 ? 'secondary' : 'default'}>
+                        {transaction.type.replace('_', ' ')}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className={`text-right ${transaction.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {transaction.quantity > 0 ? '+' : ''}{transaction.quantity.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">${transaction.cost.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{transaction.quantityAfter.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {transaction.sourceType ? sourceLabels[transaction.sourceType] ?? transaction.sourceType : '—'}
+                      {transaction.notes && (
+                        <div className="text-xs text-muted-foreground">{transaction.notes}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{transaction.user?.name || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
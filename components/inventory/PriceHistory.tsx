@@ -0,0 +1,292 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { InventoryItem, PurchaseLot } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TrendChart } from '@/components/charts/TrendChart';
+import { VendorSelect, type VendorOption } from '@/components/purchasing/VendorSelect';
+
+type Purchase = Omit<PurchaseLot, 'purchasedAt' | 'expiresAt' | 'createdAt'> & {
+  purchasedAt: string;
+  expiresAt: string | null;
+  vendor: VendorOption | null;
+  changePercentage: number | null;
+  isPriceJump: boolean;
+};
+
+interface PriceSummary {
+  item: { id: string; name: string; inventoryUnit: string; unitPrice: number };
+  purchaseCount: number;
+  priceJumps: number;
+  minUnitPrice: number;
+  maxUnitPrice: number;
+  averageUnitPrice: number;
+  changePercentage: number;
+}
+
+interface PriceHistoryProps {
+  items: InventoryItem[];
+  onPurchaseRecorded?: () => void;
+}
+
+const ALL_VENDORS = 'all';
+
+export function PriceHistory({ items, onPurchaseRecorded }: PriceHistoryProps) {
+  const [itemId, setItemId] = useState('');
+  const [vendor, setVendor] = useState(ALL_VENDORS);
+  const [threshold, setThreshold] = useState('10');
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [purchaseVendorId, setPurchaseVendorId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<PriceSummary | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedItemId = itemId || items[0]?.id || '';
+
+  useEffect(() => {
+    if (!selectedItemId) return;
+
+    async function fetchPriceHistory() {
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (vendor !== ALL_VENDORS) params.set('vendorId', vendor);
+        if (threshold !== '') params.set('threshold', threshold);
+
+        const response = await fetch(`/api/inventory/${selectedItemId}/purchases?${params.toString()}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch price history');
+        }
+        const result = await response.json();
+        setPurchases(result.data);
+        setVendors(result.vendors);
+        setSummary(result.summary);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchPriceHistory();
+  }, [selectedItemId, vendor, threshold, refreshKey]);
+
+  const chartData = purchases.map((purchase) => ({
+    date: new Date(purchase.purchasedAt).toLocaleDateString(),
+    value: purchase.unitPrice,
+    highlight: purchase.isPriceJump,
+  }));
+
+  function handleItemChange(value: string) {
+    setItemId(value);
+    setVendor(ALL_VENDORS);
+  }
+
+  async function handleRecordPurchase(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const purchase = {
+      quantity: parseFloat(formData.get('quantity') as string),
+      unitPrice: parseFloat(formData.get('unitPrice') as string),
+      unit: (formData.get('unit') as string) || undefined,
+      vendorId: purchaseVendorId ?? undefined,
+      purchasedAt: new Date().toISOString(),
+      lotNumber: (formData.get('lotNumber') as string) || undefined,
+      expiresAt: formData.get('expiresAt')
+        ? new Date(`${formData.get('expiresAt')}T00:00:00`).toISOString()
+        : undefined,
+    };
+
+    try {
+      const response = await fetch(`/api/inventory/${selectedItemId}/purchases`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(purchase),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to record purchase');
+      }
+      form.reset();
+      setPurchaseVendorId(null);
+      setRefreshKey((key) => key + 1);
+      onPurchaseRecorded?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <Label htmlFor="priceHistoryItem">Item</Label>
+          <Select value={selectedItemId} onValueChange={handleItemChange}>
+            <SelectTrigger id="priceHistoryItem">
+              <SelectValue placeholder="Select an item" />
+            </SelectTrigger>
+            <SelectContent>
+              {items.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name} ({item.sku})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="priceHistoryVendor">Vendor</Label>
+          <Select value={vendor} onValueChange={setVendor}>
+            <SelectTrigger id="priceHistoryVendor">
+              <SelectValue placeholder="All vendors" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_VENDORS}>All vendors</SelectItem>
+              {vendors.map((value) => (
+                <SelectItem key={value.id} value={value.id}>{value.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="priceJumpThreshold">Flag Price Changes Over (%)</Label>
+          <Input
+            id="priceJumpThreshold"
+            type="number"
+            min="0"
+            step="1"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+        </div>
+      </div>
+      {error && <p className="text-red-500">{error}</p>}
+      <TrendChart
+        data={chartData}
+        title={summary ? `${summary.item.name} Price per ${summary.item.inventoryUnit}` : 'Price per Unit'}
+        valueLabel="Unit Price"
+      />
+      <div className="grid gap-8 md:grid-cols-3">
+        <div className="md:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Purchase History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {summary && (
+                <p className="text-sm text-muted-foreground mb-4">
+                  {summary.purchaseCount} purchases averaging ${summary.averageUnitPrice.toFixed(2)} per{' '}
+                  {summary.item.inventoryUnit} (range ${summary.minUnitPrice.toFixed(2)}–${summary.maxUnitPrice.toFixed(2)},{' '}
+                  {summary.changePercentage >= 0 ? '+' : ''}{summary.changePercentage.toFixed(1)}% overall).{' '}
+                  {summary.priceJumps} price {summary.priceJumps === 1 ? 'jump' : 'jumps'} flagged.
+                </p>
+              )}
+              {purchases.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No purchases recorded for this item yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead>Use By</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...purchases].reverse().map((purchase) => (
+                      <TableRow key={purchase.id}>
+                        <TableCell>{new Date(purchase.purchasedAt).toLocaleDateString()}</TableCell>
+                        <TableCell>{purchase.vendor?.name || '—'}</TableCell>
+                        <TableCell className="text-right">
+                          {purchase.quantity}
+                          {purchase.remainingQuantity > 0 && purchase.remainingQuantity < purchase.quantity && (
+                            <div className="text-xs text-muted-foreground">{purchase.remainingQuantity} left</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {purchase.expiresAt ? new Date(purchase.expiresAt).toLocaleDateString() : '—'}
+                          {purchase.lotNumber && <div className="text-xs text-muted-foreground">Lot {purchase.lotNumber}</div>}
+                        </TableCell>
+                        <TableCell className="text-right">${purchase.unitPrice.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          {purchase.changePercentage === null ? '—' : (
+                            <Badge variant={purchase.isPriceJump ? 'destructive' : 'secondary'}>
+                              {purchase.changePercentage >= 0 ? '+' : ''}{purchase.changePercentage.toFixed(1)}%
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+        <div>
+          <Card>
+            <CardHeader>
+              <CardTitle>Record a Purchase</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleRecordPurchase} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="purchaseQuantity">Quantity</Label>
+                    <Input id="purchaseQuantity" name="quantity" type="number" step="0.01" required />
+                  </div>
+                  <div>
+                    <Label htmlFor="purchaseLotUnit">Unit</Label>
+                    <Input
+                      id="purchaseLotUnit"
+                      name="unit"
+                      list="unit-options"
+                      placeholder={summary?.item.inventoryUnit}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="purchaseUnitPrice">Price per Unit</Label>
+                  <Input id="purchaseUnitPrice" name="unitPrice" type="number" step="0.01" required />
+                </div>
+                <div>
+                  <Label htmlFor="purchaseVendor">Vendor</Label>
+                  <VendorSelect id="purchaseVendor" value={purchaseVendorId} onChange={setPurchaseVendorId} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="purchaseLotNumber">Lot Number</Label>
+                    <Input id="purchaseLotNumber" name="lotNumber" />
+                  </div>
+                  <div>
+                    <Label htmlFor="purchaseExpiresAt">Use By</Label>
+                    <Input id="purchaseExpiresAt" name="expiresAt" type="date" />
+                  </div>
+                </div>
+                <Button type="submit" className="w-full">Record Purchase</Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { Badge } from '@/components/ui/badge';
+
+export type TransferStatus = 'SENT' | 'RECEIVED' | 'CANCELLED';
+
+const STATUSES: Record<TransferStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  SENT: { label: 'In Transit', variant: 'default' },
+  RECEIVED: { label: 'Received', variant: 'secondary' },
+  CANCELLED: { label: 'Cancelled', variant: 'destructive' },
+};
+
+export function TransferStatusBadge({ status }: { status: TransferStatus }) {
+  const { label, variant } = STATUSES[status];
+  return <Badge variant={variant}>{label}</Badge>;
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface ShiftRow {
+  id: string;
+  clockIn: string;
+  clockOut: string | null;
+  breakMinutes: number;
+  hourlyRate: number;
+  hours: number;
+  wages: number;
+  notes: string | null;
+  employee: { id: string; name: string };
+  position: { id: string; name: string } | null;
+}
+
+interface DayShiftsProps {
+  date: string; // The labor entry's business day
+  refreshKey: number;
+  onChange: () => void;
+  onClose: () => void;
+}
+
+// Shows a clock time in the viewer's own timezone
+function formatTime(value: string) {
+  return new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+export function DayShifts({ date, refreshKey, onChange, onClose }: DayShiftsProps) {
+  const [shifts, setShifts] = useState<ShiftRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchShifts() {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ startDate: date, endDate: date, limit: '500' });
+        const response = await fetch(`/api/shifts?${params}`);
+        if (!response.ok) throw new Error('Failed to fetch shifts');
+        const { data } = await response.json();
+        setShifts(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchShifts();
+  }, [date, refreshKey]);
+
+  async function handleClockOut(shift: ShiftRow) {
+    setError(null);
+    try {
+      const response = await fetch(`/api/shifts/${shift.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clockOut: new Date().toISOString() }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to clock out');
+      }
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleDelete(shift: ShiftRow) {
+    if (!window.confirm(`Delete ${shift.employee.name}'s shift?`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/shifts/${shift.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete shift');
+      }
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Shifts on {new Date(date).toLocaleDateString()}</CardTitle>
+        <Button variant="ghost" size="sm" onClick={onClose}>Close</Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading && <p>Loading...</p>}
+        {error && <p className="text-red-500">{error}</p>}
+        {!isLoading && shifts.length === 0 && (
+          <p className="text-sm text-muted-foreground">No shifts were logged for this day.</p>
+        )}
+        {!isLoading && shifts.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Position</TableHead>
+                <TableHead>In</TableHead>
+                <TableHead>Out</TableHead>
+                <TableHead className="text-right">Break</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Wages</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shifts.map((shift) => (
+                <TableRow key={shift.id}>
+                  <TableCell>
+                    <div className="font-medium">{shift.employee.name}</div>
+                    {shift.notes && <div className="text-xs text-muted-foreground">{shift.notes}</div>}
+                  </TableCell>
+                  <TableCell>{shift.position?.name ?? '—'}</TableCell>
+                  <TableCell>{formatTime(shift.clockIn)}</TableCell>
+                  <TableCell>
+                    {shift.clockOut ? formatTime(shift.clockOut) : <Badge>Clocked in</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{shift.breakMinutes} min</TableCell>
+                  <TableCell className="text-right">{shift.hours.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">${shift.hourlyRate.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">${shift.wages.toFixed(2)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {!shift.clockOut && (
+                      <Button variant="outline" size="sm" onClick={() => handleClockOut(shift)}>Clock Out</Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(shift)}>Delete</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
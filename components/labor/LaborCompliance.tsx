@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LaborRulesDialog } from '@/components/labor/LaborRulesDialog';
+import type { EmployeeLaborWeek, LaborViolation } from '@/utils/calculations';
+
+interface Compliance {
+  weekStart: string;
+  weekEnd: string;
+  rules: { preset: string; weeklyOvertimeHours: number | null };
+  employees: (EmployeeLaborWeek & { employeeName: string })[];
+  violations: (Omit<LaborViolation, 'date'> & { date: string; employeeName: string })[];
+  summary: {
+    overtimeHours: number;
+    premiumPay: number;
+    projectedOvertimeHours: number;
+  };
+}
+
+// Steps the week shown a week at a time
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Shows a business day, which is stored at midnight UTC
+function formatDay(value: string) {
+  return new Date(value).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function LaborCompliance({ refreshKey }: { refreshKey: number }) {
+  const [weekOf, setWeekOf] = useState(() => new Date());
+  const [compliance, setCompliance] = useState<Compliance | null>(null);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [rulesSavedCount, setRulesSavedCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchCompliance() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/labor/compliance?weekOf=${weekOf.toISOString()}`);
+        if (!response.ok) throw new Error('Failed to check labor compliance');
+        const { data } = await response.json();
+        setCompliance(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchCompliance();
+  }, [weekOf, refreshKey, rulesSavedCount]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>
+          Overtime &amp; Compliance
+          {compliance && (
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              {formatDay(compliance.weekStart)} – {formatDay(compliance.weekEnd)}
+            </span>
+          )}
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setWeekOf(new Date(weekOf.getTime() - WEEK_MS))}>
+            Previous Week
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekOf(new Date())}>This Week</Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekOf(new Date(weekOf.getTime() + WEEK_MS))}>
+            Next Week
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setIsRulesOpen(true)}>Rules</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p>Loading...</p>}
+        {error && <p className="text-red-500">{error}</p>}
+        {!isLoading && compliance && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{compliance.summary.overtimeHours.toFixed(1)} overtime hours</Badge>
+              <Badge variant="secondary">${compliance.summary.premiumPay.toFixed(2)} premium pay</Badge>
+              {compliance.summary.projectedOvertimeHours > 0 && (
+                <Badge variant="destructive">
+                  {compliance.summary.projectedOvertimeHours.toFixed(1)} hours of overtime projected
+                </Badge>
+              )}
+              {compliance.violations.length > 0 && (
+                <Badge variant="destructive">{compliance.violations.length} violations</Badge>
+              )}
+            </div>
+            {compliance.employees.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No shifts were logged this week.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Regular</TableHead>
+                    <TableHead className="text-right">Overtime</TableHead>
+                    <TableHead className="text-right">Double Time</TableHead>
+                    <TableHead className="text-right">Premium Pay</TableHead>
+                    <TableHead className="text-right">Projected</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {compliance.employees.map((employee) => (
+                    <TableRow key={employee.employeeId}>
+                      <TableCell>
+                        <div className="font-medium">{employee.employeeName}</div>
+                        {(employee.splitShiftDays > 0 || employee.spreadOfHoursDays > 0) && (
+                          <div className="text-xs text-muted-foreground">
+                            {[
+                              employee.splitShiftDays > 0 && `${employee.splitShiftDays} split shift days`,
+                              employee.spreadOfHoursDays > 0 && `${employee.spreadOfHoursDays} spread of hours days`,
+                            ]
+                              .filter(Boolean)
+                              .join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{employee.hours.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{employee.regularHours.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{employee.overtimeHours.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{employee.doubleTimeHours.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">${employee.premiumPay.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {employee.projectedHours.toFixed(1)}
+                        {employee.projectedOvertimeHours > 0 && (
+                          <Badge variant="destructive" className="ml-2">
+                            +{employee.projectedOvertimeHours.toFixed(1)} OT
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {compliance.violations.length > 0 && (
+              <div>
+                <h3 className="mb-2 font-semibold">Violations</h3>
+                <ul className="space-y-1 text-sm">
+                  {compliance.violations.map((violation) => (
+                    <li key={`${violation.type}-${violation.shiftId}`}>
+                      <span className="font-medium">{violation.employeeName}</span>, {formatDay(violation.date)}:{' '}
+                      {violation.type === 'MINIMUM_WAGE'
+                        ? `paid $${violation.actual.toFixed(2)}/hour, below the $${violation.required.toFixed(2)} minimum`
+                        : `${violation.actual} minute break, ${violation.required} minutes required`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Projected hours add the shifts still on this week&apos;s schedule to the hours worked so far.
+            </p>
+          </>
+        )}
+      </CardContent>
+      <LaborRulesDialog
+        open={isRulesOpen}
+        onOpenChange={setIsRulesOpen}
+        onSaved={() => setRulesSavedCount((count) => count + 1)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,402 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { WEEKDAYS, type LaborTargets, type StaffingStatus } from '@/utils/calculations';
+
+interface EfficiencyFigures {
+  netSales: number;
+  laborHours: number;
+  laborWages: number;
+  salesPerLaborHour: number;
+  laborPercentage: number;
+  averageHourlyWage: number;
+}
+
+interface Efficiency {
+  targets: LaborTargets;
+  days: (EfficiencyFigures & { date: string; status: StaffingStatus })[];
+  dayparts: (EfficiencyFigures & { name: string; startHour: number; endHour: number; status: StaffingStatus })[];
+  positions: (EfficiencyFigures & { positionId: string | null; positionName: string })[];
+  heatmap: {
+    weekday: string;
+    hour: number;
+    netSales: number;
+    laborHours: number;
+    salesPerLaborHour: number;
+    status: StaffingStatus;
+  }[];
+  summary: EfficiencyFigures & { status: StaffingStatus; hourlyDays: number };
+}
+
+// How far back the figures can be measured, in days
+const RANGES = ['7', '28', '90'];
+
+const STAFFING_LABELS: Record<StaffingStatus, string> = {
+  UNDERSTAFFED: 'Understaffed',
+  OVERSTAFFED: 'Overstaffed',
+  ON_TARGET: 'On target',
+};
+
+// Heatmap cell colors by staffing status
+const STAFFING_COLORS: Record<StaffingStatus, string> = {
+  UNDERSTAFFED: 'bg-red-500/70',
+  OVERSTAFFED: 'bg-amber-400/70',
+  ON_TARGET: 'bg-green-500/60',
+};
+
+// Shows a business day, which is stored at midnight UTC
+function formatDay(value: string) {
+  return new Date(value).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// Shows an hour of the day (0-23) as a clock label, e.g. "6p"
+function formatHour(hour: number) {
+  return `${hour % 12 || 12}${hour < 12 ? 'a' : 'p'}`;
+}
+
+function StaffingBadge({ status }: { status: StaffingStatus }) {
+  return (
+    <Badge variant={status === 'ON_TARGET' ? 'secondary' : status === 'UNDERSTAFFED' ? 'destructive' : 'outline'}>
+      {STAFFING_LABELS[status]}
+    </Badge>
+  );
+}
+
+export function LaborEfficiency({ refreshKey }: { refreshKey: number }) {
+  const [rangeDays, setRangeDays] = useState('28');
+  const [efficiency, setEfficiency] = useState<Efficiency | null>(null);
+  const [isEditingTargets, setIsEditingTargets] = useState(false);
+  const [targetsSavedCount, setTargetsSavedCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchEfficiency() {
+      setIsLoading(true);
+      try {
+        const endDate = new Date();
+        const startDate = new Date(endDate.getTime() - (parseInt(rangeDays, 10) - 1) * 24 * 60 * 60 * 1000);
+        const params = new URLSearchParams({
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        });
+        const response = await fetch(`/api/labor/efficiency?${params}`);
+        if (!response.ok) throw new Error('Failed to measure labor efficiency');
+        const { data } = await response.json();
+        setEfficiency(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchEfficiency();
+  }, [rangeDays, refreshKey, targetsSavedCount]);
+
+  async function handleSaveTargets(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    const formData = new FormData(event.currentTarget);
+
+    try {
+      const response = await fetch('/api/labor/targets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          salesPerLaborHour: parseFloat(formData.get('salesPerLaborHour') as string),
+          laborPercentage: parseFloat(formData.get('laborPercentage') as string),
+          tolerance: parseFloat(formData.get('tolerance') as string),
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save targets');
+      }
+      setIsEditingTargets(false);
+      setTargetsSavedCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  const heatmapHours = efficiency ? efficiency.heatmap.map((cell) => cell.hour) : [];
+  const hours = heatmapHours.length
+    ? Array.from(
+        { length: Math.max(...heatmapHours) - Math.min(...heatmapHours) + 1 },
+        (_, index) => Math.min(...heatmapHours) + index
+      )
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>Labor Efficiency</CardTitle>
+        <div className="flex gap-2">
+          <Select value={rangeDays} onValueChange={setRangeDays}>
+            <SelectTrigger className="w-36" aria-label="Period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((days) => (
+                <SelectItem key={days} value={days}>Last {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={() => setIsEditingTargets(!isEditingTargets)}>
+            Targets
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p>Loading...</p>}
+        {error && <p className="text-red-500">{error}</p>}
+
+        {isEditingTargets && efficiency && (
+          <form onSubmit={handleSaveTargets} className="grid items-end gap-4 sm:grid-cols-4">
+            <div>
+              <Label htmlFor="salesPerLaborHour">Sales per Labor Hour</Label>
+              <Input
+                id="salesPerLaborHour"
+                name="salesPerLaborHour"
+                type="number"
+                min="0"
+                step="0.01"
+                defaultValue={efficiency.targets.salesPerLaborHour}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="laborPercentage">Labor %</Label>
+              <Input
+                id="laborPercentage"
+                name="laborPercentage"
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                defaultValue={efficiency.targets.laborPercentage}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="tolerance">Tolerance (%)</Label>
+              <Input
+                id="tolerance"
+                name="tolerance"
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                defaultValue={efficiency.targets.tolerance}
+                required
+              />
+            </div>
+            <Button type="submit">Save Targets</Button>
+          </form>
+        )}
+
+        {!isLoading && efficiency && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">
+                ${efficiency.summary.salesPerLaborHour.toFixed(2)} SPLH (target $
+                {efficiency.targets.salesPerLaborHour.toFixed(2)})
+              </Badge>
+              <Badge
+                variant={
+                  efficiency.summary.laborPercentage > efficiency.targets.laborPercentage ? 'destructive' : 'secondary'
+                }
+              >
+                {efficiency.summary.laborPercentage.toFixed(1)}% labor (target{' '}
+                {efficiency.targets.laborPercentage.toFixed(1)}%)
+              </Badge>
+              <Badge variant="secondary">${efficiency.summary.averageHourlyWage.toFixed(2)} average hourly wage</Badge>
+              <StaffingBadge status={efficiency.summary.status} />
+            </div>
+
+            <div>
+              <h3 className="mb-2 font-semibold">Staffing by Hour</h3>
+              {efficiency.summary.hourlyDays === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Record sales by the hour on the Sales page to see dayparts and when you were under- or overstaffed.
+                </p>
+              ) : (
+                <div className="space-y-2 overflow-x-auto">
+                  <div
+                    className="grid gap-px text-xs"
+                    style={{ gridTemplateColumns: `3rem repeat(${hours.length}, minmax(2.25rem, 1fr))` }}
+                  >
+                    <div />
+                    {hours.map((hour) => (
+                      <div key={hour} className="text-center text-muted-foreground">{formatHour(hour)}</div>
+                    ))}
+                    {WEEKDAYS.map((weekday) => (
+                      <div key={weekday} className="contents">
+                        <div className="font-medium">{weekday}</div>
+                        {hours.map((hour) => {
+                          const cell = efficiency.heatmap.find((c) => c.weekday === weekday && c.hour === hour);
+                          return (
+                            <div
+                              key={hour}
+                              title={
+                                cell
+                                  ? `${weekday} ${formatHour(hour)}: $${cell.netSales.toFixed(0)} sales, ${cell.laborHours.toFixed(1)} labor hours, $${cell.salesPerLaborHour.toFixed(2)} SPLH`
+                                  : undefined
+                              }
+                              className={cn('h-7 rounded-sm', cell ? STAFFING_COLORS[cell.status] : 'bg-muted')}
+                            />
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-4 text-xs text-muted-foreground">
+                    {(Object.keys(STAFFING_LABELS) as StaffingStatus[]).map((status) => (
+                      <span key={status} className="flex items-center gap-1">
+                        <span className={cn('inline-block h-3 w-3 rounded-sm', STAFFING_COLORS[status])} />
+                        {STAFFING_LABELS[status]}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              {efficiency.summary.hourlyDays > 0 && (
+                <div>
+                  <h3 className="mb-2 font-semibold">By Daypart</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Daypart</TableHead>
+                        <TableHead className="text-right">Sales</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">SPLH</TableHead>
+                        <TableHead className="text-right">Labor %</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {efficiency.dayparts.map((daypart) => (
+                        <TableRow key={daypart.name}>
+                          <TableCell>
+                            <span className="font-medium">{daypart.name}</span>
+                            <span className="ml-1 text-xs text-muted-foreground">
+                              {formatHour(daypart.startHour)}–{formatHour(daypart.endHour)}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">${daypart.netSales.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{daypart.laborHours.toFixed(1)}</TableCell>
+                          <TableCell className="text-right">${daypart.salesPerLaborHour.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{daypart.laborPercentage.toFixed(1)}%</TableCell>
+                          <TableCell>
+                            {(daypart.netSales > 0 || daypart.laborHours > 0) && <StaffingBadge status={daypart.status} />}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div>
+                <h3 className="mb-2 font-semibold">By Position</h3>
+                {efficiency.positions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No shifts were logged in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Position</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">SPLH</TableHead>
+                        <TableHead className="text-right">Labor %</TableHead>
+                        <TableHead className="text-right">Avg Wage</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {efficiency.positions.map((position) => (
+                        <TableRow key={position.positionId ?? 'none'}>
+                          <TableCell className="font-medium">{position.positionName}</TableCell>
+                          <TableCell className="text-right">{position.laborHours.toFixed(1)}</TableCell>
+                          <TableCell className="text-right">${position.salesPerLaborHour.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{position.laborPercentage.toFixed(1)}%</TableCell>
+                          <TableCell className="text-right">${position.averageHourlyWage.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="mb-2 font-semibold">By Day</h3>
+              {efficiency.days.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No sales or labor were recorded in this period.</p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Sales</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">SPLH</TableHead>
+                        <TableHead className="text-right">Labor %</TableHead>
+                        <TableHead className="text-right">Avg Wage</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {efficiency.days.map((day) => (
+                        <TableRow key={day.date}>
+                          <TableCell>{formatDay(day.date)}</TableCell>
+                          <TableCell className="text-right">${day.netSales.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{day.laborHours.toFixed(1)}</TableCell>
+                          <TableCell className="text-right">${day.salesPerLaborHour.toFixed(2)}</TableCell>
+                          <TableCell
+                            className={cn(
+                              'text-right',
+                              day.laborPercentage > efficiency.targets.laborPercentage && 'text-red-500'
+                            )}
+                          >
+                            {day.laborPercentage.toFixed(1)}%
+                          </TableCell>
+                          <TableCell className="text-right">${day.averageHourlyWage.toFixed(2)}</TableCell>
+                          <TableCell><StaffingBadge status={day.status} /></TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Sales per labor hour (SPLH) more than {efficiency.targets.tolerance}% above target means too few
+              people were on; more than {efficiency.targets.tolerance}% below means too many. Positions are measured
+              against all sales in the period.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
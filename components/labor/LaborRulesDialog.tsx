@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  LABOR_RULE_DEFAULTS,
+  LABOR_RULE_PRESETS,
+  WEEKDAYS,
+  type LaborRulePreset,
+  type LaborRules,
+} from '@/utils/calculations';
+
+type NumericRule = Exclude<keyof LaborRules, 'weekStartsOn'>;
+
+const PRESET_LABELS: Record<LaborRulePreset, string> = {
+  FEDERAL: 'US federal',
+  CALIFORNIA: 'California',
+  NEW_YORK: 'New York',
+  CUSTOM: 'Custom',
+};
+
+// Rules that can be left blank are switched off
+const RULE_FIELDS: { key: NumericRule; label: string; step: string; optional: boolean }[] = [
+  { key: 'weeklyOvertimeHours', label: 'Weekly overtime after (hours)', step: '0.5', optional: true },
+  { key: 'dailyOvertimeHours', label: 'Daily overtime after (hours)', step: '0.5', optional: true },
+  { key: 'dailyDoubleTimeHours', label: 'Daily double time after (hours)', step: '0.5', optional: true },
+  { key: 'overtimeMultiplier', label: 'Overtime multiplier', step: '0.05', optional: false },
+  { key: 'doubleTimeMultiplier', label: 'Double time multiplier', step: '0.05', optional: false },
+  { key: 'minimumWage', label: 'Minimum wage', step: '0.01', optional: false },
+  { key: 'tippedMinimumWage', label: 'Tipped minimum wage', step: '0.01', optional: true },
+  { key: 'splitShiftGapHours', label: 'Split shift premium after a gap of (hours)', step: '0.5', optional: true },
+  { key: 'spreadOfHoursLimit', label: 'Spread of hours premium after (hours)', step: '0.5', optional: true },
+  { key: 'mealBreakAfterHours', label: 'Meal break required after (hours)', step: '0.5', optional: true },
+  { key: 'mealBreakMinutes', label: 'Meal break length (minutes)', step: '1', optional: false },
+];
+
+// Rules that are switched off show as blank fields
+function toFormValues(rules: LaborRules): Record<NumericRule, string> {
+  return Object.fromEntries(
+    RULE_FIELDS.map(({ key }) => [key, rules[key] === null ? '' : String(rules[key])])
+  ) as Record<NumericRule, string>;
+}
+
+interface LaborRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export function LaborRulesDialog({ open, onOpenChange, onSaved }: LaborRulesDialogProps) {
+  const [preset, setPreset] = useState<LaborRulePreset>('FEDERAL');
+  const [weekStartsOn, setWeekStartsOn] = useState('MON');
+  const [values, setValues] = useState<Record<NumericRule, string>>(toFormValues(LABOR_RULE_DEFAULTS.FEDERAL));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function fetchRules() {
+      setError(null);
+      try {
+        const response = await fetch('/api/labor/rules');
+        if (!response.ok) throw new Error('Failed to fetch labor rules');
+        const { data } = await response.json();
+        setPreset(data.preset);
+        setWeekStartsOn(data.weekStartsOn);
+        setValues(toFormValues(data));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchRules();
+  }, [open]);
+
+  function choosePreset(value: string) {
+    const chosen = value as LaborRulePreset;
+    setPreset(chosen);
+    if (chosen !== 'CUSTOM') {
+      setWeekStartsOn(LABOR_RULE_DEFAULTS[chosen].weekStartsOn);
+      setValues(toFormValues(LABOR_RULE_DEFAULTS[chosen]));
+    }
+  }
+
+  function updateValue(key: NumericRule, value: string) {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setPreset('CUSTOM');
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setIsSaving(true);
+    try {
+      const rules = Object.fromEntries(
+        RULE_FIELDS.map(({ key }) => [key, values[key] === '' ? null : parseFloat(values[key])])
+      );
+      const response = await fetch('/api/labor/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...rules, preset, weekStartsOn }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save labor rules');
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Labor Rules</DialogTitle>
+          <DialogDescription>
+            Shifts are checked against these rules for overtime, premium pay and violations. Start from a preset and
+            check the wage floors against your local law.
+          </DialogDescription>
+        </DialogHeader>
+        {error && <p className="text-red-500">{error}</p>}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="preset">Rule Set</Label>
+              <Select value={preset} onValueChange={choosePreset}>
+                <SelectTrigger id="preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABOR_RULE_PRESETS.map((value) => (
+                    <SelectItem key={value} value={value}>{PRESET_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="weekStartsOn">Workweek Starts On</Label>
+              <Select
+                value={weekStartsOn}
+                onValueChange={(value) => {
+                  setWeekStartsOn(value);
+                  setPreset('CUSTOM');
+                }}
+              >
+                <SelectTrigger id="weekStartsOn">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day) => (
+                    <SelectItem key={day} value={day}>{day.charAt(0) + day.slice(1).toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {RULE_FIELDS.map(({ key, label, step, optional }) => (
+              <div key={key}>
+                <Label htmlFor={key}>{label}</Label>
+                <Input
+                  id={key}
+                  type="number"
+                  min="0"
+                  step={step}
+                  required={!optional}
+                  placeholder={optional ? 'Does not apply' : undefined}
+                  value={values[key]}
+                  onChange={(e) => updateValue(key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
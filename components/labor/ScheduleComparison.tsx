@@ -0,0 +1,72 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { compareScheduleToActual } from '@/utils/calculations';
+
+export type ScheduleComparisonRow = ReturnType<typeof compareScheduleToActual>[number] & { employeeName: string };
+
+interface ScheduleComparisonProps {
+  rows: ScheduleComparisonRow[];
+  scheduledHours: number;
+  actualHours: number;
+}
+
+// Signed so over and under are told apart at a glance
+function formatVariance(value: number, prefix = '') {
+  return `${value > 0 ? '+' : value < 0 ? '-' : ''}${prefix}${Math.abs(value).toFixed(2)}`;
+}
+
+export function ScheduleComparison({ rows, scheduledHours, actualHours }: ScheduleComparisonProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Schedule vs Actual</CardTitle>
+        <Badge variant="secondary">
+          {actualHours.toFixed(1)} of {scheduledHours.toFixed(1)} scheduled hours worked
+        </Badge>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing scheduled or worked this week.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead className="text-right">Scheduled</TableHead>
+                <TableHead className="text-right">Worked</TableHead>
+                <TableHead className="text-right">Hours +/-</TableHead>
+                <TableHead className="text-right">Wages +/-</TableHead>
+                <TableHead>Attendance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.employeeId}>
+                  <TableCell className="font-medium">{row.employeeName}</TableCell>
+                  <TableCell className="text-right">{row.scheduledHours.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{row.actualHours.toFixed(2)}</TableCell>
+                  <TableCell className={cn('text-right', row.hoursVariance > 0 && 'text-red-500')}>
+                    {formatVariance(row.hoursVariance)}
+                  </TableCell>
+                  <TableCell className={cn('text-right', row.wagesVariance > 0 && 'text-red-500')}>
+                    {formatVariance(row.wagesVariance, '$')}
+                  </TableCell>
+                  <TableCell className="space-x-1">
+                    {row.missedDays > 0 && (
+                      <Badge variant="destructive">{row.missedDays} missed</Badge>
+                    )}
+                    {row.unscheduledDays > 0 && (
+                      <Badge variant="secondary">{row.unscheduledDays} unscheduled</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface EmployeeOption {
+  id: string;
+  name: string;
+  hourlyRate: number;
+  position: { id: string; name: string } | null;
+}
+
+interface PositionOption {
+  id: string;
+  name: string;
+}
+
+// Leaves the position to default to the employee's usual one
+const USUAL_POSITION = 'usual';
+
+export function ShiftForm({ onLogged }: { onLogged: (date: string) => void }) {
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [positions, setPositions] = useState<PositionOption[]>([]);
+  const [employeeId, setEmployeeId] = useState('');
+  const [positionId, setPositionId] = useState(USUAL_POSITION);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchOptions() {
+      try {
+        const [employeesRes, positionsRes] = await Promise.all([fetch('/api/employees'), fetch('/api/positions')]);
+        if (!employeesRes.ok) throw new Error('Failed to fetch employees');
+        if (!positionsRes.ok) throw new Error('Failed to fetch positions');
+
+        const employeesData = await employeesRes.json();
+        const positionsData = await positionsRes.json();
+
+        setEmployees(employeesData.data);
+        setPositions(positionsData.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      }
+    }
+
+    fetchOptions();
+  }, []);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    if (!employeeId) {
+      setError('Select an employee');
+      return;
+    }
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const day = formData.get('shiftDate') as string;
+    const clockIn = new Date(`${day}T${formData.get('clockIn')}`);
+    const clockOutTime = formData.get('clockOut') as string;
+    const clockOut = clockOutTime ? new Date(`${day}T${clockOutTime}`) : null;
+    // A clock-out earlier than the clock-in is past midnight
+    if (clockOut && clockOut <= clockIn) clockOut.setDate(clockOut.getDate() + 1);
+    const rate = formData.get('hourlyRate') as string;
+
+    // The date input gives 'YYYY-MM-DD'; the API keeps shifts by UTC calendar day
+    const newShift = {
+      employeeId,
+      positionId: positionId === USUAL_POSITION ? undefined : positionId,
+      date: new Date(`${day}T00:00:00.000Z`).toISOString(),
+      clockIn: clockIn.toISOString(),
+      clockOut: clockOut?.toISOString() ?? null,
+      breakMinutes: parseInt(formData.get('breakMinutes') as string, 10) || 0,
+      hourlyRate: rate ? parseFloat(rate) : undefined,
+      notes: (formData.get('notes') as string) || null,
+    };
+
+    try {
+      const response = await fetch('/api/shifts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newShift),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to log shift');
+      }
+      form.reset();
+      setEmployeeId('');
+      setPositionId(USUAL_POSITION);
+      onLogged(newShift.date);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  const employee = employees.find((e) => e.id === employeeId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Log Shift</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-red-500 mb-4">{error}</p>}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="employee">Employee</Label>
+            <Select value={employeeId} onValueChange={setEmployeeId}>
+              <SelectTrigger id="employee">
+                <SelectValue placeholder="Select employee" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map((e) => (
+                  <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="shiftPosition">Position</Label>
+            <Select value={positionId} onValueChange={setPositionId}>
+              <SelectTrigger id="shiftPosition">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={USUAL_POSITION}>
+                  Usual position{employee?.position ? ` (${employee.position.name})` : ''}
+                </SelectItem>
+                {positions.map((position) => (
+                  <SelectItem key={position.id} value={position.id}>{position.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div><Label htmlFor="shiftDate">Date</Label><Input id="shiftDate" name="shiftDate" type="date" required /></div>
+          <div className="grid grid-cols-2 gap-2">
+            <div><Label htmlFor="clockIn">Clock In</Label><Input id="clockIn" name="clockIn" type="time" required /></div>
+            <div><Label htmlFor="clockOut">Clock Out</Label><Input id="clockOut" name="clockOut" type="time" /></div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div><Label htmlFor="breakMinutes">Break (min)</Label><Input id="breakMinutes" name="breakMinutes" type="number" min="0" step="1" defaultValue="0" /></div>
+            <div>
+              <Label htmlFor="shiftRate">Hourly Rate</Label>
+              <Input
+                id="shiftRate"
+                name="hourlyRate"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={employee ? employee.hourlyRate.toFixed(2) : 'Usual rate'}
+              />
+            </div>
+          </div>
+          <div><Label htmlFor="shiftNotes">Notes</Label><Input id="shiftNotes" name="notes" /></div>
+          <p className="text-xs text-muted-foreground">
+            Leave the clock-out blank to clock the employee in. The day&apos;s labor totals are worked out from its shifts.
+          </p>
+          <Button type="submit" className="w-full">Log Shift</Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SERVICE_AREAS, TIP_POOL_METHODS, type ServiceArea, type TipPoolMethod } from '@/utils/calculations';
+
+export interface TipPool {
+  id: string;
+  name: string;
+  method: TipPoolMethod;
+  backOfHouseShare: number | null;
+  positions: { positionId: string; points: number; area: ServiceArea; position: { id: string; name: string } }[];
+}
+
+interface Member {
+  included: boolean;
+  points: string;
+  area: ServiceArea;
+}
+
+export const METHOD_LABELS: Record<TipPoolMethod, string> = {
+  HOURS: 'By hours worked',
+  POINTS: 'By points per position',
+};
+
+export const AREA_LABELS: Record<ServiceArea, string> = {
+  FRONT: 'Front of house',
+  BACK: 'Back of house',
+};
+
+interface TipPoolDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tipPool: TipPool | null; // Null to set up a new pool
+  positions: { id: string; name: string; tipped: boolean }[];
+  onSaved: () => void;
+}
+
+export function TipPoolDialog({ open, onOpenChange, tipPool, positions, onSaved }: TipPoolDialogProps) {
+  const [name, setName] = useState('');
+  const [method, setMethod] = useState<TipPoolMethod>('HOURS');
+  const [backOfHouseShare, setBackOfHouseShare] = useState('');
+  const [members, setMembers] = useState<Record<string, Member>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fills the form from the pool being edited; a new pool starts with the tipped positions
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setName(tipPool?.name ?? '');
+    setMethod(tipPool?.method ?? 'HOURS');
+    setBackOfHouseShare(tipPool && tipPool.backOfHouseShare !== null ? String(tipPool.backOfHouseShare) : '');
+    setMembers(
+      Object.fromEntries(
+        positions.map((position) => {
+          const member = tipPool?.positions.find((p) => p.positionId === position.id);
+          return [
+            position.id,
+            {
+              included: tipPool ? Boolean(member) : position.tipped,
+              points: String(member?.points ?? 1),
+              area: member?.area ?? 'FRONT',
+            },
+          ];
+        })
+      )
+    );
+  }, [open, tipPool, positions]);
+
+  function updateMember(positionId: string, changes: Partial<Member>) {
+    setMembers((prev) => ({ ...prev, [positionId]: { ...prev[positionId], ...changes } }));
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setIsSaving(true);
+    try {
+      const response = await fetch(tipPool ? `/api/tip-pools/${tipPool.id}` : '/api/tip-pools', {
+        method: tipPool ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          method,
+          backOfHouseShare: backOfHouseShare === '' ? null : parseFloat(backOfHouseShare),
+          positions: Object.entries(members)
+            .filter(([, member]) => member.included)
+            .map(([positionId, member]) => ({
+              positionId,
+              points: parseFloat(member.points) || 0,
+              area: member.area,
+            })),
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save tip pool');
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{tipPool ? 'Edit Tip Pool' : 'New Tip Pool'}</DialogTitle>
+          <DialogDescription>
+            Each day&apos;s tips are shared among the people who worked that day in the positions below.
+          </DialogDescription>
+        </DialogHeader>
+        {error && <p className="text-red-500">{error}</p>}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="tipPoolName">Name</Label>
+              <Input id="tipPoolName" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div>
+              <Label htmlFor="tipPoolMethod">Share Tips</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as TipPoolMethod)}>
+                <SelectTrigger id="tipPoolMethod">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIP_POOL_METHODS.map((value) => (
+                    <SelectItem key={value} value={value}>{METHOD_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="backOfHouseShare">Back-of-House Share (%)</Label>
+              <Input
+                id="backOfHouseShare"
+                type="number"
+                min="0"
+                max="100"
+                step="0.5"
+                placeholder="Pool everyone together"
+                value={backOfHouseShare}
+                onChange={(e) => setBackOfHouseShare(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Positions</Label>
+            {positions.length === 0 && (
+              <p className="text-sm text-muted-foreground">Add positions on the Employees page first.</p>
+            )}
+            {positions.map((position) => {
+              const member = members[position.id];
+              if (!member) return null;
+              return (
+                <div key={position.id} className="grid grid-cols-[1fr_6rem_10rem] items-center gap-2 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={member.included}
+                      onChange={(e) => updateMember(position.id, { included: e.target.checked })}
+                    />
+                    {position.name}
+                  </label>
+                  <Input
+                    aria-label={`${position.name} points`}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={member.points}
+                    disabled={!member.included || method !== 'POINTS'}
+                    onChange={(e) => updateMember(position.id, { points: e.target.value })}
+                  />
+                  <Select
+                    value={member.area}
+                    onValueChange={(value) => updateMember(position.id, { area: value as ServiceArea })}
+                    disabled={!member.included || backOfHouseShare === ''}
+                  >
+                    <SelectTrigger aria-label={`${position.name} area`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SERVICE_AREAS.map((value) => (
+                        <SelectItem key={value} value={value}>{AREA_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              Points weight each hour worked when sharing by points. Front and back of house only matter with a
+              back-of-house share.
+            </p>
+          </div>
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Tip Pool'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
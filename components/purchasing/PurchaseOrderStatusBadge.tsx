@@ -0,0 +1,16 @@
+import { Badge } from '@/components/ui/badge';
+
+export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
+
+const STATUSES: Record<PurchaseOrderStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  DRAFT: { label: 'Draft', variant: 'outline' },
+  SENT: { label: 'Sent', variant: 'default' },
+  PARTIALLY_RECEIVED: { label: 'Partially Received', variant: 'default' },
+  RECEIVED: { label: 'Received', variant: 'secondary' },
+  CANCELLED: { label: 'Cancelled', variant: 'destructive' },
+};
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  const { label, variant } = STATUSES[status];
+  return <Badge variant={variant}>{label}</Badge>;
+}
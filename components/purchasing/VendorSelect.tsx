@@ -0,0 +1,54 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export interface VendorOption {
+  id: string;
+  name: string;
+}
+
+interface VendorSelectProps {
+  id?: string;
+  value: string | null;
+  onChange: (vendorId: string | null) => void;
+}
+
+// Select items cannot have an empty value
+const NO_VENDOR = 'none';
+
+/**
+ * Picks a vendor from the restaurant's vendor directory.
+ */
+export function VendorSelect({ id, value, onChange }: VendorSelectProps) {
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+
+  useEffect(() => {
+    async function fetchVendors() {
+      try {
+        const response = await fetch('/api/vendors');
+        if (!response.ok) throw new Error('Failed to fetch vendors');
+        const { data } = await response.json();
+        setVendors(data);
+      } catch (err) {
+        console.error('Error fetching vendors:', err);
+      }
+    }
+
+    fetchVendors();
+  }, []);
+
+  return (
+    <Select value={value ?? NO_VENDOR} onValueChange={(selected) => onChange(selected === NO_VENDOR ? null : selected)}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="No vendor" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_VENDOR}>No vendor</SelectItem>
+        {vendors.map((vendor) => (
+          <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
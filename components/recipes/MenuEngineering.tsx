@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { MenuEngineeringClass } from '@/utils/calculations';
+
+interface MenuEngineeringItem {
+  recipeId: string;
+  name: string;
+  category: string | null;
+  price: number;
+  plateCost: number;
+  contributionMargin: number;
+  foodCostPercentage: number;
+  quantitySold: number;
+  menuMix: number;
+  totalMargin: number;
+  classification: MenuEngineeringClass;
+  recommendation: string;
+}
+
+interface MenuEngineeringReport {
+  thresholds: { popularity: number; contributionMargin: number };
+  items: MenuEngineeringItem[];
+  quadrants: {
+    classification: MenuEngineeringClass;
+    count: number;
+    quantitySold: number;
+    totalMargin: number;
+    recommendation: string;
+  }[];
+  categories: string[];
+}
+
+const QUADRANTS: Record<MenuEngineeringClass, { label: string; singular: string; color: string }> = {
+  STAR: { label: 'Stars', singular: 'Star', color: '#16a34a' },
+  PLOWHORSE: { label: 'Plowhorses', singular: 'Plowhorse', color: '#2563eb' },
+  PUZZLE: { label: 'Puzzles', singular: 'Puzzle', color: '#d97706' },
+  DOG: { label: 'Dogs', singular: 'Dog', color: '#dc2626' },
+};
+
+const ALL_CATEGORIES = 'all';
+
+function toDateInput(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+export function MenuEngineering() {
+  const today = new Date();
+  const [startDate, setStartDate] = useState(toDateInput(new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(toDateInput(today));
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [report, setReport] = useState<MenuEngineeringReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReport() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          startDate: new Date(`${startDate}T00:00:00.000Z`).toISOString(),
+          endDate: new Date(`${endDate}T23:59:59.999Z`).toISOString(),
+        });
+        if (category !== ALL_CATEGORIES) params.set('category', category);
+
+        const response = await fetch(`/api/reports/menu-engineering?${params}`);
+        if (!response.ok) throw new Error('Failed to fetch menu engineering report');
+        const { data } = await response.json();
+        setReport(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    if (startDate && endDate) fetchReport();
+  }, [startDate, endDate, category]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Menu Engineering</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <Label htmlFor="meStartDate">Start Date</Label>
+            <Input id="meStartDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="meEndDate">End Date</Label>
+            <Input id="meEndDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="meCategory">Menu Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger id="meCategory">
+                <SelectValue placeholder="All categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {(report?.categories ?? []).map((value) => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading && <p>Loading...</p>}
+        {error && <p className="text-red-500">{error}</p>}
+        {!isLoading && !error && report && (
+          <>
+            <div className="h-[360px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    type="number"
+                    dataKey="menuMix"
+                    name="Menu mix"
+                    unit="%"
+                    label={{ value: 'Popularity (menu mix %)', position: 'insideBottom', offset: -10 }}
+                  />
+                  <YAxis type="number" dataKey="contributionMargin" name="Contribution margin" unit="$" />
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      const item = payload?.[0]?.payload as MenuEngineeringItem | undefined;
+                      if (!active || !item) return null;
+                      return (
+                        <div className="rounded-md border bg-background p-2 text-sm shadow">
+                          <p className="font-medium">{item.name}</p>
+                          <p>{item.quantitySold} sold ({item.menuMix.toFixed(1)}% of mix)</p>
+                          <p>${item.contributionMargin.toFixed(2)} margin</p>
+                        </div>
+                      );
+                    }}
+                  />
+                  <Legend verticalAlign="top" />
+                  <ReferenceLine x={report.thresholds.popularity} stroke="#6b7280" strokeDasharray="4 4" />
+                  <ReferenceLine y={report.thresholds.contributionMargin} stroke="#6b7280" strokeDasharray="4 4" />
+                  {(Object.keys(QUADRANTS) as MenuEngineeringClass[]).map((classification) => (
+                    <Scatter
+                      key={classification}
+                      name={QUADRANTS[classification].label}
+                      data={report.items.filter((item) => item.classification === classification)}
+                      fill={QUADRANTS[classification].color}
+                    />
+                  ))}
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-4">
+              {report.quadrants.map((quadrant) => (
+                <div key={quadrant.classification} className="rounded-md border p-3">
+                  <p className="font-medium" style={{ color: QUADRANTS[quadrant.classification].color }}>
+                    {QUADRANTS[quadrant.classification].label} ({quadrant.count})
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">{quadrant.recommendation}</p>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Popular items reach {report.thresholds.popularity.toFixed(1)}% of the menu mix. Profitable items earn at least
+              ${report.thresholds.contributionMargin.toFixed(2)} contribution margin, the sales-weighted average.
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Sold</TableHead>
+                  <TableHead className="text-right">Menu Mix</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Plate Cost</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Total Margin</TableHead>
+                  <TableHead>Class</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.items.map((item) => (
+                  <TableRow key={item.recipeId} title={item.recommendation}>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell>{item.category || '—'}</TableCell>
+                    <TableCell className="text-right">{item.quantitySold}</TableCell>
+                    <TableCell className="text-right">{item.menuMix.toFixed(1)}%</TableCell>
+                    <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${item.plateCost.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${item.contributionMargin.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${item.totalMargin.toFixed(2)}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="outline"
+                        style={{ borderColor: QUADRANTS[item.classification].color, color: QUADRANTS[item.classification].color }}
+                      >
+                        {QUADRANTS[item.classification].singular}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
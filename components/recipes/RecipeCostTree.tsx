@@ -0,0 +1,34 @@
+'use client';
+
+import type { RecipeCostNode } from '@/utils/calculations';
+
+interface RecipeCostTreeProps {
+  nodes: RecipeCostNode[];
+  depth?: number;
+}
+
+/**
+ * Shows where a recipe's cost comes from, with sub-recipes expanded into
+ * their own ingredients.
+ */
+export function RecipeCostTree({ nodes, depth = 0 }: RecipeCostTreeProps) {
+  return (
+    <ul className={depth > 0 ? 'ml-4 border-l pl-3' : ''}>
+      {nodes.map((node, index) => (
+        <li key={`${node.name}-${index}`} className="py-0.5">
+          <div className="flex justify-between gap-4 text-sm">
+            <span className={node.children.length > 0 ? 'font-medium' : ''}>
+              {node.name}{' '}
+              <span className="text-muted-foreground">
+                {Number(node.quantity.toFixed(3))} {node.unit}
+                {node.yieldPercentage < 100 && ` at ${node.yieldPercentage}% yield`}
+              </span>
+            </span>
+            <span>${node.cost.toFixed(2)}</span>
+          </div>
+          {node.children.length > 0 && <RecipeCostTree nodes={node.children} depth={depth + 1} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
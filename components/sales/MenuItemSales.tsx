@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface MenuItemSaleRow {
+  id: string;
+  date: string;
+  quantity: number;
+  recipe: { id: string; name: string };
+}
+
+interface SalesDepletionRow {
+  id: string;
+  source: 'IMPORT' | 'MANUAL';
+  status: 'POSTED' | 'REVERSED';
+  totalCost: number;
+  createdAt: string;
+  reversedAt: string | null;
+  saleCount: number;
+  portionsSold: number;
+  startDate: string | null;
+  endDate: string | null;
+  lines: { id: string; quantity: number; inventoryItem: { name: string; inventoryUnit: string } }[];
+}
+
+interface RecipeOption {
+  id: string;
+  name: string;
+}
+
+export function MenuItemSales() {
+  const [sales, setSales] = useState<MenuItemSaleRow[]>([]);
+  const [depletions, setDepletions] = useState<SalesDepletionRow[]>([]);
+  const [recipes, setRecipes] = useState<RecipeOption[]>([]);
+  const [recipeId, setRecipeId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function fetchData() {
+    setIsLoading(true);
+    try {
+      const [salesRes, recipesRes, depletionsRes] = await Promise.all([
+        fetch('/api/menu-sales'),
+        fetch('/api/recipes?limit=100&sortBy=name&sortOrder=asc'),
+        fetch('/api/sales-depletions'),
+      ]);
+      if (!salesRes.ok) throw new Error('Failed to fetch menu item sales');
+      if (!recipesRes.ok) throw new Error('Failed to fetch recipes');
+      if (!depletionsRes.ok) throw new Error('Failed to fetch inventory depletions');
+
+      const salesData = await salesRes.json();
+      const recipesData = await recipesRes.json();
+      const depletionsData = await depletionsRes.json();
+
+      setSales(salesData.data);
+      setRecipes(recipesData.data);
+      setDepletions(depletionsData.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    // The date input gives 'YYYY-MM-DD'; the API stores sales by UTC calendar day
+    const newSale = {
+      date: new Date(`${formData.get('date')}T00:00:00.000Z`).toISOString(),
+      recipeId,
+      quantity: parseInt(formData.get('quantity') as string, 10),
+    };
+
+    try {
+      const response = await fetch('/api/menu-sales', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newSale),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to record sale');
+      }
+      fetchData();
+      form.reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  async function handleReverse(depletion: SalesDepletionRow) {
+    if (!window.confirm('Roll back these sales and put the stock they used back into inventory?')) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/sales-depletions/${depletion.id}/reverse`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to roll back sales');
+      }
+      fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }
+
+  const formatDay = (date: string) => new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+  return (
+    <div className="grid gap-8 md:grid-cols-3">
+      <div className="md:col-span-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Menu Item Sales</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && <p>Loading...</p>}
+            {error && <p className="text-red-500">{error}</p>}
+            {!isLoading && !error && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Menu Item</TableHead>
+                    <TableHead className="text-right">Quantity Sold</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sales.map((sale) => (
+                    <TableRow key={sale.id}>
+                      <TableCell>{new Date(sale.date).toLocaleDateString(undefined, { timeZone: 'UTC' })}</TableCell>
+                      <TableCell>{sale.recipe.name}</TableCell>
+                      <TableCell className="text-right">{sale.quantity}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Inventory Depletions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {depletions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Sales recorded or imported will take their ingredients out of stock here.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recorded</TableHead>
+                    <TableHead>Sales Days</TableHead>
+                    <TableHead>Items Used</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {depletions.map((depletion) => (
+                    <TableRow key={depletion.id} className={depletion.status === 'REVERSED' ? 'text-muted-foreground line-through' : ''}>
+                      <TableCell>
+                        {new Date(depletion.createdAt).toLocaleString()}
+                        <div className="text-xs">{depletion.source === 'IMPORT' ? 'Import' : 'Manual entry'}</div>
+                      </TableCell>
+                      <TableCell>
+                        {depletion.startDate && depletion.endDate && (
+                          depletion.startDate === depletion.endDate
+                            ? formatDay(depletion.startDate)
+                            : `${formatDay(depletion.startDate)} – ${formatDay(depletion.endDate)}`
+                        )}
+                        <div className="text-xs">{depletion.portionsSold} portions</div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {depletion.lines.length === 0
+                          ? '—'
+                          : depletion.lines.slice(0, 3).map((line) => `${line.inventoryItem.name} ${line.quantity.toFixed(2)} ${line.inventoryItem.inventoryUnit}`).join(', ')}
+                        {depletion.lines.length > 3 && ` and ${depletion.lines.length - 3} more`}
+                      </TableCell>
+                      <TableCell className="text-right">${depletion.totalCost.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {depletion.status === 'POSTED' && (
+                          <Button size="sm" variant="outline" onClick={() => handleReverse(depletion)}>Roll Back</Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div>
+        <Card>
+          <CardHeader>
+            <CardTitle>Record Item Sales</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div><Label htmlFor="itemSaleDate">Date</Label><Input id="itemSaleDate" name="date" type="date" required /></div>
+              <div>
+                <Label htmlFor="recipeId">Menu Item</Label>
+                <Select value={recipeId} onValueChange={setRecipeId}>
+                  <SelectTrigger id="recipeId">
+                    <SelectValue placeholder="Select menu item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {recipes.map((recipe) => (
+                      <SelectItem key={recipe.id} value={recipe.id}>{recipe.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div><Label htmlFor="quantity">Quantity Sold</Label><Input id="quantity" name="quantity" type="number" min="0" step="1" required /></div>
+              <Button type="submit" className="w-full" disabled={!recipeId}>Record Sales</Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,151 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
-import { buttonVariants } from '@/components/ui/button';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { canAccess, type Role } from '@/lib/permissions';
 import {
   LayoutDashboard,
   Package,
+  ClipboardList,
+  Coins,
+  Trash2,
+  CalendarClock,
+  ShoppingCart,
+  Truck,
+  ArrowLeftRight,
+  Store,
+  Award,
   DollarSign,
   Users,
+  Contact,
+  CalendarDays,
+  HandCoins,
   Landmark,
   Receipt,
   BookCopy,
+  Scale,
+  Calculator,
+  UserCog,
+  LogOut,
 } from 'lucide-react';
 
 const navItems = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/dashboard/inventory', label: 'Inventory', icon: Package },
+  { href: '/dashboard/counts', label: 'Inventory Counts', icon: ClipboardList },
+  { href: '/dashboard/reorder', label: 'Order Guide', icon: ShoppingCart },
+  { href: '/dashboard/purchase-orders', label: 'Purchase Orders', icon: Truck },
+  { href: '/dashboard/transfers', label: 'Transfers', icon: ArrowLeftRight },
+  { href: '/dashboard/vendors', label: 'Vendors', icon: Store },
+  { href: '/dashboard/vendors/scorecards', label: 'Vendor Scorecards', icon: Award },
+  { href: '/dashboard/valuation', label: 'Inventory Valuation', icon: Coins },
+  { href: '/dashboard/expiring', label: 'Use First', icon: CalendarClock },
+  { href: '/dashboard/waste', label: 'Waste Log', icon: Trash2 },
   { href: '/dashboard/sales', label: 'Sales', icon: DollarSign },
   { href: '/dashboard/labor', label: 'Labor', icon: Users },
+  { href: '/dashboard/employees', label: 'Employees', icon: Contact },
+  { href: '/dashboard/schedule', label: 'Schedule', icon: CalendarDays },
+  { href: '/dashboard/tips', label: 'Tips', icon: HandCoins },
   { href: '/dashboard/loans', label: 'Loans', icon: Landmark },
   { href: '/dashboard/expenses', label: 'Expenses', icon: Receipt },
   { href: '/dashboard/recipes', label: 'Recipes', icon: BookCopy },
+  { href: '/dashboard/pricing', label: 'Price Simulator', icon: Calculator },
+  { href: '/dashboard/variance', label: 'Food Cost Variance', icon: Scale },
+  { href: '/dashboard/team', label: 'Team', icon: UserCog },
 ];
 
+interface RestaurantOption {
+  id: string;
+  name: string;
+}
+
+function RestaurantSwitcher() {
+  const [restaurants, setRestaurants] = useState<RestaurantOption[]>([]);
+  const [currentRestaurantId, setCurrentRestaurantId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRestaurants = async () => {
+      try {
+        const response = await fetch('/api/restaurants');
+        if (!response.ok) throw new Error('Failed to fetch restaurants');
+        const { data, currentRestaurantId } = await response.json();
+        setRestaurants(data);
+        setCurrentRestaurantId(currentRestaurantId);
+      } catch (err) {
+        console.error('Error fetching restaurants:', err);
+      }
+    };
+
+    fetchRestaurants();
+  }, []);
+
+  const handleChange = async (restaurantId: string) => {
+    try {
+      const response = await fetch('/api/restaurants/current', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ restaurantId }),
+      });
+      if (!response.ok) throw new Error('Failed to switch restaurant');
+      // Every page loads its data for the current restaurant on mount
+      window.location.reload();
+    } catch (err) {
+      console.error('Error switching restaurant:', err);
+    }
+  };
+
+  if (restaurants.length === 0) return null;
+
+  return (
+    <div className="mb-4 px-4">
+      <Select value={currentRestaurantId ?? undefined} onValueChange={handleChange}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select restaurant" />
+        </SelectTrigger>
+        <SelectContent>
+          {restaurants.map((restaurant) => (
+            <SelectItem key={restaurant.id} value={restaurant.id}>
+              {restaurant.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
 export function Sidebar() {
   const pathname = usePathname();
+  const [user, setUser] = useState<{ name: string; role: Role | null } | null>(null);
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        if (!response.ok) throw new Error('Failed to fetch current user');
+        const { data } = await response.json();
+        setUser(data);
+      } catch (err) {
+        console.error('Error fetching current user:', err);
+      }
+    };
+
+    fetchUser();
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    window.location.href = '/login';
+  };
+
+  // Hide pages the user's role cannot open; the middleware enforces the same rules
+  const visibleNavItems = navItems.filter(
+    (item) => !user?.role || canAccess(user.role, item.href)
+  );
 
   return (
     <div className="space-y-4 py-4">
@@ -33,8 +153,9 @@ export function Sidebar() {
         <h2 className="mb-2 px-4 text-lg font-semibold tracking-tight">
           Neon Nachos
         </h2>
+        <RestaurantSwitcher />
         <div className="space-y-1">
-          {navItems.map((item) => {
+          {visibleNavItems.map((item) => {
             const Icon = item.icon;
             return (
               <Link
@@ -51,6 +172,15 @@ export function Sidebar() {
             );
           })}
         </div>
+        {user && (
+          <div className="mt-6 border-t pt-4">
+            <p className="mb-2 px-4 text-sm text-muted-foreground">{user.name}</p>
+            <Button variant="ghost" className="w-full justify-start" onClick={handleSignOut}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -18,6 +18,17 @@ interface FinancialMetrics {
     name: string;
     quantity: number;
   }>;
+  waste?: {
+    totalCost: number;
+    byReason: Array<{ reason: string; cost: number }>;
+    topItems: Array<{ name: string; cost: number }>;
+  };
+  laborCompliance?: {
+    violations: number;
+    overtimeHours: number;
+    premiumPay: number;
+    projectedOvertime: Array<{ name: string; hours: number }>;
+  };
 }
 
 // Initialize OpenAI client as null - will be initialized on the server side
@@ -133,6 +144,17 @@ function createPrompt(data: FinancialMetrics): string {
     ${data.lowInventoryItems.map(i => `- ${i.name}: ${i.quantity} remaining`).join('\n    ')}
     ` : ''}
     
+    ${data.waste?.totalCost ? `
+    Logged Waste (last 30 days): $${data.waste.totalCost.toLocaleString()}
+    By reason: ${data.waste.byReason.map(r => `${r.reason.toLowerCase()} $${r.cost.toFixed(2)}`).join(', ')}
+    Most wasted: ${data.waste.topItems.map(i => `${i.name} ($${i.cost.toFixed(2)})`).join(', ')}
+    ` : ''}
+    
+    ${data.laborCompliance ? `
+    Labor This Week: ${data.laborCompliance.overtimeHours.toFixed(1)} overtime hours, $${data.laborCompliance.premiumPay.toFixed(2)} premium pay, ${data.laborCompliance.violations} labor law violations
+    ${data.laborCompliance.projectedOvertime.length ? `On pace for overtime: ${data.laborCompliance.projectedOvertime.map(e => `${e.name} (${e.hours.toFixed(1)} hours)`).join(', ')}` : ''}
+    ` : ''}
+    
     Based on this data, please provide 3-5 specific, actionable insights to improve profitability.
     Focus on:
     1. Cost reduction opportunities
@@ -170,9 +192,18 @@ function generateDefaultInsights(data: FinancialMetrics): string[] {
     insights.push(`• Revenue decreased by ${Math.abs(data.revenueChange)}% from last month. Investigate potential causes.`);
   }
   
+  // Overtime can still be avoided before the week closes
+  if (data.laborCompliance?.projectedOvertime.length) {
+    insights.push(`• ${data.laborCompliance.projectedOvertime.map(e => e.name).join(', ')} ${data.laborCompliance.projectedOvertime.length === 1 ? 'is' : 'are'} on pace for overtime this week. Adjust the remaining shifts to avoid premium pay.`);
+  }
+  
   // Add more default insights based on your needs
   insights.push('• Consider implementing daily specials to move inventory with lower turnover');
-  insights.push('• Review portion sizes and prep waste to reduce food costs');
+  if (data.waste?.totalCost && data.waste.topItems.length > 0) {
+    insights.push(`• $${data.waste.totalCost.toFixed(2)} of stock was wasted in the last 30 days, most of it ${data.waste.topItems[0].name}. Review prep levels and storage.`);
+  } else {
+    insights.push('• Review portion sizes and prep waste to reduce food costs');
+  }
   
   return insights.slice(0, 5); // Return max 5 insights
 }
@@ -0,0 +1,155 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import type { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isRole, type Role } from '@/lib/permissions';
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  signSessionToken,
+  verifySessionToken,
+  type SessionMembership,
+} from '@/lib/session';
+
+export interface CurrentUser {
+  id: string;
+  email: string;
+  name: string;
+  memberships: {
+    role: Role;
+    restaurant: { id: string; name: string };
+  }[];
+}
+
+/**
+ * Hashes a password with a random salt using scrypt.
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+/**
+ * Checks a password against a hash produced by hashPassword.
+ */
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [salt, hash] = passwordHash.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+async function getMemberships(userId: string): Promise<SessionMembership[]> {
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    orderBy: { restaurant: { createdAt: 'asc' } },
+    select: { restaurantId: true, role: true },
+  });
+
+  return memberships
+    .filter((m): m is { restaurantId: string; role: Role } => isRole(m.role))
+    .map(({ restaurantId, role }) => ({ restaurantId, role }));
+}
+
+/**
+ * Starts a session for a user and returns the signed cookie value.
+ */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000);
+  const [session, memberships] = await Promise.all([
+    prisma.session.create({ data: { userId, expiresAt } }),
+    getMemberships(userId),
+  ]);
+
+  const token = await signSessionToken({
+    sid: session.id,
+    uid: userId,
+    memberships,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Re-signs a session token with the user's memberships as they are now, so
+ * the middleware sees restaurants and roles changed since sign-in. Returns
+ * null when the token is not valid.
+ */
+export async function refreshSession(token: string): Promise<{ token: string; expiresAt: Date } | null> {
+  const payload = await verifySessionToken(token);
+  if (!payload) return null;
+
+  const memberships = await getMemberships(payload.uid);
+  return {
+    token: await signSessionToken({ ...payload, memberships }),
+    expiresAt: new Date(payload.exp * 1000),
+  };
+}
+
+/**
+ * Attaches a session token to a response as an HTTP-only cookie.
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Ends the session identified by a session cookie value.
+ */
+export async function destroySession(token: string): Promise<void> {
+  const payload = await verifySessionToken(token);
+  if (payload) {
+    await prisma.session.deleteMany({ where: { id: payload.sid } });
+  }
+}
+
+/**
+ * Resolves the signed-in user from the session cookie.
+ * Returns null when there is no valid, unexpired session on record.
+ */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const token = cookies().get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const payload = await verifySessionToken(token);
+  if (!payload) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    select: {
+      expiresAt: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          memberships: {
+            orderBy: { restaurant: { createdAt: 'asc' } },
+            select: {
+              role: true,
+              restaurant: { select: { id: true, name: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!session || session.expiresAt < new Date()) return null;
+
+  const { memberships, ...user } = session.user;
+  return {
+    ...user,
+    memberships: memberships.filter((m): m is CurrentUser['memberships'][number] => isRole(m.role)),
+  };
+}
@@ -0,0 +1,213 @@
+import type { InventoryItem, Prisma, PurchaseLot } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { allocateConsumption, type CostingMethod } from '@/utils/calculations';
+
+type CostedItem = Pick<InventoryItem, 'id' | 'quantity' | 'unitPrice' | 'purchasedAt' | 'restaurantId'>;
+
+async function findCostLayers(tx: Prisma.TransactionClient, inventoryItemId: string) {
+  return tx.purchaseLot.findMany({
+    where: { inventoryItemId, remainingQuantity: { gt: 0 } },
+    orderBy: [{ purchasedAt: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Makes sure an item's cost layers hold all of its stock. Stock recorded
+ * before cost layers were tracked, or added without a purchase, becomes an
+ * opening layer at the item's current unit price.
+ */
+export async function reconcileCostLayers(tx: Prisma.TransactionClient, item: CostedItem) {
+  const layers = await findCostLayers(tx, item.id);
+  const layered = layers.reduce((total, layer) => total + layer.remainingQuantity, 0);
+  const unlayered = item.quantity - layered;
+  if (unlayered <= 1e-9) return layers;
+
+  const openingLayer = await tx.purchaseLot.create({
+    data: {
+      inventoryItemId: item.id,
+      source: 'ADJUSTMENT',
+      quantity: unlayered,
+      remainingQuantity: unlayered,
+      unitPrice: item.unitPrice,
+      totalCost: unlayered * item.unitPrice,
+      purchasedAt: item.purchasedAt,
+    },
+  });
+  return [openingLayer, ...layers].sort((a, b) => a.purchasedAt.getTime() - b.purchasedAt.getTime());
+}
+
+/**
+ * Recalculates an item's inventory value from its remaining cost layers.
+ */
+export async function updateInventoryValue(tx: Prisma.TransactionClient, inventoryItemId: string) {
+  const layers = await findCostLayers(tx, inventoryItemId);
+  const totalCost = layers.reduce((total, layer) => total + layer.remainingQuantity * layer.unitPrice, 0);
+  await tx.inventoryItem.update({ where: { id: inventoryItemId }, data: { totalCost } });
+  return totalCost;
+}
+
+/**
+ * Takes stock out of an item's cost layers using the restaurant's costing
+ * method, reduces the item's quantity and revalues what remains.
+ * Returns the cost of the stock used. Consumptions made for a sales
+ * depletion are linked to it so they can be put back if it is reversed.
+ */
+export async function consumeInventory(
+  tx: Prisma.TransactionClient,
+  item: CostedItem,
+  quantity: number,
+  consumedAt: Date = new Date(),
+  salesDepletionId: string | null = null
+): Promise<number> {
+  const restaurant = await tx.restaurant.findUnique({
+    where: { id: item.restaurantId },
+    select: { costingMethod: true },
+  });
+  const layers = await reconcileCostLayers(tx, item);
+  const allocations = allocateConsumption(layers, quantity, (restaurant?.costingMethod ?? 'FIFO') as CostingMethod);
+
+  let cost = 0;
+  for (const allocation of allocations) {
+    cost += allocation.quantity * allocation.layer.unitPrice;
+    await tx.purchaseLot.update({
+      where: { id: allocation.layer.id },
+      data: { remainingQuantity: { decrement: allocation.quantity } },
+    });
+    await tx.lotConsumption.create({
+      data: {
+        purchaseLotId: allocation.layer.id,
+        quantity: allocation.quantity,
+        unitCost: allocation.layer.unitPrice,
+        consumedAt,
+        salesDepletionId,
+      },
+    });
+  }
+
+  await tx.inventoryItem.update({
+    where: { id: item.id },
+    data: { quantity: { decrement: quantity } },
+  });
+  await updateInventoryValue(tx, item.id);
+
+  return cost;
+}
+
+/**
+ * Takes stock out of one particular cost layer, e.g. an expired lot being
+ * thrown away, regardless of the restaurant's costing method. Reduces the
+ * item's quantity and revalues what remains. Returns the cost of the stock
+ * used, or null when the lot no longer holds what was read from it because
+ * something else took stock out of it first.
+ */
+export async function consumeLot(
+  tx: Prisma.TransactionClient,
+  lot: Pick<PurchaseLot, 'id' | 'inventoryItemId' | 'remainingQuantity' | 'unitPrice'>,
+  quantity: number,
+  consumedAt: Date = new Date()
+): Promise<number | null> {
+  // Bring any stock held outside the cost layers in first so revaluing keeps it
+  const item = await tx.inventoryItem.findUniqueOrThrow({ where: { id: lot.inventoryItemId } });
+  await reconcileCostLayers(tx, item);
+
+  const used = Math.min(quantity, lot.remainingQuantity);
+  const { count: claimed } = await tx.purchaseLot.updateMany({
+    where: { id: lot.id, remainingQuantity: lot.remainingQuantity },
+    data: { remainingQuantity: { decrement: used } },
+  });
+  if (claimed === 0) return null;
+  await tx.lotConsumption.create({
+    data: { purchaseLotId: lot.id, quantity: used, unitCost: lot.unitPrice, consumedAt },
+  });
+  await tx.inventoryItem.update({
+    where: { id: lot.inventoryItemId },
+    data: { quantity: { decrement: used } },
+  });
+  await updateInventoryValue(tx, lot.inventoryItemId);
+
+  return used * lot.unitPrice;
+}
+
+/**
+ * Sets an item's on-hand quantity, e.g. from a count or a manual edit.
+ * Shrinkage is consumed from the cost layers; extra stock becomes a new
+ * layer at the item's current unit price. Returns the value of the change,
+ * negative for shrinkage.
+ */
+export async function adjustInventoryQuantity(
+  tx: Prisma.TransactionClient,
+  item: CostedItem,
+  newQuantity: number,
+  adjustedAt: Date = new Date()
+): Promise<number> {
+  const difference = newQuantity - item.quantity;
+  if (difference < 0) {
+    return -(await consumeInventory(tx, item, -difference, adjustedAt));
+  }
+
+  await reconcileCostLayers(tx, item);
+  if (difference > 0) {
+    await tx.purchaseLot.create({
+      data: {
+        inventoryItemId: item.id,
+        source: 'ADJUSTMENT',
+        quantity: difference,
+        remainingQuantity: difference,
+        unitPrice: item.unitPrice,
+        totalCost: difference * item.unitPrice,
+        purchasedAt: adjustedAt,
+      },
+    });
+  }
+  await tx.inventoryItem.update({ where: { id: item.id }, data: { quantity: newQuantity } });
+  await updateInventoryValue(tx, item.id);
+  return difference * item.unitPrice;
+}
+
+/**
+ * Values a restaurant's inventory as it stood at the end of a given moment,
+ * from the cost layers received and consumed up to then. Items with no cost
+ * layers at all fall back to their current quantity and value.
+ */
+export async function getInventoryValuation(restaurantId: string, asOf: Date, category?: string) {
+  const items = await prisma.inventoryItem.findMany({
+    where: { restaurantId, ...(category && { category }) },
+    include: {
+      purchaseLots: {
+        where: { purchasedAt: { lte: asOf } },
+        include: { consumptions: { where: { consumedAt: { lte: asOf } } } },
+      },
+      _count: { select: { purchaseLots: true } },
+    },
+    orderBy: [{ category: 'asc' }, { name: 'asc' }],
+  });
+
+  return items.flatMap((item) => {
+    let quantity = 0;
+    let value = 0;
+    if (item._count.purchaseLots === 0) {
+      if (item.purchasedAt > asOf) return [];
+      quantity = item.quantity;
+      value = item.totalCost;
+    } else {
+      item.purchaseLots.forEach((lot) => {
+        const consumed = lot.consumptions.reduce((total, consumption) => total + consumption.quantity, 0);
+        const onHand = Math.max(lot.quantity - consumed, 0);
+        quantity += onHand;
+        value += onHand * lot.unitPrice;
+      });
+    }
+
+    if (quantity <= 1e-9) return [];
+    return [{
+      id: item.id,
+      sku: item.sku,
+      name: item.name,
+      category: item.category,
+      inventoryUnit: item.inventoryUnit,
+      quantity,
+      value,
+      averageUnitCost: value / quantity,
+    }];
+  });
+}
@@ -0,0 +1,219 @@
+import type { Prisma, SalesDepletion } from '@prisma/client';
+import { adjustInventoryQuantity, consumeInventory, updateInventoryValue } from '@/lib/costing';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+import type { LinkedRecipe } from '@/lib/recipes';
+import { calculateTheoreticalUsage } from '@/utils/calculations';
+
+export interface SaleQuantity {
+  recipeId: string;
+  date: Date; // Start of the UTC day
+  quantity: number;
+}
+
+const saleKey = (recipeId: string, date: Date) => `${recipeId}:${date.toISOString()}`;
+
+/**
+ * Records daily quantities sold and takes the ingredients of those sales out
+ * of stock, expanding sub-recipes and converting recipe units to each item's
+ * inventory unit. A day recorded again only depletes the difference from
+ * before, and returns stock if the quantity went down. Everything is kept on
+ * one depletion so it can be reversed together.
+ */
+export async function recordSalesDepletion(
+  tx: Prisma.TransactionClient,
+  restaurantId: string,
+  sales: SaleQuantity[],
+  recipeGraph: Map<string, LinkedRecipe>,
+  source: 'IMPORT' | 'MANUAL',
+  userId: string | null
+): Promise<SalesDepletion> {
+  const existingSales = await tx.menuItemSale.findMany({
+    where: {
+      restaurantId,
+      recipeId: { in: Array.from(new Set(sales.map((sale) => sale.recipeId))) },
+      date: { in: Array.from(new Set(sales.map((sale) => sale.date.getTime()))).map((time) => new Date(time)) },
+    },
+  });
+  const previousQuantities = new Map(existingSales.map((sale) => [saleKey(sale.recipeId, sale.date), sale.quantity]));
+
+  const depletion = await tx.salesDepletion.create({
+    data: {
+      source,
+      restaurantId,
+      sales: {
+        create: sales.map((sale) => ({
+          recipeId: sale.recipeId,
+          date: sale.date,
+          quantity: sale.quantity,
+          previousQuantity: previousQuantities.get(saleKey(sale.recipeId, sale.date)) ?? 0,
+        })),
+      },
+    },
+  });
+
+  for (const sale of sales) {
+    await tx.menuItemSale.upsert({
+      where: { recipeId_date: { recipeId: sale.recipeId, date: sale.date } },
+      create: { recipeId: sale.recipeId, date: sale.date, quantity: sale.quantity, restaurantId },
+      update: { quantity: sale.quantity },
+    });
+  }
+
+  // Stock is used on the day it was sold, so each day is depleted separately
+  const salesByDay = new Map<number, SaleQuantity[]>();
+  sales.forEach((sale) => {
+    salesByDay.set(sale.date.getTime(), [...(salesByDay.get(sale.date.getTime()) ?? []), sale]);
+  });
+
+  const lines = new Map<string, { quantity: number; cost: number }>();
+  for (const [day, daySales] of Array.from(salesByDay).sort(([a], [b]) => a - b)) {
+    const usage = calculateTheoreticalUsage(
+      daySales.map((sale) => {
+        const recipe = recipeGraph.get(sale.recipeId);
+        return {
+          quantitySold: sale.quantity - (previousQuantities.get(saleKey(sale.recipeId, sale.date)) ?? 0),
+          servingSize: recipe?.servingSize,
+          ingredients: recipe?.ingredients ?? [],
+        };
+      })
+    );
+
+    for (const [inventoryItemId, quantity] of Array.from(usage)) {
+      if (Math.abs(quantity) <= 1e-9) continue;
+      // Re-read the item so several days of one item stack correctly
+      const item = await tx.inventoryItem.findFirst({ where: { id: inventoryItemId, restaurantId } });
+      if (!item) continue;
+
+      let cost: number;
+      if (quantity > 0) {
+        cost = await consumeInventory(tx, item, quantity, new Date(day), depletion.id);
+      } else {
+        // Lower sales than recorded before put the stock back at the current price
+        await adjustInventoryQuantity(tx, item, item.quantity - quantity, new Date(day));
+        cost = quantity * item.unitPrice;
+      }
+      await recordInventoryTransaction(tx, {
+        inventoryItemId,
+        restaurantId,
+        type: 'SALE',
+        quantity: -quantity,
+        cost: -cost,
+        occurredAt: new Date(day),
+        userId,
+        sourceType: 'SalesDepletion',
+        sourceId: depletion.id,
+      });
+
+      const line = lines.get(inventoryItemId) ?? { quantity: 0, cost: 0 };
+      lines.set(inventoryItemId, { quantity: line.quantity + quantity, cost: line.cost + cost });
+    }
+  }
+
+  await tx.salesDepletionLine.createMany({
+    data: Array.from(lines, ([inventoryItemId, line]) => ({
+      inventoryItemId,
+      salesDepletionId: depletion.id,
+      ...line,
+    })),
+  });
+
+  return tx.salesDepletion.update({
+    where: { id: depletion.id },
+    data: { totalCost: Array.from(lines.values()).reduce((total, line) => total + line.cost, 0) },
+  });
+}
+
+/**
+ * Reverses a sales depletion: the quantities sold go back to what they were
+ * before it, stock it used goes back into the lots it came from, and stock
+ * it returned is used again. A depletion can only be reversed while no later
+ * one has changed the same days. Returns an error with its HTTP status if it
+ * cannot be reversed.
+ */
+export async function reverseSalesDepletion(
+  tx: Prisma.TransactionClient,
+  depletionId: string,
+  restaurantId: string,
+  userId: string | null
+): Promise<{ depletion: SalesDepletion } | { error: string; status: number }> {
+  const depletion = await tx.salesDepletion.findFirst({
+    where: { id: depletionId, restaurantId },
+    include: { sales: true, lines: true, consumptions: true },
+  });
+  if (!depletion) {
+    return { error: 'Sales depletion not found', status: 404 };
+  }
+  if (depletion.status === 'REVERSED') {
+    return { error: 'Sales depletion is already reversed', status: 409 };
+  }
+
+  const laterDepletion = await tx.salesDepletion.findFirst({
+    where: {
+      restaurantId,
+      status: 'POSTED',
+      createdAt: { gt: depletion.createdAt },
+      sales: {
+        some: { OR: depletion.sales.map((sale) => ({ recipeId: sale.recipeId, date: sale.date })) },
+      },
+    },
+    select: { id: true },
+  });
+  if (laterDepletion) {
+    return { error: 'A later sales entry changed the same days; reverse it first', status: 409 };
+  }
+
+  // Claim the depletion so two reversals at once cannot both restore the stock
+  const reversedAt = new Date();
+  const { count: claimed } = await tx.salesDepletion.updateMany({
+    where: { id: depletion.id, restaurantId, status: 'POSTED' },
+    data: { status: 'REVERSED', reversedAt },
+  });
+  if (claimed === 0) {
+    return { error: 'Sales depletion is already reversed', status: 409 };
+  }
+
+  for (const sale of depletion.sales) {
+    if (sale.previousQuantity === 0) {
+      await tx.menuItemSale.deleteMany({ where: { recipeId: sale.recipeId, date: sale.date } });
+    } else {
+      await tx.menuItemSale.update({
+        where: { recipeId_date: { recipeId: sale.recipeId, date: sale.date } },
+        data: { quantity: sale.previousQuantity },
+      });
+    }
+  }
+
+  for (const consumption of depletion.consumptions) {
+    await tx.purchaseLot.update({
+      where: { id: consumption.purchaseLotId },
+      data: { remainingQuantity: { increment: consumption.quantity } },
+    });
+  }
+  await tx.lotConsumption.deleteMany({ where: { salesDepletionId: depletion.id } });
+
+  for (const line of depletion.lines) {
+    let cost = line.cost;
+    if (line.quantity > 0) {
+      await tx.inventoryItem.update({
+        where: { id: line.inventoryItemId },
+        data: { quantity: { increment: line.quantity } },
+      });
+      await updateInventoryValue(tx, line.inventoryItemId);
+    } else {
+      const item = await tx.inventoryItem.findUniqueOrThrow({ where: { id: line.inventoryItemId } });
+      cost = -(await consumeInventory(tx, item, -line.quantity));
+    }
+    await recordInventoryTransaction(tx, {
+      inventoryItemId: line.inventoryItemId,
+      restaurantId,
+      type: 'SALE_REVERSAL',
+      quantity: line.quantity,
+      cost,
+      userId,
+      sourceType: 'SalesDepletion',
+      sourceId: depletion.id,
+    });
+  }
+
+  return { depletion: await tx.salesDepletion.findUniqueOrThrow({ where: { id: depletion.id } }) };
+}
@@ -0,0 +1,55 @@
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  updatedAt: Date;
+}
+
+// Dates are written in UTC so calendar apps show them in the viewer's timezone
+function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Commas, semicolons and backslashes are special in text values
+function escapeICalText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 characters are continued on lines starting with a space
+function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return parts.join('\r\n ');
+}
+
+/**
+ * Renders events as an iCalendar file that calendar apps can import or
+ * subscribe to. Re-importing a newer file updates events with the same uid
+ * instead of adding them again.
+ */
+export function renderICalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Neon Nachos Finance Tracker//Schedules//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+    ...events.flatMap((event) => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatICalDate(event.updatedAt)}`,
+      `DTSTART:${formatICalDate(event.start)}`,
+      `DTEND:${formatICalDate(event.end)}`,
+      `SUMMARY:${escapeICalText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeICalText(event.description)}`] : []),
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,31 @@
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Loads a count with its count sheet lines, ordered by category and item
+ * name. Returns null if the count does not belong to the restaurant.
+ */
+export async function findInventoryCount(id: string, restaurantId: string) {
+  return prisma.inventoryCount.findFirst({
+    where: { id, restaurantId },
+    include: {
+      lines: {
+        include: {
+          inventoryItem: {
+            select: {
+              name: true,
+              sku: true,
+              category: true,
+              storageLocation: true,
+              quantity: true,
+              inventoryUnit: true,
+            },
+          },
+        },
+        orderBy: [
+          { inventoryItem: { category: 'asc' } },
+          { inventoryItem: { name: 'asc' } },
+        ],
+      },
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import type { Prisma } from '@prisma/client';
+
+export const INVENTORY_TRANSACTION_TYPES = [
+  'OPENING',
+  'PURCHASE',
+  'RECEIPT',
+  'ADJUSTMENT',
+  'COUNT',
+  'WASTE',
+  'SALE',
+  'SALE_REVERSAL',
+  'TRANSFER_OUT',
+  'TRANSFER_IN',
+] as const;
+
+export type InventoryTransactionType = (typeof INVENTORY_TRANSACTION_TYPES)[number];
+
+export interface InventoryTransactionInput {
+  inventoryItemId: string;
+  restaurantId: string;
+  type: InventoryTransactionType;
+  quantity: number; // Negative when stock goes out
+  cost: number; // Negative when stock goes out
+  occurredAt?: Date;
+  userId?: string | null;
+  sourceType?: string;
+  sourceId?: string;
+  notes?: string;
+}
+
+/**
+ * Adds a change to an item's on-hand quantity to the inventory ledger. Call
+ * it after the item has been updated so the balance after the change is
+ * recorded, along with the item's name and SKU so the entry still reads
+ * after the item is deleted. Changes of nothing are skipped.
+ */
+export async function recordInventoryTransaction(tx: Prisma.TransactionClient, entry: InventoryTransactionInput) {
+  if (Math.abs(entry.quantity) <= 1e-9) return null;
+
+  const item = await tx.inventoryItem.findUniqueOrThrow({
+    where: { id: entry.inventoryItemId },
+    select: { quantity: true, name: true, sku: true },
+  });
+  return tx.inventoryTransaction.create({
+    data: {
+      ...entry,
+      quantityAfter: item.quantity,
+      itemName: item.name,
+      itemSku: item.sku,
+      occurredAt: entry.occurredAt ?? new Date(),
+    },
+  });
+}
@@ -0,0 +1,357 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { startOfUtcDay } from '@/lib/utils';
+import {
+  DAYPARTS,
+  LABOR_RULE_DEFAULTS,
+  LABOR_TARGET_DEFAULTS,
+  WEEKDAYS,
+  calculateAverageHourlyWage,
+  calculateLaborPercentage,
+  calculateSalesPerLaborHour,
+  calculateShiftPay,
+  classifyStaffing,
+  countedSaleEntries,
+  daypartForHour,
+  evaluateLaborRules,
+  spreadShiftOverHours,
+  startOfWorkweek,
+  type LaborRules,
+  type LaborTargets,
+  type Weekday,
+} from '@/utils/calculations';
+
+export interface ShiftInput {
+  employeeId: string;
+  positionId?: string | null; // Defaults to the employee's usual position
+  date?: Date; // Business day; defaults to the day clocked in
+  clockIn: Date;
+  clockOut: Date | null;
+  breakMinutes: number;
+  hourlyRate?: number; // Defaults to the employee's rate
+  notes?: string | null;
+}
+
+/**
+ * Fills in a shift's position and pay rate from the employee unless they are
+ * given, and works out its paid hours and wages. Returns an error with its
+ * HTTP status if the employee or position is not the restaurant's, or the
+ * shift overlaps another of the employee's shifts.
+ */
+export async function resolveShift(
+  input: ShiftInput,
+  restaurantId: string,
+  shiftId?: string
+): Promise<{ shift: Prisma.ShiftUncheckedCreateInput } | { error: string; status: number }> {
+  const employee = await prisma.employee.findFirst({ where: { id: input.employeeId, restaurantId } });
+  if (!employee) {
+    return { error: 'Employee not found', status: 404 };
+  }
+
+  const positionId = input.positionId === undefined ? employee.positionId : input.positionId;
+  if (positionId) {
+    const position = await prisma.position.findFirst({ where: { id: positionId, restaurantId }, select: { id: true } });
+    if (!position) {
+      return { error: 'Position not found', status: 404 };
+    }
+  }
+
+  // An open shift runs until it is clocked out, so it overlaps anything after it starts
+  const overlapping = await prisma.shift.findFirst({
+    where: {
+      employeeId: employee.id,
+      ...(shiftId && { id: { not: shiftId } }),
+      OR: [{ clockOut: null }, { clockOut: { gt: input.clockIn } }],
+      ...(input.clockOut && { clockIn: { lt: input.clockOut } }),
+    },
+    select: { id: true },
+  });
+  if (overlapping) {
+    return { error: `${employee.name} already has a shift at that time`, status: 409 };
+  }
+
+  const hourlyRate = input.hourlyRate ?? employee.hourlyRate;
+  return {
+    shift: {
+      employeeId: employee.id,
+      positionId,
+      date: startOfUtcDay(input.date ?? input.clockIn),
+      clockIn: input.clockIn,
+      clockOut: input.clockOut,
+      breakMinutes: input.breakMinutes,
+      hourlyRate,
+      notes: input.notes ?? null,
+      ...calculateShiftPay({ ...input, hourlyRate }),
+      restaurantId,
+    },
+  };
+}
+
+// Milliseconds in a day, for ranges of business days
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rebuilds a day's labor totals from its shifts, so reports and the
+ * dashboard see shift-level time as daily totals. Shifts still clocked in
+ * are left out until they are clocked out. Totals entered by hand for a day
+ * that has shifts are replaced, so the day is not counted twice.
+ */
+export async function syncLaborEntry(tx: Prisma.TransactionClient, restaurantId: string, date: Date) {
+  const [shifts, existing] = await Promise.all([
+    tx.shift.findMany({
+      where: { restaurantId, date, clockOut: { not: null } },
+      select: { employeeId: true, hours: true, wages: true },
+    }),
+    tx.laborEntry.findFirst({ where: { restaurantId, date, source: 'SHIFTS' } }),
+  ]);
+
+  if (shifts.length === 0) {
+    if (existing) await tx.laborEntry.delete({ where: { id: existing.id } });
+    return null;
+  }
+
+  await tx.laborEntry.deleteMany({
+    where: { restaurantId, source: 'MANUAL', date: { gte: date, lt: new Date(date.getTime() + DAY_MS) } },
+  });
+
+  const totals = {
+    totalHours: shifts.reduce((total, shift) => total + shift.hours, 0),
+    totalWages: shifts.reduce((total, shift) => total + shift.wages, 0),
+    employees: new Set(shifts.map((shift) => shift.employeeId)).size,
+  };
+  return existing
+    ? tx.laborEntry.update({ where: { id: existing.id }, data: totals })
+    : tx.laborEntry.create({ data: { ...totals, date, source: 'SHIFTS', restaurantId } });
+}
+
+/**
+ * Returns the restaurant's labor rules, or the federal preset if it has not
+ * chosen any yet.
+ */
+export async function getLaborRules(restaurantId: string): Promise<LaborRules & { preset: string }> {
+  const ruleSet = await prisma.laborRuleSet.findUnique({ where: { restaurantId } });
+  return ruleSet ?? { preset: 'FEDERAL', ...LABOR_RULE_DEFAULTS.FEDERAL };
+}
+
+/**
+ * Checks the workweek containing `weekOf` against the restaurant's labor
+ * rules: each employee's overtime and premium pay so far, the overtime they
+ * are headed for with the shifts still on the week's schedule, and any
+ * minimum wage or meal break violations.
+ */
+export async function getLaborCompliance(restaurantId: string, weekOf: Date, now = new Date()) {
+  const rules = await getLaborRules(restaurantId);
+  const weekStart = startOfWorkweek(weekOf, rules.weekStartsOn);
+  const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+
+  const [shifts, scheduled] = await Promise.all([
+    prisma.shift.findMany({
+      where: { restaurantId, date: { gte: weekStart, lte: weekEnd } },
+      include: {
+        employee: { select: { id: true, name: true } },
+        position: { select: { tipped: true } },
+      },
+    }),
+    prisma.scheduledShift.findMany({
+      where: { schedule: { restaurantId, weekStart } },
+      include: { employee: { select: { id: true, name: true } } },
+    }),
+  ]);
+  const names = new Map([...shifts, ...scheduled].map((shift) => [shift.employeeId, shift.employee.name]));
+
+  const { employees, violations } = evaluateLaborRules(
+    shifts.map((shift) => ({ ...shift, tipped: shift.position?.tipped ?? false })),
+    rules,
+    now,
+    scheduled
+  );
+
+  const byEmployee = employees
+    .map((employee) => ({ ...employee, employeeName: names.get(employee.employeeId) ?? '' }))
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+
+  return {
+    weekStart,
+    weekEnd,
+    rules,
+    employees: byEmployee,
+    violations: violations.map((violation) => ({
+      ...violation,
+      employeeName: names.get(violation.employeeId) ?? '',
+    })),
+    summary: {
+      overtimeHours: byEmployee.reduce((total, employee) => total + employee.overtimeHours + employee.doubleTimeHours, 0),
+      premiumPay: byEmployee.reduce((total, employee) => total + employee.premiumPay, 0),
+      projectedOvertimeHours: byEmployee.reduce((total, employee) => total + employee.projectedOvertimeHours, 0),
+    },
+  };
+}
+
+/**
+ * Returns the restaurant's labor efficiency targets, or the defaults if it
+ * has not set any yet.
+ */
+export async function getLaborTargets(restaurantId: string): Promise<LaborTargets> {
+  const target = await prisma.laborTarget.findUnique({ where: { restaurantId } });
+  return target ?? LABOR_TARGET_DEFAULTS;
+}
+
+// The efficiency figures reported for any slice of sales and labor
+function measureEfficiency(netSales: number, laborHours: number, laborWages: number) {
+  return {
+    netSales,
+    laborHours,
+    laborWages,
+    salesPerLaborHour: calculateSalesPerLaborHour(netSales, laborHours),
+    laborPercentage: calculateLaborPercentage(laborWages, netSales),
+    averageHourlyWage: calculateAverageHourlyWage(laborWages, laborHours),
+  };
+}
+
+/**
+ * Measures how well labor matched sales between two business days: sales
+ * per labor hour (SPLH), labor % and average hourly wage by day, daypart
+ * and position, and a heatmap by weekday and hour of when the restaurant
+ * was understaffed or overstaffed against its targets.
+ *
+ * Days use the daily labor totals, and the sales recorded by the hour on days
+ * that have some, otherwise the daily sales. Dayparts and hours need sales
+ * recorded by the hour, so they only count days that have some, and are read
+ * in `timeZone`. Positions are measured against all sales in the range.
+ */
+export async function getLaborEfficiency(restaurantId: string, startDate: Date, endDate: Date, timeZone?: string) {
+  const from = startOfUtcDay(startDate);
+  const until = new Date(startOfUtcDay(endDate).getTime() + DAY_MS);
+
+  const [targets, sales, labor, shifts] = await Promise.all([
+    getLaborTargets(restaurantId),
+    prisma.saleEntry.findMany({
+      where: { restaurantId, date: { gte: from, lt: until } },
+      select: { date: true, netSales: true, hourStartsAt: true },
+    }),
+    prisma.laborEntry.findMany({
+      where: { restaurantId, date: { gte: from, lt: until } },
+      select: { date: true, totalHours: true, totalWages: true },
+    }),
+    prisma.shift.findMany({
+      where: { restaurantId, date: { gte: from, lt: until }, clockOut: { not: null } },
+      include: { position: { select: { id: true, name: true } } },
+    }),
+  ]);
+
+  const days = new Map<number, { netSales: number; laborHours: number; laborWages: number }>();
+  const dayFor = (date: Date) => {
+    const key = startOfUtcDay(date).getTime();
+    const day = days.get(key) ?? { netSales: 0, laborHours: 0, laborWages: 0 };
+    days.set(key, day);
+    return day;
+  };
+  const daySales = countedSaleEntries(sales);
+  daySales.forEach((sale) => {
+    dayFor(sale.date).netSales += sale.netSales;
+  });
+  labor.forEach((entry) => {
+    const day = dayFor(entry.date);
+    day.laborHours += entry.totalHours;
+    day.laborWages += entry.totalWages;
+  });
+
+  // Local weekday and hour of an instant, e.g. { weekday: 'FRI', hour: 18 }
+  const hourFormat = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+  const localHour = (date: Date) => {
+    const parts = hourFormat.formatToParts(date);
+    return {
+      weekday: (parts.find((part) => part.type === 'weekday')?.value ?? '').toUpperCase() as Weekday,
+      hour: Number(parts.find((part) => part.type === 'hour')?.value ?? 0),
+    };
+  };
+
+  const hourlyDays = new Set(
+    sales.filter((sale) => sale.hourStartsAt).map((sale) => startOfUtcDay(sale.date).getTime())
+  );
+  const hours = new Map<string, { weekday: Weekday; hour: number; netSales: number; laborHours: number; laborWages: number }>();
+  const hourFor = (date: Date) => {
+    const { weekday, hour } = localHour(date);
+    const key = `${weekday}:${hour}`;
+    const cell = hours.get(key) ?? { weekday, hour, netSales: 0, laborHours: 0, laborWages: 0 };
+    hours.set(key, cell);
+    return cell;
+  };
+  sales.forEach((sale) => {
+    if (sale.hourStartsAt) hourFor(sale.hourStartsAt).netSales += sale.netSales;
+  });
+  shifts.forEach(({ clockOut, ...shift }) => {
+    if (!clockOut || !hourlyDays.has(shift.date.getTime())) return;
+    spreadShiftOverHours({ ...shift, clockOut }).forEach((slice) => {
+      const cell = hourFor(slice.hourStartsAt);
+      cell.laborHours += slice.hours;
+      cell.laborWages += slice.wages;
+    });
+  });
+
+  const dayparts = DAYPARTS.map(({ name, startHour, endHour }) => {
+    const cells = Array.from(hours.values()).filter((cell) => daypartForHour(cell.hour) === name);
+    const netSales = cells.reduce((total, cell) => total + cell.netSales, 0);
+    const laborHours = cells.reduce((total, cell) => total + cell.laborHours, 0);
+    return {
+      name,
+      startHour,
+      endHour,
+      ...measureEfficiency(netSales, laborHours, cells.reduce((total, cell) => total + cell.laborWages, 0)),
+      status: classifyStaffing(netSales, laborHours, targets),
+    };
+  });
+
+  const totalSales = daySales.reduce((total, sale) => total + sale.netSales, 0);
+  const positions = new Map<string, { positionId: string | null; positionName: string; hours: number; wages: number }>();
+  shifts.forEach((shift) => {
+    const key = shift.position?.id ?? '';
+    const position = positions.get(key) ?? {
+      positionId: shift.position?.id ?? null,
+      positionName: shift.position?.name ?? 'No position',
+      hours: 0,
+      wages: 0,
+    };
+    position.hours += shift.hours;
+    position.wages += shift.wages;
+    positions.set(key, position);
+  });
+
+  const dayRows = Array.from(days.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, day]) => ({
+      date: new Date(key),
+      ...measureEfficiency(day.netSales, day.laborHours, day.laborWages),
+      status: classifyStaffing(day.netSales, day.laborHours, targets),
+    }));
+  const laborHours = dayRows.reduce((total, day) => total + day.laborHours, 0);
+
+  return {
+    targets,
+    days: dayRows,
+    dayparts,
+    positions: Array.from(positions.values())
+      .map(({ positionId, positionName, hours, wages }) => ({
+        positionId,
+        positionName,
+        ...measureEfficiency(totalSales, hours, wages),
+      }))
+      .sort((a, b) => b.laborHours - a.laborHours),
+    heatmap: Array.from(hours.values())
+      .sort((a, b) => WEEKDAYS.indexOf(a.weekday) - WEEKDAYS.indexOf(b.weekday) || a.hour - b.hour)
+      .map((cell) => ({
+        ...cell,
+        salesPerLaborHour: calculateSalesPerLaborHour(cell.netSales, cell.laborHours),
+        status: classifyStaffing(cell.netSales, cell.laborHours, targets),
+      })),
+    summary: {
+      ...measureEfficiency(
+        totalSales,
+        laborHours,
+        dayRows.reduce((total, day) => total + day.laborWages, 0)
+      ),
+      status: classifyStaffing(totalSales, laborHours, targets),
+      hourlyDays: hourlyDays.size,
+    },
+  };
+}
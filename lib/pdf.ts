@@ -0,0 +1,88 @@
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const FONT_SIZE = 9;
+const LEADING = 12;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LEADING);
+
+// Courier characters are 0.6 em wide, so this many fit across the page
+export const PDF_LINE_WIDTH = Math.floor((PAGE_WIDTH - MARGIN * 2) / (FONT_SIZE * 0.6));
+
+export interface PdfColumn {
+  text: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Lays out one row of a fixed-width table, padding or truncating each cell
+ * to its column width.
+ */
+export function formatPdfRow(columns: PdfColumn[]): string {
+  return columns
+    .map(({ text, width, align = 'left' }) => {
+      const cell = text.length > width ? `${text.slice(0, width - 1)}~` : text;
+      return align === 'right' ? cell.padStart(width) : cell.padEnd(width);
+    })
+    .join(' ');
+}
+
+function escapePdfText(text: string): string {
+  // The built-in fonts only cover printable ASCII reliably
+  return text.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1');
+}
+
+/**
+ * Renders lines of text as a PDF document in a monospaced font, starting a
+ * new page whenever one fills up. Enough for order sheets and schedules
+ * without pulling in a PDF library. The document is plain ASCII, so it can
+ * be sent as a string body.
+ */
+export function renderTextPdf(lines: string[]): string {
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // Objects 1-3 are the catalog, page tree and font; each page adds a page
+  // object followed by its content stream
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  const objects: string[] = [
+    '',
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((pageLines, i) => {
+    const content = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map((line) => `(${escapePdfText(line)}) '`),
+      'ET',
+    ].join('\n');
+
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets.push(pdf.length);
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+}
@@ -0,0 +1,53 @@
+export const ROLES = ['OWNER', 'MANAGER', 'BOOKKEEPER', 'STAFF'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+interface RoutePermission {
+  path: string;
+  methods?: string[];
+  roles: readonly Role[];
+}
+
+const ALL_ROLES = ROLES;
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Checked top to bottom; the first rule matching the path and method wins.
+// A path ending in "/" only matches the routes below it.
+const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { path: '/api/loans', roles: ['OWNER'] },
+  { path: '/dashboard/loans', roles: ['OWNER'] },
+  { path: '/api/users', roles: ['OWNER'] },
+  { path: '/dashboard/team', roles: ['OWNER'] },
+  { path: '/api/inventory/', methods: ['DELETE'], roles: ['OWNER'] },
+  { path: '/api/expenses', roles: ['OWNER', 'MANAGER', 'BOOKKEEPER'] },
+  { path: '/dashboard/expenses', roles: ['OWNER', 'MANAGER', 'BOOKKEEPER'] },
+  { path: '/api/restaurants/settings', methods: WRITE_METHODS, roles: ['OWNER'] },
+  { path: '/api/labor/rules', methods: WRITE_METHODS, roles: ['OWNER'] },
+  { path: '/api/restaurants', roles: ALL_ROLES },
+  // Reports are read-only even though some take their parameters as a POST body
+  { path: '/api/reports', roles: ALL_ROLES },
+  // Read-only staff can look but not change anything
+  { path: '/api', methods: WRITE_METHODS, roles: ['OWNER', 'MANAGER', 'BOOKKEEPER'] },
+];
+
+function matchesPath(pathname: string, path: string): boolean {
+  if (path.endsWith('/')) return pathname.startsWith(path);
+  return pathname === path || pathname.startsWith(`${path}/`);
+}
+
+/**
+ * Checks whether a role may access a dashboard page or API route.
+ * Routes without a matching rule are open to every member of the restaurant.
+ */
+export function canAccess(role: Role, pathname: string, method = 'GET'): boolean {
+  const rule = ROUTE_PERMISSIONS.find(
+    (permission) =>
+      matchesPath(pathname, permission.path) &&
+      (!permission.methods || permission.methods.includes(method.toUpperCase()))
+  );
+  return rule ? rule.roles.includes(role) : true;
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
@@ -0,0 +1,75 @@
+import { prisma } from '@/lib/prisma';
+import { loadRecipeGraph } from '@/lib/recipes';
+import {
+  calculatePlateCost,
+  simulatePriceChange,
+  type MenuItemProjection,
+  type PriceAdjustment,
+} from '@/utils/calculations';
+
+// Sales over this many days before the end date are the baseline volume
+const BASELINE_DAYS = 30;
+
+function sumProjections(projections: MenuItemProjection[]) {
+  const revenue = projections.reduce((total, p) => total + p.revenue, 0);
+  const foodCost = projections.reduce((total, p) => total + p.foodCost, 0);
+  return {
+    quantitySold: projections.reduce((total, p) => total + p.quantitySold, 0),
+    revenue,
+    foodCost,
+    foodCostPercentage: revenue > 0 ? (foodCost / revenue) * 100 : 0,
+    contributionMargin: revenue - foodCost,
+  };
+}
+
+/**
+ * Projects a price change over a set of menu items, using each item's
+ * current plate cost and its sales over the baseline period.
+ * Returns null if any recipe is not a priced menu item of the restaurant.
+ */
+export async function runPriceSimulation(
+  restaurantId: string,
+  recipeIds: string[],
+  adjustment: PriceAdjustment,
+  endDate: Date = new Date()
+) {
+  const startDate = new Date(endDate.getTime() - BASELINE_DAYS * 24 * 60 * 60 * 1000);
+
+  const [graph, itemSales] = await Promise.all([
+    loadRecipeGraph(restaurantId),
+    prisma.menuItemSale.groupBy({
+      by: ['recipeId'],
+      _sum: { quantity: true },
+      where: { restaurantId, recipeId: { in: recipeIds }, date: { gte: startDate, lte: endDate } },
+    }),
+  ]);
+
+  const recipes = recipeIds.map((id) => graph.get(id));
+  if (recipes.some((recipe) => !recipe || recipe.fixedPrice === null)) return null;
+
+  const quantitySold = new Map(itemSales.map((sale) => [sale.recipeId, sale._sum.quantity || 0]));
+  const items = recipes.map((recipe) => {
+    const menuItem = recipe!;
+    const plateCost = calculatePlateCost(menuItem);
+    return {
+      recipeId: menuItem.id,
+      name: menuItem.name,
+      category: menuItem.category,
+      plateCost,
+      ...simulatePriceChange(
+        { price: menuItem.fixedPrice as number, plateCost, quantitySold: quantitySold.get(menuItem.id) || 0 },
+        adjustment
+      ),
+    };
+  });
+
+  return {
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    items,
+    totals: {
+      current: sumProjections(items.map((item) => item.current)),
+      projected: sumProjections(items.map((item) => item.projected)),
+    },
+  };
+}
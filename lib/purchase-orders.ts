@@ -0,0 +1,115 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { summarizeOrderLine } from '@/utils/calculations';
+import { getConversionFactor } from '@/utils/units';
+
+export interface PurchaseOrderLineInput {
+  inventoryItemId: string;
+  quantityOrdered: number;
+  unit?: string;
+  unitPrice?: number;
+}
+
+/**
+ * Loads a purchase order with its lines and receipts, and works out what has
+ * been received against each line. Returns null if the order does not belong
+ * to the restaurant.
+ */
+export async function findPurchaseOrder(id: string, restaurantId: string) {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id, restaurantId },
+    include: {
+      vendor: true,
+      lines: {
+        include: {
+          inventoryItem: {
+            select: { name: true, sku: true, inventoryUnit: true, purchaseUnit: true },
+          },
+          receiptLines: { select: { quantity: true, unitPrice: true } },
+        },
+        orderBy: { inventoryItem: { name: 'asc' } },
+      },
+      receipts: {
+        include: { lines: true },
+        orderBy: { receivedAt: 'asc' },
+      },
+    },
+  });
+  if (!order) return null;
+
+  const isClosed = order.closedAt !== null;
+  const lines = order.lines.map(({ receiptLines, ...line }) => ({
+    ...line,
+    ...summarizeOrderLine(line, receiptLines, isClosed),
+  }));
+
+  return {
+    ...order,
+    lines,
+    summary: {
+      orderedTotal: lines.reduce((total, line) => total + line.quantityOrdered * line.unitPrice, 0),
+      receivedTotal: order.receipts.reduce(
+        (total, receipt) => total + receipt.lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0),
+        0
+      ),
+      shortLines: lines.filter((line) => line.status === 'SHORT').length,
+      priceDiscrepancies: lines.filter((line) => line.hasPriceDiscrepancy).length,
+    },
+  };
+}
+
+/**
+ * Returns the next purchase order number for a restaurant, e.g. "PO-00042".
+ * Numbers follow the highest one issued, so deleting a draft never makes a
+ * number come round again.
+ */
+export async function nextPurchaseOrderNumber(tx: Prisma.TransactionClient, restaurantId: string) {
+  // Zero-padded numbers sort in issue order
+  const latest = await tx.purchaseOrder.findFirst({
+    where: { restaurantId },
+    orderBy: { number: 'desc' },
+    select: { number: true },
+  });
+  const lastNumber = latest ? parseInt(latest.number.replace(/^PO-/, ''), 10) || 0 : 0;
+  return `PO-${String(lastNumber + 1).padStart(5, '0')}`;
+}
+
+/**
+ * Fills in each line's unit and price from its inventory item: lines are
+ * ordered in the item's purchase unit unless another is given, at the item's
+ * latest price. Returns an error with its HTTP status if an item is missing
+ * or a unit does not convert to the item's inventory unit.
+ */
+export async function resolvePurchaseOrderLines(
+  lines: PurchaseOrderLineInput[],
+  restaurantId: string
+): Promise<
+  | { lines: { inventoryItemId: string; quantityOrdered: number; unit: string; unitPrice: number }[] }
+  | { error: string; status: number }
+> {
+  const itemIds = Array.from(new Set(lines.map((line) => line.inventoryItemId)));
+  const items = await prisma.inventoryItem.findMany({
+    where: { id: { in: itemIds }, restaurantId },
+    include: { unitConversions: true },
+  });
+  if (items.length !== itemIds.length) {
+    return { error: 'Inventory item not found', status: 404 };
+  }
+
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const resolved = [];
+  for (const line of lines) {
+    const item = itemsById.get(line.inventoryItemId)!;
+    const unit = line.unit ?? item.purchaseUnit ?? item.inventoryUnit;
+    const factor = getConversionFactor(unit, item.inventoryUnit, item.unitConversions);
+    if (factor === null) {
+      return { error: `No conversion from ${unit} to ${item.inventoryUnit} for ${item.name}`, status: 400 };
+    }
+
+    // The item's price is per inventory unit, so scale it to the order unit
+    const unitPrice = line.unitPrice ?? item.unitPrice * factor;
+    resolved.push({ inventoryItemId: item.id, quantityOrdered: line.quantityOrdered, unit, unitPrice });
+  }
+
+  return { lines: resolved };
+}
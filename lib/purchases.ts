@@ -0,0 +1,86 @@
+import type { InventoryItem, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { reconcileCostLayers, updateInventoryValue } from '@/lib/costing';
+import { classifyExpiry } from '@/utils/calculations';
+
+export interface PurchaseInput {
+  quantity: number; // In the item's inventory unit
+  unitPrice: number; // Per inventory unit
+  vendorId?: string | null;
+  lotNumber?: string | null;
+  purchasedAt: Date;
+  expiresAt?: Date | null;
+  source?: 'PURCHASE' | 'TRANSFER';
+}
+
+/**
+ * Records a delivery of an existing inventory item as a new purchase lot and
+ * cost layer, and adds it to the item's stock. The item's unit price, vendor
+ * and purchase date follow the most recent purchase, so back-dated
+ * deliveries only add stock and history.
+ */
+export async function recordPurchase(
+  tx: Prisma.TransactionClient,
+  item: Pick<InventoryItem, 'id' | 'quantity' | 'unitPrice' | 'vendorId' | 'purchasedAt' | 'restaurantId'>,
+  purchase: PurchaseInput
+) {
+  // Stock transferred in keeps the item's vendor but is not bought from it
+  const vendorId = purchase.source === 'TRANSFER' ? null : purchase.vendorId || item.vendorId;
+  const totalCost = purchase.quantity * purchase.unitPrice;
+  const isLatest = purchase.purchasedAt >= item.purchasedAt;
+
+  await reconcileCostLayers(tx, item);
+  const lot = await tx.purchaseLot.create({
+    data: {
+      inventoryItemId: item.id,
+      source: purchase.source ?? 'PURCHASE',
+      quantity: purchase.quantity,
+      remainingQuantity: purchase.quantity,
+      unitPrice: purchase.unitPrice,
+      totalCost,
+      vendorId,
+      lotNumber: purchase.lotNumber ?? null,
+      purchasedAt: purchase.purchasedAt,
+      expiresAt: purchase.expiresAt ?? null,
+    },
+  });
+
+  await tx.inventoryItem.update({
+    where: { id: item.id },
+    data: {
+      quantity: { increment: purchase.quantity },
+      ...(isLatest && { unitPrice: purchase.unitPrice, purchasedAt: purchase.purchasedAt, ...(vendorId && { vendorId }) }),
+    },
+  });
+  await updateInventoryValue(tx, item.id);
+
+  return lot;
+}
+
+/**
+ * Lists a restaurant's lots that still have stock and have expired or expire
+ * within the warning window, soonest first, so the oldest stock is used
+ * first.
+ */
+export async function getExpiringLots(restaurantId: string, warningDays: number, now: Date = new Date()) {
+  const windowEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + warningDays + 1);
+  const lots = await prisma.purchaseLot.findMany({
+    where: {
+      remainingQuantity: { gt: 0 },
+      expiresAt: { lt: windowEnd },
+      inventoryItem: { restaurantId },
+    },
+    include: {
+      inventoryItem: { select: { id: true, name: true, sku: true, inventoryUnit: true, storageLocation: true } },
+      vendor: { select: { id: true, name: true } },
+    },
+    orderBy: [{ expiresAt: 'asc' }, { purchasedAt: 'asc' }],
+  });
+
+  return lots.map((lot) => ({
+    ...lot,
+    ...classifyExpiry(lot.expiresAt as Date, now, warningDays),
+    value: lot.remainingQuantity * lot.unitPrice,
+  }));
+}
+
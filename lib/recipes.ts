@@ -0,0 +1,135 @@
+import type { InventoryItem, Recipe, RecipeIngredient, UnitConversion } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { canConvert } from '@/utils/units';
+
+export type LinkedRecipe = Recipe & {
+  ingredients: (RecipeIngredient & {
+    inventoryItem: (InventoryItem & { unitConversions: UnitConversion[] }) | null;
+    subRecipe: LinkedRecipe | null;
+  })[];
+};
+
+export interface RecipeIngredientInput {
+  inventoryItemId?: string;
+  subRecipeId?: string;
+  quantityUsed: number;
+  unit: string;
+  yieldPercentage?: number;
+}
+
+/**
+ * Loads every recipe of a restaurant with its ingredients, linking
+ * sub-recipe ingredients to the recipe objects they refer to so costs can
+ * be rolled up recursively. Keyed by recipe id.
+ */
+export async function loadRecipeGraph(restaurantId: string): Promise<Map<string, LinkedRecipe>> {
+  const recipes = await prisma.recipe.findMany({
+    where: { restaurantId },
+    include: {
+      ingredients: {
+        include: {
+          inventoryItem: { include: { unitConversions: true } },
+        },
+      },
+    },
+  });
+
+  const graph = new Map<string, LinkedRecipe>(
+    recipes.map((recipe) => [
+      recipe.id,
+      { ...recipe, ingredients: recipe.ingredients.map((ingredient) => ({ ...ingredient, subRecipe: null })) },
+    ])
+  );
+
+  graph.forEach((recipe) => {
+    recipe.ingredients.forEach((ingredient) => {
+      if (ingredient.subRecipeId) {
+        ingredient.subRecipe = graph.get(ingredient.subRecipeId) ?? null;
+      }
+    });
+  });
+
+  return graph;
+}
+
+/**
+ * Checks whether using the given sub-recipes in a recipe would make the
+ * recipe (directly or indirectly) an ingredient of itself.
+ */
+export function createsRecipeCycle(
+  recipeId: string | null,
+  subRecipeIds: string[],
+  graph: Map<string, LinkedRecipe>
+): boolean {
+  if (!recipeId) return false;
+
+  const visited = new Set<string>();
+  const stack = [...subRecipeIds];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (id === recipeId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    graph.get(id)?.ingredients.forEach((ingredient) => {
+      if (ingredient.subRecipeId) stack.push(ingredient.subRecipeId);
+    });
+  }
+  return false;
+}
+
+/**
+ * Validates a recipe's ingredients before they are saved: every inventory
+ * item and sub-recipe must belong to the restaurant, every unit must convert
+ * to the unit the ingredient is costed in, and no sub-recipe may lead back to
+ * the recipe being saved. Returns an error with its HTTP status, or null.
+ */
+export async function validateRecipeIngredients(
+  ingredients: RecipeIngredientInput[],
+  restaurantId: string,
+  recipeId: string | null = null
+): Promise<{ error: string; status: number } | null> {
+  const inventoryItemIds = Array.from(
+    new Set(ingredients.flatMap((ing) => (ing.inventoryItemId ? [ing.inventoryItemId] : [])))
+  );
+  const subRecipeIds = Array.from(
+    new Set(ingredients.flatMap((ing) => (ing.subRecipeId ? [ing.subRecipeId] : [])))
+  );
+
+  const [items, graph] = await Promise.all([
+    prisma.inventoryItem.findMany({
+      where: { id: { in: inventoryItemIds }, restaurantId },
+      select: { id: true, name: true, inventoryUnit: true, unitConversions: true },
+    }),
+    loadRecipeGraph(restaurantId),
+  ]);
+
+  if (items.length !== inventoryItemIds.length) {
+    return { error: 'Inventory item not found', status: 404 };
+  }
+  if (subRecipeIds.some((id) => !graph.has(id))) {
+    return { error: 'Sub-recipe not found', status: 404 };
+  }
+
+  if (createsRecipeCycle(recipeId, subRecipeIds, graph)) {
+    return { error: 'A recipe cannot use itself as an ingredient, directly or through its sub-recipes', status: 400 };
+  }
+
+  // Recipe quantities are costed in each item's inventory unit or each sub-recipe's yield unit
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  for (const ing of ingredients) {
+    if (ing.inventoryItemId) {
+      const item = itemsById.get(ing.inventoryItemId)!;
+      if (!canConvert(ing.unit, item.inventoryUnit, item.unitConversions)) {
+        return { error: `No conversion from ${ing.unit} to ${item.inventoryUnit} for ${item.name}`, status: 400 };
+      }
+    } else if (ing.subRecipeId) {
+      const subRecipe = graph.get(ing.subRecipeId)!;
+      if (!canConvert(ing.unit, subRecipe.yieldUnit)) {
+        return { error: `No conversion from ${ing.unit} to ${subRecipe.yieldUnit} for ${subRecipe.name}`, status: 400 };
+      }
+    }
+  }
+
+  return null;
+}
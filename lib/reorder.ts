@@ -0,0 +1,96 @@
+import { prisma } from '@/lib/prisma';
+import { calculateSuggestedOrderQuantity, needsReorder } from '@/utils/calculations';
+import { getConversionFactor } from '@/utils/units';
+
+export interface ReorderOptions {
+  // Days of recent usage to average; 0 leaves usage out
+  usageDays?: number;
+  // Days until an order placed today arrives
+  leadTimeDays?: number;
+}
+
+/**
+ * Lists the items of a restaurant that need reordering with a suggested
+ * order quantity, rounded up to whole purchase units (e.g. cases) when the
+ * item has a purchase unit, grouped by vendor.
+ */
+export async function getReorderSuggestions(restaurantId: string, { usageDays = 0, leadTimeDays = 0 }: ReorderOptions = {}) {
+  const since = new Date(Date.now() - usageDays * 24 * 60 * 60 * 1000);
+
+  const [items, consumptions] = await Promise.all([
+    prisma.inventoryItem.findMany({
+      where: {
+        restaurantId,
+        OR: [{ reorderPoint: { not: null } }, { parLevel: { not: null } }],
+      },
+      include: { unitConversions: true, vendor: true },
+      orderBy: { name: 'asc' },
+    }),
+    usageDays > 0
+      ? prisma.lotConsumption.findMany({
+          where: { consumedAt: { gte: since }, purchaseLot: { inventoryItem: { restaurantId } } },
+          select: { quantity: true, purchaseLot: { select: { inventoryItemId: true } } },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const usage = new Map<string, number>();
+  consumptions.forEach((consumption) => {
+    const itemId = consumption.purchaseLot.inventoryItemId;
+    usage.set(itemId, (usage.get(itemId) ?? 0) + consumption.quantity);
+  });
+
+  const suggestions = items.filter(needsReorder).map((item) => {
+    const averageDailyUsage = usageDays > 0 ? (usage.get(item.id) ?? 0) / usageDays : 0;
+    const suggestedQuantity = calculateSuggestedOrderQuantity(item, averageDailyUsage, leadTimeDays);
+
+    // Order whole cases when the item is bought by the case
+    const unitsPerPurchaseUnit = item.purchaseUnit
+      ? getConversionFactor(item.purchaseUnit, item.inventoryUnit, item.unitConversions)
+      : null;
+    const purchaseQuantity = unitsPerPurchaseUnit ? Math.ceil(suggestedQuantity / unitsPerPurchaseUnit) : null;
+    const orderQuantity = purchaseQuantity !== null && unitsPerPurchaseUnit
+      ? purchaseQuantity * unitsPerPurchaseUnit
+      : suggestedQuantity;
+
+    return {
+      id: item.id,
+      sku: item.sku,
+      name: item.name,
+      category: item.category,
+      vendorId: item.vendorId,
+      vendor: item.vendor?.name ?? null,
+      inventoryUnit: item.inventoryUnit,
+      purchaseUnit: unitsPerPurchaseUnit ? item.purchaseUnit : null,
+      quantity: item.quantity,
+      parLevel: item.parLevel,
+      reorderPoint: item.reorderPoint,
+      averageDailyUsage,
+      suggestedQuantity,
+      purchaseQuantity,
+      orderQuantity,
+      unitPrice: item.unitPrice,
+      estimatedCost: orderQuantity * item.unitPrice,
+    };
+  });
+
+  const vendorsById = new Map(items.flatMap((item) => (item.vendor ? [[item.vendor.id, item.vendor] as const] : [])));
+  const vendors = new Map<string | null, typeof suggestions>();
+  suggestions
+    .filter((suggestion) => suggestion.orderQuantity > 0)
+    .forEach((suggestion) => {
+      vendors.set(suggestion.vendorId, [...(vendors.get(suggestion.vendorId) ?? []), suggestion]);
+    });
+
+  return Array.from(vendors, ([vendorId, vendorItems]) => {
+    const vendor = vendorId ? vendorsById.get(vendorId) : undefined;
+    return {
+      vendorId,
+      vendor: vendor?.name ?? 'No vendor',
+      deliveryDays: vendor?.deliveryDays ?? [],
+      orderMinimum: vendor?.orderMinimum ?? null,
+      items: vendorItems,
+      estimatedCost: vendorItems.reduce((total, item) => total + item.estimatedCost, 0),
+    };
+  }).sort((a, b) => a.vendor.localeCompare(b.vendor));
+}
@@ -0,0 +1,31 @@
+import { cookies } from 'next/headers';
+import { getCurrentUser } from '@/lib/auth';
+import type { Role } from '@/lib/permissions';
+import { RESTAURANT_COOKIE, SESSION_COOKIE, selectMembership, verifySessionToken } from '@/lib/session';
+
+/**
+ * Resolves the restaurant for the current request: the one the middleware
+ * authorized from the session token, as long as the user is still a member
+ * with the same role. A stale token resolves to no restaurant, so a role
+ * that was changed or removed since sign-in is never acted on.
+ */
+export async function getCurrentRestaurant(): Promise<{ id: string; name: string; role: Role } | null> {
+  const user = await getCurrentUser();
+  const token = cookies().get(SESSION_COOKIE)?.value;
+  const session = token ? await verifySessionToken(token) : null;
+  if (!user || !session) return null;
+
+  const authorized = selectMembership(session.memberships, cookies().get(RESTAURANT_COOKIE)?.value);
+  const membership = user.memberships.find((m) => m.restaurant.id === authorized?.restaurantId);
+  if (!authorized || !membership || membership.role !== authorized.role) return null;
+
+  return { ...membership.restaurant, role: membership.role };
+}
+
+/**
+ * Returns the id of the current restaurant, or null if the user has none.
+ */
+export async function getCurrentRestaurantId(): Promise<string | null> {
+  const restaurant = await getCurrentRestaurant();
+  return restaurant?.id ?? null;
+}
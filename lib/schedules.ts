@@ -0,0 +1,200 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getLaborRules } from '@/lib/labor';
+import { startOfUtcDay } from '@/lib/utils';
+import {
+  calculateLaborPercentage,
+  calculateShiftPay,
+  compareScheduleToActual,
+  countedSaleEntries,
+  evaluateLaborRules,
+  forecastWeekSales,
+  startOfWorkweek,
+} from '@/utils/calculations';
+
+export interface ScheduledShiftInput {
+  employeeId: string;
+  positionId?: string | null; // Defaults to the employee's usual position
+  date: Date; // Business day
+  startsAt: Date;
+  endsAt: Date;
+  breakMinutes: number;
+  hourlyRate?: number; // Defaults to the employee's rate
+  notes?: string | null;
+}
+
+// Weeks of past sales the forecast is averaged over
+const FORECAST_WEEKS = 4;
+
+// Milliseconds in a day, for stepping through the week
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fills in a scheduled shift's position and pay rate from the employee
+ * unless they are given, and works out its planned hours and wages. Returns
+ * an error with its HTTP status if the employee or position is not the
+ * restaurant's, or the employee is already scheduled at that time.
+ */
+export async function resolveScheduledShift(
+  input: ScheduledShiftInput,
+  restaurantId: string,
+  shiftId?: string
+): Promise<
+  { shift: Omit<Prisma.ScheduledShiftUncheckedCreateInput, 'scheduleId'> } | { error: string; status: number }
+> {
+  const employee = await prisma.employee.findFirst({ where: { id: input.employeeId, restaurantId } });
+  if (!employee) {
+    return { error: 'Employee not found', status: 404 };
+  }
+
+  const positionId = input.positionId === undefined ? employee.positionId : input.positionId;
+  if (positionId) {
+    const position = await prisma.position.findFirst({ where: { id: positionId, restaurantId }, select: { id: true } });
+    if (!position) {
+      return { error: 'Position not found', status: 404 };
+    }
+  }
+
+  const overlapping = await prisma.scheduledShift.findFirst({
+    where: {
+      employeeId: employee.id,
+      ...(shiftId && { id: { not: shiftId } }),
+      startsAt: { lt: input.endsAt },
+      endsAt: { gt: input.startsAt },
+    },
+    select: { id: true },
+  });
+  if (overlapping) {
+    return { error: `${employee.name} is already scheduled at that time`, status: 409 };
+  }
+
+  const hourlyRate = input.hourlyRate ?? employee.hourlyRate;
+  return {
+    shift: {
+      employeeId: employee.id,
+      positionId,
+      date: startOfUtcDay(input.date),
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      breakMinutes: input.breakMinutes,
+      hourlyRate,
+      notes: input.notes ?? null,
+      ...calculateShiftPay({
+        clockIn: input.startsAt,
+        clockOut: input.endsAt,
+        breakMinutes: input.breakMinutes,
+        hourlyRate,
+      }),
+    },
+  };
+}
+
+/**
+ * Returns the schedule for the workweek containing `date`, starting one if
+ * there is none yet. A published schedule goes back to draft, as the caller
+ * is about to change it.
+ */
+export async function openScheduleForDay(tx: Prisma.TransactionClient, restaurantId: string, date: Date) {
+  const { weekStartsOn } = await getLaborRules(restaurantId);
+  const weekStart = startOfWorkweek(date, weekStartsOn);
+  return tx.schedule.upsert({
+    where: { restaurantId_weekStart: { restaurantId, weekStart } },
+    create: { restaurantId, weekStart },
+    update: { status: 'DRAFT' },
+  });
+}
+
+/**
+ * Loads the schedule for the workweek containing `weekOf` as the builder
+ * shows it: the planned shifts, the week's sales forecast by day, the
+ * projected labor cost and labor percentage including overtime premiums,
+ * and how the hours planned compare with the hours worked so far. The week
+ * has no schedule id until its first shift is added.
+ */
+export async function getScheduleWeek(restaurantId: string, weekOf: Date) {
+  const rules = await getLaborRules(restaurantId);
+  const weekStart = startOfWorkweek(weekOf, rules.weekStartsOn);
+  const weekEnd = new Date(weekStart.getTime() + 6 * DAY_MS);
+
+  const [schedule, history, worked] = await Promise.all([
+    prisma.schedule.findUnique({
+      where: { restaurantId_weekStart: { restaurantId, weekStart } },
+      include: {
+        shifts: {
+          include: {
+            employee: { select: { id: true, name: true } },
+            position: { select: { id: true, name: true, tipped: true } },
+          },
+          orderBy: { startsAt: 'asc' },
+        },
+      },
+    }),
+    prisma.saleEntry.findMany({
+      where: {
+        restaurantId,
+        date: { gte: new Date(weekStart.getTime() - FORECAST_WEEKS * 7 * DAY_MS), lt: weekStart },
+      },
+      select: { date: true, hourStartsAt: true, netSales: true },
+    }),
+    prisma.shift.findMany({
+      where: { restaurantId, date: { gte: weekStart, lte: weekEnd }, clockOut: { not: null } },
+      include: { employee: { select: { id: true, name: true } } },
+    }),
+  ]);
+
+  const shifts = schedule?.shifts ?? [];
+  const forecast = forecastWeekSales(countedSaleEntries(history), weekStart, schedule?.forecastSales ?? null);
+
+  // Premiums are worked out as if the whole week had been worked as planned
+  const { employees } = evaluateLaborRules(
+    shifts.map((shift) => ({
+      ...shift,
+      clockIn: shift.startsAt,
+      clockOut: shift.endsAt,
+      tipped: shift.position?.tipped ?? false,
+    })),
+    rules,
+    new Date(weekStart.getTime() + 7 * DAY_MS)
+  );
+
+  const scheduledWages = shifts.reduce((total, shift) => total + shift.wages, 0);
+  const premiumPay = employees.reduce((total, employee) => total + employee.premiumPay, 0);
+  const forecastSales = forecast.reduce((total, day) => total + day.forecast, 0);
+
+  const names = new Map([...shifts, ...worked].map((shift) => [shift.employeeId, shift.employee.name]));
+  const comparison = compareScheduleToActual(shifts, worked)
+    .map((row) => ({ ...row, employeeName: names.get(row.employeeId) ?? '' }))
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+
+  return {
+    id: schedule?.id ?? null,
+    status: schedule?.status ?? 'DRAFT',
+    publishedAt: schedule?.publishedAt ?? null,
+    forecastOverride: schedule?.forecastSales ?? null,
+    weekStart,
+    weekEnd,
+    shifts,
+    days: forecast.map((day) => {
+      const dayShifts = shifts.filter((shift) => shift.date.getTime() === day.date.getTime());
+      const wages = dayShifts.reduce((total, shift) => total + shift.wages, 0);
+      return {
+        date: day.date,
+        forecastSales: day.forecast,
+        hours: dayShifts.reduce((total, shift) => total + shift.hours, 0),
+        wages,
+        laborPercentage: calculateLaborPercentage(wages, day.forecast),
+      };
+    }),
+    comparison,
+    summary: {
+      scheduledHours: shifts.reduce((total, shift) => total + shift.hours, 0),
+      scheduledWages,
+      premiumPay,
+      laborCost: scheduledWages + premiumPay,
+      forecastSales,
+      laborPercentage: calculateLaborPercentage(scheduledWages + premiumPay, forecastSales),
+      actualHours: worked.reduce((total, shift) => total + shift.hours, 0),
+      actualWages: worked.reduce((total, shift) => total + shift.wages, 0),
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import type { Role } from '@/lib/permissions';
+
+// This module is shared with the edge middleware, so it must not import
+// Prisma or any Node-only APIs.
+
+// Cookie holding the signed session token
+export const SESSION_COOKIE = 'session';
+
+// Cookie holding the restaurant the current session is working in
+export const RESTAURANT_COOKIE = 'restaurantId';
+
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+export interface SessionMembership {
+  restaurantId: string;
+  role: Role;
+}
+
+/**
+ * Claims carried by the session cookie. Memberships are captured at login so
+ * the middleware can authorize requests without a database round trip. They
+ * are refreshed when the user switches restaurant; requests whose role no
+ * longer matches the database are refused until then.
+ */
+export interface SessionPayload {
+  sid: string;
+  uid: string;
+  memberships: SessionMembership[];
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not set');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Signs session claims into a cookie-safe token.
+ */
+export async function signSessionToken(payload: SessionPayload): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a session token and returns its claims, or null when the token
+ * is malformed, tampered with or expired.
+ */
+export async function verifySessionToken(token: string): Promise<SessionPayload | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!isValid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionPayload;
+    return payload.exp * 1000 > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Picks the membership for the selected restaurant, or the user's first
+ * restaurant when none is selected. A selected restaurant the session has no
+ * membership for gets none, so a role is never borrowed from another
+ * restaurant.
+ */
+export function selectMembership(
+  memberships: SessionMembership[],
+  restaurantId?: string | null
+): SessionMembership | null {
+  if (restaurantId) {
+    return memberships.find((m) => m.restaurantId === restaurantId) ?? null;
+  }
+  return memberships[0] ?? null;
+}
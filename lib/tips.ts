@@ -0,0 +1,129 @@
+import { prisma } from '@/lib/prisma';
+import { startOfUtcDay } from '@/lib/utils';
+import { allocateTips, countedSaleEntries, type ServiceArea, type TipPoolMethod } from '@/utils/calculations';
+
+export interface TipPoolPositionInput {
+  positionId: string;
+  points: number;
+  area: ServiceArea;
+}
+
+// Milliseconds in a day, for ranges of business days
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks that every position in a tip pool belongs to the restaurant.
+ * Returns an error with its HTTP status, or null.
+ */
+export async function validateTipPoolPositions(
+  positions: TipPoolPositionInput[],
+  restaurantId: string
+): Promise<{ error: string; status: number } | null> {
+  const positionIds = Array.from(new Set(positions.map((position) => position.positionId)));
+  const found = await prisma.position.count({ where: { id: { in: positionIds }, restaurantId } });
+  if (found !== positionIds.length) {
+    return { error: 'Position not found', status: 404 };
+  }
+  return null;
+}
+
+/**
+ * Loads one of the restaurant's tip pools with the positions that share in it.
+ */
+export async function findTipPool(id: string, restaurantId: string) {
+  return prisma.tipPool.findFirst({
+    where: { id, restaurantId },
+    include: {
+      positions: {
+        include: { position: { select: { id: true, name: true } } },
+        orderBy: { position: { name: 'asc' } },
+      },
+    },
+  });
+}
+
+/**
+ * Works out each employee's tips for a pay period under a tip pool. Each
+ * day's tips from sales are shared among the shifts worked that day, so
+ * what each employee gets, plus anything left undistributed on days nobody
+ * in the pool worked, adds up to the tips collected.
+ */
+export async function getTipDistribution(
+  pool: { method: string; backOfHouseShare: number | null; positions: { positionId: string; points: number; area: string }[] },
+  restaurantId: string,
+  startDate: Date,
+  endDate: Date
+) {
+  const from = startOfUtcDay(startDate);
+  const until = new Date(startOfUtcDay(endDate).getTime() + DAY_MS);
+
+  const [sales, shifts] = await Promise.all([
+    prisma.saleEntry.findMany({
+      where: { restaurantId, date: { gte: from, lt: until } },
+      select: { date: true, hourStartsAt: true, tips: true },
+    }),
+    prisma.shift.findMany({
+      where: { restaurantId, date: { gte: from, lt: until }, clockOut: { not: null } },
+      include: { employee: { select: { id: true, name: true } } },
+    }),
+  ]);
+
+  const tipsByDay = new Map<number, number>();
+  countedSaleEntries(sales).forEach((sale) => {
+    const key = startOfUtcDay(sale.date).getTime();
+    tipsByDay.set(key, (tipsByDay.get(key) ?? 0) + sale.tips);
+  });
+
+  const rules = {
+    method: pool.method as TipPoolMethod,
+    backOfHouseShare: pool.backOfHouseShare,
+    positions: pool.positions.map(({ positionId, points, area }) => ({ positionId, points, area: area as ServiceArea })),
+  };
+  const names = new Map(shifts.map((shift) => [shift.employeeId, shift.employee.name]));
+  const employees = new Map<string, { employeeId: string; hours: number; tips: number; days: number }>();
+
+  const days = Array.from(tipsByDay.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, tips]) => {
+      const { allocations, distributed, undistributed } = allocateTips(
+        tips,
+        shifts.filter((shift) => shift.date.getTime() === key),
+        rules
+      );
+      allocations.forEach((allocation) => {
+        const employee = employees.get(allocation.employeeId) ?? {
+          employeeId: allocation.employeeId,
+          hours: 0,
+          tips: 0,
+          days: 0,
+        };
+        employee.hours += allocation.hours;
+        employee.tips += allocation.tips;
+        employee.days += 1;
+        employees.set(allocation.employeeId, employee);
+      });
+      return { date: new Date(key), tips, distributed, undistributed, employees: allocations.length };
+    });
+
+  // Sums are kept in cents so the report reconciles to the penny
+  const sumCents = (values: number[]) => values.reduce((total, value) => total + Math.round(value * 100), 0) / 100;
+
+  return {
+    startDate: from,
+    endDate: new Date(until.getTime() - DAY_MS),
+    employees: Array.from(employees.values())
+      .map((employee) => ({
+        ...employee,
+        tips: Math.round(employee.tips * 100) / 100,
+        employeeName: names.get(employee.employeeId) ?? '',
+      }))
+      .sort((a, b) => a.employeeName.localeCompare(b.employeeName)),
+    days,
+    summary: {
+      totalTips: sumCents(days.map((day) => day.tips)),
+      distributedTips: sumCents(days.map((day) => day.distributed)),
+      undistributedTips: sumCents(days.map((day) => day.undistributed)),
+      hours: Array.from(employees.values()).reduce((total, employee) => total + employee.hours, 0),
+    },
+  };
+}
@@ -0,0 +1,329 @@
+import type { InventoryItem, InventoryTransfer, InventoryTransferLine, Prisma, UnitConversion } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { consumeInventory } from '@/lib/costing';
+import { recordPurchase } from '@/lib/purchases';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+import { summarizeTransferLine } from '@/utils/calculations';
+import { getConversionFactor } from '@/utils/units';
+
+export interface TransferLineInput {
+  inventoryItemId: string;
+  quantity: number; // In the sending item's inventory unit
+}
+
+export interface TransferReceiptInput {
+  lineId: string;
+  quantityReceived: number; // In the sending item's inventory unit
+  toItemId?: string;
+  discrepancyNote?: string;
+}
+
+type SentItem = InventoryItem & { unitConversions: UnitConversion[] };
+
+export type ReceivableTransfer = InventoryTransfer & {
+  fromRestaurant: { name: string };
+  lines: (InventoryTransferLine & { fromItem: SentItem })[];
+};
+
+export interface ResolvedTransferReceipt {
+  line: ReceivableTransfer['lines'][number];
+  toItemId: string | null; // Null when the receiver has no matching item yet
+  quantityReceived: number;
+  discrepancyNote: string | null;
+  factor: number; // Receiving item's inventory units per sending item's inventory unit
+}
+
+/**
+ * Loads a transfer the restaurant sent or received, with its lines and any
+ * discrepancies found on receipt. Returns null if the transfer belongs to
+ * neither side.
+ */
+export async function findTransfer(id: string, restaurantId: string) {
+  const transfer = await prisma.inventoryTransfer.findFirst({
+    where: { id, OR: [{ fromRestaurantId: restaurantId }, { toRestaurantId: restaurantId }] },
+    include: {
+      fromRestaurant: { select: { id: true, name: true } },
+      toRestaurant: { select: { id: true, name: true } },
+      lines: {
+        include: {
+          fromItem: { select: { id: true, name: true, sku: true, inventoryUnit: true } },
+          toItem: { select: { id: true, name: true, sku: true, inventoryUnit: true } },
+        },
+        orderBy: { fromItem: { name: 'asc' } },
+      },
+    },
+  });
+  if (!transfer) return null;
+
+  const lines = transfer.lines.map((line) => ({ ...line, ...summarizeTransferLine(line) }));
+
+  return {
+    ...transfer,
+    direction: transfer.fromRestaurantId === restaurantId ? 'OUT' : 'IN',
+    lines,
+    summary: {
+      sentValue: lines.reduce((total, line) => total + line.quantitySent * line.unitCost, 0),
+      receivedValue: lines.reduce((total, line) => total + (line.quantityReceived ?? 0) * line.unitCost, 0),
+      discrepancies: lines.filter((line) => line.hasDiscrepancy).length,
+      discrepancyValue: lines.reduce((total, line) => total + line.discrepancyValue, 0),
+    },
+  };
+}
+
+/**
+ * Returns the next transfer number for the sending restaurant, e.g. "TR-00042".
+ * Numbers follow the highest one issued, so a number never comes round again.
+ */
+export async function nextTransferNumber(tx: Prisma.TransactionClient, restaurantId: string) {
+  // Zero-padded numbers sort in issue order
+  const latest = await tx.inventoryTransfer.findFirst({
+    where: { fromRestaurantId: restaurantId },
+    orderBy: { number: 'desc' },
+    select: { number: true },
+  });
+  const lastNumber = latest ? parseInt(latest.number.replace(/^TR-/, ''), 10) || 0 : 0;
+  return `TR-${String(lastNumber + 1).padStart(5, '0')}`;
+}
+
+/**
+ * Sends stock to another restaurant. Each line is taken out of the sender's
+ * inventory at cost under its costing method, and is matched by SKU to the
+ * receiver's item, which can still be changed when it is received.
+ */
+export async function sendTransfer(
+  tx: Prisma.TransactionClient,
+  transfer: { fromRestaurantId: string; toRestaurantId: string; notes?: string; sentAt: Date },
+  lines: TransferLineInput[],
+  userId: string | null
+) {
+  const created = await tx.inventoryTransfer.create({
+    data: { ...transfer, number: await nextTransferNumber(tx, transfer.fromRestaurantId) },
+  });
+
+  for (const line of lines) {
+    // Re-read the item so repeated lines for one item stack correctly
+    const item = await tx.inventoryItem.findFirstOrThrow({
+      where: { id: line.inventoryItemId, restaurantId: transfer.fromRestaurantId },
+    });
+    const match = await tx.inventoryItem.findUnique({
+      where: { restaurantId_sku: { restaurantId: transfer.toRestaurantId, sku: item.sku } },
+      select: { id: true },
+    });
+
+    const cost = await consumeInventory(tx, item, line.quantity, transfer.sentAt);
+    await tx.inventoryTransferLine.create({
+      data: {
+        transferId: created.id,
+        fromItemId: item.id,
+        toItemId: match?.id ?? null,
+        quantitySent: line.quantity,
+        unitCost: cost / line.quantity,
+      },
+    });
+    await recordInventoryTransaction(tx, {
+      inventoryItemId: item.id,
+      restaurantId: transfer.fromRestaurantId,
+      type: 'TRANSFER_OUT',
+      quantity: -line.quantity,
+      cost: -cost,
+      occurredAt: transfer.sentAt,
+      userId,
+      sourceType: 'InventoryTransfer',
+      sourceId: created.id,
+      notes: created.number,
+    });
+  }
+
+  return created;
+}
+
+/**
+ * Works out where each line of a transfer goes in the receiving restaurant:
+ * the item chosen on receipt, else the one matched by SKU when it was sent.
+ * Lines left out are taken as received in full. Returns an error with its
+ * HTTP status if a line or item is missing or the units do not convert.
+ */
+export async function resolveTransferReceipt(
+  transfer: ReceivableTransfer,
+  receipts: TransferReceiptInput[]
+): Promise<{ receipts: ResolvedTransferReceipt[] } | { error: string; status: number }> {
+  const lineIds = new Set(transfer.lines.map((line) => line.id));
+  if (receipts.some((receipt) => !lineIds.has(receipt.lineId))) {
+    return { error: 'Transfer line not found', status: 404 };
+  }
+
+  const receiptsByLine = new Map(receipts.map((receipt) => [receipt.lineId, receipt]));
+  const toItemIds = transfer.lines
+    .map((line) => receiptsByLine.get(line.id)?.toItemId ?? line.toItemId)
+    .filter((id): id is string => Boolean(id));
+  const toItems = await prisma.inventoryItem.findMany({
+    where: { id: { in: Array.from(new Set(toItemIds)) }, restaurantId: transfer.toRestaurantId },
+    include: { unitConversions: true },
+  });
+  const toItemsById = new Map(toItems.map((item) => [item.id, item]));
+
+  const resolved: ResolvedTransferReceipt[] = [];
+  for (const line of transfer.lines) {
+    const receipt = receiptsByLine.get(line.id);
+    const toItemId = receipt?.toItemId ?? line.toItemId;
+    const toItem = toItemId ? toItemsById.get(toItemId) : undefined;
+    if (toItemId && !toItem) {
+      return { error: 'Inventory item not found', status: 404 };
+    }
+
+    const factor = toItem
+      ? getConversionFactor(line.fromItem.inventoryUnit, toItem.inventoryUnit, [
+          ...line.fromItem.unitConversions,
+          ...toItem.unitConversions,
+        ])
+      : 1;
+    if (factor === null) {
+      return {
+        error: `No conversion from ${line.fromItem.inventoryUnit} to ${toItem?.inventoryUnit} for ${line.fromItem.name}`,
+        status: 400,
+      };
+    }
+
+    resolved.push({
+      line,
+      toItemId: toItem?.id ?? null,
+      quantityReceived: receipt?.quantityReceived ?? line.quantitySent,
+      discrepancyNote: receipt?.discrepancyNote || null,
+      factor,
+    });
+  }
+
+  return { receipts: resolved };
+}
+
+// Sets up an item the receiver does not stock yet as a copy of the sender's
+async function findOrCreateReceivingItem(
+  tx: Prisma.TransactionClient,
+  fromItem: SentItem,
+  restaurantId: string,
+  receivedAt: Date
+) {
+  const existing = await tx.inventoryItem.findUnique({
+    where: { restaurantId_sku: { restaurantId, sku: fromItem.sku } },
+  });
+  if (existing) return existing;
+
+  return tx.inventoryItem.create({
+    data: {
+      sku: fromItem.sku,
+      name: fromItem.name,
+      category: fromItem.category,
+      quantity: 0,
+      unitPrice: fromItem.unitPrice,
+      totalCost: 0,
+      storageLocation: fromItem.storageLocation,
+      inventoryUnit: fromItem.inventoryUnit,
+      purchaseUnit: fromItem.purchaseUnit,
+      recipeUnit: fromItem.recipeUnit,
+      purchasedAt: receivedAt,
+      restaurantId,
+      unitConversions: {
+        create: fromItem.unitConversions.map(({ fromUnit, toUnit, factor }) => ({ fromUnit, toUnit, factor })),
+      },
+    },
+  });
+}
+
+/**
+ * Adds what arrived on a transfer to the receiver's inventory at the cost it
+ * was sent at. Items the receiver does not stock yet are set up as copies of
+ * the sender's. What did not arrive stays out of both inventories and is
+ * reported as a discrepancy on the line. Returns false when the transfer
+ * was already received or cancelled.
+ */
+export async function receiveTransfer(
+  tx: Prisma.TransactionClient,
+  transfer: ReceivableTransfer,
+  receipts: ResolvedTransferReceipt[],
+  receivedAt: Date,
+  userId: string | null
+) {
+  // Claim the transfer first so it cannot also be cancelled or received twice
+  const { count: claimed } = await tx.inventoryTransfer.updateMany({
+    where: { id: transfer.id, status: 'SENT' },
+    data: { status: 'RECEIVED', receivedAt },
+  });
+  if (claimed === 0) return false;
+
+  for (const { line, toItemId, quantityReceived, discrepancyNote, factor } of receipts) {
+    const item = toItemId
+      ? await tx.inventoryItem.findUniqueOrThrow({ where: { id: toItemId } })
+      : await findOrCreateReceivingItem(tx, line.fromItem, transfer.toRestaurantId, receivedAt);
+
+    if (quantityReceived > 0) {
+      const lot = await recordPurchase(tx, item, {
+        quantity: quantityReceived * factor,
+        unitPrice: line.unitCost / factor,
+        purchasedAt: receivedAt,
+        source: 'TRANSFER',
+      });
+      await recordInventoryTransaction(tx, {
+        inventoryItemId: item.id,
+        restaurantId: transfer.toRestaurantId,
+        type: 'TRANSFER_IN',
+        quantity: lot.quantity,
+        cost: lot.totalCost,
+        occurredAt: receivedAt,
+        userId,
+        sourceType: 'InventoryTransfer',
+        sourceId: transfer.id,
+        notes: `${transfer.number} from ${transfer.fromRestaurant.name}`,
+      });
+    }
+
+    await tx.inventoryTransferLine.update({
+      where: { id: line.id },
+      data: { quantityReceived, toItemId: item.id, discrepancyNote },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Cancels a transfer that has not been received, putting the stock back into
+ * the sender's inventory at the cost it left at. Returns false when the
+ * transfer was already received or cancelled.
+ */
+export async function cancelTransfer(
+  tx: Prisma.TransactionClient,
+  transfer: InventoryTransfer & { lines: { fromItemId: string; quantitySent: number; unitCost: number }[] },
+  userId: string | null
+) {
+  // Claim the transfer first so it cannot also be received or cancelled twice
+  const { count: claimed } = await tx.inventoryTransfer.updateMany({
+    where: { id: transfer.id, status: 'SENT' },
+    data: { status: 'CANCELLED' },
+  });
+  if (claimed === 0) return false;
+
+  const cancelledAt = new Date();
+  for (const line of transfer.lines) {
+    const item = await tx.inventoryItem.findUniqueOrThrow({ where: { id: line.fromItemId } });
+    const lot = await recordPurchase(tx, item, {
+      quantity: line.quantitySent,
+      unitPrice: line.unitCost,
+      purchasedAt: cancelledAt,
+      source: 'TRANSFER',
+    });
+    await recordInventoryTransaction(tx, {
+      inventoryItemId: item.id,
+      restaurantId: transfer.fromRestaurantId,
+      type: 'TRANSFER_IN',
+      quantity: lot.quantity,
+      cost: lot.totalCost,
+      occurredAt: cancelledAt,
+      userId,
+      sourceType: 'InventoryTransfer',
+      sourceId: transfer.id,
+      notes: `${transfer.number} cancelled`,
+    });
+  }
+
+  return true;
+}
@@ -0,0 +1,94 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { calculatePriceTrend, scoreVendorDeliveries } from '@/utils/calculations';
+
+/**
+ * Returns the ID of the restaurant's vendor with this name, adding it to the
+ * vendor directory if it is new. Used where vendors arrive as names, such as
+ * imports.
+ */
+export async function findOrCreateVendor(tx: Prisma.TransactionClient, restaurantId: string, name: string) {
+  const vendor = await tx.vendor.upsert({
+    where: { restaurantId_name: { restaurantId, name } },
+    create: { restaurantId, name },
+    update: {},
+    select: { id: true },
+  });
+  return vendor.id;
+}
+
+/**
+ * Builds a scorecard for every vendor of a restaurant over a period: spend
+ * on inventory purchases and expenses, the trend in the prices paid, and
+ * the fill rate and on-time rate of purchase orders closed in the period.
+ * Expenses have no date of their own, so they count from when they were
+ * entered.
+ */
+export async function getVendorScorecards(restaurantId: string, startDate: Date, endDate: Date) {
+  const [vendors, purchases, expenses, orders] = await Promise.all([
+    prisma.vendor.findMany({ where: { restaurantId }, orderBy: { name: 'asc' } }),
+    prisma.purchaseLot.findMany({
+      where: {
+        source: 'PURCHASE',
+        vendorId: { not: null },
+        purchasedAt: { gte: startDate, lte: endDate },
+        inventoryItem: { restaurantId },
+      },
+      select: { vendorId: true, inventoryItemId: true, unitPrice: true, totalCost: true, purchasedAt: true },
+    }),
+    prisma.expense.findMany({
+      where: { restaurantId, vendorId: { not: null }, createdAt: { gte: startDate, lte: endDate } },
+      select: { vendorId: true, amount: true },
+    }),
+    prisma.purchaseOrder.findMany({
+      where: { restaurantId, status: 'RECEIVED', closedAt: { gte: startDate, lte: endDate } },
+      select: {
+        vendorId: true,
+        expectedAt: true,
+        lines: { select: { quantityOrdered: true, quantityReceived: true } },
+        receipts: { select: { receivedAt: true }, orderBy: { receivedAt: 'asc' }, take: 1 },
+      },
+    }),
+  ]);
+
+  return vendors
+    .map((vendor) => {
+      const vendorPurchases = purchases.filter((purchase) => purchase.vendorId === vendor.id);
+      const purchaseSpend = vendorPurchases.reduce((total, purchase) => total + purchase.totalCost, 0);
+      const expenseSpend = expenses
+        .filter((expense) => expense.vendorId === vendor.id)
+        .reduce((total, expense) => total + expense.amount, 0);
+
+      const monthlySpend = new Map<string, number>();
+      vendorPurchases.forEach((purchase) => {
+        const month = purchase.purchasedAt.toISOString().slice(0, 7);
+        monthlySpend.set(month, (monthlySpend.get(month) ?? 0) + purchase.totalCost);
+      });
+
+      const vendorOrders = orders.filter((order) => order.vendorId === vendor.id);
+      const deliveries = scoreVendorDeliveries(
+        vendorOrders.map((order) => ({
+          expectedAt: order.expectedAt,
+          firstReceivedAt: order.receipts[0]?.receivedAt ?? null,
+          lines: order.lines,
+        }))
+      );
+
+      return {
+        id: vendor.id,
+        name: vendor.name,
+        paymentTerms: vendor.paymentTerms,
+        purchaseSpend,
+        expenseSpend,
+        totalSpend: purchaseSpend + expenseSpend,
+        purchaseCount: vendorPurchases.length,
+        priceTrend: calculatePriceTrend(vendorPurchases),
+        monthlySpend: Array.from(monthlySpend, ([month, amount]) => ({ month, amount })).sort((a, b) =>
+          a.month.localeCompare(b.month)
+        ),
+        closedOrders: vendorOrders.length,
+        ...deliveries,
+      };
+    })
+    .sort((a, b) => b.totalSpend - a.totalSpend);
+}
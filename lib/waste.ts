@@ -0,0 +1,166 @@
+import type { InventoryItem, Prisma, WasteEntry } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { consumeInventory, consumeLot } from '@/lib/costing';
+import { recordInventoryTransaction } from '@/lib/inventory-ledger';
+import type { LinkedRecipe } from '@/lib/recipes';
+import { calculateTheoreticalUsage, summarizeWaste } from '@/utils/calculations';
+
+export interface WasteInput {
+  reason: string;
+  quantity: number; // In the item's inventory unit, or portions of the recipe
+  notes?: string;
+  wastedAt: Date;
+}
+
+/**
+ * Logs a quantity of an inventory item as waste, taking it out of stock and
+ * costing it from the item's cost layers.
+ */
+export async function recordItemWaste(
+  tx: Prisma.TransactionClient,
+  item: Pick<InventoryItem, 'id' | 'name' | 'quantity' | 'unitPrice' | 'purchasedAt' | 'restaurantId'>,
+  waste: WasteInput,
+  userId: string | null
+) {
+  const cost = await consumeInventory(tx, item, waste.quantity, waste.wastedAt);
+  const entry = await tx.wasteEntry.create({
+    data: { ...waste, cost, inventoryItemId: item.id, itemName: item.name, restaurantId: item.restaurantId },
+  });
+  await recordInventoryTransaction(tx, {
+    inventoryItemId: item.id,
+    restaurantId: item.restaurantId,
+    type: 'WASTE',
+    quantity: -waste.quantity,
+    cost: -cost,
+    occurredAt: waste.wastedAt,
+    userId,
+    sourceType: 'WasteEntry',
+    sourceId: entry.id,
+  });
+  return entry;
+}
+
+/**
+ * Logs portions of a recipe as waste. The portions are expanded, through any
+ * sub-recipes, into the inventory items they were made from, and each item
+ * is taken out of stock; the entry's cost is the total of those items.
+ */
+export async function recordRecipeWaste(
+  tx: Prisma.TransactionClient,
+  recipe: LinkedRecipe,
+  waste: WasteInput,
+  userId: string | null
+) {
+  const usage = calculateTheoreticalUsage([
+    { quantitySold: waste.quantity, servingSize: recipe.servingSize, ingredients: recipe.ingredients },
+  ]);
+  const items = await tx.inventoryItem.findMany({
+    where: { id: { in: Array.from(usage.keys()) }, restaurantId: recipe.restaurantId },
+  });
+
+  const itemCosts = new Map<string, number>();
+  for (const item of items) {
+    itemCosts.set(item.id, await consumeInventory(tx, item, usage.get(item.id) ?? 0, waste.wastedAt));
+  }
+
+  const cost = Array.from(itemCosts.values()).reduce((total, itemCost) => total + itemCost, 0);
+  const entry = await tx.wasteEntry.create({
+    data: { ...waste, cost, recipeId: recipe.id, restaurantId: recipe.restaurantId },
+  });
+  for (const [inventoryItemId, itemCost] of Array.from(itemCosts)) {
+    await recordInventoryTransaction(tx, {
+      inventoryItemId,
+      restaurantId: recipe.restaurantId,
+      type: 'WASTE',
+      quantity: -(usage.get(inventoryItemId) ?? 0),
+      cost: -itemCost,
+      occurredAt: waste.wastedAt,
+      userId,
+      sourceType: 'WasteEntry',
+      sourceId: entry.id,
+      notes: recipe.name,
+    });
+  }
+  return entry;
+}
+
+/**
+ * Writes off the remaining stock of expired lots as spoiled waste, costed at
+ * each lot's own price. Only lots past their use-by date are written off;
+ * pass lot IDs to limit it to those lots.
+ */
+export async function wasteExpiredLots(
+  tx: Prisma.TransactionClient,
+  restaurantId: string,
+  userId: string | null,
+  purchaseLotIds?: string[],
+  now: Date = new Date()
+) {
+  const lots = await tx.purchaseLot.findMany({
+    where: {
+      remainingQuantity: { gt: 0 },
+      expiresAt: { lt: new Date(now.getFullYear(), now.getMonth(), now.getDate()) },
+      inventoryItem: { restaurantId },
+      ...(purchaseLotIds && { id: { in: purchaseLotIds } }),
+    },
+    include: { inventoryItem: { select: { name: true } } },
+  });
+
+  const entries: WasteEntry[] = [];
+  for (const lot of lots) {
+    const cost = await consumeLot(tx, lot, lot.remainingQuantity, now);
+    // Another write-off got to the lot first
+    if (cost === null) continue;
+    const entry = await tx.wasteEntry.create({
+      data: {
+        reason: 'SPOILED',
+        quantity: lot.remainingQuantity,
+        cost,
+        notes: `Expired ${(lot.expiresAt as Date).toISOString().slice(0, 10)}${lot.lotNumber ? `, lot ${lot.lotNumber}` : ''}`,
+        wastedAt: now,
+        inventoryItemId: lot.inventoryItemId,
+        itemName: lot.inventoryItem.name,
+        purchaseLotId: lot.id,
+        restaurantId,
+      },
+    });
+    await recordInventoryTransaction(tx, {
+      inventoryItemId: lot.inventoryItemId,
+      restaurantId,
+      type: 'WASTE',
+      quantity: -lot.remainingQuantity,
+      cost: -cost,
+      occurredAt: now,
+      userId,
+      sourceType: 'WasteEntry',
+      sourceId: entry.id,
+      notes: entry.notes ?? undefined,
+    });
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Reports the cost of a restaurant's waste over a period by reason, by item
+ * or recipe, and by day.
+ */
+export async function getWasteReport(restaurantId: string, startDate: Date, endDate: Date) {
+  const entries = await prisma.wasteEntry.findMany({
+    where: { restaurantId, wastedAt: { gte: startDate, lte: endDate } },
+    include: {
+      inventoryItem: { select: { name: true } },
+      recipe: { select: { name: true } },
+    },
+  });
+
+  return summarizeWaste(
+    entries.map((entry) => ({
+      reason: entry.reason,
+      cost: entry.cost,
+      wastedAt: entry.wastedAt,
+      itemKey: entry.inventoryItemId ?? entry.recipeId ?? entry.id,
+      itemName: entry.inventoryItem?.name ?? entry.recipe?.name ?? entry.itemName ?? 'Unknown',
+    }))
+  );
+}
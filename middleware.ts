@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { canAccess } from '@/lib/permissions';
+import {
+  RESTAURANT_COOKIE,
+  SESSION_COOKIE,
+  selectMembership,
+  verifySessionToken,
+} from '@/lib/session';
+
+/**
+ * Guards dashboard pages and API routes.
+ * Requests without a valid session are sent to the login page (or get a 401
+ * for API calls), and the role for the current restaurant is checked against
+ * the route permissions.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const session = token ? await verifySessionToken(token) : null;
+
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const membership = selectMembership(
+    session.memberships,
+    request.cookies.get(RESTAURANT_COOKIE)?.value
+  );
+
+  if (!membership) {
+    if (isApi) {
+      return NextResponse.json({ error: 'No restaurant access' }, { status: 403 });
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('error', 'no-restaurant');
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!canAccess(membership.role, pathname, request.method)) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/dashboard', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Login, logout and first-run setup must stay reachable without a session
+  matcher: ['/dashboard/:path*', '/api/((?!auth/).*)'],
+};
@@ -1,4 +1,5 @@
 import { SaleEntry } from '@prisma/client';
+import { convertQuantity, type UnitConversion } from '@/utils/units';
 
 /**
  * Calculates Net Sales from a SaleEntry object.
@@ -8,6 +9,19 @@ export function calculateNetSales(sale: { grossSales: number; discounts: number;
   return sale.grossSales - sale.discounts - sale.refunds;
 }
 
+/**
+ * Picks the sales entries that make up each business day's sales. A day
+ * with sales recorded by the hour is counted from those, so a daily total
+ * also recorded for it is left out rather than counted twice.
+ */
+export function countedSaleEntries<T extends { date: Date | string; hourStartsAt: Date | string | null }>(
+  entries: T[]
+): T[] {
+  const dayOf = (entry: T) => new Date(entry.date).toISOString().slice(0, 10);
+  const hourlyDays = new Set(entries.filter((entry) => entry.hourStartsAt).map(dayOf));
+  return entries.filter((entry) => Boolean(entry.hourStartsAt) === hourlyDays.has(dayOf(entry)));
+}
+
 /**
  * Calculates the labor cost as a percentage of net sales.
  */
@@ -28,23 +42,158 @@ export function calculateAverageHourlyWage(totalWages: number, totalHours: numbe
   return totalWages / totalHours;
 }
 
+/**
+ * Works out the paid hours and wages of a shift: the time between clocking
+ * in and out less unpaid breaks. A shift still clocked in has no hours yet.
+ */
+export function calculateShiftPay(shift: {
+  clockIn: Date;
+  clockOut: Date | null;
+  breakMinutes: number;
+  hourlyRate: number;
+}): { hours: number; wages: number } {
+  if (!shift.clockOut) return { hours: 0, wages: 0 };
+  const minutesWorked = (shift.clockOut.getTime() - shift.clockIn.getTime()) / 60000 - shift.breakMinutes;
+  const hours = Math.max(minutesWorked, 0) / 60;
+  return { hours, wages: hours * shift.hourlyRate };
+}
+
+export interface IngredientQuantity {
+  quantityUsed: number;
+  unit?: string | null;
+  yieldPercentage?: number | null;
+  inventoryItemId?: string | null;
+  inventoryItem?: {
+    name?: string;
+    unitPrice: number;
+    inventoryUnit: string;
+    unitConversions?: UnitConversion[];
+  } | null;
+  subRecipe?: SubRecipe | null;
+}
+
+export interface SubRecipe {
+  name?: string;
+  batchYield: number;
+  yieldUnit: string;
+  ingredients: IngredientQuantity[];
+}
+
+export interface RecipeCostNode {
+  name: string;
+  quantity: number;
+  unit: string;
+  yieldPercentage: number;
+  cost: number;
+  children: RecipeCostNode[];
+}
+
+/**
+ * Converts an ingredient's quantity into its inventory item's unit, or into
+ * the number of batches of a sub-recipe it uses.
+ * Ingredients without a unit are already measured in the inventory or yield unit.
+ * Trim and cooking loss is added back, so 88% yield on 1 lb of diced onion
+ * means 1.14 lb of whole onion is used.
+ */
+export function calculateIngredientQuantity(ingredient: IngredientQuantity): number {
+  return calculateUsableQuantity(ingredient) / ((ingredient.yieldPercentage ?? 100) / 100);
+}
+
+// The ingredient's quantity in its costing unit, before yield loss
+function calculateUsableQuantity(ingredient: IngredientQuantity): number {
+  const { inventoryItem, subRecipe } = ingredient;
+  if (subRecipe) {
+    const used = ingredient.unit
+      ? convertQuantity(ingredient.quantityUsed, ingredient.unit, subRecipe.yieldUnit)
+      : ingredient.quantityUsed;
+    return subRecipe.batchYield > 0 ? used / subRecipe.batchYield : 0;
+  }
+  if (!inventoryItem || !ingredient.unit) return ingredient.quantityUsed;
+  return convertQuantity(
+    ingredient.quantityUsed,
+    ingredient.unit,
+    inventoryItem.inventoryUnit,
+    inventoryItem.unitConversions
+  );
+}
+
+// Guards the recursive calculations against recipes that contain themselves
+function assertNoCycle(subRecipe: SubRecipe, path: SubRecipe[]) {
+  if (path.includes(subRecipe)) {
+    throw new Error(`${subRecipe.name ?? 'A recipe'} uses itself as an ingredient`);
+  }
+}
+
 /**
  * Calculates the cost of a recipe based on its ingredients and current inventory prices.
+ * Unit prices are per inventory unit, so each ingredient is converted first;
+ * sub-recipes are costed recursively per batch.
  */
-export function calculateRecipeCost(ingredients: { quantityUsed: number; inventoryItem: { unitPrice: number } }[]): number {
+export function calculateRecipeCost(ingredients: IngredientQuantity[], path: SubRecipe[] = []): number {
   return ingredients.reduce((total, ingredient) => {
-    return total + (ingredient.quantityUsed * ingredient.inventoryItem.unitPrice);
+    const quantity = calculateIngredientQuantity(ingredient);
+    if (ingredient.subRecipe) {
+      assertNoCycle(ingredient.subRecipe, path);
+      return total + quantity * calculateRecipeCost(ingredient.subRecipe.ingredients, [...path, ingredient.subRecipe]);
+    }
+    return total + (quantity * (ingredient.inventoryItem?.unitPrice ?? 0));
   }, 0);
 }
 
+/**
+ * Breaks a recipe's cost down by ingredient, with sub-recipes expanded into
+ * the ingredients their share of the cost comes from.
+ */
+export function calculateRecipeCostBreakdown(
+  ingredients: IngredientQuantity[],
+  multiplier = 1,
+  path: SubRecipe[] = []
+): RecipeCostNode[] {
+  return ingredients.map((ingredient) => {
+    const quantity = calculateIngredientQuantity(ingredient) * multiplier;
+    const { inventoryItem, subRecipe } = ingredient;
+
+    if (subRecipe) {
+      assertNoCycle(subRecipe, path);
+      const children = calculateRecipeCostBreakdown(subRecipe.ingredients, quantity, [...path, subRecipe]);
+      return {
+        name: subRecipe.name ?? 'Sub-recipe',
+        quantity: ingredient.quantityUsed * multiplier,
+        unit: ingredient.unit || subRecipe.yieldUnit,
+        yieldPercentage: ingredient.yieldPercentage ?? 100,
+        cost: children.reduce((total, child) => total + child.cost, 0),
+        children,
+      };
+    }
+
+    return {
+      name: inventoryItem?.name ?? 'Unknown item',
+      quantity: ingredient.quantityUsed * multiplier,
+      unit: ingredient.unit || inventoryItem?.inventoryUnit || '',
+      yieldPercentage: ingredient.yieldPercentage ?? 100,
+      cost: quantity * (inventoryItem?.unitPrice ?? 0),
+      children: [],
+    };
+  });
+}
+
+/**
+ * Calculates the cost of one portion of a recipe.
+ * Plate Cost = Batch Cost (after yield loss) / Portions per Batch
+ */
+export function calculatePlateCost(recipe: { servingSize: number; ingredients: IngredientQuantity[] }): number {
+  return calculateRecipeCost(recipe.ingredients) / Math.max(recipe.servingSize, 1);
+}
+
 /**
  * Calculates the ideal sale price for a recipe to meet a target food cost percentage.
+ * Pass the plate cost so trim loss and portioning are accounted for.
  */
-export function calculateIdealSalePrice(recipeCost: number, targetFoodCostPercentage: number): number {
+export function calculateIdealSalePrice(plateCost: number, targetFoodCostPercentage: number): number {
   if (targetFoodCostPercentage <= 0 || targetFoodCostPercentage >= 100) {
     throw new Error('Target food cost percentage must be between 0 and 100.');
   }
-  return recipeCost / (targetFoodCostPercentage / 100);
+  return plateCost / (targetFoodCostPercentage / 100);
 }
 
 /**
@@ -53,3 +202,961 @@ export function calculateIdealSalePrice(recipeCost: number, targetFoodCostPercen
 export function calculateWeeklyCogs(inventoryItems: { totalCost: number }[]): number {
   return inventoryItems.reduce((total, item) => total + item.totalCost, 0);
 }
+
+/**
+ * Calculates theoretical ingredient usage from menu item sales.
+ * Returns the quantity of each inventory item that should have been used,
+ * in its inventory unit, keyed by inventory item id. Sub-recipes are
+ * expanded into the inventory items they are made from.
+ */
+export function calculateTheoreticalUsage(
+  soldRecipes: { quantitySold: number; servingSize?: number; ingredients: IngredientQuantity[] }[]
+): Map<string, number> {
+  const usage = new Map<string, number>();
+  const addUsage = (ingredients: IngredientQuantity[], multiplier: number, path: SubRecipe[]) => {
+    ingredients.forEach((ingredient) => {
+      const used = calculateIngredientQuantity(ingredient) * multiplier;
+      if (ingredient.subRecipe) {
+        assertNoCycle(ingredient.subRecipe, path);
+        addUsage(ingredient.subRecipe.ingredients, used, [...path, ingredient.subRecipe]);
+      } else if (ingredient.inventoryItemId) {
+        usage.set(ingredient.inventoryItemId, (usage.get(ingredient.inventoryItemId) || 0) + used);
+      }
+    });
+  };
+  // Each sale is one portion, so a recipe serving several portions is made once per that many sales
+  soldRecipes.forEach((recipe) =>
+    addUsage(recipe.ingredients, recipe.quantitySold / Math.max(recipe.servingSize ?? 1, 1), [])
+  );
+  return usage;
+}
+
+/**
+ * Calculates actual usage over a period.
+ * Actual Usage = Beginning Inventory + Purchases - Ending Inventory
+ */
+export function calculateActualUsage(beginningQuantity: number, purchasedQuantity: number, endingQuantity: number): number {
+  return beginningQuantity + purchasedQuantity - endingQuantity;
+}
+
+/**
+ * Calculates the variance between actual and theoretical usage.
+ * A positive variance means more was used than the recipes account for.
+ */
+export function calculateUsageVariance(
+  actualUsage: number,
+  theoreticalUsage: number,
+  unitPrice: number
+): { quantity: number; cost: number; percentage: number } {
+  const quantity = actualUsage - theoreticalUsage;
+  return {
+    quantity,
+    cost: quantity * unitPrice,
+    percentage: theoreticalUsage === 0 ? 0 : (quantity / theoreticalUsage) * 100,
+  };
+}
+
+export type MenuEngineeringClass = 'STAR' | 'PLOWHORSE' | 'PUZZLE' | 'DOG';
+
+/**
+ * Classifies menu items into the Kasavana-Smith menu engineering quadrants.
+ * An item is popular when its menu mix reaches 70% of an even share of sales,
+ * and profitable when its contribution margin reaches the sales-weighted
+ * average margin of the items being compared.
+ */
+export function classifyMenuItems<T extends { quantitySold: number; contributionMargin: number }>(
+  items: T[]
+): {
+  popularityThreshold: number;
+  marginThreshold: number;
+  items: (T & { menuMix: number; classification: MenuEngineeringClass })[];
+} {
+  const totalSold = items.reduce((total, item) => total + item.quantitySold, 0);
+  const totalMargin = items.reduce((total, item) => total + item.contributionMargin * item.quantitySold, 0);
+
+  const popularityThreshold = items.length > 0 ? (100 / items.length) * 0.7 : 0;
+  const marginThreshold = totalSold > 0 ? totalMargin / totalSold : 0;
+
+  return {
+    popularityThreshold,
+    marginThreshold,
+    items: items.map((item) => {
+      const menuMix = totalSold > 0 ? (item.quantitySold / totalSold) * 100 : 0;
+      const isPopular = totalSold > 0 && menuMix >= popularityThreshold;
+      const isProfitable = item.contributionMargin >= marginThreshold;
+      const classification: MenuEngineeringClass = isPopular
+        ? (isProfitable ? 'STAR' : 'PLOWHORSE')
+        : (isProfitable ? 'PUZZLE' : 'DOG');
+      return { ...item, menuMix, classification };
+    }),
+  };
+}
+
+export type PriceAdjustmentType = 'ABSOLUTE' | 'PERCENT' | 'TARGET_FOOD_COST';
+
+export interface PriceAdjustment {
+  adjustmentType: PriceAdjustmentType;
+  adjustmentValue: number;
+  // % change in units sold for each 1% change in price, usually negative
+  elasticity?: number | null;
+  // Assumed % change in units sold, used when no elasticity is given
+  volumeChange?: number | null;
+}
+
+export interface MenuItemProjection {
+  price: number;
+  quantitySold: number;
+  revenue: number;
+  foodCost: number;
+  foodCostPercentage: number;
+  contributionMargin: number;
+}
+
+function projectMenuItem(price: number, plateCost: number, quantitySold: number): MenuItemProjection {
+  const revenue = price * quantitySold;
+  const foodCost = plateCost * quantitySold;
+  return {
+    price,
+    quantitySold,
+    revenue,
+    foodCost,
+    foodCostPercentage: revenue > 0 ? (foodCost / revenue) * 100 : 0,
+    contributionMargin: revenue - foodCost,
+  };
+}
+
+/**
+ * Projects the effect of a price change on a menu item's revenue, food cost
+ * and contribution margin. "Hit X% food cost" prices the item with
+ * calculateIdealSalePrice; unit volume follows the elasticity when one is
+ * given, otherwise the assumed volume change.
+ */
+export function simulatePriceChange(
+  item: { price: number; plateCost: number; quantitySold: number },
+  adjustment: PriceAdjustment
+): { current: MenuItemProjection; projected: MenuItemProjection } {
+  let newPrice: number;
+  switch (adjustment.adjustmentType) {
+    case 'ABSOLUTE':
+      newPrice = item.price + adjustment.adjustmentValue;
+      break;
+    case 'PERCENT':
+      newPrice = item.price * (1 + adjustment.adjustmentValue / 100);
+      break;
+    case 'TARGET_FOOD_COST':
+      newPrice = calculateIdealSalePrice(item.plateCost, adjustment.adjustmentValue);
+      break;
+  }
+  newPrice = Math.max(newPrice, 0);
+
+  const priceChangePercentage = item.price > 0 ? ((newPrice - item.price) / item.price) * 100 : 0;
+  const volumeChangePercentage = adjustment.elasticity != null
+    ? adjustment.elasticity * priceChangePercentage
+    : (adjustment.volumeChange ?? 0);
+  const newQuantity = Math.max(item.quantitySold * (1 + volumeChangePercentage / 100), 0);
+
+  return {
+    current: projectMenuItem(item.price, item.plateCost, item.quantitySold),
+    projected: projectMenuItem(newPrice, item.plateCost, newQuantity),
+  };
+}
+
+/**
+ * Calculates how much each purchase price changed from the previous purchase
+ * from the same vendor, and flags changes of at least thresholdPercentage in
+ * either direction as price jumps. Purchases must be sorted oldest first.
+ */
+export function calculatePriceChanges<T extends { unitPrice: number; vendorId: string | null }>(
+  purchases: T[],
+  thresholdPercentage: number
+): (T & { changePercentage: number | null; isPriceJump: boolean })[] {
+  const lastPriceByVendor = new Map<string | null, number>();
+  return purchases.map((purchase) => {
+    const previousPrice = lastPriceByVendor.get(purchase.vendorId);
+    lastPriceByVendor.set(purchase.vendorId, purchase.unitPrice);
+
+    const changePercentage = previousPrice !== undefined && previousPrice > 0
+      ? ((purchase.unitPrice - previousPrice) / previousPrice) * 100
+      : null;
+    return {
+      ...purchase,
+      changePercentage,
+      isPriceJump: changePercentage !== null && Math.abs(changePercentage) >= thresholdPercentage,
+    };
+  });
+}
+
+export type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE';
+
+/**
+ * Splits a quantity of stock being used across an item's cost layers.
+ * FIFO takes from the oldest layers first; weighted average takes the same
+ * share of every layer, which keeps the average cost of what remains
+ * unchanged. Layers must be sorted oldest first. Usage beyond what the
+ * layers hold is left unallocated.
+ */
+export function allocateConsumption<T extends { remainingQuantity: number }>(
+  layers: T[],
+  quantity: number,
+  method: CostingMethod
+): { layer: T; quantity: number }[] {
+  const onHand = layers.reduce((total, layer) => total + layer.remainingQuantity, 0);
+  if (quantity <= 0 || onHand <= 0) return [];
+
+  if (method === 'WEIGHTED_AVERAGE') {
+    const share = Math.min(quantity / onHand, 1);
+    return layers
+      .filter((layer) => layer.remainingQuantity > 0)
+      .map((layer) => ({ layer, quantity: layer.remainingQuantity * share }));
+  }
+
+  const allocations: { layer: T; quantity: number }[] = [];
+  let remaining = quantity;
+  for (const layer of layers) {
+    if (remaining <= 0) break;
+    const taken = Math.min(layer.remainingQuantity, remaining);
+    if (taken > 0) {
+      allocations.push({ layer, quantity: taken });
+      remaining -= taken;
+    }
+  }
+  return allocations;
+}
+
+/**
+ * Checks whether an item has fallen to its reorder point, or below its par
+ * level when it has no reorder point. Items with neither are not tracked.
+ */
+export function needsReorder(item: { quantity: number; parLevel: number | null; reorderPoint: number | null }): boolean {
+  if (item.reorderPoint !== null) return item.quantity <= item.reorderPoint;
+  return item.parLevel !== null && item.quantity < item.parLevel;
+}
+
+/**
+ * Suggests how much of an item to order once it needs reordering: enough to
+ * bring stock back up to par, plus what is expected to be used before the
+ * order arrives. Items without a par level are brought back up to their
+ * reorder point.
+ */
+export function calculateSuggestedOrderQuantity(
+  item: { quantity: number; parLevel: number | null; reorderPoint: number | null },
+  averageDailyUsage = 0,
+  leadTimeDays = 0
+): number {
+  if (!needsReorder(item)) return 0;
+  const target = (item.parLevel ?? item.reorderPoint ?? 0) + averageDailyUsage * leadTimeDays;
+  return Math.max(target - item.quantity, 0);
+}
+
+export type OrderLineStatus = 'PENDING' | 'PARTIAL' | 'RECEIVED' | 'SHORT' | 'OVER';
+
+// Invoiced prices within this % of the ordered price are not flagged
+const PRICE_DISCREPANCY_TOLERANCE = 0.5;
+
+/**
+ * Compares what was received against a purchase order line. A line on a
+ * closed order that was not received in full is a short shipment. The price
+ * variance is the quantity-weighted invoiced price minus the ordered price,
+ * per order unit.
+ */
+export function summarizeOrderLine(
+  line: { quantityOrdered: number; unitPrice: number },
+  receipts: { quantity: number; unitPrice: number }[],
+  isClosed: boolean
+): {
+  quantityReceived: number;
+  quantityRemaining: number;
+  status: OrderLineStatus;
+  averageReceivedPrice: number | null;
+  priceVariance: number;
+  hasPriceDiscrepancy: boolean;
+} {
+  const quantityReceived = receipts.reduce((total, receipt) => total + receipt.quantity, 0);
+  const receivedCost = receipts.reduce((total, receipt) => total + receipt.quantity * receipt.unitPrice, 0);
+  const quantityRemaining = Math.max(line.quantityOrdered - quantityReceived, 0);
+
+  let status: OrderLineStatus;
+  if (quantityReceived > line.quantityOrdered) status = 'OVER';
+  else if (quantityRemaining === 0) status = 'RECEIVED';
+  else if (isClosed) status = 'SHORT';
+  else status = quantityReceived > 0 ? 'PARTIAL' : 'PENDING';
+
+  const averageReceivedPrice = quantityReceived > 0 ? receivedCost / quantityReceived : null;
+  const priceVariance = averageReceivedPrice === null ? 0 : averageReceivedPrice - line.unitPrice;
+  const hasPriceDiscrepancy = receipts.some((receipt) =>
+    line.unitPrice > 0
+      ? Math.abs((receipt.unitPrice - line.unitPrice) / line.unitPrice) * 100 > PRICE_DISCREPANCY_TOLERANCE
+      : receipt.unitPrice > 0
+  );
+
+  return { quantityReceived, quantityRemaining, status, averageReceivedPrice, priceVariance, hasPriceDiscrepancy };
+}
+
+/**
+ * Compares what arrived against what was sent on a transfer line. The
+ * discrepancy is received minus sent, so a shortfall is negative, and is
+ * valued at the cost the stock left the sender at.
+ */
+export function summarizeTransferLine(line: {
+  quantitySent: number;
+  quantityReceived: number | null;
+  unitCost: number;
+}): { discrepancy: number; discrepancyValue: number; hasDiscrepancy: boolean } {
+  if (line.quantityReceived === null) {
+    return { discrepancy: 0, discrepancyValue: 0, hasDiscrepancy: false };
+  }
+  const discrepancy = line.quantityReceived - line.quantitySent;
+  return {
+    discrepancy,
+    discrepancyValue: discrepancy * line.unitCost,
+    hasDiscrepancy: Math.abs(discrepancy) > 1e-9,
+  };
+}
+
+export const WEEKDAYS = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * Returns the first date on or after `from` that falls on one of the given
+ * weekdays, or null if there are none.
+ */
+export function nextDeliveryDate(deliveryDays: string[], from: Date): Date | null {
+  for (let offset = 0; offset < 7; offset++) {
+    const date = new Date(from.getTime() + offset * 24 * 60 * 60 * 1000);
+    // getDay() counts from Sunday
+    if (deliveryDays.includes(WEEKDAYS[(date.getDay() + 6) % 7])) return date;
+  }
+  return null;
+}
+
+/**
+ * Scores a vendor's closed purchase orders. The fill rate is the share of
+ * each line's ordered quantity that arrived, capped at 100% so an overage on
+ * one line does not hide a shortage on another, averaged over all lines. An
+ * order is on time if its first delivery arrived by the end of the expected
+ * day; orders without an expected date count towards the fill rate only.
+ * Rates are percentages, or null when there is nothing to score.
+ */
+export function scoreVendorDeliveries(
+  orders: {
+    expectedAt: Date | null;
+    firstReceivedAt: Date | null;
+    lines: { quantityOrdered: number; quantityReceived: number }[];
+  }[]
+): { fillRate: number | null; onTimeRate: number | null; scheduledOrders: number } {
+  const lines = orders.flatMap((order) => order.lines).filter((line) => line.quantityOrdered > 0);
+  const fillRate = lines.length > 0
+    ? (lines.reduce((total, line) => total + Math.min(line.quantityReceived / line.quantityOrdered, 1), 0) /
+        lines.length) * 100
+    : null;
+
+  const scheduled = orders.filter((order) => order.expectedAt !== null && order.firstReceivedAt !== null);
+  const onTime = scheduled.filter((order) => {
+    const endOfExpectedDay = new Date(order.expectedAt!);
+    endOfExpectedDay.setHours(23, 59, 59, 999);
+    return order.firstReceivedAt! <= endOfExpectedDay;
+  });
+
+  return {
+    fillRate,
+    onTimeRate: scheduled.length > 0 ? (onTime.length / scheduled.length) * 100 : null,
+    scheduledOrders: scheduled.length,
+  };
+}
+
+/**
+ * Averages, over every item bought more than once, the percentage change
+ * from its first to its last purchase price. Returns null if no item was
+ * bought more than once.
+ */
+export function calculatePriceTrend(
+  purchases: { inventoryItemId: string; unitPrice: number; purchasedAt: Date }[]
+): number | null {
+  const byItem = new Map<string, typeof purchases>();
+  purchases.forEach((purchase) => {
+    byItem.set(purchase.inventoryItemId, [...(byItem.get(purchase.inventoryItemId) ?? []), purchase]);
+  });
+
+  const changes = Array.from(byItem.values())
+    .filter((itemPurchases) => itemPurchases.length > 1)
+    .map((itemPurchases) => {
+      const sorted = [...itemPurchases].sort((a, b) => a.purchasedAt.getTime() - b.purchasedAt.getTime());
+      const first = sorted[0].unitPrice;
+      const last = sorted[sorted.length - 1].unitPrice;
+      return first > 0 ? ((last - first) / first) * 100 : null;
+    })
+    .filter((change): change is number => change !== null);
+
+  return changes.length > 0 ? changes.reduce((total, change) => total + change, 0) / changes.length : null;
+}
+
+export const WASTE_REASONS = ['SPOILED', 'OVERPRODUCED', 'DROPPED', 'COMPED'] as const;
+export type WasteReason = (typeof WASTE_REASONS)[number];
+
+/**
+ * Totals the cost of waste entries by reason, by what was wasted (an
+ * inventory item or a recipe) and by day. Reasons and items are sorted by
+ * cost, highest first; days run oldest first.
+ */
+export function summarizeWaste(
+  entries: { reason: string; cost: number; wastedAt: Date; itemKey: string; itemName: string }[]
+) {
+  const byReason = new Map<string, { reason: string; cost: number; count: number }>();
+  const byItem = new Map<string, { key: string; name: string; cost: number; count: number }>();
+  const byDay = new Map<string, number>();
+
+  entries.forEach((entry) => {
+    const reason = byReason.get(entry.reason) ?? { reason: entry.reason, cost: 0, count: 0 };
+    reason.cost += entry.cost;
+    reason.count += 1;
+    byReason.set(entry.reason, reason);
+
+    const item = byItem.get(entry.itemKey) ?? { key: entry.itemKey, name: entry.itemName, cost: 0, count: 0 };
+    item.cost += entry.cost;
+    item.count += 1;
+    byItem.set(entry.itemKey, item);
+
+    const day = entry.wastedAt.toISOString().slice(0, 10);
+    byDay.set(day, (byDay.get(day) ?? 0) + entry.cost);
+  });
+
+  return {
+    totalCost: entries.reduce((total, entry) => total + entry.cost, 0),
+    byReason: Array.from(byReason.values()).sort((a, b) => b.cost - a.cost),
+    byItem: Array.from(byItem.values()).sort((a, b) => b.cost - a.cost),
+    byDay: Array.from(byDay, ([date, cost]) => ({ date, cost })).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+export type ExpiryStatus = 'EXPIRED' | 'EXPIRING' | 'FRESH';
+
+/**
+ * Works out how many whole days are left before a lot's use-by date and
+ * whether it has expired or expires within the warning window. A lot can
+ * still be used on its use-by date and is expired from the day after.
+ */
+export function classifyExpiry(
+  expiresAt: Date,
+  now: Date,
+  warningDays: number
+): { daysUntilExpiry: number; status: ExpiryStatus } {
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const daysUntilExpiry = Math.round((startOfDay(expiresAt) - startOfDay(now)) / (24 * 60 * 60 * 1000));
+  const status = daysUntilExpiry < 0 ? 'EXPIRED' : daysUntilExpiry <= warningDays ? 'EXPIRING' : 'FRESH';
+  return { daysUntilExpiry, status };
+}
+
+export const LABOR_RULE_PRESETS = ['FEDERAL', 'CALIFORNIA', 'NEW_YORK', 'CUSTOM'] as const;
+export type LaborRulePreset = (typeof LABOR_RULE_PRESETS)[number];
+
+export interface LaborRules {
+  weekStartsOn: string;
+  weeklyOvertimeHours: number | null;
+  dailyOvertimeHours: number | null;
+  dailyDoubleTimeHours: number | null;
+  overtimeMultiplier: number;
+  doubleTimeMultiplier: number;
+  minimumWage: number;
+  tippedMinimumWage: number | null;
+  splitShiftGapHours: number | null;
+  spreadOfHoursLimit: number | null;
+  mealBreakAfterHours: number | null;
+  mealBreakMinutes: number;
+}
+
+/**
+ * Starting points for each preset. Wage floors change often and vary by city,
+ * so restaurants are expected to check them and adjust as a custom rule set.
+ */
+export const LABOR_RULE_DEFAULTS: Record<Exclude<LaborRulePreset, 'CUSTOM'>, LaborRules> = {
+  FEDERAL: {
+    weekStartsOn: 'MON',
+    weeklyOvertimeHours: 40,
+    dailyOvertimeHours: null,
+    dailyDoubleTimeHours: null,
+    overtimeMultiplier: 1.5,
+    doubleTimeMultiplier: 2,
+    minimumWage: 7.25,
+    tippedMinimumWage: 2.13,
+    splitShiftGapHours: null,
+    spreadOfHoursLimit: null,
+    mealBreakAfterHours: null,
+    mealBreakMinutes: 30,
+  },
+  CALIFORNIA: {
+    weekStartsOn: 'MON',
+    weeklyOvertimeHours: 40,
+    dailyOvertimeHours: 8,
+    dailyDoubleTimeHours: 12,
+    overtimeMultiplier: 1.5,
+    doubleTimeMultiplier: 2,
+    minimumWage: 16.9,
+    tippedMinimumWage: null,
+    splitShiftGapHours: 1,
+    spreadOfHoursLimit: null,
+    mealBreakAfterHours: 5,
+    mealBreakMinutes: 30,
+  },
+  NEW_YORK: {
+    weekStartsOn: 'MON',
+    weeklyOvertimeHours: 40,
+    dailyOvertimeHours: null,
+    dailyDoubleTimeHours: null,
+    overtimeMultiplier: 1.5,
+    doubleTimeMultiplier: 2,
+    minimumWage: 17,
+    tippedMinimumWage: 11.35,
+    splitShiftGapHours: null,
+    spreadOfHoursLimit: 10,
+    mealBreakAfterHours: 6,
+    mealBreakMinutes: 30,
+  },
+};
+
+/**
+ * Returns the first business day of the overtime workweek that contains the
+ * given date, at midnight UTC like shift dates.
+ */
+export function startOfWorkweek(date: Date, weekStartsOn: string): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // getUTCDay() counts from Sunday
+  const daysIntoWeek = (day.getUTCDay() + 6 - Math.max(WEEKDAYS.indexOf(weekStartsOn as Weekday), 0) + 7) % 7;
+  return new Date(day.getTime() - daysIntoWeek * 24 * 60 * 60 * 1000);
+}
+
+export interface LaborRuleShift {
+  id: string;
+  employeeId: string;
+  date: Date;
+  clockIn: Date;
+  clockOut: Date | null;
+  breakMinutes: number;
+  hourlyRate: number;
+  hours: number;
+  tipped: boolean;
+}
+
+export interface LaborRuleScheduledShift {
+  employeeId: string;
+  startsAt: Date;
+  hours: number;
+}
+
+export type LaborViolationType = 'MINIMUM_WAGE' | 'MISSED_BREAK';
+
+export interface LaborViolation {
+  type: LaborViolationType;
+  employeeId: string;
+  shiftId: string;
+  date: Date;
+  required: number; // The wage floor, or the break minutes needed
+  actual: number;
+}
+
+export interface EmployeeLaborWeek {
+  employeeId: string;
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+  overtimePremium: number; // Pay on top of straight time for overtime and double time
+  splitShiftDays: number;
+  spreadOfHoursDays: number;
+  premiumPay: number; // Overtime premium plus split-shift and spread-of-hours pay
+  projectedHours: number;
+  projectedOvertimeHours: number;
+}
+
+// Milliseconds in an hour, for working out shift lengths
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Checks one workweek of shifts against a rule set. Finished shifts are
+ * split into regular, overtime and double-time hours in the order they were
+ * worked: daily thresholds first, then weekly overtime on the hours still
+ * regular, so no hour is counted twice. Overtime is paid at each shift's own
+ * rate. Split shifts and days spanning past the spread-of-hours limit earn an
+ * extra hour at minimum wage, once per day. Hours are projected to the end of
+ * the week as the hours worked so far, counting shifts still clocked in up to
+ * `now`, plus the scheduled shifts that start after `now`.
+ */
+export function evaluateLaborRules(
+  shifts: LaborRuleShift[],
+  rules: LaborRules,
+  now: Date,
+  scheduled: LaborRuleScheduledShift[] = []
+) {
+  const byEmployee = new Map<string, LaborRuleShift[]>();
+  shifts.forEach((shift) => {
+    byEmployee.set(shift.employeeId, [...(byEmployee.get(shift.employeeId) ?? []), shift]);
+  });
+
+  // Hours still scheduled per employee, including employees yet to work this week
+  const upcomingHours = new Map<string, number>();
+  scheduled.forEach((shift) => {
+    if (shift.startsAt <= now) return;
+    upcomingHours.set(shift.employeeId, (upcomingHours.get(shift.employeeId) ?? 0) + shift.hours);
+    if (!byEmployee.has(shift.employeeId)) byEmployee.set(shift.employeeId, []);
+  });
+
+  const violations: LaborViolation[] = [];
+
+  const employees: EmployeeLaborWeek[] = Array.from(byEmployee, ([employeeId, employeeShifts]) => {
+    const sorted = employeeShifts.slice().sort((a, b) => a.clockIn.getTime() - b.clockIn.getTime());
+    const dayHours = new Map<number, number>();
+    const dayShifts = new Map<number, LaborRuleShift[]>();
+    let regularHours = 0;
+    let overtimeHours = 0;
+    let doubleTimeHours = 0;
+    let overtimePremium = 0;
+    let hoursSoFar = 0;
+
+    for (const shift of sorted) {
+      const wageFloor = shift.tipped && rules.tippedMinimumWage !== null ? rules.tippedMinimumWage : rules.minimumWage;
+      if (shift.hourlyRate < wageFloor - 1e-9) {
+        violations.push({
+          type: 'MINIMUM_WAGE',
+          employeeId,
+          shiftId: shift.id,
+          date: shift.date,
+          required: wageFloor,
+          actual: shift.hourlyRate,
+        });
+      }
+
+      if (!shift.clockOut) {
+        hoursSoFar += Math.max((now.getTime() - shift.clockIn.getTime()) / HOUR_MS - shift.breakMinutes / 60, 0);
+        continue;
+      }
+      hoursSoFar += shift.hours;
+
+      const span = (shift.clockOut.getTime() - shift.clockIn.getTime()) / HOUR_MS;
+      const needsBreak = rules.mealBreakAfterHours !== null && span > rules.mealBreakAfterHours;
+      if (needsBreak && shift.breakMinutes < rules.mealBreakMinutes) {
+        violations.push({
+          type: 'MISSED_BREAK',
+          employeeId,
+          shiftId: shift.id,
+          date: shift.date,
+          required: rules.mealBreakMinutes,
+          actual: shift.breakMinutes,
+        });
+      }
+
+      const day = shift.date.getTime();
+      dayShifts.set(day, [...(dayShifts.get(day) ?? []), shift]);
+      const before = dayHours.get(day) ?? 0;
+      const after = before + shift.hours;
+      dayHours.set(day, after);
+
+      // Hours past each daily threshold, for the part of the day this shift covers
+      const pastThreshold = (threshold: number | null) =>
+        threshold === null ? 0 : Math.max(after - Math.max(before, threshold), 0);
+      const doubleTime = pastThreshold(rules.dailyDoubleTimeHours);
+      const dailyOvertime = Math.max(pastThreshold(rules.dailyOvertimeHours) - doubleTime, 0);
+      const candidateRegular = shift.hours - dailyOvertime - doubleTime;
+      const weeklyRoom =
+        rules.weeklyOvertimeHours === null ? Infinity : Math.max(rules.weeklyOvertimeHours - regularHours, 0);
+      const regular = Math.min(candidateRegular, weeklyRoom);
+      const overtime = dailyOvertime + candidateRegular - regular;
+
+      regularHours += regular;
+      overtimeHours += overtime;
+      doubleTimeHours += doubleTime;
+      overtimePremium +=
+        overtime * shift.hourlyRate * (rules.overtimeMultiplier - 1) +
+        doubleTime * shift.hourlyRate * (rules.doubleTimeMultiplier - 1);
+    }
+
+    let splitShiftDays = 0;
+    let spreadOfHoursDays = 0;
+    const { splitShiftGapHours, spreadOfHoursLimit } = rules;
+    dayShifts.forEach((worked) => {
+      const clockOuts = worked.map((shift) => (shift.clockOut as Date).getTime());
+      const gaps = worked.slice(1).map((shift, i) => (shift.clockIn.getTime() - clockOuts[i]) / HOUR_MS);
+      if (splitShiftGapHours !== null && gaps.some((gap) => gap > splitShiftGapHours)) {
+        splitShiftDays += 1;
+      }
+      const spread = (Math.max(...clockOuts) - worked[0].clockIn.getTime()) / HOUR_MS;
+      if (spreadOfHoursLimit !== null && spread > spreadOfHoursLimit) {
+        spreadOfHoursDays += 1;
+      }
+    });
+
+    const projectedHours = hoursSoFar + (upcomingHours.get(employeeId) ?? 0);
+
+    return {
+      employeeId,
+      hours: regularHours + overtimeHours + doubleTimeHours,
+      regularHours,
+      overtimeHours,
+      doubleTimeHours,
+      overtimePremium,
+      splitShiftDays,
+      spreadOfHoursDays,
+      premiumPay: overtimePremium + (splitShiftDays + spreadOfHoursDays) * rules.minimumWage,
+      projectedHours,
+      projectedOvertimeHours:
+        rules.weeklyOvertimeHours === null ? 0 : Math.max(projectedHours - rules.weeklyOvertimeHours, 0),
+    };
+  });
+
+  return { employees, violations };
+}
+
+/**
+ * Forecasts each day's net sales for the week starting at `weekStart` as the
+ * average of the same weekday in the sales history. When the week's total is
+ * set by hand it is spread over the days in the same proportions, or evenly
+ * if there is no history.
+ */
+export function forecastWeekSales(
+  history: { date: Date; netSales: number }[],
+  weekStart: Date,
+  weekTotal: number | null
+): { date: Date; forecast: number }[] {
+  const byWeekday = new Map<number, { total: number; days: Set<number> }>();
+  history.forEach((sale) => {
+    const weekday = sale.date.getUTCDay();
+    const day = byWeekday.get(weekday) ?? { total: 0, days: new Set<number>() };
+    day.total += sale.netSales;
+    day.days.add(Date.UTC(sale.date.getUTCFullYear(), sale.date.getUTCMonth(), sale.date.getUTCDate()));
+    byWeekday.set(weekday, day);
+  });
+
+  const days = Array.from({ length: 7 }, (_, i) => {
+    const date = new Date(weekStart.getTime() + i * 24 * 60 * 60 * 1000);
+    const weekday = byWeekday.get(date.getUTCDay());
+    return { date, forecast: weekday ? weekday.total / weekday.days.size : 0 };
+  });
+  if (weekTotal === null) return days;
+
+  const historyTotal = days.reduce((total, day) => total + day.forecast, 0);
+  return days.map((day) => ({
+    date: day.date,
+    forecast: historyTotal > 0 ? (day.forecast / historyTotal) * weekTotal : weekTotal / 7,
+  }));
+}
+
+/**
+ * Compares the hours and wages each employee was scheduled for with what
+ * they actually worked. A day is missed when the employee was scheduled but
+ * did not work, and unscheduled when they worked without being scheduled.
+ * Employees are returned in the order they first appear.
+ */
+export function compareScheduleToActual(
+  scheduled: { employeeId: string; date: Date; hours: number; wages: number }[],
+  actual: { employeeId: string; date: Date; hours: number; wages: number }[]
+) {
+  const rows = new Map<
+    string,
+    {
+      employeeId: string;
+      scheduledHours: number;
+      actualHours: number;
+      scheduledWages: number;
+      actualWages: number;
+      scheduledDays: Set<number>;
+      workedDays: Set<number>;
+    }
+  >();
+  const rowFor = (employeeId: string) => {
+    const row = rows.get(employeeId) ?? {
+      employeeId,
+      scheduledHours: 0,
+      actualHours: 0,
+      scheduledWages: 0,
+      actualWages: 0,
+      scheduledDays: new Set<number>(),
+      workedDays: new Set<number>(),
+    };
+    rows.set(employeeId, row);
+    return row;
+  };
+
+  scheduled.forEach((shift) => {
+    const row = rowFor(shift.employeeId);
+    row.scheduledHours += shift.hours;
+    row.scheduledWages += shift.wages;
+    row.scheduledDays.add(shift.date.getTime());
+  });
+  actual.forEach((shift) => {
+    const row = rowFor(shift.employeeId);
+    row.actualHours += shift.hours;
+    row.actualWages += shift.wages;
+    row.workedDays.add(shift.date.getTime());
+  });
+
+  return Array.from(rows.values()).map(({ scheduledDays, workedDays, ...row }) => ({
+    ...row,
+    hoursVariance: row.actualHours - row.scheduledHours,
+    wagesVariance: row.actualWages - row.scheduledWages,
+    missedDays: Array.from(scheduledDays).filter((day) => !workedDays.has(day)).length,
+    unscheduledDays: Array.from(workedDays).filter((day) => !scheduledDays.has(day)).length,
+  }));
+}
+
+/**
+ * Calculates sales per labor hour (SPLH), the net sales each paid hour of
+ * labor brought in.
+ */
+export function calculateSalesPerLaborHour(netSales: number, laborHours: number): number {
+  if (laborHours === 0) {
+    return 0; // Avoid division by zero
+  }
+  return netSales / laborHours;
+}
+
+// Parts of the day sales and labor are compared over, by local hour. Late
+// night runs past midnight.
+export const DAYPARTS = [
+  { name: 'Breakfast', startHour: 6, endHour: 11 },
+  { name: 'Lunch', startHour: 11, endHour: 15 },
+  { name: 'Afternoon', startHour: 15, endHour: 17 },
+  { name: 'Dinner', startHour: 17, endHour: 22 },
+  { name: 'Late Night', startHour: 22, endHour: 6 },
+] as const;
+export type Daypart = (typeof DAYPARTS)[number]['name'];
+
+/**
+ * Returns the daypart a local hour (0-23) falls in.
+ */
+export function daypartForHour(hour: number): Daypart {
+  const daypart = DAYPARTS.find(({ startHour, endHour }) =>
+    startHour < endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour
+  );
+  return daypart?.name ?? 'Late Night';
+}
+
+export interface LaborTargets {
+  salesPerLaborHour: number;
+  laborPercentage: number;
+  tolerance: number; // % either side of the SPLH target
+}
+
+export const LABOR_TARGET_DEFAULTS: LaborTargets = {
+  salesPerLaborHour: 50,
+  laborPercentage: 30,
+  tolerance: 20,
+};
+
+export type StaffingStatus = 'UNDERSTAFFED' | 'OVERSTAFFED' | 'ON_TARGET';
+
+/**
+ * Judges staffing by sales per labor hour against the target: more sales
+ * per hour than the target allows means too few people were on, fewer means
+ * too many. Sales with nobody on the clock are understaffed.
+ */
+export function classifyStaffing(netSales: number, laborHours: number, targets: LaborTargets): StaffingStatus {
+  if (laborHours === 0) {
+    return netSales > 0 ? 'UNDERSTAFFED' : 'ON_TARGET';
+  }
+  const splh = netSales / laborHours;
+  const band = (targets.salesPerLaborHour * targets.tolerance) / 100;
+  if (splh > targets.salesPerLaborHour + band) return 'UNDERSTAFFED';
+  if (splh < targets.salesPerLaborHour - band) return 'OVERSTAFFED';
+  return 'ON_TARGET';
+}
+
+/**
+ * Spreads a worked shift's paid hours and wages over the clock hours it
+ * covers, in proportion to its time on the clock in each, so unpaid breaks
+ * are shared out evenly. Hours start on the hour in UTC.
+ */
+export function spreadShiftOverHours(shift: { clockIn: Date; clockOut: Date; hours: number; wages: number }) {
+  const elapsed = shift.clockOut.getTime() - shift.clockIn.getTime();
+  const hours: { hourStartsAt: Date; hours: number; wages: number }[] = [];
+  if (elapsed <= 0) return hours;
+
+  let hourStart = Math.floor(shift.clockIn.getTime() / HOUR_MS) * HOUR_MS;
+  while (hourStart < shift.clockOut.getTime()) {
+    const covered =
+      Math.min(hourStart + HOUR_MS, shift.clockOut.getTime()) - Math.max(hourStart, shift.clockIn.getTime());
+    hours.push({
+      hourStartsAt: new Date(hourStart),
+      hours: (shift.hours * covered) / elapsed,
+      wages: (shift.wages * covered) / elapsed,
+    });
+    hourStart += HOUR_MS;
+  }
+  return hours;
+}
+
+export const TIP_POOL_METHODS = ['HOURS', 'POINTS'] as const;
+export type TipPoolMethod = (typeof TIP_POOL_METHODS)[number];
+
+export const SERVICE_AREAS = ['FRONT', 'BACK'] as const;
+export type ServiceArea = (typeof SERVICE_AREAS)[number];
+
+export interface TipPoolRules {
+  method: TipPoolMethod;
+  backOfHouseShare: number | null; // % of tips for back of house; null pools everyone together
+  positions: { positionId: string; points: number; area: ServiceArea }[];
+}
+
+/**
+ * Shares one day's tips among the shifts worked in the pool's positions, by
+ * hours worked or by hours times each position's points. With a
+ * back-of-house share, that % goes to back-of-house positions and the rest
+ * to front of house; a side with nobody working passes its share to the
+ * other. Amounts are rounded to the cent with the leftover cents going to
+ * the largest fractions, so they add up to the tips exactly. Tips are only
+ * left undistributed when nobody in the pool worked.
+ */
+export function allocateTips(
+  tips: number,
+  shifts: { employeeId: string; positionId: string | null; hours: number }[],
+  pool: TipPoolRules
+) {
+  const positions = new Map(pool.positions.map((position) => [position.positionId, position]));
+  const eligible = shifts.flatMap((shift) => {
+    const position = shift.positionId ? positions.get(shift.positionId) : undefined;
+    const weight = position ? shift.hours * (pool.method === 'POINTS' ? position.points : 1) : 0;
+    return position && weight > 0 ? [{ ...shift, area: position.area, weight }] : [];
+  });
+
+  const groups =
+    pool.backOfHouseShare === null
+      ? [{ shifts: eligible, share: 1 }]
+      : [
+          { shifts: eligible.filter((shift) => shift.area === 'FRONT'), share: 1 - pool.backOfHouseShare / 100 },
+          { shifts: eligible.filter((shift) => shift.area === 'BACK'), share: pool.backOfHouseShare / 100 },
+        ];
+  const staffed = groups.filter((group) => group.shifts.length > 0);
+
+  const cents = Math.round(tips * 100);
+  const exact = new Map<string, { hours: number; cents: number }>();
+  staffed.forEach((group) => {
+    const groupCents = staffed.length === 1 ? cents : cents * group.share;
+    const totalWeight = group.shifts.reduce((total, shift) => total + shift.weight, 0);
+    group.shifts.forEach((shift) => {
+      const row = exact.get(shift.employeeId) ?? { hours: 0, cents: 0 };
+      row.hours += shift.hours;
+      row.cents += (groupCents * shift.weight) / totalWeight;
+      exact.set(shift.employeeId, row);
+    });
+  });
+
+  const allocations = Array.from(exact, ([employeeId, row]) => ({
+    employeeId,
+    hours: row.hours,
+    cents: Math.floor(row.cents),
+    remainder: row.cents - Math.floor(row.cents),
+  }));
+  let leftover = staffed.length > 0 ? cents - allocations.reduce((total, row) => total + row.cents, 0) : 0;
+  [...allocations]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((row) => {
+      if (leftover > 0) {
+        row.cents += 1;
+        leftover -= 1;
+      }
+    });
+
+  const distributedCents = allocations.reduce((total, row) => total + row.cents, 0);
+  return {
+    allocations: allocations.map(({ employeeId, hours, cents: amount }) => ({ employeeId, hours, tips: amount / 100 })),
+    distributed: distributedCents / 100,
+    undistributed: (cents - distributedCents) / 100,
+  };
+}
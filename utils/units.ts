@@ -0,0 +1,184 @@
+export type UnitDimension = 'weight' | 'volume' | 'count';
+
+/**
+ * A custom conversion for a single inventory item: 1 fromUnit = factor toUnit.
+ * e.g. { fromUnit: 'case', toUnit: '#10 can', factor: 6 }
+ */
+export interface UnitConversion {
+  fromUnit: string;
+  toUnit: string;
+  factor: number;
+}
+
+// Standard units with their size in the base unit of their dimension
+// (grams for weight, millilitres for volume, each for count)
+const STANDARD_UNITS: Record<string, { dimension: UnitDimension; toBase: number }> = {
+  mg: { dimension: 'weight', toBase: 0.001 },
+  g: { dimension: 'weight', toBase: 1 },
+  kg: { dimension: 'weight', toBase: 1000 },
+  oz: { dimension: 'weight', toBase: 28.349523125 },
+  lb: { dimension: 'weight', toBase: 453.59237 },
+  ml: { dimension: 'volume', toBase: 1 },
+  l: { dimension: 'volume', toBase: 1000 },
+  tsp: { dimension: 'volume', toBase: 4.92892159375 },
+  tbsp: { dimension: 'volume', toBase: 14.78676478125 },
+  'fl oz': { dimension: 'volume', toBase: 29.5735295625 },
+  cup: { dimension: 'volume', toBase: 236.5882365 },
+  pt: { dimension: 'volume', toBase: 473.176473 },
+  qt: { dimension: 'volume', toBase: 946.352946 },
+  gal: { dimension: 'volume', toBase: 3785.411784 },
+  each: { dimension: 'count', toBase: 1 },
+  dozen: { dimension: 'count', toBase: 12 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  milligram: 'mg',
+  milligrams: 'mg',
+  gram: 'g',
+  grams: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  ounce: 'oz',
+  ounces: 'oz',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  floz: 'fl oz',
+  'fluid ounce': 'fl oz',
+  'fluid ounces': 'fl oz',
+  cups: 'cup',
+  pint: 'pt',
+  pints: 'pt',
+  quart: 'qt',
+  quarts: 'qt',
+  gallon: 'gal',
+  gallons: 'gal',
+  ea: 'each',
+  pc: 'each',
+  pcs: 'each',
+  piece: 'each',
+  pieces: 'each',
+  dz: 'dozen',
+};
+
+export const STANDARD_UNIT_NAMES = Object.keys(STANDARD_UNITS);
+
+/**
+ * Normalizes a unit name so spelling variants ("Pounds", "lbs") compare equal.
+ * Custom units such as "case" are only trimmed and lowercased.
+ */
+export function normalizeUnit(unit: string): string {
+  const normalized = unit.trim().toLowerCase().replace(/\s+/g, ' ');
+  return UNIT_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Returns the dimension of a standard unit, or null for custom units.
+ */
+export function getUnitDimension(unit: string): UnitDimension | null {
+  return STANDARD_UNITS[normalizeUnit(unit)]?.dimension ?? null;
+}
+
+/**
+ * Returns how many toUnit make up one fromUnit, or null if the units cannot
+ * be converted. Standard units convert within their dimension; custom
+ * conversions bridge between dimensions or to custom units, in either
+ * direction and chained as needed (case -> #10 can -> oz).
+ */
+export function getConversionFactor(
+  fromUnit: string,
+  toUnit: string,
+  conversions: UnitConversion[] = []
+): number | null {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+  if (from === to) return 1;
+
+  const edges = new Map<string, { unit: string; factor: number }[]>();
+  const addEdge = (a: string, b: string, factor: number) => {
+    edges.set(a, [...(edges.get(a) ?? []), { unit: b, factor }]);
+  };
+  conversions.forEach((conversion) => {
+    if (conversion.factor <= 0) return;
+    const a = normalizeUnit(conversion.fromUnit);
+    const b = normalizeUnit(conversion.toUnit);
+    addEdge(a, b, conversion.factor);
+    addEdge(b, a, 1 / conversion.factor);
+  });
+
+  // Breadth-first search so the shortest chain of conversions is used
+  const factors = new Map<string, number>([[from, 1]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const unit = queue.shift() as string;
+    const factor = factors.get(unit) as number;
+    if (unit === to) return factor;
+
+    const neighbours = [...(edges.get(unit) ?? [])];
+    const standard = STANDARD_UNITS[unit];
+    if (standard) {
+      Object.entries(STANDARD_UNITS).forEach(([other, definition]) => {
+        if (definition.dimension === standard.dimension) {
+          neighbours.push({ unit: other, factor: standard.toBase / definition.toBase });
+        }
+      });
+    }
+
+    neighbours.forEach((neighbour) => {
+      if (!factors.has(neighbour.unit)) {
+        factors.set(neighbour.unit, factor * neighbour.factor);
+        queue.push(neighbour.unit);
+      }
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a quantity in one unit can be expressed in another.
+ */
+export function canConvert(fromUnit: string, toUnit: string, conversions: UnitConversion[] = []): boolean {
+  return getConversionFactor(fromUnit, toUnit, conversions) !== null;
+}
+
+/**
+ * Converts a quantity between units.
+ * Throws if there is no conversion between the two units.
+ */
+export function convertQuantity(
+  quantity: number,
+  fromUnit: string,
+  toUnit: string,
+  conversions: UnitConversion[] = []
+): number {
+  const factor = getConversionFactor(fromUnit, toUnit, conversions);
+  if (factor === null) {
+    throw new Error(`Cannot convert ${fromUnit} to ${toUnit}`);
+  }
+  return quantity * factor;
+}
+
+/**
+ * Returns the first unit that cannot be converted to the target unit, or
+ * null if all of them can. Empty units are skipped.
+ */
+export function findUnconvertibleUnit(
+  units: (string | null | undefined)[],
+  toUnit: string,
+  conversions: UnitConversion[] = []
+): string | null {
+  return units.find((unit) => unit && !canConvert(unit, toUnit, conversions)) ?? null;
+}